@@ -8,6 +8,7 @@ import type { BVHSplitAxis } from './BVHSplitAxis';
 export class BVHNode
 {
     public bounds: Rectangle;
+    public parent: BVHNode;
     public children: BVHNode[];
     public splitAxis: BVHSplitAxis;
     public objectOffset: number;
@@ -21,6 +22,12 @@ export class BVHNode
          */
         this.bounds = new Rectangle();
 
+        /**
+         * The parent of this node. This is `null` for the root node.
+         * @member {PIXI.BVHNode}
+         */
+        this.parent = null;
+
         /**
          * The two children of this node.
          * @member {PIXI.BVHNode[]}
@@ -54,6 +61,19 @@ export class BVHNode
         return !this.children[0] && !this.children[1];
     }
 
+    /**
+     * Recalculates the bounds of this interior node from its children's bounds.
+     *
+     * @returns {PIXI.BVHNode} this, useful for chaining
+     */
+    refitBounds(): BVHNode
+    {
+        this.bounds.copyFrom(this.children[0].bounds);
+        this.bounds.enlarge(this.children[1].bounds);
+
+        return this;
+    }
+
     /**
      * Builds a leaf `BVHNode` whose objects start at `offset` and with bounds `bounds`.
      *
@@ -84,10 +104,11 @@ export class BVHNode
         this.splitAxis = splitAxis;
         this.children[0] = child0;
         this.children[1] = child1;
+        this.objectCount = 0;
 
-        this.bounds.copyFrom(child0.bounds);
-        this.bounds.enlarge(child1.bounds);
+        child0.parent = this;
+        child1.parent = this;
 
-        return this;
+        return this.refitBounds();
     }
 }
@@ -33,4 +33,25 @@ export interface BVHObject
      * @returns {PIXI.Point}
      */
     getCentroid(point?: Point): Point;
+
+    /**
+     * Optional exact hit-test for the object. If this is not provided, point queries on a `BVHTree` will
+     * only test against the object's bounding box.
+     *
+     * @param {PIXI.Point} point - the point to test
+     * @returns {boolean} whether the point lies inside the object
+     */
+    containsPoint?(point: Point): boolean;
+
+    /**
+     * Optional exact ray intersection test for the object. If this is not provided, ray casts on a `BVHTree`
+     * will only test against the object's bounding box.
+     *
+     * @param {PIXI.Point} origin - the origin of the ray
+     * @param {PIXI.Point} direction - the unit direction of the ray
+     * @param {number} maxDistance - the maximum distance along the ray to test
+     * @returns {number} the distance along the ray at which it first intersects the object, or `Infinity`
+     *      if it doesn't intersect the object within `maxDistance`
+     */
+    raycast?(origin: Point, direction: Point, maxDistance: number): number;
 }
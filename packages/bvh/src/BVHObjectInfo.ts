@@ -10,12 +10,19 @@ import type { BVHObject } from './BVHObject';
  */
 export class BVHObjectInfo
 {
+    public object: BVHObject;
     public bounds: Rectangle;
     public boundaryLength: number;
     public centroid: Point;
 
     constructor()
     {
+        /**
+         * The object whose information is stored
+         * @member {PIXI.BVHObject}
+         */
+        this.object = null;
+
         /**
          * Axis-aligned bounding box
          * @member {PIXI.Rectangle}
@@ -46,6 +53,7 @@ export class BVHObjectInfo
         object.getBounds(this.bounds);
         object.getCentroid(this.centroid);
 
+        this.object = object;
         this.boundaryLength = object.getBoundaryLength();
 
         return this;
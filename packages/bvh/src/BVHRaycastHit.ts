@@ -0,0 +1,15 @@
+import type { BVHObject } from './BVHObject';
+
+/**
+ * An intersection of a ray with an object in a `BVHTree`.
+ *
+ * @memberof PIXI
+ * @interface
+ * @property {PIXI.BVHObject} object - the object that was hit
+ * @property {number} distance - the distance from the ray's origin to the point at which it hit the object
+ */
+export interface IBVHRaycastHit
+{
+    object: BVHObject;
+    distance: number;
+}
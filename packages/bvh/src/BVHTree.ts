@@ -1,4 +1,1045 @@
+import { BVHSplitAxis } from './BVHSplitAxis';
+import { Point, Rectangle } from '@pixi/math';
+import { nodePool } from './pools';
+import { perimeter, unionPerimeter } from './perimeter';
+
+import type { BVHNode } from './BVHNode';
+import type { BVHObject } from './BVHObject';
+import type { IBVHRaycastHit } from './BVHRaycastHit';
+
+const tempPoint = new Point();
+const tempDirection = new Point();
+const tempRect = new Rectangle();
+const insertBounds = new Rectangle();
+
+/**
+ * The centroids of the objects in a leaf being split.
+ *
+ * @ignore
+ */
+const splitCentroids: number[] = [];
+
+/**
+ * Traversal stack shared by all queries. Queries are not re-entrant, so this can be reused.
+ *
+ * @ignore
+ */
+const nodeStack: BVHNode[] = [];
+
+/**
+ * @returns whether the two rectangles overlap, edges inclusive
+ * @ignore
+ */
+function overlaps(a: Rectangle, b: Rectangle): boolean
+{
+    return a.left <= b.right
+        && a.right >= b.left
+        && a.top <= b.bottom
+        && a.bottom >= b.top;
+}
+
+/**
+ * @returns whether the point lies inside the rectangle, edges inclusive
+ * @ignore
+ */
+function containsPoint(rect: Rectangle, x: number, y: number): boolean
+{
+    return x >= rect.left
+        && x <= rect.right
+        && y >= rect.top
+        && y <= rect.bottom;
+}
+
+/**
+ * Finds the distance along a ray at which it enters a rectangle, using the slab method.
+ *
+ * @param rect - the rectangle
+ * @param ox - the x-coordinate of the ray's origin
+ * @param oy - the y-coordinate of the ray's origin
+ * @param dx - the x-component of the ray's unit direction
+ * @param dy - the y-component of the ray's unit direction
+ * @param maxDistance - the maximum distance along the ray
+ * @returns the entry distance, or `Infinity` if the ray doesn't intersect the rectangle within `maxDistance`.
+ *      If the origin is inside the rectangle, this is zero.
+ * @ignore
+ */
+function intersectRay(
+    rect: Rectangle,
+    ox: number,
+    oy: number,
+    dx: number,
+    dy: number,
+    maxDistance: number,
+): number
+{
+    let tmin = 0;
+    let tmax = maxDistance;
+
+    if (dx === 0)
+    {
+        if (ox < rect.left || ox > rect.right) return Infinity;
+    }
+    else
+    {
+        const t0 = (rect.left - ox) / dx;
+        const t1 = (rect.right - ox) / dx;
+
+        tmin = Math.max(tmin, Math.min(t0, t1));
+        tmax = Math.min(tmax, Math.max(t0, t1));
+    }
+
+    if (dy === 0)
+    {
+        if (oy < rect.top || oy > rect.bottom) return Infinity;
+    }
+    else
+    {
+        const t0 = (rect.top - oy) / dy;
+        const t1 = (rect.bottom - oy) / dy;
+
+        tmin = Math.max(tmin, Math.min(t0, t1));
+        tmax = Math.min(tmax, Math.max(t0, t1));
+    }
+
+    return tmin <= tmax ? tmin : Infinity;
+}
+
+/**
+ * @returns the distance from the point to the closest point in the rectangle. This is zero if the point is inside.
+ * @ignore
+ */
+function distanceToRect(rect: Rectangle, x: number, y: number): number
+{
+    const dx = Math.max(rect.left - x, 0, x - rect.right);
+    const dy = Math.max(rect.top - y, 0, y - rect.bottom);
+
+    return Math.sqrt((dx * dx) + (dy * dy));
+}
+
+/**
+ * A bounding volume hierarchy over a set of `BVHObject`s. The objects of each leaf node are stored
+ * contiguously in `objects`, beginning at the leaf's `objectOffset`.
+ *
+ * You should use `BVHTreeFactory.build` to create a tree. Objects can then be added or removed incrementally
+ * using `insert` and `remove`; if objects move, `refit` will update the bounds of each node.
+ *
+ * ```js
+ * import { BVHTreeFactory } from '@pixi-essentials/bvh';
+ *
+ * const tree = BVHTreeFactory.build(shapes);
+ * const hits = tree.queryPoint(pointer);
+ * ```
+ *
+ * @memberof PIXI
+ * @class
+ */
 export class BVHTree
 {
+    public root: BVHNode;
+    public objects: BVHObject[];
+    public nodeCount: number;
+    public rotations: boolean;
+    public maxObjectsPerLeaf: number;
+
+    protected _leafMap: Map<BVHObject, BVHNode>;
+    protected _freeSlots: number[];
+
+    /**
+     * @param {PIXI.BVHNode} root - the root node of the hierarchy
+     * @param {PIXI.BVHObject[]} objects - the objects in the hierarchy, ordered by leaf
+     * @param {number} nodeCount - the number of nodes in the hierarchy
+     * @param {boolean}[rotations=true] - whether to rotate the tree on incremental updates
+     * @param {number}[maxObjectsPerLeaf=4] - the maximum number of objects that incremental updates put in a leaf
+     */
+    constructor(root: BVHNode, objects: BVHObject[], nodeCount: number, rotations = true, maxObjectsPerLeaf = 4)
+    {
+        /**
+         * The root node of the hierarchy. This is `null` if the tree is empty.
+         * @member {PIXI.BVHNode}
+         */
+        this.root = root;
+
+        /**
+         * The objects in the hierarchy, ordered so that each leaf's objects are contiguous. Removing objects
+         * can leave `null` holes in this array, which are filled by later insertions.
+         * @member {PIXI.BVHObject[]}
+         */
+        this.objects = objects;
+
+        /**
+         * The number of nodes in the hierarchy.
+         * @member {number}
+         */
+        this.nodeCount = nodeCount;
+
+        /**
+         * Whether tree rotations are applied when the tree is incrementally updated. Rotations swap
+         * subtrees to reduce the perimeters of the nodes, preventing the tree's quality from degrading.
+         * @member {boolean}
+         */
+        this.rotations = rotations;
+
+        /**
+         * The maximum number of objects in a leaf. Inserting an object into a full leaf splits it into two leaves.
+         * @member {number}
+         */
+        this.maxObjectsPerLeaf = maxObjectsPerLeaf;
+
+        /**
+         * Maps each object to the leaf that contains it. This is lazily built on the first incremental update.
+         * @member {Map<PIXI.BVHObject, PIXI.BVHNode>}
+         * @protected
+         */
+        this._leafMap = null;
+
+        /**
+         * The indices of the holes in `objects`.
+         * @member {number[]}
+         * @protected
+         */
+        this._freeSlots = [];
+    }
+
+    /**
+     * Inserts an object into this tree. The object must not already be in the tree.
+     *
+     * @param {PIXI.BVHObject} object - the object to insert
+     * @returns {PIXI.BVHTree} this, useful for chaining
+     */
+    insert(object: BVHObject): this
+    {
+        const leafMap = this.getLeafMap();
+        const bounds = object.getBounds(insertBounds);
+
+        if (this.root)
+        {
+            const sibling = this.findBestSibling(bounds);
+
+            // Add the object into the leaf, splitting the leaf if it overflows
+            const slot = sibling.isLeaf() ? this.growLeaf(sibling) : -1;
+
+            if (slot !== -1)
+            {
+                this.objects[slot] = object;
+                leafMap.set(object, sibling);
+
+                if (sibling.objectCount > this.maxObjectsPerLeaf)
+                {
+                    this.splitLeaf(sibling);
+                }
+                else
+                {
+                    sibling.bounds.enlarge(bounds);
+                    this.refitAncestors(sibling.parent);
+                }
+
+                return this;
+            }
+        }
+
+        const slot = this._freeSlots.length > 0 ? this._freeSlots.pop() : this.objects.length;
+        const leaf = nodePool.allocate();
+
+        this.objects[slot] = object;
+        leaf.resetLeaf(slot, 1, bounds);
+        leaf.parent = null;
+        leafMap.set(object, leaf);
+
+        if (!this.root)
+        {
+            this.root = leaf;
+            this.nodeCount = 1;
+
+            return this;
+        }
+
+        const sibling = this.findBestSibling(bounds);
+        const oldParent = sibling.parent;
+        const newParent = nodePool.allocate();
+        const siblingBounds = sibling.bounds;
+        const leafBounds = leaf.bounds;
+
+        newParent.resetInterior(
+            Math.abs(leafBounds.x + (leafBounds.width / 2) - siblingBounds.x - (siblingBounds.width / 2))
+                >= Math.abs(leafBounds.y + (leafBounds.height / 2) - siblingBounds.y - (siblingBounds.height / 2))
+                ? BVHSplitAxis.X
+                : BVHSplitAxis.Y,
+            sibling,
+            leaf);
+        newParent.parent = oldParent;
+
+        if (oldParent)
+        {
+            oldParent.children[oldParent.children[0] === sibling ? 0 : 1] = newParent;
+        }
+        else
+        {
+            this.root = newParent;
+        }
+
+        this.nodeCount += 2;
+        this.refitAncestors(oldParent);
+
+        return this;
+    }
+
+    /**
+     * Removes an object from this tree.
+     *
+     * @param {PIXI.BVHObject} object - the object to remove
+     * @returns {PIXI.BVHTree} this, useful for chaining
+     */
+    remove(object: BVHObject): this
+    {
+        const leafMap = this.getLeafMap();
+        const leaf = leafMap.get(object);
+
+        if (!leaf)
+        {
+            return this;
+        }
+
+        const objects = this.objects;
+        const lastIndex = leaf.objectOffset + leaf.objectCount - 1;
+        const index = objects.indexOf(object, leaf.objectOffset);
+
+        // Move the leaf's last object into the removed object's place
+        objects[index] = objects[lastIndex];
+        objects[lastIndex] = null;
+        this._freeSlots.push(lastIndex);
+        leafMap.delete(object);
+        --leaf.objectCount;
+
+        if (leaf.objectCount > 0)
+        {
+            this.refitLeaf(leaf);
+            this.refitAncestors(leaf.parent);
+
+            return this;
+        }
+
+        const parent = leaf.parent;
+
+        leaf.parent = null;
+        nodePool.release(leaf);
+
+        if (!parent)
+        {
+            this.root = null;
+            this.nodeCount = 0;
+
+            return this;
+        }
+
+        const grandparent = parent.parent;
+        const sibling = parent.children[parent.children[0] === leaf ? 1 : 0];
+
+        sibling.parent = grandparent;
+
+        if (grandparent)
+        {
+            grandparent.children[grandparent.children[0] === parent ? 0 : 1] = sibling;
+        }
+        else
+        {
+            this.root = sibling;
+        }
+
+        parent.parent = parent.children[0] = parent.children[1] = null;
+        nodePool.release(parent);
+
+        this.nodeCount -= 2;
+        this.refitAncestors(grandparent);
+
+        return this;
+    }
+
+    /**
+     * Updates the bounds of each node bottom-up. This should be called after objects in the tree
+     * have moved. If `rotations` is enabled, the tree is also rotated to preserve its quality.
+     *
+     * @returns {PIXI.BVHTree} this, useful for chaining
+     */
+    refit(): this
+    {
+        if (this.root)
+        {
+            this.refitRecursive(this.root);
+        }
+
+        return this;
+    }
+
+    /**
+     * Finds all the objects whose bounding boxes overlap with `rect`.
+     *
+     * @param {PIXI.Rectangle} rect - the query rectangle
+     * @param {PIXI.BVHObject[]}[results] - the array to append the results to
+     * @returns {PIXI.BVHObject[]} the objects found
+     */
+    queryRect(rect: Rectangle, results: BVHObject[] = []): BVHObject[]
+    {
+        if (!this.root)
+        {
+            return results;
+        }
+
+        const objects = this.objects;
+        let stackSize = 0;
+
+        nodeStack[stackSize++] = this.root;
+
+        while (stackSize > 0)
+        {
+            const node = nodeStack[--stackSize];
+
+            if (!overlaps(node.bounds, rect))
+            {
+                continue;
+            }
+
+            if (node.isLeaf())
+            {
+                for (let i = node.objectOffset, j = i + node.objectCount; i < j; i++)
+                {
+                    const object = objects[i];
+
+                    if (overlaps(object.getBounds(tempRect), rect))
+                    {
+                        results.push(object);
+                    }
+                }
+            }
+            else
+            {
+                nodeStack[stackSize++] = node.children[0];
+                nodeStack[stackSize++] = node.children[1];
+            }
+        }
+
+        nodeStack.length = 0;
+
+        return results;
+    }
+
+    /**
+     * Finds all the objects that contain `point`. If an object implements `containsPoint`, it is used
+     * to test the object exactly; otherwise, only its bounding box is tested.
+     *
+     * @param {PIXI.Point} point - the query point
+     * @param {PIXI.BVHObject[]}[results] - the array to append the results to
+     * @returns {PIXI.BVHObject[]} the objects found
+     */
+    queryPoint(point: { x: number, y: number }, results: BVHObject[] = []): BVHObject[]
+    {
+        if (!this.root)
+        {
+            return results;
+        }
+
+        const { x, y } = point;
+        const objects = this.objects;
+        let stackSize = 0;
+
+        nodeStack[stackSize++] = this.root;
+
+        while (stackSize > 0)
+        {
+            const node = nodeStack[--stackSize];
+
+            if (!containsPoint(node.bounds, x, y))
+            {
+                continue;
+            }
+
+            if (node.isLeaf())
+            {
+                for (let i = node.objectOffset, j = i + node.objectCount; i < j; i++)
+                {
+                    const object = objects[i];
+
+                    if (!containsPoint(object.getBounds(tempRect), x, y))
+                    {
+                        continue;
+                    }
+                    if (object.containsPoint && !object.containsPoint(tempPoint.set(x, y)))
+                    {
+                        continue;
+                    }
+
+                    results.push(object);
+                }
+            }
+            else
+            {
+                nodeStack[stackSize++] = node.children[0];
+                nodeStack[stackSize++] = node.children[1];
+            }
+        }
+
+        nodeStack.length = 0;
+
+        return results;
+    }
+
+    /**
+     * Casts a ray into this tree and finds all the objects it hits. If an object implements `raycast`, it is used
+     * to test the object exactly; otherwise, its bounding box is tested.
+     *
+     * @param {PIXI.Point} origin - the origin of the ray
+     * @param {PIXI.Point} direction - the direction of the ray. This need not be normalized.
+     * @param {number}[maxDistance=Infinity] - the maximum distance from the origin at which objects can be hit
+     * @param {PIXI.IBVHRaycastHit[]}[results] - the array to put the hits in
+     * @returns {PIXI.IBVHRaycastHit[]} the hits, ordered by increasing distance
+     */
+    raycast(
+        origin: { x: number, y: number },
+        direction: { x: number, y: number },
+        maxDistance = Infinity,
+        results: IBVHRaycastHit[] = [],
+    ): IBVHRaycastHit[]
+    {
+        const length = Math.sqrt((direction.x * direction.x) + (direction.y * direction.y));
+
+        if (!this.root || length === 0)
+        {
+            return results;
+        }
+
+        const { x: ox, y: oy } = origin;
+        const dx = direction.x / length;
+        const dy = direction.y / length;
+        const objects = this.objects;
+        const firstResult = results.length;
+        let stackSize = 0;
+
+        nodeStack[stackSize++] = this.root;
+
+        while (stackSize > 0)
+        {
+            const node = nodeStack[--stackSize];
+
+            if (intersectRay(node.bounds, ox, oy, dx, dy, maxDistance) === Infinity)
+            {
+                continue;
+            }
+
+            if (node.isLeaf())
+            {
+                for (let i = node.objectOffset, j = i + node.objectCount; i < j; i++)
+                {
+                    const object = objects[i];
+                    let distance = intersectRay(object.getBounds(tempRect), ox, oy, dx, dy, maxDistance);
+
+                    if (distance !== Infinity && object.raycast)
+                    {
+                        distance = object.raycast(tempPoint.set(ox, oy), tempDirection.set(dx, dy), maxDistance);
+                    }
+                    if (distance !== Infinity && distance <= maxDistance)
+                    {
+                        results.push({ object, distance });
+                    }
+                }
+            }
+            else
+            {
+                nodeStack[stackSize++] = node.children[0];
+                nodeStack[stackSize++] = node.children[1];
+            }
+        }
+
+        nodeStack.length = 0;
+
+        if (firstResult === 0)
+        {
+            results.sort((a, b) => a.distance - b.distance);
+        }
+        else
+        {
+            const hits = results.splice(firstResult).sort((a, b) => a.distance - b.distance);
+
+            for (let i = 0, j = hits.length; i < j; i++)
+            {
+                results.push(hits[i]);
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Finds the `k` objects closest to `point`.
+     *
+     * The distance to an object's bounding box is used to prune the search. By default, it is also used as the
+     * distance to the object itself; you can pass an exact-distance callback, which must never return a distance
+     * less than the distance to the object's bounding box.
+     *
+     * @param {PIXI.Point} point - the query point
+     * @param {number}[k=1] - the number of objects to find
+     * @param {Function}[distance] - callback that returns the exact distance from the point to an object
+     * @param {PIXI.BVHObject[]}[results] - the array to put the objects in
+     * @returns {PIXI.BVHObject[]} the closest objects, ordered by increasing distance
+     */
+    nearest(
+        point: { x: number, y: number },
+        k = 1,
+        distance?: (object: BVHObject, point: { x: number, y: number }) => number,
+        results: BVHObject[] = [],
+    ): BVHObject[]
+    {
+        if (!this.root || k <= 0)
+        {
+            return results;
+        }
+
+        const objects: BVHObject[] = [];
+        const distances: number[] = [];
+
+        this.nearestRecursive(this.root, point, k, distance, objects, distances);
+
+        for (let i = 0, j = objects.length; i < j; i++)
+        {
+            results.push(objects[i]);
+        }
+
+        return results;
+    }
+
+    /**
+     * Searches the subtree of `node` for objects closer than the `k` closest objects found so far.
+     *
+     * @param node - the root of the subtree to search
+     * @param point - the query point
+     * @param k - the number of objects to find
+     * @param distance - the exact-distance callback, if any
+     * @param objects - the closest objects found so far, ordered by distance
+     * @param distances - the distances of `objects`
+     */
+    protected nearestRecursive(
+        node: BVHNode,
+        point: { x: number, y: number },
+        k: number,
+        distance: (object: BVHObject, point: { x: number, y: number }) => number,
+        objects: BVHObject[],
+        distances: number[],
+    ): void
+    {
+        const { x, y } = point;
+
+        if (node.isLeaf())
+        {
+            for (let i = node.objectOffset, j = i + node.objectCount; i < j; i++)
+            {
+                const object = this.objects[i];
+                const boundsDistance = distanceToRect(object.getBounds(tempRect), x, y);
+
+                if (objects.length === k && boundsDistance >= distances[k - 1])
+                {
+                    continue;
+                }
+
+                const objectDistance = distance ? distance(object, point) : boundsDistance;
+
+                if (objects.length === k && objectDistance >= distances[k - 1])
+                {
+                    continue;
+                }
+
+                // Insert the object into the sorted list
+                let index = objects.length;
+
+                while (index > 0 && distances[index - 1] > objectDistance)
+                {
+                    --index;
+                }
+
+                objects.splice(index, 0, object);
+                distances.splice(index, 0, objectDistance);
+
+                if (objects.length > k)
+                {
+                    objects.length = k;
+                    distances.length = k;
+                }
+            }
+
+            return;
+        }
+
+        // Search the closer child first so the farther one is more likely to be pruned
+        let [child0, child1] = node.children;
+        let distance0 = distanceToRect(child0.bounds, x, y);
+        let distance1 = distanceToRect(child1.bounds, x, y);
+
+        if (distance1 < distance0)
+        {
+            [child0, child1] = [child1, child0];
+            [distance0, distance1] = [distance1, distance0];
+        }
+
+        if (objects.length < k || distance0 < distances[objects.length - 1])
+        {
+            this.nearestRecursive(child0, point, k, distance, objects, distances);
+        }
+        if (objects.length < k || distance1 < distances[objects.length - 1])
+        {
+            this.nearestRecursive(child1, point, k, distance, objects, distances);
+        }
+    }
+
+    /**
+     * Finds the node that would be the cheapest sibling for a new leaf with bounds `bounds`, descending
+     * greedily into the child that increases the perimeters of the tree the least.
+     *
+     * @param bounds - the bounds of the new leaf
+     * @returns the sibling node
+     */
+    protected findBestSibling(bounds: Rectangle): BVHNode
+    {
+        let node = this.root;
+
+        while (!node.isLeaf())
+        {
+            const [child0, child1] = node.children;
+            const combinedPerimeter = unionPerimeter(node.bounds, bounds);
+
+            // Cost of making the new leaf a sibling of this node
+            const cost = 2 * combinedPerimeter;
+
+            // Minimum cost of pushing the leaf further down the tree
+            const inheritanceCost = 2 * (combinedPerimeter - perimeter(node.bounds));
+
+            const cost0 = this.descentCost(child0, bounds) + inheritanceCost;
+            const cost1 = this.descentCost(child1, bounds) + inheritanceCost;
+
+            if (cost < cost0 && cost < cost1)
+            {
+                break;
+            }
+
+            node = cost0 < cost1 ? child0 : child1;
+        }
+
+        return node;
+    }
+
+    /**
+     * @param node - a child node
+     * @param bounds - the bounds of the new leaf
+     * @returns the cost of descending into `node` when inserting a leaf with bounds `bounds`
+     */
+    protected descentCost(node: BVHNode, bounds: Rectangle): number
+    {
+        const combinedPerimeter = unionPerimeter(node.bounds, bounds);
+
+        return node.isLeaf() ? combinedPerimeter : combinedPerimeter - perimeter(node.bounds);
+    }
+
+    /**
+     * Reserves a slot in `objects` for a new object in `leaf`, keeping the leaf's objects contiguous. This
+     * succeeds only if the slot right after or before the leaf is free, so that inserts don't fragment `objects`.
+     *
+     * @param leaf - the leaf node to grow
+     * @returns the index of the reserved slot, or -1 if the leaf can't be grown in place
+     */
+    protected growLeaf(leaf: BVHNode): number
+    {
+        const freeSlots = this._freeSlots;
+        const start = leaf.objectOffset;
+        const end = start + leaf.objectCount;
+
+        if (end === this.objects.length && freeSlots.length === 0)
+        {
+            ++leaf.objectCount;
+
+            return end;
+        }
+
+        let freeSlot = freeSlots.indexOf(end);
+
+        if (freeSlot !== -1)
+        {
+            freeSlots.splice(freeSlot, 1);
+            ++leaf.objectCount;
+
+            return end;
+        }
+
+        freeSlot = freeSlots.indexOf(start - 1);
+
+        if (freeSlot !== -1)
+        {
+            freeSlots.splice(freeSlot, 1);
+            --leaf.objectOffset;
+            ++leaf.objectCount;
+
+            return start - 1;
+        }
+
+        return -1;
+    }
+
+    /**
+     * Splits a leaf with too many objects into two leaves, along the longer axis of its bounds. The leaf's objects
+     * are partitioned in-place by their centroids and `leaf` becomes an interior node.
+     *
+     * @param leaf - the leaf node to split
+     */
+    protected splitLeaf(leaf: BVHNode): void
+    {
+        const objects = this.objects;
+        const leafMap = this._leafMap;
+        const offset = leaf.objectOffset;
+        const count = leaf.objectCount;
+
+        this.refitLeaf(leaf);
+
+        const splitAxis = leaf.bounds.width >= leaf.bounds.height ? BVHSplitAxis.X : BVHSplitAxis.Y;
+
+        // Insertion sort the objects by their centroids, leaves are small
+        for (let i = 0; i < count; i++)
+        {
+            const object = objects[offset + i];
+            const bounds = object.getBounds(tempRect);
+            const centroid = splitAxis === BVHSplitAxis.X
+                ? bounds.x + (bounds.width / 2)
+                : bounds.y + (bounds.height / 2);
+            let j = i;
+
+            while (j > 0 && splitCentroids[j - 1] > centroid)
+            {
+                splitCentroids[j] = splitCentroids[j - 1];
+                objects[offset + j] = objects[offset + j - 1];
+                --j;
+            }
+
+            splitCentroids[j] = centroid;
+            objects[offset + j] = object;
+        }
+
+        splitCentroids.length = 0;
+
+        const count0 = Math.ceil(count / 2);
+        const child0 = nodePool.allocate().resetLeaf(offset, count0, leaf.bounds);
+        const child1 = nodePool.allocate().resetLeaf(offset + count0, count - count0, leaf.bounds);
+
+        this.refitLeaf(child0);
+        this.refitLeaf(child1);
+
+        for (let i = 0; i < count; i++)
+        {
+            leafMap.set(objects[offset + i], i < count0 ? child0 : child1);
+        }
+
+        leaf.resetInterior(splitAxis, child0, child1);
+
+        this.nodeCount += 2;
+        this.refitAncestors(leaf);
+    }
+
+    /**
+     * Recalculates the bounds of `node` and all its ancestors, rotating each if `rotations` is enabled.
+     *
+     * @param node - the deepest node whose bounds are to be updated
+     */
+    protected refitAncestors(node: BVHNode): void
+    {
+        while (node)
+        {
+            node.refitBounds();
+
+            if (this.rotations)
+            {
+                this.rotate(node);
+            }
+
+            node = node.parent;
+        }
+    }
+
+    /**
+     * Recalculates the bounds of each node in the subtree of `node`, children first.
+     *
+     * @param node - the root of the subtree
+     */
+    protected refitRecursive(node: BVHNode): void
+    {
+        if (node.isLeaf())
+        {
+            this.refitLeaf(node);
+
+            return;
+        }
+
+        this.refitRecursive(node.children[0]);
+        this.refitRecursive(node.children[1]);
+
+        node.refitBounds();
+
+        if (this.rotations)
+        {
+            this.rotate(node);
+        }
+    }
+
+    /**
+     * Recalculates the bounds of a leaf from its objects.
+     *
+     * @param leaf - the leaf node
+     */
+    protected refitLeaf(leaf: BVHNode): void
+    {
+        const objects = this.objects;
+        const bounds = leaf.bounds;
+
+        objects[leaf.objectOffset].getBounds(bounds);
+
+        for (let i = leaf.objectOffset + 1, j = leaf.objectOffset + leaf.objectCount; i < j; i++)
+        {
+            bounds.enlarge(objects[i].getBounds(tempRect));
+        }
+    }
+
+    /**
+     * Swaps a child of `node` with one of its grandchildren (on the other side), if that reduces the perimeter
+     * of the affected child. The bounds of `node` are unaffected by rotations.
+     *
+     * @param node - the node whose subtree is to be rotated
+     */
+    protected rotate(node: BVHNode): void
+    {
+        const [child0, child1] = node.children;
+
+        if (!child0 || !child1)
+        {
+            return;
+        }
+
+        let bestGain = 0;
+        let bestChild = -1;
+        let bestGrandchild = -1;
+
+        // Try swapping each child with the grandchildren under the other child
+        for (let i = 0; i < 2; i++)
+        {
+            const child = node.children[i];
+            const other = node.children[1 - i];
+
+            if (other.isLeaf())
+            {
+                continue;
+            }
+
+            const otherPerimeter = perimeter(other.bounds);
+
+            for (let j = 0; j < 2; j++)
+            {
+                // "other" would contain "child" and the grandchild that isn't swapped
+                const gain = otherPerimeter - unionPerimeter(child.bounds, other.children[1 - j].bounds);
+
+                if (gain > bestGain)
+                {
+                    bestGain = gain;
+                    bestChild = i;
+                    bestGrandchild = j;
+                }
+            }
+        }
+
+        if (bestChild === -1)
+        {
+            return;
+        }
+
+        const child = node.children[bestChild];
+        const other = node.children[1 - bestChild];
+        const grandchild = other.children[bestGrandchild];
+
+        node.children[bestChild] = grandchild;
+        grandchild.parent = node;
+
+        other.children[bestGrandchild] = child;
+        child.parent = other;
+
+        other.refitBounds();
+    }
+
+    /**
+     * @returns the map from each object to the leaf containing it
+     */
+    protected getLeafMap(): Map<BVHObject, BVHNode>
+    {
+        if (this._leafMap)
+        {
+            return this._leafMap;
+        }
+
+        const leafMap = this._leafMap = new Map<BVHObject, BVHNode>();
+
+        if (!this.root)
+        {
+            return leafMap;
+        }
+
+        let stackSize = 0;
+
+        nodeStack[stackSize++] = this.root;
+
+        while (stackSize > 0)
+        {
+            const node = nodeStack[--stackSize];
+
+            if (node.isLeaf())
+            {
+                for (let i = node.objectOffset, j = i + node.objectCount; i < j; i++)
+                {
+                    leafMap.set(this.objects[i], node);
+                }
+            }
+            else
+            {
+                nodeStack[stackSize++] = node.children[0];
+                nodeStack[stackSize++] = node.children[1];
+            }
+        }
+
+        nodeStack.length = 0;
+
+        return leafMap;
+    }
+
+    /**
+     * Returns all the nodes of this tree to the shared pool. The tree must not be used after this.
+     */
+    destroy(): void
+    {
+        if (this.root)
+        {
+            let stackSize = 0;
+
+            nodeStack[stackSize++] = this.root;
+
+            while (stackSize > 0)
+            {
+                const node = nodeStack[--stackSize];
+
+                if (!node.isLeaf())
+                {
+                    nodeStack[stackSize++] = node.children[0];
+                    nodeStack[stackSize++] = node.children[1];
+                }
+
+                node.parent = node.children[0] = node.children[1] = null;
+                nodePool.release(node);
+            }
+
+            nodeStack.length = 0;
+        }
 
+        this.root = null;
+        this.objects = null;
+        this.nodeCount = 0;
+        this._leafMap = null;
+        this._freeSlots = null;
+    }
 }
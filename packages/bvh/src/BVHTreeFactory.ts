@@ -1,41 +1,126 @@
-import { BVHNode } from './BVHNode';
-import { BVHObject } from './BVHObject';
+import { BVHSplitAxis } from './BVHSplitAxis';
 import { BVHTree } from './BVHTree';
-import { ObjectPoolFactory } from '@pixi-essentials/object-pool';
-import { BVHObjectInfo } from './BVHObjectInfo';
+import { nodePool, objectInfoPool, rectPool } from './pools';
+import { perimeter } from './perimeter';
 
-const nodePool = ObjectPoolFactory.build(BVHNode as unknown as ObjectConstructor);
-const objectInfoPool = ObjectPoolFactory.build(BVHObjectInfo as unknown as ObjectConstructor);
-const rectPool = ObjectPoolFactory.build(Rectangle as unknown as ObjectConstructor);
+import type { BVHNode } from './BVHNode';
+import type { BVHObject } from './BVHObject';
+import type { BVHObjectInfo } from './BVHObjectInfo';
+import type { Rectangle } from '@pixi/math';
 
 /**
+ * The options for building a `BVHTree`.
+ *
+ * @memberof PIXI
+ * @interface
+ * @property {number}[maxObjectsPerLeaf=4] - the maximum number of objects that can be put in a leaf node
+ * @property {number}[bucketCount=12] - the number of buckets used to evaluate the surface area heuristic
+ * @property {boolean}[rotations=true] - whether the tree should be rotated on incremental updates to
+ *      preserve its quality
+ */
+export interface IBVHTreeOptions
+{
+    maxObjectsPerLeaf?: number;
+    bucketCount?: number;
+    rotations?: boolean;
+}
+
+/**
+ * The cost of traversing an interior node relative to the cost of testing an object.
+ *
+ * @ignore
+ */
+const TRAVERSAL_COST = 0.125;
+
+const bucketCounts: number[] = [];
+const bucketCosts: number[] = [];
+
+/**
+ * Builds bounding volume hierarchies using the surface area heuristic (SAH).
  *
  * ```js
- * renderer.addSystem('bvh', BVHSystem)
+ * import { BVHTreeFactory } from '@pixi-essentials/bvh';
+ *
+ * const tree = BVHTreeFactory.build(objects, { maxObjectsPerLeaf: 2 });
  * ```
  *
  * @memberof PIXI
  * @class
- * @extends PIXI.System
  */
 export class BVHTreeFactory
 {
-    public static build(objects: BVHObject[]): BVHTree
+    /**
+     * Builds a `BVHTree` containing all of `objects`.
+     *
+     * @param {PIXI.BVHObject[]} objects - the objects to put in the tree
+     * @param {PIXI.IBVHTreeOptions}[options]
+     * @returns {PIXI.BVHTree}
+     */
+    public static build(objects: BVHObject[], options: IBVHTreeOptions = {}): BVHTree
     {
+        const maxObjectsPerLeaf = options.maxObjectsPerLeaf || 4;
+        const bucketCount = options.bucketCount || 12;
+        const rotations = options.rotations !== false;
+
+        if (objects.length === 0)
+        {
+            return new BVHTree(null, [], 0, rotations, maxObjectsPerLeaf);
+        }
+
         const objectInfos = objectInfoPool.allocateArray(objects.length);
 
         for (let i = 0, j = objectInfos.length; i < j; i++)
         {
             objectInfos[i].set(objects[i]);
         }
+
+        const nodeCount = { totalNodes: 0 };
+        const orderedObjects: BVHObject[] = [];
+        const bucketBounds = rectPool.allocateArray(bucketCount);
+
+        const root = BVHTreeFactory.buildRecursive(
+            objectInfos,
+            0,
+            objectInfos.length,
+            nodeCount,
+            orderedObjects,
+            maxObjectsPerLeaf,
+            bucketBounds);
+
+        root.parent = null;
+
+        for (let i = 0, j = objectInfos.length; i < j; i++)
+        {
+            objectInfos[i].object = null;
+        }
+
+        objectInfoPool.releaseArray(objectInfos);
+        rectPool.releaseArray(bucketBounds);
+
+        return new BVHTree(root, orderedObjects, nodeCount.totalNodes, rotations, maxObjectsPerLeaf);
     }
 
+    /**
+     * Builds the subtree of the objects in `objectInfos` from `start` to `end` (exclusive). The object infos
+     * in that range are reordered.
+     *
+     * @param objectInfos - the object infos to build the subtree from
+     * @param start - the index of the first object
+     * @param end - the index after the last object
+     * @param nodeCount - counter for the nodes created
+     * @param orderedObjects - the array into which the objects of leaf nodes are appended
+     * @param maxObjectsPerLeaf - the maximum number of objects in a leaf
+     * @param bucketBounds - scratch rectangles used to hold the bounds of each SAH bucket
+     * @returns the root of the subtree
+     */
     protected static buildRecursive(
         objectInfos: BVHObjectInfo[],
         start: number,
         end: number,
         nodeCount: { totalNodes: number },
-        orderedObjects: BVHObject[]): void
+        orderedObjects: BVHObject[],
+        maxObjectsPerLeaf: number,
+        bucketBounds: Rectangle[]): BVHNode
     {
         const node = nodePool.allocate();
         const bounds = node.bounds;
@@ -53,11 +138,166 @@ export class BVHTreeFactory
 
         if (objectCount === 1)
         {
+            return BVHTreeFactory.buildLeaf(node, objectInfos, start, end, orderedObjects);
+        }
+
+        // Split along the axis in which the centroids are most spread out
+        let minCentroidX = Infinity;
+        let minCentroidY = Infinity;
+        let maxCentroidX = -Infinity;
+        let maxCentroidY = -Infinity;
+
+        for (let i = start; i < end; i++)
+        {
+            const { x, y } = objectInfos[i].centroid;
 
+            minCentroidX = Math.min(minCentroidX, x);
+            minCentroidY = Math.min(minCentroidY, y);
+            maxCentroidX = Math.max(maxCentroidX, x);
+            maxCentroidY = Math.max(maxCentroidY, y);
         }
-        else
+
+        const splitAxis = (maxCentroidX - minCentroidX) >= (maxCentroidY - minCentroidY)
+            ? BVHSplitAxis.X
+            : BVHSplitAxis.Y;
+        const minCentroid = splitAxis === BVHSplitAxis.X ? minCentroidX : minCentroidY;
+        const maxCentroid = splitAxis === BVHSplitAxis.X ? maxCentroidX : maxCentroidY;
+
+        // All centroids coincide, there is no way to split these objects.
+        if (maxCentroid === minCentroid)
         {
+            return BVHTreeFactory.buildLeaf(node, objectInfos, start, end, orderedObjects);
+        }
 
+        // Bin the objects into buckets along the split axis
+        const bucketCount = bucketBounds.length;
+        const bucketScale = bucketCount / (maxCentroid - minCentroid);
+
+        for (let i = 0; i < bucketCount; i++)
+        {
+            bucketCounts[i] = 0;
         }
+
+        for (let i = start; i < end; i++)
+        {
+            const info = objectInfos[i];
+            const centroid = splitAxis === BVHSplitAxis.X ? info.centroid.x : info.centroid.y;
+            const bucket = Math.min(bucketCount - 1, Math.floor((centroid - minCentroid) * bucketScale));
+
+            if (bucketCounts[bucket] === 0)
+            {
+                bucketBounds[bucket].copyFrom(info.bounds);
+            }
+            else
+            {
+                bucketBounds[bucket].enlarge(info.bounds);
+            }
+
+            ++bucketCounts[bucket];
+        }
+
+        // Evaluate the cost of splitting after each bucket
+        const splitBounds: Rectangle = rectPool.allocate();
+        const nodePerimeter = perimeter(bounds);
+        let minCost = Infinity;
+        let minCostBucket = -1;
+
+        for (let i = 0; i < bucketCount - 1; i++)
+        {
+            let count0 = 0;
+            let count1 = 0;
+            let cost = 0;
+
+            for (let j = 0; j <= i; j++)
+            {
+                if (bucketCounts[j] === 0) continue;
+                if (count0 === 0) splitBounds.copyFrom(bucketBounds[j]);
+                else splitBounds.enlarge(bucketBounds[j]);
+
+                count0 += bucketCounts[j];
+            }
+
+            cost += count0 * perimeter(splitBounds);
+
+            for (let j = i + 1; j < bucketCount; j++)
+            {
+                if (bucketCounts[j] === 0) continue;
+                if (count1 === 0) splitBounds.copyFrom(bucketBounds[j]);
+                else splitBounds.enlarge(bucketBounds[j]);
+
+                count1 += bucketCounts[j];
+            }
+
+            cost += count1 * perimeter(splitBounds);
+
+            bucketCosts[i] = (count0 === 0 || count1 === 0)
+                ? Infinity
+                : TRAVERSAL_COST + (nodePerimeter > 0 ? cost / nodePerimeter : 0);
+
+            if (bucketCosts[i] < minCost)
+            {
+                minCost = bucketCosts[i];
+                minCostBucket = i;
+            }
+        }
+
+        rectPool.release(splitBounds);
+
+        // Creating a leaf is cheaper than splitting
+        if (objectCount <= maxObjectsPerLeaf && minCost >= objectCount)
+        {
+            return BVHTreeFactory.buildLeaf(node, objectInfos, start, end, orderedObjects);
+        }
+
+        // Partition the objects in-place around the chosen bucket
+        let mid = start;
+
+        for (let i = start; i < end; i++)
+        {
+            const info = objectInfos[i];
+            const centroid = splitAxis === BVHSplitAxis.X ? info.centroid.x : info.centroid.y;
+            const bucket = Math.min(bucketCount - 1, Math.floor((centroid - minCentroid) * bucketScale));
+
+            if (bucket <= minCostBucket)
+            {
+                objectInfos[i] = objectInfos[mid];
+                objectInfos[mid] = info;
+                ++mid;
+            }
+        }
+
+        const child0 = BVHTreeFactory.buildRecursive(
+            objectInfos, start, mid, nodeCount, orderedObjects, maxObjectsPerLeaf, bucketBounds);
+        const child1 = BVHTreeFactory.buildRecursive(
+            objectInfos, mid, end, nodeCount, orderedObjects, maxObjectsPerLeaf, bucketBounds);
+
+        return node.resetInterior(splitAxis, child0, child1);
+    }
+
+    /**
+     * Makes `node` a leaf containing the objects from `start` to `end` (exclusive).
+     *
+     * @param node - the node to make a leaf
+     * @param objectInfos - the object infos
+     * @param start - the index of the first object
+     * @param end - the index after the last object
+     * @param orderedObjects - the array into which the objects are appended
+     * @returns the leaf node
+     */
+    protected static buildLeaf(
+        node: BVHNode,
+        objectInfos: BVHObjectInfo[],
+        start: number,
+        end: number,
+        orderedObjects: BVHObject[]): BVHNode
+    {
+        const offset = orderedObjects.length;
+
+        for (let i = start; i < end; i++)
+        {
+            orderedObjects.push(objectInfos[i].object);
+        }
+
+        return node.resetLeaf(offset, end - start, node.bounds);
     }
 }
@@ -1 +1,6 @@
+export * from './BVHNode';
 export * from './BVHObject';
+export * from './BVHRaycastHit';
+export * from './BVHSplitAxis';
+export * from './BVHTree';
+export * from './BVHTreeFactory';
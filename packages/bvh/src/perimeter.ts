@@ -0,0 +1,24 @@
+import type { Rectangle } from '@pixi/math';
+
+/**
+ * In 2D, the "surface area" in the surface area heuristic is the perimeter of the bounding box.
+ *
+ * @ignore
+ * @returns the perimeter of the rectangle
+ */
+export function perimeter(rect: Rectangle): number
+{
+    return 2 * (rect.width + rect.height);
+}
+
+/**
+ * @ignore
+ * @returns the perimeter of the union of the two rectangles
+ */
+export function unionPerimeter(a: Rectangle, b: Rectangle): number
+{
+    const width = Math.max(a.right, b.right) - Math.min(a.left, b.left);
+    const height = Math.max(a.bottom, b.bottom) - Math.min(a.top, b.top);
+
+    return 2 * (width + height);
+}
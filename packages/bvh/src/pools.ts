@@ -0,0 +1,27 @@
+import { BVHNode } from './BVHNode';
+import { BVHObjectInfo } from './BVHObjectInfo';
+import { ObjectPoolFactory } from '@pixi-essentials/object-pool';
+
+import type { ObjectPool } from '@pixi-essentials/object-pool';
+import { Rectangle } from '@pixi/math';
+
+/**
+ * Pool of nodes shared by all trees.
+ *
+ * @ignore
+ */
+export const nodePool: ObjectPool<BVHNode> = ObjectPoolFactory.build(BVHNode);
+
+/**
+ * Pool of object infos used while building trees.
+ *
+ * @ignore
+ */
+export const objectInfoPool: ObjectPool<BVHObjectInfo> = ObjectPoolFactory.build(BVHObjectInfo);
+
+/**
+ * Pool of scratch rectangles.
+ *
+ * @ignore
+ */
+export const rectPool: ObjectPool<Rectangle> = ObjectPoolFactory.build(Rectangle) as ObjectPool<Rectangle>;
@@ -0,0 +1,337 @@
+const { BVHTreeFactory } = require('../');
+const { Point, Rectangle } = require('@pixi/math');
+const expect = require('chai').expect;
+
+// Axis-aligned box that implements the BVHObject interface
+class Box
+{
+    constructor(x, y, width, height)
+    {
+        this.rect = new Rectangle(x, y, width, height);
+    }
+
+    getBounds(rect = new Rectangle())
+    {
+        return rect.copyFrom(this.rect);
+    }
+
+    getBoundaryLength()
+    {
+        return 2 * (this.rect.width + this.rect.height);
+    }
+
+    getCentroid(point = new Point())
+    {
+        return point.set(this.rect.x + this.rect.width / 2, this.rect.y + this.rect.height / 2);
+    }
+}
+
+function createGrid(size)
+{
+    const boxes = [];
+
+    for (let i = 0; i < size; i++)
+    {
+        for (let j = 0; j < size; j++)
+        {
+            boxes.push(new Box(i * 10, j * 10, 8, 8));
+        }
+    }
+
+    return boxes;
+}
+
+// Checks that each node's bounds contain its children, and that the parent pointers are consistent
+function validate(tree)
+{
+    let nodeCount = 0;
+    const stack = [tree.root];
+
+    while (stack.length)
+    {
+        const node = stack.pop();
+
+        ++nodeCount;
+
+        if (node.isLeaf())
+        {
+            continue;
+        }
+
+        for (const child of node.children)
+        {
+            expect(child.parent).to.equal(node);
+            expect(child.bounds.left).to.be.at.least(node.bounds.left);
+            expect(child.bounds.top).to.be.at.least(node.bounds.top);
+            expect(child.bounds.right).to.be.at.most(node.bounds.right);
+            expect(child.bounds.bottom).to.be.at.most(node.bounds.bottom);
+
+            stack.push(child);
+        }
+    }
+
+    expect(nodeCount).to.equal(tree.nodeCount);
+}
+
+function linearQuery(boxes, query)
+{
+    return boxes.filter((box) => box.rect.left <= query.right
+        && box.rect.right >= query.left
+        && box.rect.top <= query.bottom
+        && box.rect.bottom >= query.top);
+}
+
+describe('BVHTree', function ()
+{
+    it('should contain each object in exactly one leaf', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build(boxes, { maxObjectsPerLeaf: 2 });
+
+        expect(tree.objects.length).to.equal(boxes.length);
+        expect(new Set(tree.objects).size).to.equal(boxes.length);
+
+        let objectCount = 0;
+        const stack = [tree.root];
+
+        while (stack.length)
+        {
+            const node = stack.pop();
+
+            if (node.isLeaf())
+            {
+                expect(node.objectCount).to.be.at.most(2);
+                objectCount += node.objectCount;
+            }
+            else
+            {
+                for (const child of node.children)
+                {
+                    expect(child.bounds.left).to.be.at.least(node.bounds.left);
+                    expect(child.bounds.top).to.be.at.least(node.bounds.top);
+                    expect(child.bounds.right).to.be.at.most(node.bounds.right);
+                    expect(child.bounds.bottom).to.be.at.most(node.bounds.bottom);
+                }
+
+                stack.push(node.children[0], node.children[1]);
+            }
+        }
+
+        expect(objectCount).to.equal(boxes.length);
+    });
+
+    it('should find the same objects as a linear scan in queryRect', function ()
+    {
+        const boxes = createGrid(32);
+        const tree = BVHTreeFactory.build(boxes);
+        const query = new Rectangle(45, 72, 60, 33);
+
+        const expected = linearQuery(boxes, query);
+        const actual = tree.queryRect(query);
+
+        expect(actual).to.have.members(expected);
+    });
+
+    it('should find the objects containing a point in queryPoint', function ()
+    {
+        const boxes = createGrid(32);
+        const tree = BVHTreeFactory.build(boxes);
+
+        expect(tree.queryPoint(new Point(94, 33))).to.deep.equal([boxes[9 * 32 + 3]]);
+        expect(tree.queryPoint(new Point(99, 33)).length).to.equal(0);
+    });
+
+    it('should use containsPoint to test objects exactly', function ()
+    {
+        const box = new Box(0, 0, 10, 10);
+
+        box.containsPoint = (point) => point.x < 5;
+
+        const tree = BVHTreeFactory.build([box]);
+
+        expect(tree.queryPoint(new Point(2, 2)).length).to.equal(1);
+        expect(tree.queryPoint(new Point(7, 2)).length).to.equal(0);
+    });
+
+    it('should build an empty tree', function ()
+    {
+        const tree = BVHTreeFactory.build([]);
+
+        expect(tree.root).to.equal(null);
+        expect(tree.queryRect(new Rectangle(0, 0, 100, 100)).length).to.equal(0);
+    });
+
+    it('should insert objects incrementally', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build([], { maxObjectsPerLeaf: 1 });
+        const query = new Rectangle(32, 41, 50, 70);
+
+        boxes.forEach((box) => tree.insert(box));
+
+        validate(tree);
+        expect(tree.nodeCount).to.equal(2 * boxes.length - 1);
+        expect(tree.queryRect(query)).to.have.members(linearQuery(boxes, query));
+    });
+
+    it('should fill leaves up to maxObjectsPerLeaf and split full leaves on insert', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build([], { maxObjectsPerLeaf: 4 });
+        const query = new Rectangle(32, 41, 50, 70);
+
+        boxes.forEach((box) => tree.insert(box));
+
+        validate(tree);
+
+        let leafCount = 0;
+        let objectCount = 0;
+        const stack = [tree.root];
+
+        while (stack.length)
+        {
+            const node = stack.pop();
+
+            if (node.isLeaf())
+            {
+                expect(node.objectCount).to.be.within(1, 4);
+
+                for (let i = node.objectOffset; i < node.objectOffset + node.objectCount; i++)
+                {
+                    expect(tree.objects[i]).to.not.equal(null);
+                }
+
+                ++leafCount;
+                objectCount += node.objectCount;
+            }
+            else
+            {
+                stack.push(node.children[0], node.children[1]);
+            }
+        }
+
+        expect(objectCount).to.equal(boxes.length);
+        expect(leafCount).to.be.below(boxes.length);
+        expect(tree.queryRect(query)).to.have.members(linearQuery(boxes, query));
+    });
+
+    it('should remove objects from leaves with multiple objects', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build(boxes, { maxObjectsPerLeaf: 4 });
+        const query = new Rectangle(0, 0, 160, 160);
+        const removed = boxes.filter((_, i) => i % 3 === 0);
+        const remaining = boxes.filter((_, i) => i % 3 !== 0);
+
+        removed.forEach((box) => tree.remove(box));
+
+        validate(tree);
+        expect(tree.queryRect(query)).to.have.members(remaining);
+
+        removed.forEach((box) => tree.insert(box));
+
+        validate(tree);
+        expect(tree.queryRect(query)).to.have.members(boxes);
+        expect(tree.objects.length).to.equal(boxes.length);
+    });
+
+    it('should become empty once all objects are removed', function ()
+    {
+        const boxes = createGrid(4);
+        const tree = BVHTreeFactory.build(boxes);
+
+        boxes.forEach((box) => tree.remove(box));
+
+        expect(tree.root).to.equal(null);
+        expect(tree.nodeCount).to.equal(0);
+    });
+
+    it('should update bounds when objects move in refit', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build(boxes, { maxObjectsPerLeaf: 1 });
+
+        boxes.forEach((box, i) =>
+        {
+            box.rect.x = (i * 37) % 160;
+            box.rect.y = (i * 91) % 160;
+        });
+
+        tree.refit();
+        validate(tree);
+
+        const query = new Rectangle(20, 20, 40, 40);
+
+        expect(tree.queryRect(query)).to.have.members(linearQuery(boxes, query));
+    });
+
+    it('should find the objects hit by a ray, ordered by distance', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build(boxes);
+
+        // Cast a ray through the row of boxes at y = 34
+        const hits = tree.raycast(new Point(-5, 34), new Point(2, 0));
+
+        expect(hits.length).to.equal(16);
+        hits.forEach((hit, i) =>
+        {
+            expect(hit.object).to.equal(boxes[(i * 16) + 3]);
+            expect(hit.distance).to.be.closeTo(5 + (i * 10), 1e-9);
+        });
+
+        expect(tree.raycast(new Point(-5, 34), new Point(1, 0), 30).length).to.equal(3);
+        expect(tree.raycast(new Point(-5, 39), new Point(1, 0)).length).to.equal(0);
+    });
+
+    it('should not report the objects missed by a ray in the same leaf', function ()
+    {
+        const boxes = [
+            new Box(0, 0, 10, 10),
+            new Box(0, 20, 10, 10),
+            new Box(20, 0, 10, 10),
+            new Box(20, 20, 10, 10),
+        ];
+
+        boxes[3].raycast = () => Infinity;
+
+        const tree = BVHTreeFactory.build(boxes);
+        const hits = tree.raycast(new Point(-5, 25), new Point(1, 0));
+
+        expect(hits.map((hit) => [boxes.indexOf(hit.object), hit.distance])).to.deep.equal([[1, 5]]);
+    });
+
+    it('should use raycast to test objects exactly', function ()
+    {
+        const box = new Box(0, 0, 10, 10);
+
+        box.raycast = (origin, direction) => (direction.x > 0 ? 5 - origin.x : Infinity);
+
+        const tree = BVHTreeFactory.build([box]);
+        const hits = tree.raycast(new Point(-10, 5), new Point(1, 0));
+
+        expect(hits.length).to.equal(1);
+        expect(hits[0].distance).to.equal(15);
+        expect(tree.raycast(new Point(-10, 5), new Point(1, 0), 12).length).to.equal(0);
+    });
+
+    it('should find the k nearest objects', function ()
+    {
+        const boxes = createGrid(16);
+        const tree = BVHTreeFactory.build(boxes, { maxObjectsPerLeaf: 2 });
+        const point = new Point(57, 83);
+        const centroidDistance = (box, p) =>
+        {
+            const centroid = box.getCentroid();
+
+            return Math.sqrt(((centroid.x - p.x) ** 2) + ((centroid.y - p.y) ** 2));
+        };
+
+        const expected = boxes.slice()
+            .sort((a, b) => centroidDistance(a, point) - centroidDistance(b, point))
+            .slice(0, 5);
+
+        expect(tree.nearest(point, 5, centroidDistance)).to.deep.equal(expected);
+        expect(tree.nearest(new Point(94, 33))).to.deep.equal([boxes[(9 * 16) + 3]]);
+    });
+});
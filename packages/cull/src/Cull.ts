@@ -1,7 +1,15 @@
+import { BVHTreeFactory } from '@pixi-essentials/bvh';
+import { CullEntry } from './CullEntry';
 import { DisplayObject, Container } from '@pixi/display';
-import { Rectangle } from '@pixi/math';
+import { Rectangle, Transform } from '@pixi/math';
+import { transformRect } from './transformRect';
+
+import type { BVHTree } from '@pixi-essentials/bvh';
 
 const tempRect = new Rectangle();
+const queryRect = new Rectangle();
+const identityTransform = new Transform();
+const ancestors: DisplayObject[] = [];
 
 /**
  * The culling options for {@code Cull}.
@@ -13,6 +21,7 @@ export interface ICullOptions
 {
     recursive: boolean;
     toggle: 'visible' | 'renderable';
+    spatialIndex: boolean;
 }
 
 /**
@@ -21,6 +30,12 @@ export interface ICullOptions
  * If your scene graph is not static, culling needs to be done before rendering. You
  * can run it on the `prerender` event fired by the renderer.
  *
+ * If you have a large number of targets (e.g. the tiles of a tile map), you can enable the spatial index
+ * mode. The bounds of each target, in its parent's space, are then kept in a bounding volume hierarchy, and the
+ * culling toggle is only flipped on targets whose visibility changed since the last cull. The parents can move
+ * freely; however, if a target moves relative to its parent (or is reparented), you must call `update` on it. In
+ * this mode, the targets themselves are culled but not their subtrees, i.e. the `recursive` option is ignored.
+ *
  * @public
  */
 export class Cull
@@ -28,18 +43,34 @@ export class Cull
     private _recursive: boolean;
     private _toggle: 'visible' | 'renderable';
     private _targetList: Set<DisplayObject>;
+    private _spatialIndex: boolean;
+    private _entries: Map<DisplayObject, CullEntry>;
+    private _visibleEntries: CullEntry[];
+    private _queryResults: CullEntry[];
+    private _pendingEntries: CullEntry[];
+    private _trees: Map<DisplayObject, BVHTree>;
+    private _cullID: number;
 
     /**
      * @param options
      * @param [options.recursive] - whether culling should be recursive
      * @param [options.toggle='renderable'] - which property of display-object was be set to indicate
      *      its culling state. It should be one of `renderable`, `visible`.
+     * @param [options.spatialIndex=false] - whether to keep the bounds of the targets in a spatial index, so that
+     *      only the targets whose visibility changed are toggled.
      */
     constructor(options: Partial<ICullOptions> = {})
     {
         this._recursive = typeof options.recursive === 'boolean' ? options.recursive : true;
         this._toggle = options.toggle || 'visible';
         this._targetList = new Set<DisplayObject>();
+        this._spatialIndex = !!options.spatialIndex;
+        this._entries = new Map<DisplayObject, CullEntry>();
+        this._visibleEntries = [];
+        this._queryResults = [];
+        this._pendingEntries = [];
+        this._trees = new Map<DisplayObject, BVHTree>();
+        this._cullID = 0;
     }
 
     /**
@@ -52,6 +83,11 @@ export class Cull
     {
         this._targetList.add(target);
 
+        if (this._spatialIndex)
+        {
+            this.addEntry(target);
+        }
+
         return this;
     }
 
@@ -66,6 +102,11 @@ export class Cull
         for (let i = 0, j = targets.length; i < j; i++)
         {
             this._targetList.add(targets[i]);
+
+            if (this._spatialIndex)
+            {
+                this.addEntry(targets[i]);
+            }
         }
 
         return this;
@@ -81,6 +122,11 @@ export class Cull
     {
         this._targetList.delete(target);
 
+        if (this._spatialIndex)
+        {
+            this.removeEntry(target);
+        }
+
         return this;
     }
 
@@ -95,6 +141,32 @@ export class Cull
         for (let i = 0, j = targets.length; i < j; i++)
         {
             this._targetList.delete(targets[i]);
+
+            if (this._spatialIndex)
+            {
+                this.removeEntry(targets[i]);
+            }
+        }
+
+        return this;
+    }
+
+    /**
+     * Recalculates the bounds of the target in the spatial index. This must be called when the target moves
+     * relative to its parent, its contents change, or it is reparented.
+     *
+     * @param target - the display-object whose bounds changed
+     * @return this
+     */
+    update(target: DisplayObject): this
+    {
+        const entry = this._spatialIndex ? this._entries.get(target) : null;
+
+        if (entry)
+        {
+            this._trees.get(entry.parent).remove(entry);
+            entry.updateBounds();
+            this.getTree(entry.parent).insert(entry);
         }
 
         return this;
@@ -109,6 +181,15 @@ export class Cull
     {
         this._targetList.clear();
 
+        if (this._spatialIndex)
+        {
+            this._trees.forEach((tree) => tree.destroy());
+            this._trees.clear();
+            this._entries.clear();
+            this._visibleEntries.length = 0;
+            this._pendingEntries.length = 0;
+        }
+
         return this;
     }
 
@@ -121,6 +202,11 @@ export class Cull
      */
     cull(rect: Rectangle, skipUpdate = false): this
     {
+        if (this._spatialIndex)
+        {
+            return this.cullSpatial(rect, skipUpdate);
+        }
+
         if (!skipUpdate)
         {
             this.uncull();
@@ -166,6 +252,20 @@ export class Cull
      */
     uncull(): this
     {
+        if (this._spatialIndex)
+        {
+            this._visibleEntries.length = 0;
+
+            this._entries.forEach((entry) =>
+            {
+                entry.target[this._toggle] = true;
+                entry.visible = true;
+                this._visibleEntries.push(entry);
+            });
+
+            return this;
+        }
+
         this._targetList.forEach((target) =>
         {
             if (this._recursive)
@@ -181,6 +281,183 @@ export class Cull
         return this;
     }
 
+    /**
+     * Culls the targets using the spatial index. Only the targets whose visibility changed since the last cull
+     * are toggled.
+     *
+     * @param rect - the visibility rectangle
+     * @param skipUpdate - whether to skip the transform update and bounds calculation of the targets
+     * @return this
+     */
+    protected cullSpatial(rect: Rectangle, skipUpdate: boolean): this
+    {
+        const toggle = this._toggle;
+        const cullID = ++this._cullID;
+        const visibleEntries = this._queryResults;
+
+        this._trees.forEach((tree, parent) =>
+        {
+            if (parent && !skipUpdate)
+            {
+                this.updateParentTransform(parent);
+            }
+
+            const parentRect = parent ? transformRect(rect, parent.worldTransform, true, queryRect) : rect;
+            const start = visibleEntries.length;
+            let end = start;
+
+            tree.queryRect(parentRect, visibleEntries);
+
+            // The tree includes entries touching the rectangle, but they are culled like in the non-spatial mode
+            for (let i = start, j = visibleEntries.length; i < j; i++)
+            {
+                const bounds = visibleEntries[i].bounds;
+
+                if (bounds.right > parentRect.left
+                    && bounds.left < parentRect.right
+                    && bounds.bottom > parentRect.top
+                    && bounds.top < parentRect.bottom)
+                {
+                    visibleEntries[end++] = visibleEntries[i];
+                }
+            }
+
+            visibleEntries.length = end;
+        });
+
+        for (let i = 0, j = visibleEntries.length; i < j; i++)
+        {
+            const entry = visibleEntries[i];
+
+            entry.cullID = cullID;
+
+            if (entry.visible !== true)
+            {
+                entry.target[toggle] = true;
+                entry.visible = true;
+            }
+        }
+
+        // Cull the targets that are no longer visible
+        const lastVisibleEntries = this._visibleEntries;
+
+        for (let i = 0, j = lastVisibleEntries.length; i < j; i++)
+        {
+            const entry = lastVisibleEntries[i];
+
+            if (entry.cullID !== cullID && entry.visible)
+            {
+                entry.target[toggle] = false;
+                entry.visible = false;
+            }
+        }
+
+        // Targets added since the last cull have an unknown culling state
+        const pendingEntries = this._pendingEntries;
+
+        for (let i = 0, j = pendingEntries.length; i < j; i++)
+        {
+            const entry = pendingEntries[i];
+
+            if (entry.cullID !== cullID && this._entries.get(entry.target) === entry)
+            {
+                entry.target[toggle] = false;
+                entry.visible = false;
+            }
+        }
+
+        pendingEntries.length = 0;
+
+        // Swap the buffers so the results of this cull are reused for the next query
+        lastVisibleEntries.length = 0;
+        this._queryResults = lastVisibleEntries;
+        this._visibleEntries = visibleEntries;
+
+        return this;
+    }
+
+    /**
+     * Adds the target to the spatial index.
+     *
+     * @param target - the display-object to be culled
+     */
+    protected addEntry(target: DisplayObject): void
+    {
+        if (this._entries.has(target))
+        {
+            return;
+        }
+
+        const entry = new CullEntry(target);
+
+        entry.updateBounds();
+
+        this._entries.set(target, entry);
+        this._pendingEntries.push(entry);
+        this.getTree(entry.parent).insert(entry);
+    }
+
+    /**
+     * Removes the target from the spatial index.
+     *
+     * @param target - the display-object to be removed
+     */
+    protected removeEntry(target: DisplayObject): void
+    {
+        const entry = this._entries.get(target);
+
+        if (!entry)
+        {
+            return;
+        }
+
+        this._entries.delete(target);
+        this._trees.get(entry.parent).remove(entry);
+
+        // Don't toggle the removed target on the next cull
+        entry.visible = false;
+    }
+
+    /**
+     * Updates the world transform of the parent of some targets. Unlike `getBounds`, this doesn't update the
+     * transforms of the targets themselves.
+     *
+     * @param parent - the parent of the targets
+     */
+    protected updateParentTransform(parent: DisplayObject): void
+    {
+        for (let ancestor = parent; ancestor; ancestor = ancestor.parent)
+        {
+            ancestors.push(ancestor);
+        }
+
+        for (let i = ancestors.length - 1; i >= 0; i--)
+        {
+            const ancestor = ancestors[i];
+
+            ancestor.transform.updateTransform(ancestor.parent ? ancestor.parent.transform : identityTransform);
+        }
+
+        ancestors.length = 0;
+    }
+
+    /**
+     * @param parent - the parent of the targets
+     * @return the spatial index of the targets under `parent`
+     */
+    protected getTree(parent: DisplayObject): BVHTree
+    {
+        let tree = this._trees.get(parent);
+
+        if (!tree)
+        {
+            tree = BVHTreeFactory.build([]);
+            this._trees.set(parent, tree);
+        }
+
+        return tree;
+    }
+
     /**
      * Recursively culls the subtree of {@code displayObject}.
      *
@@ -0,0 +1,70 @@
+import { Point, Rectangle } from '@pixi/math';
+import { transformRect } from './transformRect';
+
+import type { BVHObject } from '@pixi-essentials/bvh';
+import type { DisplayObject } from '@pixi/display';
+
+const tempRect = new Rectangle();
+
+/**
+ * Wraps a culling target so it can be put in the spatial index of {@code Cull}. It caches the bounds of the
+ * target in its parent's space, so they stay valid while the parent moves.
+ *
+ * @internal
+ * @ignore
+ */
+export class CullEntry implements BVHObject
+{
+    /** The display-object being culled. */
+    public target: DisplayObject;
+
+    /** The parent of the target when its bounds were last calculated. */
+    public parent: DisplayObject;
+
+    /** The bounds of the target in its parent's space. */
+    public bounds: Rectangle;
+
+    /** Whether the target was visible after the last cull. This is `null` until it is first culled. */
+    public visible: boolean;
+
+    /** The ID of the last cull in which the target was found visible. */
+    public cullID: number;
+
+    constructor(target: DisplayObject)
+    {
+        this.target = target;
+        this.parent = null;
+        this.bounds = new Rectangle();
+        this.visible = null;
+        this.cullID = -1;
+    }
+
+    /**
+     * Recalculates the cached bounds of the target in its parent's space.
+     */
+    updateBounds(): void
+    {
+        const target = this.target;
+        const localBounds = target.getLocalBounds(tempRect);
+
+        target.transform.updateLocalTransform();
+
+        this.parent = target.parent;
+        transformRect(localBounds, target.transform.localTransform, false, this.bounds);
+    }
+
+    getBounds(rect = new Rectangle()): Rectangle
+    {
+        return rect.copyFrom(this.bounds);
+    }
+
+    getBoundaryLength(): number
+    {
+        return 2 * (this.bounds.width + this.bounds.height);
+    }
+
+    getCentroid(point = new Point()): Point
+    {
+        return point.set(this.bounds.x + (this.bounds.width / 2), this.bounds.y + (this.bounds.height / 2));
+    }
+}
@@ -0,0 +1,54 @@
+import { Point } from '@pixi/math';
+
+import type { Matrix, Rectangle } from '@pixi/math';
+
+const tempCorners = [new Point(), new Point(), new Point(), new Point()];
+
+/**
+ * Calculates the axis-aligned bounding box of a rectangle after it is transformed.
+ *
+ * @ignore
+ * @param rect - the rectangle to transform
+ * @param matrix - the transformation matrix
+ * @param inverse - whether to apply the inverse of the matrix instead
+ * @param out - the rectangle to store the result in. This can be the same as `rect`.
+ * @returns the bounding box of the transformed rectangle
+ */
+export function transformRect(rect: Rectangle, matrix: Matrix, inverse: boolean, out: Rectangle): Rectangle
+{
+    tempCorners[0].set(rect.left, rect.top);
+    tempCorners[1].set(rect.right, rect.top);
+    tempCorners[2].set(rect.right, rect.bottom);
+    tempCorners[3].set(rect.left, rect.bottom);
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (let i = 0; i < 4; i++)
+    {
+        const corner = tempCorners[i];
+
+        if (inverse)
+        {
+            matrix.applyInverse(corner, corner);
+        }
+        else
+        {
+            matrix.apply(corner, corner);
+        }
+
+        minX = Math.min(minX, corner.x);
+        minY = Math.min(minY, corner.y);
+        maxX = Math.max(maxX, corner.x);
+        maxY = Math.max(maxY, corner.y);
+    }
+
+    out.x = minX;
+    out.y = minY;
+    out.width = maxX - minX;
+    out.height = maxY - minY;
+
+    return out;
+}
@@ -41,4 +41,109 @@ describe('Cull', () =>
         expect(stage.transform._worldID).to.equal(stageTransformID);
         expect(rect1.transform._worldID).to.equal(rect1TransformID);
     });
+
+    it('should cull targets using the spatial index', () =>
+    {
+        const cull = new Cull({ spatialIndex: true, toggle: 'renderable' });
+
+        const stage = new Container();
+        const tiles = [];
+
+        for (let i = 0; i < 10; i++)
+        {
+            for (let j = 0; j < 10; j++)
+            {
+                tiles.push(stage.addChild(new Graphics().drawRect(i * 100, j * 100, 100, 100)));
+            }
+        }
+
+        cull.addAll(tiles);
+        cull.cull(new Rectangle(150, 150, 200, 200));
+
+        tiles.forEach((tile, i) =>
+        {
+            const x = Math.floor(i / 10);
+            const y = i % 10;
+
+            expect(tile.renderable).to.equal(x >= 1 && x <= 3 && y >= 1 && y <= 3);
+        });
+    });
+
+    it('should only toggle targets whose visibility changed in the spatial index', () =>
+    {
+        const cull = new Cull({ spatialIndex: true, toggle: 'renderable' });
+
+        const stage = new Container();
+        const left = stage.addChild(new Graphics().drawRect(0, 0, 100, 100));
+        const right = stage.addChild(new Graphics().drawRect(200, 0, 100, 100));
+
+        cull.addAll([left, right]);
+        cull.cull(new Rectangle(0, 0, 150, 150));
+
+        expect(left.renderable).to.equal(true);
+        expect(right.renderable).to.equal(false);
+
+        // A target whose visibility didn't change isn't toggled again
+        left.renderable = false;
+        right.position.set(-200, 0);
+        cull.update(right);
+        cull.cull(new Rectangle(0, 0, 150, 150));
+
+        expect(left.renderable).to.equal(false);
+        expect(right.renderable).to.equal(true);
+    });
+
+    it('should cull targets when their parent moves without updating the spatial index', () =>
+    {
+        const cull = new Cull({ spatialIndex: true, toggle: 'renderable' });
+
+        const stage = new Container();
+        const tilemap = stage.addChild(new Container());
+        const left = tilemap.addChild(new Graphics().drawRect(0, 0, 100, 100));
+        const right = tilemap.addChild(new Graphics().drawRect(200, 0, 100, 100));
+
+        cull.addAll([left, right]);
+        cull.cull(new Rectangle(0, 0, 150, 150));
+
+        expect(left.renderable).to.equal(true);
+        expect(right.renderable).to.equal(false);
+
+        tilemap.position.set(-200, 0);
+        cull.cull(new Rectangle(0, 0, 150, 150));
+
+        expect(left.renderable).to.equal(false);
+        expect(right.renderable).to.equal(true);
+
+        tilemap.position.set(0, 0);
+        tilemap.scale.set(0.5);
+        cull.cull(new Rectangle(0, 0, 150, 150));
+
+        expect(left.renderable).to.equal(true);
+        expect(right.renderable).to.equal(true);
+    });
+
+    it('should cull targets touching the edges of the rectangle in both modes', () =>
+    {
+        const rect = new Rectangle(100, 100, 100, 100);
+
+        [false, true].forEach((spatialIndex) =>
+        {
+            const cull = new Cull({ spatialIndex, recursive: false, toggle: 'renderable' });
+
+            const stage = new Container();
+            const touching = [
+                stage.addChild(new Graphics().drawRect(0, 100, 100, 100)),
+                stage.addChild(new Graphics().drawRect(200, 100, 100, 100)),
+                stage.addChild(new Graphics().drawRect(100, 0, 100, 100)),
+                stage.addChild(new Graphics().drawRect(100, 200, 100, 100)),
+            ];
+            const overlapping = stage.addChild(new Graphics().drawRect(199, 199, 100, 100));
+
+            cull.addAll(touching.concat(overlapping));
+            cull.cull(rect);
+
+            touching.forEach((target) => expect(target.renderable).to.equal(false));
+            expect(overlapping.renderable).to.equal(true);
+        });
+    });
 });
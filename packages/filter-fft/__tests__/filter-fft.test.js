@@ -1,7 +1,90 @@
 'use strict';
 
-const filterFft = require('..');
+const { ConvolutionFilter, FFTFilter, FFTPassFilter } = require('..');
+const { BaseTexture, Texture } = require('@pixi/core');
+const expect = require('chai').expect;
 
-describe('filter-fft', () => {
-    it('needs tests');
+describe('FFTPassFilter', () =>
+{
+    it('should flip the sign of the twiddle factors for the inverse transform', () =>
+    {
+        const pass = new FFTPassFilter(true);
+
+        expect(pass.inverse).to.equal(false);
+        expect(pass.uniforms.twiddleSign).to.equal(-1);
+
+        pass.inverse = true;
+
+        expect(pass.uniforms.twiddleSign).to.equal(1);
+        expect(pass.state.blend).to.equal(false);
+    });
+});
+
+describe('FFTFilter', () =>
+{
+    it('should evaluate the kernel callback with the zero frequency at the center', () =>
+    {
+        const filter = new FFTFilter((u, v) => (u === 0 && v === 0 ? 1 : [u, v]));
+        const kernelTexture = filter.getKernelTexture(8, 4);
+        const data = kernelTexture.baseTexture.resource.data;
+
+        expect(kernelTexture.width).to.equal(8);
+        expect(kernelTexture.height).to.equal(4);
+
+        // (x, y) = (4, 2) is the zero frequency
+        expect(data[((2 * 8) + 4) * 4]).to.equal(1);
+
+        // (x, y) = (0, 0) is the frequency (-0.5, -0.5)
+        expect(data[0]).to.equal(-0.5);
+        expect(data[1]).to.equal(-0.5);
+    });
+
+    it('should cache the kernel texture until the kernel changes', () =>
+    {
+        const filter = new FFTFilter(() => 1);
+        const kernelTexture = filter.getKernelTexture(4, 4);
+
+        expect(filter.getKernelTexture(4, 4)).to.equal(kernelTexture);
+        expect(filter.getKernelTexture(8, 4)).to.not.equal(kernelTexture);
+
+        const texture = Texture.WHITE;
+
+        filter.kernel = texture;
+
+        expect(filter.getKernelTexture(8, 4)).to.equal(texture);
+    });
+});
+
+describe('ConvolutionFilter', () =>
+{
+    function createKernel(width, height)
+    {
+        return new Texture(BaseTexture.fromBuffer(new Float32Array(width * height * 4), width, height));
+    }
+
+    it('should pad the filter with the radius of the kernel', () =>
+    {
+        const filter = new ConvolutionFilter(createKernel(9, 5));
+
+        expect(filter.padding).to.equal(5);
+
+        filter.kernel = createKernel(32, 64);
+
+        expect(filter.padding).to.equal(32);
+    });
+
+    it('should pad the transform so that the convolution does not wrap around', () =>
+    {
+        const filter = new ConvolutionFilter(createKernel(9, 5));
+
+        expect(filter.getTransformSize(100, 60)).to.deep.equal([128, 64]);
+        expect(filter.getTransformSize(120, 61)).to.deep.equal([128, 128]);
+        expect(filter.getTransformSize(121, 61)).to.deep.equal([256, 128]);
+    });
+
+    it('should normalize the kernel by default', () =>
+    {
+        expect(new ConvolutionFilter(createKernel(3, 3)).normalize).to.equal(true);
+        expect(new ConvolutionFilter(createKernel(3, 3), { normalize: false }).normalize).to.equal(false);
+    });
 });
@@ -0,0 +1,283 @@
+import { CLEAR_MODES, SCALE_MODES, TYPES } from '@pixi/constants';
+import { Filter, RenderTexture, Texture } from '@pixi/core';
+import { FFTFilter } from './FFTFilter';
+import { FFTPackMode } from './FFTPackMode';
+import convolutionKernelSrc from './convolution-kernel.frag';
+import fftVertexSrc from './fft.vert';
+
+import type { FilterSystem } from '@pixi/core';
+
+/**
+ * The options for a `ConvolutionFilter`.
+ *
+ * @memberof PIXI
+ * @interface
+ * @property {PIXI.FFTPackMode}[packMode=PIXI.FFTPackMode.RGBA] - which channels of the input are filtered
+ * @property {boolean}[normalize=true] - whether the kernel's weights are scaled to sum up to one
+ * @property {number}[bias=0] - the value subtracted from the luminance of each kernel pixel to get its weight
+ */
+export interface IConvolutionFilterOptions
+{
+    packMode?: FFTPackMode;
+    normalize?: boolean;
+    bias?: number;
+}
+
+/**
+ * Convolves an image with an arbitrary kernel image, e.g. a bokeh shape, a motion-blur streak, or an emboss
+ * kernel. The convolution is done by multiplying the spectra of the image and the kernel, so its cost doesn't
+ * depend on the size of the kernel.
+ *
+ * The weight of each kernel pixel is its (premultiplied) luminance, minus the `bias`. The center of the kernel
+ * texture is the origin of the kernel. The kernel's spectrum is computed on the GPU and is cached until the kernel
+ * changes. If the kernel texture's contents change (say, it's a render-texture), you should call
+ * {@code ConvolutionFilter#invalidateKernel}.
+ *
+ * The filter's `padding` is set to the radius of the kernel so the spread of the kernel isn't clipped, and the
+ * transform is padded with the kernel's size so the image doesn't wrap around.
+ *
+ * ```js
+ * import { ConvolutionFilter } from '@pixi-essentials/filter-fft';
+ *
+ * sprite.filters = [new ConvolutionFilter(Texture.from('hexagonal-bokeh.png'))];
+ * ```
+ *
+ * @memberof PIXI
+ * @class
+ * @extends PIXI.FFTFilter
+ */
+export class ConvolutionFilter extends FFTFilter
+{
+    protected _kernel: Texture;
+    protected _bias: number;
+
+    protected kernelPackFilter: Filter;
+    protected kernelSignalTextures: [RenderTexture, RenderTexture];
+
+    /**
+     * @param {PIXI.Texture} kernel - the spatial kernel
+     * @param {PIXI.IConvolutionFilterOptions}[options]
+     */
+    constructor(kernel: Texture, options: IConvolutionFilterOptions = {})
+    {
+        super(null, options.packMode !== undefined ? options.packMode : FFTPackMode.RGBA);
+
+        this._bias = options.bias || 0;
+
+        /**
+         * Packs the kernel into a real signal.
+         *
+         * @member {PIXI.Filter}
+         * @protected
+         */
+        this.kernelPackFilter = new Filter(fftVertexSrc, convolutionKernelSrc, {
+            uKernel: Texture.WHITE,
+            transformSize: new Float32Array(2),
+            kernelFrame: new Float32Array(4),
+            kernelSize: new Float32Array(2),
+            kernelBias: 0,
+        });
+        this.kernelPackFilter.state.blend = false;
+
+        /**
+         * The floating-point textures used to compute the kernel's spectrum.
+         *
+         * @member {PIXI.RenderTexture[]}
+         * @protected
+         */
+        this.kernelSignalTextures = [null, null];
+
+        this.normalize = options.normalize !== false;
+        this.kernel = kernel;
+    }
+
+    /**
+     * The spatial kernel. Setting it also updates the filter's padding.
+     *
+     * @member {PIXI.Texture}
+     */
+    get kernel(): Texture
+    {
+        return this._kernel;
+    }
+    set kernel(value: Texture)
+    {
+        if (this._kernel)
+        {
+            this._kernel.baseTexture.off('loaded', this.updatePadding, this);
+        }
+
+        this._kernel = value;
+        this._kernelDirty = true;
+
+        if (value && !value.baseTexture.valid)
+        {
+            value.baseTexture.once('loaded', this.updatePadding, this);
+        }
+
+        this.updatePadding();
+    }
+
+    /**
+     * Whether the kernel's weights are scaled to sum up to one, so that the filter preserves the brightness of the
+     * image. This should be disabled for kernels whose weights sum up to zero, e.g. edge detection.
+     *
+     * @member {boolean}
+     */
+    get normalize(): boolean
+    {
+        return this.kernelFilter.uniforms.normalizeKernel;
+    }
+    set normalize(value: boolean)
+    {
+        this.kernelFilter.uniforms.normalizeKernel = value;
+    }
+
+    /**
+     * The value subtracted from the luminance of each kernel pixel to get its weight. A bias of 0.5 lets 8-bit
+     * textures encode negative weights.
+     *
+     * @member {number}
+     * @default 0
+     */
+    get bias(): number
+    {
+        return this._bias;
+    }
+    set bias(value: number)
+    {
+        this._bias = value;
+        this._kernelDirty = true;
+    }
+
+    /**
+     * Sets the padding of the filter to the radius of the kernel.
+     */
+    protected updatePadding(): void
+    {
+        const kernel = this._kernel;
+
+        this.padding = kernel && kernel.valid ? Math.ceil(Math.max(kernel.width, kernel.height) / 2) : 0;
+    }
+
+    /**
+     * Pads the transform with the size of the kernel, so that the convolution doesn't wrap around.
+     *
+     * @override
+     */
+    protected getTransformSize(frameWidth: number, frameHeight: number): [number, number]
+    {
+        const kernel = this._kernel;
+
+        if (!kernel || !kernel.valid)
+        {
+            return super.getTransformSize(frameWidth, frameHeight);
+        }
+
+        const resolution = kernel.baseTexture.resolution;
+
+        return super.getTransformSize(
+            frameWidth + Math.ceil(kernel.width * resolution) - 1,
+            frameHeight + Math.ceil(kernel.height * resolution) - 1,
+        );
+    }
+
+    /**
+     * Computes the spectrum of the kernel.
+     *
+     * @override
+     */
+    protected getKernelTexture(width: number, height: number, filterManager?: FilterSystem): Texture
+    {
+        const kernel = this._kernel;
+
+        if (!kernel || !kernel.valid)
+        {
+            return null;
+        }
+
+        const kernelTexture = this._kernelTexture;
+
+        if (kernelTexture
+            && !this._kernelDirty
+            && kernelTexture.width === width
+            && kernelTexture.height === height)
+        {
+            return kernelTexture;
+        }
+
+        const { baseTexture, frame } = kernel;
+        const resolution = baseTexture.resolution;
+        const uniforms = this.kernelPackFilter.uniforms;
+        const [signal, swap] = this.getKernelSignalTextures(width, height);
+
+        uniforms.uKernel = kernel;
+        uniforms.transformSize[0] = width;
+        uniforms.transformSize[1] = height;
+        uniforms.kernelFrame[0] = frame.x / baseTexture.width;
+        uniforms.kernelFrame[1] = frame.y / baseTexture.height;
+        uniforms.kernelFrame[2] = frame.width / baseTexture.width;
+        uniforms.kernelFrame[3] = frame.height / baseTexture.height;
+        uniforms.kernelSize[0] = Math.ceil(frame.width * resolution);
+        uniforms.kernelSize[1] = Math.ceil(frame.height * resolution);
+        uniforms.kernelBias = this._bias;
+
+        // The input isn't sampled, the kernel is passed in uKernel.
+        filterManager.applyFilter(this.kernelPackFilter, swap, signal, CLEAR_MODES.NO);
+
+        this._kernelTexture = this.transform(filterManager, signal, swap, width, height, false)[0];
+        this._kernelDirty = false;
+
+        return this._kernelTexture;
+    }
+
+    /**
+     * @param width - the width of the transform
+     * @param height - the height of the transform
+     * @returns the floating-point textures used to compute the kernel's spectrum, resized to the transform
+     */
+    protected getKernelSignalTextures(width: number, height: number): [RenderTexture, RenderTexture]
+    {
+        const kernelSignalTextures = this.kernelSignalTextures;
+
+        for (let i = 0; i < 2; i++)
+        {
+            if (!kernelSignalTextures[i])
+            {
+                kernelSignalTextures[i] = RenderTexture.create({
+                    width,
+                    height,
+                    resolution: 1,
+                    scaleMode: SCALE_MODES.NEAREST,
+                    type: TYPES.FLOAT,
+                });
+            }
+            else if (kernelSignalTextures[i].width !== width || kernelSignalTextures[i].height !== height)
+            {
+                kernelSignalTextures[i].resize(width, height, true);
+            }
+        }
+
+        return kernelSignalTextures;
+    }
+
+    /**
+     * Destroys the textures and passes of this filter. The kernel texture is not destroyed.
+     */
+    destroy(): void
+    {
+        if (this._kernel)
+        {
+            this._kernel.baseTexture.off('loaded', this.updatePadding, this);
+            this._kernel = null;
+        }
+
+        // The kernel's spectrum is held in one of the kernel signal textures
+        this._kernelTexture = null;
+        this.kernelSignalTextures.forEach((texture) => texture && texture.destroy(true));
+        this.kernelSignalTextures = [null, null];
+        this.kernelPackFilter.destroy();
+
+        super.destroy();
+    }
+}
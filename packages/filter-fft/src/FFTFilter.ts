@@ -1,6 +1,448 @@
-import { Filter } from '@pixi/core';
+import { CLEAR_MODES, SCALE_MODES, TYPES } from '@pixi/constants';
+import { Filter, RenderTexture, Texture } from '@pixi/core';
+import { FFTPackMode } from './FFTPackMode';
+import { FFTPassFilter } from './FFTPassFilter';
+import fftVertexSrc from './fft.vert';
+import kernelSrc from './kernel.frag';
+import packSrc from './pack.frag';
+import unpackSrc from './unpack.frag';
 
+import type { FilterState, FilterSystem, Renderer } from '@pixi/core';
+
+/**
+ * A frequency-domain kernel. It is evaluated at each frequency `(u, v)` of the spectrum, measured in cycles
+ * per pixel and ranging from -0.5 to 0.5. It returns the real gain, or a `[real, imaginary]` pair, at that frequency.
+ *
+ * The kernel should correspond to a real-valued spatial filter, i.e. `kernel(-u, -v)` should be the complex
+ * conjugate of `kernel(u, v)`. This holds for all real & symmetric kernels, e.g. a Gaussian blur.
+ *
+ * @memberof PIXI
+ * @typedef {Function} FFTKernelFunction
+ */
+export type FFTKernelFunction = (u: number, v: number) => number | [number, number];
+
+/**
+ * The WebGL extensions needed to render into floating-point textures. `EXT_color_buffer_float` only makes
+ * floating-point formats color-renderable, so it has no members (and isn't in the DOM typings).
+ *
+ * @ignore
+ */
+interface IFloatTextureExtensions
+{
+    floatTexture?: OES_texture_float;
+    colorBufferFloat?: WEBGL_color_buffer_float | Record<string, never>;
+}
+
+/**
+ * @returns the smallest power of two greater than or equal to `value`
+ * @ignore
+ */
+function nextPow2(value: number): number
+{
+    return Math.pow(2, Math.ceil(Math.log2(Math.max(value, 2))));
+}
+
+/**
+ * Filters an image in the frequency domain. It runs a forward 2D FFT over the input, multiplies the spectrum
+ * with a kernel, and runs the inverse transform. The cost of this filter doesn't depend on the size of the
+ * kernel, so it is suitable for large-radius blurs and deconvolution.
+ *
+ * The kernel can be provided as a callback, which is evaluated on each frequency, or as a texture that
+ * spans the whole spectrum with the zero frequency at its center. The red & green channels of a kernel texture
+ * hold its real and imaginary components.
+ *
+ * The input is zero-padded up to power-of-two dimensions. Since the convolution is circular, you should set the
+ * filter's `padding` to at least the radius of the kernel.
+ *
+ * This filter requires floating-point render-textures (WebGL 2 with `EXT_color_buffer_float`, or
+ * WebGL 1 with `OES_texture_float` and `WEBGL_color_buffer_float`).
+ *
+ * ```js
+ * import { FFTFilter } from '@pixi-essentials/filter-fft';
+ *
+ * const sigma = 24;
+ *
+ * // Gaussian blur
+ * sprite.filters = [new FFTFilter((u, v) => Math.exp(-2 * Math.PI * Math.PI * sigma * sigma * (u * u + v * v)))];
+ * ```
+ *
+ * @memberof PIXI
+ * @class
+ * @extends PIXI.Filter
+ */
 export class FFTFilter extends Filter
 {
+    public readonly packMode: FFTPackMode;
+
+    protected _kernel: FFTKernelFunction | Texture;
+    protected _kernelTexture: Texture;
+    protected _kernelDirty: boolean;
+
+    protected packFilter: Filter;
+    protected kernelFilter: Filter;
+    protected horizontalPass: FFTPassFilter;
+    protected verticalPass: FFTPassFilter;
+    protected signalTextures: [RenderTexture, RenderTexture];
+
+    /**
+     * @param {PIXI.FFTKernelFunction | PIXI.Texture}[kernel] - the frequency-domain kernel
+     * @param {PIXI.FFTPackMode}[packMode=PIXI.FFTPackMode.RGBA] - which channels of the input are filtered
+     */
+    constructor(kernel?: FFTKernelFunction | Texture, packMode: FFTPackMode = FFTPackMode.RGBA)
+    {
+        super(undefined, unpackSrc.replace('%packMode%', `${packMode}`), {
+            transformSize: new Float32Array(2),
+        });
+
+        /**
+         * Which channels of the input are filtered.
+         *
+         * @member {PIXI.FFTPackMode}
+         * @readonly
+         */
+        this.packMode = packMode;
+
+        this._kernel = kernel || null;
+        this._kernelTexture = null;
+        this._kernelDirty = true;
+
+        /**
+         * Packs the input image into the complex signal.
+         *
+         * @member {PIXI.Filter}
+         * @protected
+         */
+        this.packFilter = new Filter(fftVertexSrc, packSrc.replace('%packMode%', `${packMode}`), {
+            transformSize: new Float32Array(2),
+            frameSize: new Float32Array(2),
+        });
+        this.packFilter.state.blend = false;
+
+        /**
+         * Multiplies the spectrum with the kernel.
+         *
+         * @member {PIXI.Filter}
+         * @protected
+         */
+        this.kernelFilter = new Filter(fftVertexSrc, kernelSrc, {
+            uKernel: Texture.WHITE,
+            transformSize: new Float32Array(2),
+            normalizeKernel: false,
+        });
+        this.kernelFilter.state.blend = false;
+
+        /**
+         * Transforms the rows of the signal.
+         *
+         * @member {PIXI.FFTPassFilter}
+         * @protected
+         */
+        this.horizontalPass = new FFTPassFilter(true);
+
+        /**
+         * Transforms the columns of the signal.
+         *
+         * @member {PIXI.FFTPassFilter}
+         * @protected
+         */
+        this.verticalPass = new FFTPassFilter(false);
+
+        /**
+         * The floating-point textures that hold the signal between passes.
+         *
+         * @member {PIXI.RenderTexture[]}
+         * @protected
+         */
+        this.signalTextures = [null, null];
+    }
+
+    /**
+     * The frequency-domain kernel applied to the spectrum. If this is `null`, the image is transformed and
+     * then inverted without any change.
+     *
+     * @member {PIXI.FFTKernelFunction | PIXI.Texture}
+     */
+    get kernel(): FFTKernelFunction | Texture
+    {
+        return this._kernel;
+    }
+    set kernel(value: FFTKernelFunction | Texture)
+    {
+        this._kernel = value;
+        this._kernelDirty = true;
+    }
+
+    /**
+     * Re-evaluates the kernel callback on the next frame. You should call this if the kernel callback's
+     * output changed.
+     */
+    invalidateKernel(): void
+    {
+        this._kernelDirty = true;
+    }
+
+    /**
+     * Applies the filter.
+     *
+     * @param {PIXI.FilterSystem} filterManager
+     * @param {PIXI.RenderTexture} input
+     * @param {PIXI.RenderTexture} output
+     * @param {PIXI.CLEAR_MODES} clearMode
+     * @param {object} currentState - the state of the filter pass, passed by the filter system
+     */
+    apply(
+        filterManager: FilterSystem,
+        input: RenderTexture,
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        currentState: FilterState,
+    ): void
+    {
+        const frame = input.filterFrame || currentState.sourceFrame;
+        const frameWidth = Math.round(frame.width * currentState.resolution);
+        const frameHeight = Math.round(frame.height * currentState.resolution);
+        const [transformWidth, transformHeight] = this.getTransformSize(frameWidth, frameHeight);
+
+        FFTFilter.enableFloatTextures(filterManager.renderer);
+
+        const signalTextures = this.getSignalTextures(transformWidth, transformHeight);
+        let [signal, swap] = signalTextures;
+
+        // Pack the image into the signal
+        const packFilter = this.packFilter;
+
+        packFilter.uniforms.transformSize[0] = transformWidth;
+        packFilter.uniforms.transformSize[1] = transformHeight;
+        packFilter.uniforms.frameSize[0] = frameWidth;
+        packFilter.uniforms.frameSize[1] = frameHeight;
+        filterManager.applyFilter(packFilter, input, signal, CLEAR_MODES.NO);
+
+        // Forward transform
+        [signal, swap] = this.transform(filterManager, signal, swap, transformWidth, transformHeight, false);
+
+        // Multiply the spectrum with the kernel
+        const kernelTexture = this.getKernelTexture(transformWidth, transformHeight, filterManager);
+
+        if (kernelTexture)
+        {
+            const kernelUniforms = this.kernelFilter.uniforms;
+
+            kernelUniforms.uKernel = kernelTexture;
+            kernelUniforms.transformSize[0] = transformWidth;
+            kernelUniforms.transformSize[1] = transformHeight;
+            filterManager.applyFilter(this.kernelFilter, signal, swap, CLEAR_MODES.NO);
+            [signal, swap] = [swap, signal];
+        }
+
+        // Inverse transform
+        [signal] = this.transform(filterManager, signal, swap, transformWidth, transformHeight, true);
+
+        // Unpack the signal into the output
+        this.uniforms.transformSize[0] = transformWidth;
+        this.uniforms.transformSize[1] = transformHeight;
+        filterManager.applyFilter(this, signal, output, clearMode);
+    }
+
+    /**
+     * Runs the 2D FFT on the signal.
+     *
+     * @param filterManager - the filter system
+     * @param signal - the texture holding the signal
+     * @param swap - a texture of the same size, used to ping-pong between passes
+     * @param transformWidth - the length of the transform along the rows
+     * @param transformHeight - the length of the transform along the columns
+     * @param inverse - whether to run the inverse transform
+     * @returns the texture holding the transformed signal, and the other texture
+     */
+    protected transform(
+        filterManager: FilterSystem,
+        signal: RenderTexture,
+        swap: RenderTexture,
+        transformWidth: number,
+        transformHeight: number,
+        inverse: boolean,
+    ): [RenderTexture, RenderTexture]
+    {
+        const { horizontalPass, verticalPass } = this;
+
+        horizontalPass.transformSize = transformWidth;
+        horizontalPass.inverse = inverse;
+
+        for (let subtransformSize = 2; subtransformSize <= transformWidth; subtransformSize *= 2)
+        {
+            horizontalPass.subtransformSize = subtransformSize;
+            filterManager.applyFilter(horizontalPass, signal, swap, CLEAR_MODES.NO);
+            [signal, swap] = [swap, signal];
+        }
+
+        verticalPass.transformSize = transformHeight;
+        verticalPass.inverse = inverse;
+
+        for (let subtransformSize = 2; subtransformSize <= transformHeight; subtransformSize *= 2)
+        {
+            verticalPass.subtransformSize = subtransformSize;
+            filterManager.applyFilter(verticalPass, signal, swap, CLEAR_MODES.NO);
+            [signal, swap] = [swap, signal];
+        }
+
+        return [signal, swap];
+    }
+
+    /**
+     * @param frameWidth - the width of the input frame, in pixels
+     * @param frameHeight - the height of the input frame, in pixels
+     * @returns the dimensions of the transform, which must be powers of two
+     */
+    protected getTransformSize(frameWidth: number, frameHeight: number): [number, number]
+    {
+        return [nextPow2(frameWidth), nextPow2(frameHeight)];
+    }
+
+    /**
+     * @param width - the width of the transform
+     * @param height - the height of the transform
+     * @returns the floating-point textures used to hold the signal, resized to the transform
+     */
+    protected getSignalTextures(width: number, height: number): [RenderTexture, RenderTexture]
+    {
+        const signalTextures = this.signalTextures;
+
+        for (let i = 0; i < 2; i++)
+        {
+            if (!signalTextures[i])
+            {
+                signalTextures[i] = RenderTexture.create({
+                    width,
+                    height,
+                    resolution: 1,
+                    scaleMode: SCALE_MODES.NEAREST,
+                    type: TYPES.FLOAT,
+                });
+            }
+            else if (signalTextures[i].width !== width || signalTextures[i].height !== height)
+            {
+                signalTextures[i].resize(width, height, true);
+            }
+        }
+
+        return signalTextures;
+    }
+
+    /**
+     * @param width - the width of the transform
+     * @param height - the height of the transform
+     * @param _filterManager - the filter system, if the kernel has to be rendered
+     * @returns the texture holding the kernel over the spectrum, or `null` if there is no kernel
+     */
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    protected getKernelTexture(width: number, height: number, _filterManager?: FilterSystem): Texture
+    {
+        const kernel = this._kernel;
+
+        if (!kernel)
+        {
+            return null;
+        }
+        if (kernel instanceof Texture)
+        {
+            return kernel;
+        }
+
+        const kernelTexture = this._kernelTexture;
+
+        if (kernelTexture
+            && !this._kernelDirty
+            && kernelTexture.width === width
+            && kernelTexture.height === height)
+        {
+            return kernelTexture;
+        }
+
+        const data = new Float32Array(width * height * 4);
+
+        for (let y = 0; y < height; y++)
+        {
+            // The zero frequency is at the center of the spectrum
+            const v = (y - (height / 2)) / height;
+
+            for (let x = 0; x < width; x++)
+            {
+                const u = (x - (width / 2)) / width;
+                const value = kernel(u, v);
+                const offset = ((y * width) + x) * 4;
+
+                if (typeof value === 'number')
+                {
+                    data[offset] = value;
+                }
+                else
+                {
+                    data[offset] = value[0];
+                    data[offset + 1] = value[1];
+                }
+            }
+        }
+
+        if (kernelTexture)
+        {
+            kernelTexture.destroy(true);
+        }
+
+        this._kernelTexture = Texture.fromBuffer(data, width, height, {
+            scaleMode: SCALE_MODES.NEAREST,
+        });
+        this._kernelDirty = false;
+
+        return this._kernelTexture;
+    }
+
+    /**
+     * Destroys the textures and passes of this filter.
+     */
+    destroy(): void
+    {
+        this.signalTextures.forEach((texture) => texture && texture.destroy(true));
+        this.signalTextures = [null, null];
+
+        if (this._kernelTexture)
+        {
+            this._kernelTexture.destroy(true);
+            this._kernelTexture = null;
+        }
+
+        this.packFilter.destroy();
+        this.kernelFilter.destroy();
+        this.horizontalPass.destroy();
+        this.verticalPass.destroy();
+
+        super.destroy();
+    }
+
+    /**
+     * Enables the extensions required to render into floating-point textures.
+     *
+     * @param renderer - the renderer used to apply the filter
+     */
+    static enableFloatTextures(renderer: Renderer): void
+    {
+        const gl = renderer.gl;
+        const contextSystem = renderer.context;
+        const extensions: IFloatTextureExtensions = contextSystem.extensions;
 
+        if (contextSystem.webGLVersion === 1)
+        {
+            if (!extensions.floatTexture)
+            {
+                extensions.floatTexture = gl.getExtension('OES_texture_float');
+            }
+            if (!extensions.colorBufferFloat)
+            {
+                extensions.colorBufferFloat = gl.getExtension('WEBGL_color_buffer_float');
+            }
+        }
+        else if (!extensions.colorBufferFloat)
+        {
+            extensions.colorBufferFloat = gl.getExtension('EXT_color_buffer_float');
+        }
+    }
 }
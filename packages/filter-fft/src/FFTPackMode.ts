@@ -0,0 +1,13 @@
+/**
+ * How the input image is packed into the complex signal transformed by `FFTFilter`.
+ *
+ * @memberof PIXI
+ * @enum
+ * @property {number} LUMINANCE=0 - the luminance of each pixel is transformed, and the output is grayscale
+ * @property {number} RGBA=1 - all four channels are transformed by packing them into two complex signals
+ */
+export enum FFTPackMode
+{
+    LUMINANCE = 0,
+    RGBA = 1
+}
@@ -0,0 +1,78 @@
+import { Filter } from '@pixi/core';
+import fftVertexSrc from './fft.vert';
+import stockhamPassSrc from './stockham-pass.frag';
+
+const horizontalPassSrc = stockhamPassSrc.replace('%horizontal%', '1');
+const verticalPassSrc = stockhamPassSrc.replace('%horizontal%', '0');
+
+/**
+ * Runs one radix-2 pass of the Stockham FFT along the rows or columns of a complex signal. Each texel of the
+ * signal holds two complex samples.
+ *
+ * A full transform of length `N` along an axis is done by applying this filter `log2(N)` times, with the
+ * `subtransformSize` doubling from 2 to `N`. The pass covers the whole output render-texture, so the
+ * signal's textures should be exactly the size of the transform.
+ *
+ * @memberof PIXI
+ * @class
+ * @extends PIXI.Filter
+ */
+export class FFTPassFilter extends Filter
+{
+    /**
+     * @param {boolean} horizontal - whether this pass transforms the rows (or the columns) of the signal
+     */
+    constructor(horizontal: boolean)
+    {
+        super(fftVertexSrc, horizontal ? horizontalPassSrc : verticalPassSrc, {
+            transformSize: 2,
+            subtransformSize: 2,
+            twiddleSign: -1,
+        });
+
+        // Blending would corrupt the signal
+        this.state.blend = false;
+    }
+
+    /**
+     * The length of the transform along this pass's axis. This must be a power of two.
+     *
+     * @member {number}
+     */
+    get transformSize(): number
+    {
+        return this.uniforms.transformSize;
+    }
+    set transformSize(value: number)
+    {
+        this.uniforms.transformSize = value;
+    }
+
+    /**
+     * The length of the sub-transforms merged by this pass. This is a power of two, at most the transform size.
+     *
+     * @member {number}
+     */
+    get subtransformSize(): number
+    {
+        return this.uniforms.subtransformSize;
+    }
+    set subtransformSize(value: number)
+    {
+        this.uniforms.subtransformSize = value;
+    }
+
+    /**
+     * Whether this pass is part of the inverse transform.
+     *
+     * @member {boolean}
+     */
+    get inverse(): boolean
+    {
+        return this.uniforms.twiddleSign > 0;
+    }
+    set inverse(value: boolean)
+    {
+        this.uniforms.twiddleSign = value ? 1 : -1;
+    }
+}
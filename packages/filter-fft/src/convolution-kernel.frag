@@ -0,0 +1,46 @@
+/*
+ * Packs a spatial kernel image into a real signal so that its spectrum can be computed.
+ *
+ * The center of the kernel is placed at the origin of the signal, and the kernel wraps around to the
+ * other end of the signal. Like the input image, each sample is multiplied by (-1)^(u+v) so that the zero
+ * frequency is shifted to the center of the spectrum.
+ *
+ * The weight of each kernel pixel is its luminance minus kernelBias. A bias lets 8-bit kernel textures
+ * encode negative weights.
+ */
+
+#define LUMINANCE(color) (0.299*color.r + 0.587*color.g + 0.114*color.b)
+
+precision highp float;
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uKernel;
+
+// The size of the padded signal
+uniform vec2 transformSize;
+
+// The normalized frame of the kernel in its texture
+uniform vec4 kernelFrame;
+
+// The size of the kernel in pixels
+uniform vec2 kernelSize;
+
+uniform float kernelBias;
+
+void main(void) {
+    vec2 pixel = floor(vTextureCoord * transformSize);
+    vec2 kernelPixel = mod(pixel + floor(kernelSize * .5), transformSize);
+
+    if (kernelPixel.x >= kernelSize.x || kernelPixel.y >= kernelSize.y) {
+        gl_FragColor = vec4(0.);
+        return;
+    }
+
+    float multiplier = mod(pixel.x + pixel.y, 2.) == 0. ? 1. : -1.;
+
+    vec4 kernelSample = texture2D(uKernel, kernelFrame.xy + (kernelPixel + .5) / kernelSize * kernelFrame.zw);
+    float weight = LUMINANCE(kernelSample) - kernelBias;
+
+    gl_FragColor = vec4(weight * multiplier, 0., 0., 0.);
+}
@@ -0,0 +1,15 @@
+/*
+ * Covers the whole render-texture of an FFT pass, regardless of the filter's frame.
+ *
+ * The texture coordinates map directly to the output texels so that each pass can address the
+ * full (padded) signal.
+ */
+
+attribute vec2 aVertexPosition;
+
+varying vec2 vTextureCoord;
+
+void main(void) {
+    gl_Position = vec4(aVertexPosition * 2. - 1., 0., 1.);
+    vTextureCoord = aVertexPosition;
+}
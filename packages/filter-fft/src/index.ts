@@ -0,0 +1,4 @@
+export * from './ConvolutionFilter';
+export * from './FFTFilter';
+export * from './FFTPackMode';
+export * from './FFTPassFilter';
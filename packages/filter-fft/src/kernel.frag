@@ -0,0 +1,38 @@
+/*
+ * Multiplies the spectrum by a frequency-domain kernel.
+ *
+ * The kernel's texture covers the whole (centered) spectrum, and its red & green channels hold the real
+ * and imaginary components of the kernel. If normalizeKernel is set, the kernel is divided by its zero
+ * frequency (the sum of its spatial weights) so that the filter preserves the brightness of the image.
+ */
+
+precision highp float;
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSampler;
+uniform sampler2D uKernel;
+
+// The size of the padded signal
+uniform vec2 transformSize;
+
+uniform bool normalizeKernel;
+
+vec2 cmul(vec2 a, vec2 b) {
+    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
+}
+
+void main(void) {
+    vec4 spectrum = texture2D(uSampler, vTextureCoord);
+    vec2 kernel = texture2D(uKernel, vTextureCoord).xy;
+
+    if (normalizeKernel) {
+        float dc = texture2D(uKernel, (floor(transformSize * .5) + .5) / transformSize).x;
+
+        if (abs(dc) > 1e-6) {
+            kernel /= dc;
+        }
+    }
+
+    gl_FragColor = vec4(cmul(spectrum.xy, kernel), cmul(spectrum.zw, kernel));
+}
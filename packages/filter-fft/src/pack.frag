@@ -1,45 +1,57 @@
 /*
  * Packs the RGBA input image into a discrete spatial signal x[u,v].
  *
- * Each texel contains the sample for two complex signals (xy, zw).
+ * Each texel contains the sample for two complex signals (xy, zw). The signal is zero-padded to the
+ * transform size, and each sample is multiplied by (-1)^(u+v) so that the zero frequency is shifted
+ * to the center of the spectrum.
  *
  * LUMINANCE mode:
  * The default output is a complex signal mapping the luminance of each pixel to the real component
  * of the pixel, and zero for the imaginary component.
  *
  * RGBA mode:
- * This mode will pack the spatial signal [r,g,b,a] into two complex signals [r+jg, b+ja]. The frequency
- * output is then separated to get f(r) = 1/2[]
+ * This mode will pack the spatial signal [r,g,b,a] into two complex signals [r+jg, b+ja]. Since
+ * convolution with a real kernel is linear, the channels can be separated again after the inverse
+ * transform by taking the real and imaginary components.
  */
 
+#define PACK_LUMINANCE 0
+#define PACK_RGBA 1
+
 #define LUMINANCE(color) (0.299*color.r + 0.587*color.g + 0.114*color.b)
 #define PACK_MODE %packMode%
 
+precision highp float;
+
 uniform sampler2D uSampler;
 varying vec2 vTextureCoord;
 
 uniform vec4 inputPixel;
 
-int modi(int a, int b) {
-  int q = a / b;
-  return a - q*b;
-}
+// The size of the padded signal
+uniform vec2 transformSize;
+
+// The size of the input image in pixels
+uniform vec2 frameSize;
 
 void main(void) {
-    int x = int(vTextureCoord.x * inputPixel.x);
-    int y = int(vTextureCoord.y * inputPixel.y);
-    float multipler = modi(x+y, 2) == 0 ? 1. : -1.;
+    vec2 pixel = floor(vTextureCoord * transformSize);
 
-    vec4 inputSample = texture2D(uSampler, vTextureCoord);
+    if (pixel.x >= frameSize.x || pixel.y >= frameSize.y) {
+        gl_FragColor = vec4(0.);
+        return;
+    }
+
+    float multiplier = mod(pixel.x + pixel.y, 2.) == 0. ? 1. : -1.;
+
+    vec4 inputSample = texture2D(uSampler, (pixel + .5) * inputPixel.zw);
 
 #if PACK_MODE == PACK_LUMINANCE
     float luma = LUMINANCE(inputSample);
 
-    // Shift frequencies by π/2
-    luma *= multipler;
-
-    // The first complex-signal is luma + j0.
-    // The second complex-signal is always 0 + j1.
-    gl_FragColor = vec4(luma, 0, 0, 1);
+    // The complex-signal is luma + j0.
+    gl_FragColor = vec4(luma, 0, 0, 0) * multiplier;
+#elif PACK_MODE == PACK_RGBA
+    gl_FragColor = inputSample * multiplier;
 #endif
-}
\ No newline at end of file
+}
@@ -1,114 +1,56 @@
-#define NLIM 2048
-#define TAU 6.28318530718 
+/*
+ * Runs one radix-2 pass of the Stockham autosort FFT along the rows (HORIZONTAL == 1) or columns
+ * (HORIZONTAL == 0) of the signal.
+ *
+ * The signal is transformed by running this pass for subtransformSize = 2, 4, 8, ..., transformSize. The
+ * output is in the natural order, so no bit-reversal permutation is required.
+ *
+ * Each texel holds two complex samples (xy, zw), which are transformed together.
+ */
+
+#define TAU 6.28318530718
+#define HORIZONTAL %horizontal%
 
 precision highp float;
 
 varying vec2 vTextureCoord;
 
 uniform sampler2D uSampler;
-uniform vec4 inputPixel;
-uniform vec4 outputFrame;
-
-uniform float length;
 
-// Aesthetic complex ctor
-vec2 complex(float r, float i) {
-  return vec2(r, i);
-}
-// Calculate e^jp
-vec2 expo(float p) {
-  return complex(cos(p), sin(p));
-}
+// The length of the DFT along the pass's axis
+uniform float transformSize;
 
-#define HORIZONTAL %horizontal%
+// The length of the sub-DFTs being merged in this pass
+uniform float subtransformSize;
 
-int modi(int a, int b) {
-  int q = a / b;
-  return a - q*b;
-}
-float luma(vec4 rgba) {
-  return (rgba.r + rgba.g + rgba.b) / 3.;
-}
+// -1 for the forward transform, 1 for the inverse transform
+uniform float twiddleSign;
 
-float luma2D(vec2 coord) {
-  return luma(texture2D(uSampler, coord));
-}
-vec2 texCoord(vec2 pos) {
-  return inputPixel.zw * (pos.xy + vec2(.5, .5));
-}
-vec2 texCoord(int x, int y) {
-  return texCoord(vec2(float(x), float(y)));
-}
-vec4 gray(float lum) {
-  return vec4(
-    lum,
-    lum,
-    lum,
-    1
-  );
-}
 vec2 cmul(vec2 a, vec2 b) {
-  return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
-}
-
-vec4 complexToColor(vec2 compl) {
-  return vec4(compl.xy, 0, 1);
-}
-
-vec2 colorToComplex(vec4 color) {
-  return vec2(
-    color.x,
-    color.y
-  );
+    return vec2(a.x * b.x - a.y * b.y, a.x * b.y + a.y * b.x);
 }
 
-  vec2 complex2D(vec2 coord) {
-    return vec2(texture2D(uSampler, coord).xy);
-  }
-
-  void main(void) {
-    // (x,y) absolute coordinates (e.g. .5, 1.5, 2.5)
-    float x = vTextureCoord.x * inputPixel.x;
-    float y = vTextureCoord.y * inputPixel.y;
-
-    int width = int(inputPixel.x);
-    int height = int(inputPixel.y);
-
-    float widthf = float(width);
-
-    // Pixel index divided by no. of pixels in each dimensions
-    float tx = floor(x) / outputFrame.z;
-    float ty = floor(y) / outputFrame.w;
-
-    float area = float(outputFrame.z * outputFrame.w);
-
-#if HORIZONTAL == 0
-    int r = int(x);
-    float k = float(r);
-
-    float stride = widthf / length;
-    float N = length;
-
-    float indexOfDFT = mod(k, stride);
-    float indexInDFT = mod(floor(k / stride), (N / 2.));
-
-    float evenIndex = (indexOfDFT + indexInDFT * 2. * stride);
-    float oddIndex = evenIndex + stride;
-    vec2 aCoord = texCoord(int(evenIndex), int(y));
-    vec2 bCoord = texCoord(int(oddIndex), int(y));
-
-    vec2 a = complex2D(aCoord);
-    vec2 b = complex2D(bCoord);
+void main(void) {
+#if HORIZONTAL == 1
+    float index = floor(vTextureCoord.x * transformSize);
+#else
+    float index = floor(vTextureCoord.y * transformSize);
+#endif
 
-    vec2 twiddle = expo(-TAU * (floor(k/stride) / N));
-    vec2 result;
+    float halfSubtransformSize = subtransformSize * .5;
+    float evenIndex = floor(index / subtransformSize) * halfSubtransformSize + mod(index, halfSubtransformSize);
+    float oddIndex = evenIndex + transformSize * .5;
 
-    result = a + cmul(twiddle, b);
+#if HORIZONTAL == 1
+    vec4 even = texture2D(uSampler, vec2((evenIndex + .5) / transformSize, vTextureCoord.y));
+    vec4 odd = texture2D(uSampler, vec2((oddIndex + .5) / transformSize, vTextureCoord.y));
+#else
+    vec4 even = texture2D(uSampler, vec2(vTextureCoord.x, (evenIndex + .5) / transformSize));
+    vec4 odd = texture2D(uSampler, vec2(vTextureCoord.x, (oddIndex + .5) / transformSize));
 #endif
 
-#if HORIZONTAL == 0
-    vec4 color = complexToColor(result);
-    gl_FragColor = color;
-#elif HORIZONTAL == 1
-#endif
-}
\ No newline at end of file
+    float twiddleArgument = twiddleSign * TAU * (index / subtransformSize);
+    vec2 twiddle = vec2(cos(twiddleArgument), sin(twiddleArgument));
+
+    gl_FragColor = even + vec4(cmul(twiddle, odd.xy), cmul(twiddle, odd.zw));
+}
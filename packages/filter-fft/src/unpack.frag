@@ -0,0 +1,39 @@
+/*
+ * Unpacks the output of the inverse FFT into the image.
+ *
+ * The samples are normalized by the size of the transform, and the (-1)^(u+v) multiplier applied by the
+ * pack pass is undone.
+ */
+
+#define PACK_LUMINANCE 0
+#define PACK_RGBA 1
+
+#define PACK_MODE %packMode%
+
+precision highp float;
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSampler;
+uniform vec4 inputPixel;
+
+// The size of the padded signal
+uniform vec2 transformSize;
+
+void main(void) {
+    vec2 pixel = floor(vTextureCoord * inputPixel.xy);
+    vec4 signal = texture2D(uSampler, (pixel + .5) / transformSize);
+
+    float multiplier = mod(pixel.x + pixel.y, 2.) == 0. ? 1. : -1.;
+
+    signal *= multiplier / (transformSize.x * transformSize.y);
+
+#if PACK_MODE == PACK_LUMINANCE
+    gl_FragColor = vec4(vec3(clamp(signal.x, 0., 1.)), 1.);
+#elif PACK_MODE == PACK_RGBA
+    float alpha = clamp(signal.w, 0., 1.);
+
+    // Colors are premultiplied, so they can't exceed the alpha
+    gl_FragColor = vec4(clamp(signal.xyz, 0., alpha), alpha);
+#endif
+}
@@ -0,0 +1,11 @@
+/**
+ * Control point of a freeform gradient.
+ *
+ * @public
+ */
+export interface FreeformGradientPoint
+{
+    x: number;
+    y: number;
+    color: number | string;
+}
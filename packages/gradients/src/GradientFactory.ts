@@ -1,47 +1,187 @@
+import { DRAW_MODES } from '@pixi/constants';
 import { Rectangle } from '@pixi/math';
-import { RenderTexture, Texture } from '@pixi/core';
-import { Sprite } from '@pixi/sprite';
+import { Buffer, Geometry, Quad, Shader, State } from '@pixi/core';
+import { convertColor } from './convertColor';
+import { parseColor } from './parseColor';
+import colorInterpolationSrc from './color-interpolation.frag';
+import gradientVertexSrc from './gradient.vert';
+import gradientFragmentSrc from './gradient.frag';
+import meshGradientVertexSrc from './mesh-gradient.vert';
+import meshGradientFragmentSrc from './mesh-gradient.frag';
 
-import type { ColorStop } from './ColorStop';
-import type { Renderer } from '@pixi/core';
+import type { ColorInterpolation, GradientOptions, SpreadMethod } from './GradientOptions';
+import type { FreeformGradientPoint } from './FreeformGradientPoint';
+import type { MeshGradientPatch } from './MeshGradientPatch';
+import type { Renderer, RenderTexture } from '@pixi/core';
 
 /**
- * Converts a hexadecimal color into a CSS color string.
- * 
+ * The types of gradients, used to select the shader that renders them.
+ *
  * @ignore
- * @param color - The hexadecimal form of the color.
  */
-function cssColor(color: number | string) {
-    if(typeof color === 'string'){
-        return color;
-    }
-    let string = color.toString(16);
-
-    while (string.length < 6) {
-        string = `0${string}`;
-    }
-
-    return `#${string}`;
+enum GradientType
+{
+    LINEAR = 0,
+    RADIAL = 1,
+    CONIC = 2,
+    DIAMOND = 3,
+    FREEFORM = 4,
 }
 
 const tempSourceFrame = new Rectangle();
 const tempDestinationFrame = new Rectangle();
 
+/**
+ * The quad covering the render-texture.
+ *
+ * @ignore
+ */
+const quad = new Quad();
+
+/**
+ * The gradient is rendered without blending, replacing the contents of the render-texture.
+ *
+ * @ignore
+ */
+const gradientState = State.for2d();
+
+gradientState.blend = false;
+
+/**
+ * Maps the spread methods to the constants used in the shader.
+ *
+ * @ignore
+ */
+const SPREAD_METHODS: { [method in SpreadMethod]: number } = {
+    pad: 0,
+    reflect: 1,
+    repeat: 2,
+};
+
+/**
+ * Maps the interpolation color spaces to the constants used in the shader.
+ *
+ * @ignore
+ */
+const COLOR_INTERPOLATIONS: { [space in ColorInterpolation]: number } = {
+    srgb: 0,
+    'linear-rgb': 1,
+    oklab: 2,
+};
+
+/**
+ * The number of uniform vectors used by the gradient shader besides the color-stop arrays, i.e. by `uPoints`,
+ * `uRadii`, and the scalar uniforms.
+ *
+ * @ignore
+ */
+const RESERVED_UNIFORM_VECTORS = 3;
+
+/**
+ * The number of uniform vectors used by each color stop: one for its color, and one that packs its offset & the
+ * position of a freeform gradient's point.
+ *
+ * @ignore
+ */
+const UNIFORM_VECTORS_PER_COLOR_STOP = 2;
+
+/**
+ * The maximum number of color stops supported by each WebGL context, keyed by the context's UID.
+ *
+ * @ignore
+ */
+const maxColorStopsByContext: { [contextUID: number]: number } = {};
+
+/**
+ * The gradient shaders, keyed by the gradient type and the maximum number of color stops.
+ *
+ * @ignore
+ */
+const gradientShaders: { [key: string]: Shader } = {};
+
+/**
+ * The shader for mesh gradients, which interpolates the colors of the vertices of the tessellated patches.
+ *
+ * @ignore
+ */
+const meshGradientShader = Shader.from(
+    meshGradientVertexSrc,
+    meshGradientFragmentSrc.replace('%colorInterpolation%', colorInterpolationSrc),
+    {
+        uSize: new Float32Array(2),
+        uColorInterpolation: 0,
+    },
+);
+
+/**
+ * The geometry holding the tessellated patches of a mesh gradient. Its buffers are reused across gradients.
+ *
+ * @ignore
+ */
+const meshGradientGeometry = new Geometry()
+    .addAttribute('aVertexPosition', new Buffer(new Float32Array(0), false), 2)
+    .addAttribute('aColor', new Buffer(new Float32Array(0), false), 4);
+
+const tempPoint: number[] = [0, 0];
+const tempCornerColors = new Float32Array(16);
+let tempGridPositions = new Float32Array(0);
+let tempGridColors = new Float32Array(0);
+
+/**
+ * Evaluates a cubic Bézier curve.
+ *
+ * @ignore
+ */
+function bezier(p0: number, p1: number, p2: number, p3: number, t: number): number
+{
+    const s = 1 - t;
+
+    return (s * s * s * p0) + (3 * s * s * t * p1) + (3 * s * t * t * p2) + (t * t * t * p3);
+}
+
+/**
+ * Evaluates a Coons patch at (u, v). See {@link MeshGradientPatch} for the order of the control points.
+ *
+ * @ignore
+ * @param points - The control points of the patch's boundary.
+ * @param u - The parameter along the top & bottom edges.
+ * @param v - The parameter along the left & right edges.
+ * @param out - The array to write the point into.
+ */
+function evaluateCoonsPatch(points: number[], u: number, v: number, out: number[]): number[]
+{
+    for (let i = 0; i < 2; i++)
+    {
+        const top = bezier(points[i], points[2 + i], points[4 + i], points[6 + i], u);
+        const right = bezier(points[6 + i], points[8 + i], points[10 + i], points[12 + i], v);
+        const bottom = bezier(points[18 + i], points[16 + i], points[14 + i], points[12 + i], u);
+        const left = bezier(points[i], points[22 + i], points[20 + i], points[18 + i], v);
+        const corners = ((1 - u) * (1 - v) * points[i])
+            + (u * (1 - v) * points[6 + i])
+            + (u * v * points[12 + i])
+            + ((1 - u) * v * points[18 + i]);
+
+        out[i] = ((1 - v) * top) + (v * bottom) + ((1 - u) * left) + (u * right) - corners;
+    }
+
+    return out;
+}
+
 /**
  * Factory class for generating color-gradient textures.
- * 
+ *
  * @public
  */
 export class GradientFactory
 {
     /**
      * Renders a linear-gradient into `renderTexture` that starts from (x0, y0) and ends at (x1, y1). These
-     * coordinates are defined in the **texture's space**. That means only the frame (0, 0, `renderTexture.width`, `renderTexture.height`)
-     * will be rendered.
-     * 
-     * This method can be called inside a render cycle, and will preserve the renderer state. However, the current implementation
-     * causes a batch renderer flush.
-     * 
+     * coordinates are defined in the **texture's space**. That means only the frame
+     * (0, 0, `renderTexture.width`, `renderTexture.height`) will be rendered.
+     *
+     * This method can be called inside a render cycle, and will preserve the renderer state. It causes a batch renderer
+     * flush.
+     *
      * @param renderer - The renderer to use for drawing the gradient.
      * @param renderTexture - The texture to render the gradient into.
      * @param options - The gradient parameters.
@@ -50,64 +190,39 @@ export class GradientFactory
      * @param options.x1 - The x-coordinate of the gradient's end point.
      * @param options.y1 - The y-coordinate of the gradient's end point.
      * @param options.colorStops - The color stops along the gradient pattern.
-     * @todo This implementation is currently using the Canvas API (slow). It will be converted to a WebGL shader.
-     * @todo This implementation causes a batch renderer flush. This will be optimized in a future release.
+     * @param options.spreadMethod - How the gradient is painted beyond its start & end.
+     * @param options.colorInterpolation - The color space in which colors are interpolated.
      */
     static createLinearGradient(
-        renderer: Renderer, 
-        renderTexture: RenderTexture, 
-        options: {
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: GradientOptions & {
             x0: number,
             y0: number,
             x1: number,
             y1: number,
-            colorStops: ColorStop[]
-        }
+        },
     ): RenderTexture
     {
-        const { x0, y0, x1, y1, colorStops } = options;
-
-        const canvas = document.createElement('canvas');
-
-        canvas.width = renderTexture.width;
-        canvas.height = renderTexture.height;
-
-        const context = canvas.getContext('2d');
+        const { x0, y0, x1, y1 } = options;
+        const shader = GradientFactory.prepareShader(GradientType.LINEAR, renderer, renderTexture, options);
+        const uPoints = shader.uniforms.uPoints;
 
-        const gradient = context.createLinearGradient(x0, y0, x1, y1);
+        uPoints[0] = x0;
+        uPoints[1] = y0;
+        uPoints[2] = x1;
+        uPoints[3] = y1;
 
-        colorStops.forEach((stop) => {
-            gradient.addColorStop(stop.offset, cssColor(stop.color));
-        });
-
-        context.fillStyle = gradient;
-        context.fillRect(0, 0, renderTexture.width, renderTexture.height);
-
-        // Store the current render-texture binding.
-        const renderTarget = renderer.renderTexture.current;
-        const sourceFrame = tempSourceFrame.copyFrom(renderer.renderTexture.sourceFrame);
-        const destinationFrame = tempDestinationFrame.copyFrom(renderer.renderTexture.destinationFrame);
-
-        const renderSprite = new Sprite(Texture.from(canvas));
-
-        renderer.batch.flush();
-
-        renderer.renderTexture.bind(renderTexture);
-        renderSprite.render(renderer);
-        
-        renderer.batch.flush();
-        renderer.renderTexture.bind(renderTarget, sourceFrame, destinationFrame);
-
-        return renderTexture;
+        return GradientFactory.renderGradient(renderer, renderTexture, shader);
     }
 
     /**
      * Renders a radial-gradient into `renderTexture` that starts at the circle centered at (x0, y0) of radius r0 and
      * ends at the circle centered at (x1, y1) of radius r1.
-     * 
-     * This method can be called inside a render cycle, and will preserve the renderer state. However, the current implementation
-     * causes a batch renderer flush.
-     * 
+     *
+     * This method can be called inside a render cycle, and will preserve the renderer state. It causes a batch renderer
+     * flush.
+     *
      * @param renderer - The renderer to use for drawing the gradient.
      * @param renderTexture - The texture to render the gradient into.
      * @param options - The gradient parameters.
@@ -116,57 +231,477 @@ export class GradientFactory
      * @param options.r0 - The radius of the starting circle.
      * @param options.x1 - The x-coordinate of the ending circle's center.
      * @param options.y1 - The y-coordinate of the ending circle's center.
+     * @param options.r1 - The radius of the ending circle.
      * @param options.colorStops - The color stops along the gradient pattern.
-     * @todo This implementation is currently using the Canvas API (slow). It will be converted to a WebGL shader.
-     * @todo This implementation causes a batch renderer flush. This will be optimized in a future release.
+     * @param options.spreadMethod - How the gradient is painted beyond its start & end.
+     * @param options.colorInterpolation - The color space in which colors are interpolated.
      */
     static createRadialGradient(
-        renderer: Renderer, 
-        renderTexture: RenderTexture, 
-        options: {
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: GradientOptions & {
             x0: number,
             y0: number,
             r0: number,
             x1: number,
             y1: number,
             r1: number,
-            colorStops: ColorStop[]
+        },
+    ): RenderTexture
+    {
+        const { x0, y0, r0, x1, y1, r1 } = options;
+        const shader = GradientFactory.prepareShader(GradientType.RADIAL, renderer, renderTexture, options);
+        const { uPoints, uRadii } = shader.uniforms;
+
+        uPoints[0] = x0;
+        uPoints[1] = y0;
+        uPoints[2] = x1;
+        uPoints[3] = y1;
+        uRadii[0] = r0;
+        uRadii[1] = r1;
+
+        return GradientFactory.renderGradient(renderer, renderTexture, shader);
+    }
+
+    /**
+     * Renders a conic (sweep) gradient into `renderTexture`, which sweeps around the center (x, y). The angle is
+     * measured clockwise, starting from the positive x-axis. The color stop at offset 0 is placed at `startAngle`,
+     * and the one at offset 1 completes the turn back to it.
+     *
+     * This method can be called inside a render cycle, and will preserve the renderer state. It causes a batch renderer
+     * flush.
+     *
+     * @param renderer - The renderer to use for drawing the gradient.
+     * @param renderTexture - The texture to render the gradient into.
+     * @param options - The gradient parameters.
+     * @param options.x - The x-coordinate of the center.
+     * @param options.y - The y-coordinate of the center.
+     * @param options.startAngle - The angle at which the gradient starts, in radians.
+     * @param options.colorStops - The color stops along the gradient pattern.
+     * @param options.spreadMethod - How the gradient is painted beyond its start & end.
+     * @param options.colorInterpolation - The color space in which colors are interpolated.
+     */
+    static createConicGradient(
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: GradientOptions & {
+            x: number,
+            y: number,
+            startAngle?: number,
+        },
+    ): RenderTexture
+    {
+        const { x, y, startAngle } = options;
+        const shader = GradientFactory.prepareShader(GradientType.CONIC, renderer, renderTexture, options);
+        const uPoints = shader.uniforms.uPoints;
+
+        uPoints[0] = x;
+        uPoints[1] = y;
+        shader.uniforms.uAngle = startAngle || 0;
+
+        return GradientFactory.renderGradient(renderer, renderTexture, shader);
+    }
+
+    /**
+     * Renders a diamond gradient into `renderTexture`, centered at (x, y). The color stop at offset 0 is placed at the
+     * center, and the one at offset 1 is placed on the diamond whose corners are `rx` and `ry` away from the center
+     * along its axes.
+     *
+     * This method can be called inside a render cycle, and will preserve the renderer state. It causes a batch renderer
+     * flush.
+     *
+     * @param renderer - The renderer to use for drawing the gradient.
+     * @param renderTexture - The texture to render the gradient into.
+     * @param options - The gradient parameters.
+     * @param options.x - The x-coordinate of the center.
+     * @param options.y - The y-coordinate of the center.
+     * @param options.rx - The distance from the center to the corners along the diamond's x-axis.
+     * @param options.ry - The distance from the center to the corners along the diamond's y-axis.
+     * @param options.rotation - The clockwise rotation of the diamond's axes, in radians.
+     * @param options.colorStops - The color stops along the gradient pattern.
+     * @param options.spreadMethod - How the gradient is painted beyond its start & end.
+     * @param options.colorInterpolation - The color space in which colors are interpolated.
+     */
+    static createDiamondGradient(
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: GradientOptions & {
+            x: number,
+            y: number,
+            rx: number,
+            ry: number,
+            rotation?: number,
+        },
+    ): RenderTexture
+    {
+        const { x, y, rx, ry, rotation } = options;
+        const shader = GradientFactory.prepareShader(GradientType.DIAMOND, renderer, renderTexture, options);
+        const { uPoints, uRadii } = shader.uniforms;
+
+        uPoints[0] = x;
+        uPoints[1] = y;
+        uRadii[0] = rx;
+        uRadii[1] = ry;
+        shader.uniforms.uAngle = rotation || 0;
+
+        return GradientFactory.renderGradient(renderer, renderTexture, shader);
+    }
+
+    /**
+     * Renders a freeform gradient into `renderTexture`, which blends the colors of arbitrarily placed points. The
+     * color at each pixel is the average of the points' colors, weighted by the inverse of their distance raised to
+     * `power`.
+     *
+     * This method can be called inside a render cycle, and will preserve the renderer state. It causes a batch renderer
+     * flush.
+     *
+     * @param renderer - The renderer to use for drawing the gradient.
+     * @param renderTexture - The texture to render the gradient into.
+     * @param options - The gradient parameters.
+     * @param options.points - The points whose colors are blended.
+     * @param options.power - The power of the inverse distance. Higher powers make the points' colors spread less.
+     * @param options.colorInterpolation - The color space in which colors are interpolated.
+     */
+    static createFreeformGradient(
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: Pick<GradientOptions, 'colorInterpolation'> & {
+            points: FreeformGradientPoint[],
+            power?: number,
+        },
+    ): RenderTexture
+    {
+        const { points } = options;
+        const colorInterpolation = options.colorInterpolation || 'srgb';
+        const pointCount = GradientFactory.clampColorStopCount(renderer, points.length);
+        const shader = GradientFactory.getGradientShader(GradientType.FREEFORM, pointCount);
+        const { uSize, uColors, uPositions } = shader.uniforms;
+
+        uSize[0] = renderTexture.width;
+        uSize[1] = renderTexture.height;
+
+        for (let i = 0; i < pointCount; i++)
+        {
+            const point = points[i];
+
+            parseColor(point.color, uColors, i * 4);
+            convertColor(uColors, i * 4, colorInterpolation);
+            uPositions[i * 2] = point.x;
+            uPositions[(i * 2) + 1] = point.y;
         }
+
+        shader.uniforms.uColorStopCount = pointCount;
+        shader.uniforms.uPower = options.power !== undefined ? options.power : 2;
+        shader.uniforms.uColorInterpolation = COLOR_INTERPOLATIONS[colorInterpolation];
+
+        return GradientFactory.renderGradient(renderer, renderTexture, shader);
+    }
+
+    /**
+     * Renders a mesh gradient into `renderTexture`, made of Coons patches. The colors at the corners of each patch
+     * are interpolated across it. Each patch is tessellated into a grid of `subdivisions` x `subdivisions` cells,
+     * and later patches are painted over earlier ones. Pixels not covered by any patch are transparent.
+     *
+     * This method can be called inside a render cycle, and will preserve the renderer state. It causes a batch renderer
+     * flush.
+     *
+     * @param renderer - The renderer to use for drawing the gradient.
+     * @param renderTexture - The texture to render the gradient into.
+     * @param options - The gradient parameters.
+     * @param options.patches - The patches of the mesh.
+     * @param options.subdivisions - The number of cells along each side of a tessellated patch.
+     * @param options.colorInterpolation - The color space in which colors are interpolated.
+     */
+    static createMeshGradient(
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: Pick<GradientOptions, 'colorInterpolation'> & {
+            patches: MeshGradientPatch[],
+            subdivisions?: number,
+        },
     ): RenderTexture
     {
-        const { x0, y0, r0, x1, y1, r1, colorStops } = options;
+        const { patches } = options;
+        const colorInterpolation = options.colorInterpolation || 'srgb';
+        const subdivisions = Math.max(1, Math.ceil(options.subdivisions || 16));
+        const gridSize = subdivisions + 1;
+        const vertexCount = patches.length * subdivisions * subdivisions * 6;
+
+        const positionBuffer = meshGradientGeometry.getBuffer('aVertexPosition');
+        const colorBuffer = meshGradientGeometry.getBuffer('aColor');
+        let positions = positionBuffer.data as Float32Array;
+        let colors = colorBuffer.data as Float32Array;
+
+        if (positions.length < vertexCount * 2)
+        {
+            positions = new Float32Array(vertexCount * 2);
+            colors = new Float32Array(vertexCount * 4);
+        }
+        if (tempGridPositions.length < gridSize * gridSize * 2)
+        {
+            tempGridPositions = new Float32Array(gridSize * gridSize * 2);
+            tempGridColors = new Float32Array(gridSize * gridSize * 4);
+        }
+
+        // The offsets of the vertices of the two triangles in a cell, from its top-left corner in the grid
+        const cellOffsets = [0, 1, gridSize + 1, 0, gridSize + 1, gridSize];
+        let vertex = 0;
+
+        for (let p = 0, q = patches.length; p < q; p++)
+        {
+            const patch = patches[p];
 
-        const canvas = document.createElement('canvas');
+            for (let i = 0; i < 4; i++)
+            {
+                parseColor(patch.colors[i], tempCornerColors, i * 4);
+                convertColor(tempCornerColors, i * 4, colorInterpolation);
+            }
 
-        canvas.width = renderTexture.width;
-        canvas.height = renderTexture.height;
+            // Evaluate the positions & colors on a grid over the patch
+            for (let j = 0; j < gridSize; j++)
+            {
+                const v = j / subdivisions;
 
-        const context = canvas.getContext('2d');
+                for (let i = 0; i < gridSize; i++)
+                {
+                    const u = i / subdivisions;
+                    const index = (j * gridSize) + i;
 
-        const gradient = context.createRadialGradient(x0, y0, r0, x1, y1, r1);
+                    evaluateCoonsPatch(patch.points, u, v, tempPoint);
+                    tempGridPositions[index * 2] = tempPoint[0];
+                    tempGridPositions[(index * 2) + 1] = tempPoint[1];
 
-        colorStops.forEach((stop) => {
-            gradient.addColorStop(stop.offset, cssColor(stop.color));
-        });
+                    for (let k = 0; k < 4; k++)
+                    {
+                        tempGridColors[(index * 4) + k] = ((1 - u) * (1 - v) * tempCornerColors[k])
+                            + (u * (1 - v) * tempCornerColors[4 + k])
+                            + (u * v * tempCornerColors[8 + k])
+                            + ((1 - u) * v * tempCornerColors[12 + k]);
+                    }
+                }
+            }
 
-        context.fillStyle = gradient;
-        context.fillRect(0, 0, renderTexture.width, renderTexture.height);
+            // Split each cell of the grid into two triangles
+            for (let j = 0; j < subdivisions; j++)
+            {
+                for (let i = 0; i < subdivisions; i++)
+                {
+                    const topLeft = (j * gridSize) + i;
+
+                    for (let k = 0; k < 6; k++, vertex++)
+                    {
+                        const index = topLeft + cellOffsets[k];
+
+                        positions[vertex * 2] = tempGridPositions[index * 2];
+                        positions[(vertex * 2) + 1] = tempGridPositions[(index * 2) + 1];
+                        colors.set(tempGridColors.subarray(index * 4, (index * 4) + 4), vertex * 4);
+                    }
+                }
+            }
+        }
+
+        positionBuffer.update(positions);
+        colorBuffer.update(colors);
+
+        const shader = meshGradientShader;
+
+        shader.uniforms.uSize[0] = renderTexture.width;
+        shader.uniforms.uSize[1] = renderTexture.height;
+        shader.uniforms.uColorInterpolation = COLOR_INTERPOLATIONS[colorInterpolation];
+
+        return GradientFactory.renderGradient(
+            renderer,
+            renderTexture,
+            shader,
+            meshGradientGeometry,
+            DRAW_MODES.TRIANGLES,
+            vertexCount,
+        );
+    }
+
+    /**
+     * Calculates the maximum number of color stops (or points, for freeform gradients) that a gradient can have on the
+     * renderer's GPU. The color stops are uploaded in uniform arrays, whose size is limited by the
+     * `MAX_FRAGMENT_UNIFORM_VECTORS` of the WebGL context. The color stops beyond this limit are ignored.
+     *
+     * @param renderer - The renderer that will draw the gradients.
+     */
+    static getMaxColorStops(renderer: Renderer): number
+    {
+        let maxColorStops = maxColorStopsByContext[renderer.CONTEXT_UID];
 
+        if (maxColorStops === undefined)
+        {
+            const gl = renderer.gl;
+            const maxUniformVectors = gl.getParameter(gl.MAX_FRAGMENT_UNIFORM_VECTORS);
+            const colorStopVectors = (maxUniformVectors - RESERVED_UNIFORM_VECTORS) / UNIFORM_VECTORS_PER_COLOR_STOP;
+
+            // The shaders are compiled for a power-of-two number of color stops
+            maxColorStops = maxColorStopsByContext[renderer.CONTEXT_UID] = Math.pow(
+                2,
+                Math.floor(Math.log2(Math.max(1, colorStopVectors))),
+            );
+        }
+
+        return maxColorStops;
+    }
+
+    /**
+     * Clamps the number of color stops of a gradient to those supported by the renderer, and warns if any are dropped.
+     *
+     * @param renderer - The renderer that will draw the gradient.
+     * @param colorStopCount - The number of color stops (or points, for freeform gradients) in the gradient.
+     */
+    private static clampColorStopCount(renderer: Renderer, colorStopCount: number): number
+    {
+        const maxColorStops = GradientFactory.getMaxColorStops(renderer);
+
+        if (colorStopCount > maxColorStops)
+        {
+            console.warn(`[GradientFactory] The GPU only supports ${maxColorStops} color stops per gradient, `
+                + `the remaining ${colorStopCount - maxColorStops} are ignored.`);
+
+            return maxColorStops;
+        }
+
+        return colorStopCount;
+    }
+
+    /**
+     * Gets the shader for the given type of gradient, compiling it if needed.
+     *
+     * Shaders are compiled for a power-of-two number of color stops, so that there isn't a shader for each
+     * gradient.
+     *
+     * @param type - The type of gradient.
+     * @param colorStopCount - The number of color stops (or points, for freeform gradients) in the gradient.
+     */
+    private static getGradientShader(type: GradientType, colorStopCount: number): Shader
+    {
+        const maxColorStops = Math.max(4, Math.pow(2, Math.ceil(Math.log2(Math.max(1, colorStopCount)))));
+        const key = `${type}-${maxColorStops}`;
+
+        let shader = gradientShaders[key];
+
+        if (!shader)
+        {
+            shader = gradientShaders[key] = Shader.from(
+                gradientVertexSrc,
+                gradientFragmentSrc
+                    .replace('%gradientType%', `${type}`)
+                    .replace('%maxColorStops%', `${maxColorStops}`)
+                    .replace('%colorInterpolation%', colorInterpolationSrc),
+                {
+                    uSize: new Float32Array(2),
+                    uPoints: new Float32Array(4),
+                    uRadii: new Float32Array(2),
+                    uAngle: 0,
+                    uColors: new Float32Array(maxColorStops * 4),
+                    uOffsets: new Float32Array(maxColorStops),
+                    uColorStopCount: 0,
+                    uPositions: new Float32Array(maxColorStops * 2),
+                    uPower: 2,
+                    uSpreadMethod: 0,
+                    uColorInterpolation: 0,
+                },
+            );
+        }
+
+        return shader;
+    }
+
+    /**
+     * Gets the shader for the given type of gradient, and uploads the color stops into its uniforms.
+     *
+     * The color-stop offsets are clamped to [0, 1] and made non-decreasing, as in SVG.
+     *
+     * @param type - The type of gradient.
+     * @param renderer - The renderer that will draw the gradient.
+     * @param renderTexture - The texture the gradient will be rendered into.
+     * @param options - The gradient parameters.
+     */
+    private static prepareShader(
+        type: GradientType,
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        options: GradientOptions,
+    ): Shader
+    {
+        const { colorStops } = options;
+        const spreadMethod = options.spreadMethod || 'pad';
+        const colorInterpolation = options.colorInterpolation || 'srgb';
+        const colorStopCount = Math.max(1, GradientFactory.clampColorStopCount(renderer, colorStops.length));
+        const shader = GradientFactory.getGradientShader(type, colorStopCount);
+
+        const { uSize, uColors, uOffsets } = shader.uniforms;
+
+        uSize[0] = renderTexture.width;
+        uSize[1] = renderTexture.height;
+
+        if (colorStops.length === 0)
+        {
+            // A gradient without any color stops paints nothing
+            uColors.fill(0, 0, 4);
+            uOffsets[0] = 0;
+        }
+
+        let lastOffset = 0;
+
+        for (let i = 0, j = Math.min(colorStops.length, colorStopCount); i < j; i++)
+        {
+            const colorStop = colorStops[i];
+
+            lastOffset = Math.max(lastOffset, Math.min(1, colorStop.offset));
+
+            parseColor(colorStop.color, uColors, i * 4);
+            convertColor(uColors, i * 4, colorInterpolation);
+            uOffsets[i] = lastOffset;
+        }
+
+        shader.uniforms.uColorStopCount = colorStopCount;
+        shader.uniforms.uSpreadMethod = SPREAD_METHODS[spreadMethod];
+        shader.uniforms.uColorInterpolation = COLOR_INTERPOLATIONS[colorInterpolation];
+
+        return shader;
+    }
+
+    /**
+     * Renders the gradient shader into the render-texture, and restores the render-texture binding. The
+     * render-texture is cleared beforehand.
+     *
+     * @param renderer - The renderer to use for drawing the gradient.
+     * @param renderTexture - The texture to render the gradient into.
+     * @param shader - The gradient shader, with its uniforms uploaded.
+     * @param geometry - The geometry to draw, which defaults to a quad covering the whole render-texture.
+     * @param drawMode - The primitives the geometry is drawn with.
+     * @param vertexCount - The number of vertices to draw, if not the whole geometry.
+     */
+    private static renderGradient(
+        renderer: Renderer,
+        renderTexture: RenderTexture,
+        shader: Shader,
+        geometry: Geometry = quad,
+        drawMode: DRAW_MODES = DRAW_MODES.TRIANGLE_STRIP,
+        vertexCount?: number,
+    ): RenderTexture
+    {
         // Store the current render-texture binding.
         const renderTarget = renderer.renderTexture.current;
         const sourceFrame = tempSourceFrame.copyFrom(renderer.renderTexture.sourceFrame);
         const destinationFrame = tempDestinationFrame.copyFrom(renderer.renderTexture.destinationFrame);
 
-        const renderSprite = new Sprite(Texture.from(canvas));
-
-        renderer.batch.flush();
+        // Stop the batch renderer so that it restores its shader & state when it is used next.
+        renderer.batch.setObjectRenderer(renderer.batch.emptyRenderer);
 
         renderer.renderTexture.bind(renderTexture);
-        renderSprite.render(renderer);
-        
-        renderer.batch.flush();
+        renderer.renderTexture.clear();
+        renderer.state.set(gradientState);
+        renderer.shader.bind(shader);
+        renderer.geometry.bind(geometry, shader);
+        renderer.geometry.draw(drawMode, vertexCount);
+
         renderer.renderTexture.bind(renderTarget, sourceFrame, destinationFrame);
 
         return renderTexture;
     }
-}
\ No newline at end of file
+}
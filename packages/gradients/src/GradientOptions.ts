@@ -0,0 +1,40 @@
+import type { ColorStop } from './ColorStop';
+
+/**
+ * How a gradient is painted beyond its start & end.
+ *
+ * + `pad`: The colors of the first & last color stops are extended.
+ * + `reflect`: The gradient is repeated, alternating in direction.
+ * + `repeat`: The gradient is repeated in the same direction.
+ *
+ * @public
+ */
+export type SpreadMethod = 'pad' | 'reflect' | 'repeat';
+
+/**
+ * The color space in which the colors between color stops are interpolated.
+ *
+ * + `srgb`: The gamma-encoded sRGB space, as in CSS and SVG by default.
+ * + `linear-rgb`: The linear-light sRGB space, i.e. `color-interpolation="linearRGB"` in SVG.
+ * + `oklab`: The perceptually uniform OKLab space.
+ *
+ * @public
+ */
+export type ColorInterpolation = 'srgb' | 'linear-rgb' | 'oklab';
+
+/**
+ * Options common to all gradients.
+ *
+ * @public
+ */
+export interface GradientOptions
+{
+    /** The color stops along the gradient pattern. */
+    colorStops: ColorStop[];
+
+    /** How the gradient is painted beyond its start & end. Defaults to `pad`. */
+    spreadMethod?: SpreadMethod;
+
+    /** The color space in which colors are interpolated. Defaults to `srgb`. */
+    colorInterpolation?: ColorInterpolation;
+}
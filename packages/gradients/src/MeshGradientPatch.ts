@@ -0,0 +1,18 @@
+/**
+ * Coons patch of a mesh gradient. Its boundary is made of four cubic Bézier curves, and the colors at its corners
+ * are interpolated across it.
+ *
+ * The `points` hold the x- and y-coordinates of the 12 control points of the boundary, going clockwise from the
+ * top-left corner: the top-left corner, two control points, the top-right corner, two control points, the
+ * bottom-right corner, two control points, the bottom-left corner, and the two control points of the edge back to
+ * the top-left corner.
+ *
+ * The `colors` are the colors of the top-left, top-right, bottom-right, and bottom-left corners.
+ *
+ * @public
+ */
+export interface MeshGradientPatch
+{
+    points: number[];
+    colors: [number | string, number | string, number | string, number | string];
+}
@@ -0,0 +1,56 @@
+/*
+ * Converts the premultiplied colors of a gradient from its interpolation color space into sRGB. This chunk is
+ * inserted into the gradient shaders.
+ */
+
+#define INTERPOLATION_SRGB 0
+#define INTERPOLATION_LINEAR_RGB 1
+#define INTERPOLATION_OKLAB 2
+
+uniform int uColorInterpolation;
+
+vec3 linearToSrgb(vec3 color)
+{
+    vec3 low = color * 12.92;
+    vec3 high = 1.055 * pow(color, vec3(1. / 2.4)) - 0.055;
+
+    return mix(high, low, vec3(lessThanEqual(color, vec3(0.0031308))));
+}
+
+vec3 oklabToLinear(vec3 color)
+{
+    vec3 lms = vec3(
+        color.x + 0.3963377774 * color.y + 0.2158037573 * color.z,
+        color.x - 0.1055613458 * color.y - 0.0638541728 * color.z,
+        color.x - 0.0894841775 * color.y - 1.2914855480 * color.z
+    );
+
+    lms = lms * lms * lms;
+
+    return vec3(
+        4.0767416621 * lms.x - 3.3077115913 * lms.y + 0.2309699292 * lms.z,
+        -1.2684380046 * lms.x + 2.6097574011 * lms.y - 0.3413193965 * lms.z,
+        -0.0041960863 * lms.x - 0.7034186147 * lms.y + 1.7076147010 * lms.z
+    );
+}
+
+vec4 toSrgb(vec4 color)
+{
+    if (color.a <= 0.)
+    {
+        return vec4(0);
+    }
+
+    vec3 rgb = color.rgb / color.a;
+
+    if (uColorInterpolation == INTERPOLATION_LINEAR_RGB)
+    {
+        rgb = linearToSrgb(max(rgb, 0.));
+    }
+    else if (uColorInterpolation == INTERPOLATION_OKLAB)
+    {
+        rgb = linearToSrgb(max(oklabToLinear(rgb), 0.));
+    }
+
+    return vec4(clamp(rgb, 0., 1.) * color.a, color.a);
+}
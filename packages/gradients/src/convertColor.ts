@@ -0,0 +1,50 @@
+import type { ColorInterpolation } from './GradientOptions';
+
+/**
+ * Converts a gamma-encoded sRGB component into linear-light.
+ *
+ * @ignore
+ */
+function srgbToLinear(component: number): number
+{
+    return component <= 0.04045 ? component / 12.92 : Math.pow((component + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Converts a non-premultiplied sRGB color into the color space used for interpolation, and premultiplies it with its
+ * alpha. Interpolating premultiplied colors prevents colors of transparent stops from bleeding into the gradient.
+ *
+ * @ignore
+ * @param colors - The array holding the color.
+ * @param offset - The index of the color's red component.
+ * @param colorInterpolation - The color space to convert into.
+ */
+export function convertColor(colors: Float32Array | number[], offset: number, colorInterpolation: ColorInterpolation): void
+{
+    let r = colors[offset];
+    let g = colors[offset + 1];
+    let b = colors[offset + 2];
+    const a = colors[offset + 3];
+
+    if (colorInterpolation === 'linear-rgb' || colorInterpolation === 'oklab')
+    {
+        r = srgbToLinear(r);
+        g = srgbToLinear(g);
+        b = srgbToLinear(b);
+    }
+
+    if (colorInterpolation === 'oklab')
+    {
+        const l = Math.cbrt((0.4122214708 * r) + (0.5363325363 * g) + (0.0514459929 * b));
+        const m = Math.cbrt((0.2119034982 * r) + (0.6806995451 * g) + (0.1073969566 * b));
+        const s = Math.cbrt((0.0883024619 * r) + (0.2817188376 * g) + (0.6299787005 * b));
+
+        r = (0.2104542553 * l) + (0.7936177850 * m) - (0.0040720468 * s);
+        g = (1.9779984951 * l) - (2.4285922050 * m) + (0.4505937099 * s);
+        b = (0.0259040371 * l) + (0.7827717662 * m) - (0.8086757660 * s);
+    }
+
+    colors[offset] = r * a;
+    colors[offset + 1] = g * a;
+    colors[offset + 2] = b * a;
+}
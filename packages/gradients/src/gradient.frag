@@ -0,0 +1,214 @@
+#version 100
+#define SHADER_NAME Gradient-Fragment-Shader
+
+#define LINEAR_GRADIENT 0
+#define RADIAL_GRADIENT 1
+#define CONIC_GRADIENT 2
+#define DIAMOND_GRADIENT 3
+#define FREEFORM_GRADIENT 4
+
+#define SPREAD_PAD 0
+#define SPREAD_REFLECT 1
+#define SPREAD_REPEAT 2
+
+#define TAU 6.28318530718
+
+#define GRADIENT_TYPE %gradientType%
+#define MAX_COLOR_STOPS %maxColorStops%
+
+precision highp float;
+
+varying vec2 vPosition;
+
+// The start (xy) and end (zw) points of the gradient. For radial gradients, these are the centers of the circles.
+// Conic & diamond gradients only have a center (xy).
+uniform vec4 uPoints;
+
+// The radii of the start & end circles of a radial gradient. For diamond gradients, these are the distances from
+// the center to the corners along each axis.
+uniform vec2 uRadii;
+
+// The start angle of a conic gradient, or the rotation of a diamond gradient.
+uniform float uAngle;
+
+// The colors and offsets of the color stops. The colors are premultiplied and in the interpolation color space. The
+// offsets are non-decreasing. For freeform gradients, these are the colors of the points.
+uniform vec4 uColors[MAX_COLOR_STOPS];
+uniform float uOffsets[MAX_COLOR_STOPS];
+uniform int uColorStopCount;
+
+// The positions of the points of a freeform gradient, and the power of the inverse-distance weights.
+uniform vec2 uPositions[MAX_COLOR_STOPS];
+uniform float uPower;
+
+uniform int uSpreadMethod;
+
+%colorInterpolation%
+
+float spread(float t)
+{
+    if (uSpreadMethod == SPREAD_REFLECT)
+    {
+        return 1. - abs(mod(t, 2.) - 1.);
+    }
+    if (uSpreadMethod == SPREAD_REPEAT)
+    {
+        return fract(t);
+    }
+
+    return clamp(t, 0., 1.);
+}
+
+vec4 sampleGradient(float t)
+{
+    vec4 color = uColors[0];
+
+    for (int i = 1; i < MAX_COLOR_STOPS; i++)
+    {
+        if (i >= uColorStopCount)
+        {
+            break;
+        }
+
+        if (t < uOffsets[i])
+        {
+            float range = uOffsets[i] - uOffsets[i - 1];
+            float weight = range > 0. ? clamp((t - uOffsets[i - 1]) / range, 0., 1.) : 1.;
+
+            color = mix(uColors[i - 1], uColors[i], weight);
+            break;
+        }
+
+        color = uColors[i];
+    }
+
+    return color;
+}
+
+void main(void)
+{
+    float t;
+    vec4 color;
+
+#if GRADIENT_TYPE == LINEAR_GRADIENT
+    vec2 axis = uPoints.zw - uPoints.xy;
+    float axisLengthSquared = dot(axis, axis);
+
+    // A gradient with coincident start & end points paints nothing
+    if (axisLengthSquared == 0.)
+    {
+        gl_FragColor = vec4(0);
+        return;
+    }
+
+    t = dot(vPosition - uPoints.xy, axis) / axisLengthSquared;
+#elif GRADIENT_TYPE == RADIAL_GRADIENT
+    // Find the largest t such that vPosition lies on the circle interpolated between the start & end circles
+    // by t, with a non-negative radius. This is the root of a * t^2 - 2 * b * t + c = 0.
+    vec2 centerDelta = uPoints.zw - uPoints.xy;
+    vec2 positionDelta = vPosition - uPoints.xy;
+    float radiusDelta = uRadii.y - uRadii.x;
+
+    float a = dot(centerDelta, centerDelta) - radiusDelta * radiusDelta;
+    float b = dot(positionDelta, centerDelta) + uRadii.x * radiusDelta;
+    float c = dot(positionDelta, positionDelta) - uRadii.x * uRadii.x;
+
+    if (abs(a) < 1e-6)
+    {
+        if (b == 0.)
+        {
+            gl_FragColor = vec4(0);
+            return;
+        }
+
+        t = c / (2. * b);
+    }
+    else
+    {
+        float discriminant = b * b - a * c;
+
+        if (discriminant < 0.)
+        {
+            gl_FragColor = vec4(0);
+            return;
+        }
+
+        float root = sqrt(discriminant);
+        float t0 = (b + root) / a;
+        float t1 = (b - root) / a;
+
+        t = max(t0, t1);
+
+        if (uRadii.x + t * radiusDelta < 0.)
+        {
+            t = min(t0, t1);
+        }
+    }
+
+    if (uRadii.x + t * radiusDelta < 0.)
+    {
+        gl_FragColor = vec4(0);
+        return;
+    }
+#elif GRADIENT_TYPE == CONIC_GRADIENT
+    vec2 positionDelta = vPosition - uPoints.xy;
+
+    // The sweep is clockwise since the y-axis points downward
+    t = fract((atan(positionDelta.y, positionDelta.x) - uAngle) / TAU);
+#elif GRADIENT_TYPE == DIAMOND_GRADIENT
+    // A diamond gradient with no area paints nothing
+    if (uRadii.x <= 0. || uRadii.y <= 0.)
+    {
+        gl_FragColor = vec4(0);
+        return;
+    }
+
+    vec2 positionDelta = vPosition - uPoints.xy;
+    float cosAngle = cos(uAngle);
+    float sinAngle = sin(uAngle);
+
+    // Rotate into the diamond's axes
+    vec2 diamondPosition = vec2(
+        cosAngle * positionDelta.x + sinAngle * positionDelta.y,
+        cosAngle * positionDelta.y - sinAngle * positionDelta.x
+    );
+
+    t = abs(diamondPosition.x) / uRadii.x + abs(diamondPosition.y) / uRadii.y;
+#elif GRADIENT_TYPE == FREEFORM_GRADIENT
+    // Weigh the color of each point by the inverse of its distance, raised to uPower
+    vec4 weightedColor = vec4(0);
+    float totalWeight = 0.;
+
+    for (int i = 0; i < MAX_COLOR_STOPS; i++)
+    {
+        if (i >= uColorStopCount)
+        {
+            break;
+        }
+
+        vec2 positionDelta = vPosition - uPositions[i];
+        float distanceSquared = dot(positionDelta, positionDelta);
+
+        // The color at a point is exactly its own
+        if (distanceSquared < 1e-6)
+        {
+            weightedColor = uColors[i];
+            totalWeight = 1.;
+            break;
+        }
+
+        float weight = pow(distanceSquared, -0.5 * uPower);
+
+        weightedColor += weight * uColors[i];
+        totalWeight += weight;
+    }
+
+    color = totalWeight > 0. ? weightedColor / totalWeight : vec4(0);
+#endif
+
+#if GRADIENT_TYPE != FREEFORM_GRADIENT
+    color = sampleGradient(spread(t));
+#endif
+
+    gl_FragColor = toSrgb(color);
+}
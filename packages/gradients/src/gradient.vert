@@ -0,0 +1,16 @@
+#version 100
+#define SHADER_NAME Gradient-Vertex-Shader
+
+attribute vec2 aVertexPosition;
+
+// The size of the render-texture, in texture space
+uniform vec2 uSize;
+
+varying vec2 vPosition;
+
+void main(void)
+{
+    // The quad covers the whole render-texture
+    gl_Position = vec4(aVertexPosition * 2. - 1., 0., 1.);
+    vPosition = aVertexPosition * uSize;
+}
@@ -1,3 +1,8 @@
 export { GradientFactory } from './GradientFactory';
+export { convertColor } from './convertColor';
+export { parseColor } from './parseColor';
 
-export type { ColorStop } from './ColorStop';
\ No newline at end of file
+export type { ColorStop } from './ColorStop';
+export type { FreeformGradientPoint } from './FreeformGradientPoint';
+export type { ColorInterpolation, GradientOptions, SpreadMethod } from './GradientOptions';
+export type { MeshGradientPatch } from './MeshGradientPatch';
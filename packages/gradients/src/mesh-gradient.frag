@@ -0,0 +1,13 @@
+#version 100
+#define SHADER_NAME Mesh-Gradient-Fragment-Shader
+
+precision highp float;
+
+varying vec4 vColor;
+
+%colorInterpolation%
+
+void main(void)
+{
+    gl_FragColor = toSrgb(vColor);
+}
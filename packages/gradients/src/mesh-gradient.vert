@@ -0,0 +1,19 @@
+#version 100
+#define SHADER_NAME Mesh-Gradient-Vertex-Shader
+
+// The position of the vertex, in texture space
+attribute vec2 aVertexPosition;
+
+// The premultiplied color of the vertex, in the interpolation color space
+attribute vec4 aColor;
+
+// The size of the render-texture, in texture space
+uniform vec2 uSize;
+
+varying vec4 vColor;
+
+void main(void)
+{
+    gl_Position = vec4(aVertexPosition / uSize * 2. - 1., 0., 1.);
+    vColor = aColor;
+}
@@ -0,0 +1,96 @@
+/**
+ * Shared context used to normalize CSS colors that aren't parsed here, e.g. named colors.
+ *
+ * @ignore
+ */
+let normalizingContext: CanvasRenderingContext2D = null;
+
+/**
+ * Parses a CSS color component, which may be a percentage.
+ *
+ * @ignore
+ * @param component - The component's string.
+ * @param scale - The value of the component at 100%.
+ */
+function parseComponent(component: string, scale: number): number
+{
+    const value = parseFloat(component);
+
+    return component.trim().endsWith('%') ? value * scale / 100 : value;
+}
+
+/**
+ * Parses a color into its (non-premultiplied) RGBA components, each in the range [0, 1]. Hexadecimal numbers are
+ * opaque. Strings can be any CSS color; hexadecimal, `rgb()`, `rgba()`, and `transparent` colors are parsed without
+ * touching the DOM.
+ *
+ * @ignore
+ * @param color - The color to parse.
+ * @param out - The array to write the components into.
+ * @param offset - The index at which the components are written.
+ */
+export function parseColor(color: number | string, out: Float32Array | number[], offset = 0): void
+{
+    if (typeof color === 'number')
+    {
+        out[offset] = ((color >> 16) & 0xff) / 255;
+        out[offset + 1] = ((color >> 8) & 0xff) / 255;
+        out[offset + 2] = (color & 0xff) / 255;
+        out[offset + 3] = 1;
+
+        return;
+    }
+
+    const string = color.trim().toLowerCase();
+
+    if (string === 'transparent')
+    {
+        out[offset] = out[offset + 1] = out[offset + 2] = out[offset + 3] = 0;
+
+        return;
+    }
+
+    if (string.startsWith('#'))
+    {
+        let hex = string.slice(1);
+
+        // Expand the short forms, #rgb and #rgba
+        if (hex.length <= 4)
+        {
+            hex = hex.split('').map((digit) => digit + digit).join('');
+        }
+
+        out[offset] = parseInt(hex.slice(0, 2), 16) / 255;
+        out[offset + 1] = parseInt(hex.slice(2, 4), 16) / 255;
+        out[offset + 2] = parseInt(hex.slice(4, 6), 16) / 255;
+        out[offset + 3] = hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1;
+
+        return;
+    }
+
+    const functionMatch = (/^rgba?\((.*)\)$/).exec(string);
+
+    if (functionMatch)
+    {
+        // Both the legacy "r, g, b, a" and the "r g b / a" syntaxes are supported.
+        const components = functionMatch[1].split(/[\s,/]+/).filter((component) => component.length > 0);
+
+        out[offset] = parseComponent(components[0], 255) / 255;
+        out[offset + 1] = parseComponent(components[1], 255) / 255;
+        out[offset + 2] = parseComponent(components[2], 255) / 255;
+        out[offset + 3] = components.length > 3 ? parseComponent(components[3], 1) : 1;
+
+        return;
+    }
+
+    // Let the browser normalize any other color into the hex or rgba() form.
+    if (!normalizingContext)
+    {
+        normalizingContext = document.createElement('canvas').getContext('2d');
+    }
+
+    normalizingContext.fillStyle = '#000000';
+    normalizingContext.fillStyle = string;
+
+    parseColor(normalizingContext.fillStyle as string, out, offset);
+}
@@ -0,0 +1,386 @@
+const { GradientFactory } = require('../');
+const { DRAW_MODES } = require('@pixi/constants');
+const { Rectangle } = require('@pixi/math');
+const expect = require('chai').expect;
+
+let contextUID = 0;
+
+// Records the shader used to render a gradient, without a WebGL context
+function createRenderer(maxFragmentUniformVectors = 224)
+{
+    const renderer = {
+        CONTEXT_UID: contextUID++,
+        gl: {
+            MAX_FRAGMENT_UNIFORM_VECTORS: 0x8DFD,
+            getParameter: (parameter) => (parameter === 0x8DFD ? maxFragmentUniformVectors : 0),
+        },
+        boundShader: null,
+        boundGeometry: null,
+        bindings: [],
+        draws: [],
+        shader: { bind(shader) { renderer.boundShader = shader; } },
+        batch: { emptyRenderer: {}, setObjectRenderer() { /* noop */ } },
+        renderTexture: {
+            current: null,
+            sourceFrame: new Rectangle(),
+            destinationFrame: new Rectangle(),
+            bind(target) { renderer.bindings.push(target); },
+            clear() { /* noop */ },
+        },
+        state: { set() { /* noop */ } },
+        geometry: {
+            bind(geometry) { renderer.boundGeometry = geometry; },
+            draw(drawMode, size) { renderer.draws.push([drawMode, size]); },
+        },
+    };
+
+    return renderer;
+}
+
+const renderTexture = { width: 64, height: 32 };
+const colorStops = [
+    { offset: 0, color: 0xff0000 },
+    { offset: 1, color: 0x0000ff },
+];
+
+describe('GradientFactory', () =>
+{
+    it('should upload the start & end points of linear gradients', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createLinearGradient(renderer, renderTexture, { x0: 1, y0: 2, x1: 30, y1: 40, colorStops });
+
+        const uniforms = renderer.boundShader.uniforms;
+
+        expect(Array.from(uniforms.uSize)).to.deep.equal([64, 32]);
+        expect(Array.from(uniforms.uPoints)).to.deep.equal([1, 2, 30, 40]);
+        expect(Array.from(uniforms.uColors.slice(0, 8))).to.deep.equal([1, 0, 0, 1, 0, 0, 1, 1]);
+        expect(Array.from(uniforms.uOffsets.slice(0, 2))).to.deep.equal([0, 1]);
+        expect(uniforms.uColorStopCount).to.equal(2);
+    });
+
+    it('should upload the start & end circles of radial gradients', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createRadialGradient(renderer, renderTexture, {
+            x0: 32,
+            y0: 16,
+            r0: 2,
+            x1: 30,
+            y1: 10,
+            r1: 20,
+            colorStops,
+        });
+
+        const uniforms = renderer.boundShader.uniforms;
+
+        expect(Array.from(uniforms.uSize)).to.deep.equal([64, 32]);
+        expect(Array.from(uniforms.uPoints)).to.deep.equal([32, 16, 30, 10]);
+        expect(Array.from(uniforms.uRadii)).to.deep.equal([2, 20]);
+        expect(uniforms.uColorStopCount).to.equal(2);
+    });
+
+    it('should upload the spread method & color interpolation of linear & radial gradients', () =>
+    {
+        const renderer = createRenderer();
+        const radial = { x0: 0, y0: 0, r0: 0, x1: 0, y1: 0, r1: 1, colorStops };
+
+        GradientFactory.createLinearGradient(renderer, renderTexture, {
+            x0: 0,
+            y0: 0,
+            x1: 1,
+            y1: 0,
+            spreadMethod: 'reflect',
+            colorInterpolation: 'linear-rgb',
+            colorStops,
+        });
+
+        expect(renderer.boundShader.uniforms.uSpreadMethod).to.equal(1);
+        expect(renderer.boundShader.uniforms.uColorInterpolation).to.equal(1);
+
+        GradientFactory.createRadialGradient(renderer, renderTexture, {
+            ...radial,
+            spreadMethod: 'repeat',
+            colorInterpolation: 'oklab',
+        });
+
+        expect(renderer.boundShader.uniforms.uSpreadMethod).to.equal(2);
+        expect(renderer.boundShader.uniforms.uColorInterpolation).to.equal(2);
+
+        GradientFactory.createRadialGradient(renderer, renderTexture, radial);
+
+        expect(renderer.boundShader.uniforms.uSpreadMethod).to.equal(0);
+        expect(renderer.boundShader.uniforms.uColorInterpolation).to.equal(0);
+    });
+
+    it('should render linear & radial gradients into the render-texture and restore the render target', () =>
+    {
+        const renderer = createRenderer();
+        const renderTarget = {};
+
+        renderer.renderTexture.current = renderTarget;
+
+        const linear = GradientFactory.createLinearGradient(renderer, renderTexture, {
+            x0: 0,
+            y0: 0,
+            x1: 1,
+            y1: 0,
+            colorStops,
+        });
+        const linearShader = renderer.boundShader;
+        const radial = GradientFactory.createRadialGradient(renderer, renderTexture, {
+            x0: 0,
+            y0: 0,
+            r0: 0,
+            x1: 0,
+            y1: 0,
+            r1: 1,
+            colorStops,
+        });
+
+        expect(linear).to.equal(renderTexture);
+        expect(radial).to.equal(renderTexture);
+        expect(renderer.boundShader).to.not.equal(linearShader);
+        expect(renderer.bindings).to.deep.equal([renderTexture, renderTarget, renderTexture, renderTarget]);
+        expect(renderer.draws).to.deep.equal([
+            [DRAW_MODES.TRIANGLE_STRIP, undefined],
+            [DRAW_MODES.TRIANGLE_STRIP, undefined],
+        ]);
+    });
+
+    it('should upload the center & start angle of conic gradients', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createConicGradient(renderer, renderTexture, { x: 10, y: 20, startAngle: Math.PI, colorStops });
+
+        const uniforms = renderer.boundShader.uniforms;
+
+        expect(Array.from(uniforms.uSize)).to.deep.equal([64, 32]);
+        expect(Array.from(uniforms.uPoints.slice(0, 2))).to.deep.equal([10, 20]);
+        expect(uniforms.uAngle).to.equal(Math.PI);
+        expect(uniforms.uColorStopCount).to.equal(2);
+    });
+
+    it('should default the start angle of conic gradients to zero', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createConicGradient(renderer, renderTexture, { x: 0, y: 0, startAngle: 1, colorStops });
+        GradientFactory.createConicGradient(renderer, renderTexture, { x: 0, y: 0, colorStops });
+
+        expect(renderer.boundShader.uniforms.uAngle).to.equal(0);
+    });
+
+    it('should upload the center, radii & rotation of diamond gradients', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createDiamondGradient(renderer, renderTexture, {
+            x: 32,
+            y: 16,
+            rx: 8,
+            ry: 4,
+            rotation: 0.5,
+            colorStops,
+        });
+
+        const uniforms = renderer.boundShader.uniforms;
+
+        expect(Array.from(uniforms.uPoints.slice(0, 2))).to.deep.equal([32, 16]);
+        expect(Array.from(uniforms.uRadii)).to.deep.equal([8, 4]);
+        expect(uniforms.uAngle).to.equal(0.5);
+    });
+
+    it('should upload the positions, colors & power of the points of freeform gradients', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createFreeformGradient(renderer, renderTexture, {
+            points: [
+                { x: 1, y: 2, color: 0xff0000 },
+                { x: 60, y: 4, color: 'rgba(0, 0, 255, 0.5)' },
+                { x: 30, y: 30, color: '#00ff00' },
+            ],
+            power: 3,
+        });
+
+        const uniforms = renderer.boundShader.uniforms;
+
+        expect(Array.from(uniforms.uSize)).to.deep.equal([64, 32]);
+        expect(Array.from(uniforms.uPositions.slice(0, 6))).to.deep.equal([1, 2, 60, 4, 30, 30]);
+        expect(Array.from(uniforms.uColors.slice(0, 12))).to.deep.equal([1, 0, 0, 1, 0, 0, 0.5, 0.5, 0, 1, 0, 1]);
+        expect(uniforms.uColorStopCount).to.equal(3);
+        expect(uniforms.uPower).to.equal(3);
+        expect(renderer.draws).to.deep.equal([[DRAW_MODES.TRIANGLE_STRIP, undefined]]);
+    });
+
+    it('should weight the points of freeform gradients by the inverse square distance by default', () =>
+    {
+        const renderer = createRenderer();
+        const points = [{ x: 0, y: 0, color: 0xff0000 }, { x: 10, y: 0, color: 0x0000ff }];
+
+        GradientFactory.createFreeformGradient(renderer, renderTexture, { points, power: 4 });
+        GradientFactory.createFreeformGradient(renderer, renderTexture, { points });
+
+        expect(renderer.boundShader.uniforms.uPower).to.equal(2);
+        expect(renderer.boundShader.uniforms.uColorStopCount).to.equal(2);
+    });
+
+    describe('mesh gradients', () =>
+    {
+        // A square patch, with straight edges, from (0, 0) to (120, 120)
+        const square = {
+            points: [
+                0, 0, 40, 0, 80, 0, 120, 0,
+                120, 40, 120, 80, 120, 120,
+                80, 120, 40, 120, 0, 120,
+                0, 80, 0, 40,
+            ],
+            colors: [0xff0000, 0xffff00, 0x00ff00, 0x0000ff],
+        };
+
+        // Maps the position of each vertex drawn to its color
+        function vertexColors(renderer, vertexCount)
+        {
+            const positions = renderer.boundGeometry.getBuffer('aVertexPosition').data;
+            const colors = renderer.boundGeometry.getBuffer('aColor').data;
+            const result = {};
+
+            for (let i = 0; i < vertexCount; i++)
+            {
+                const key = `${Math.round(positions[i * 2])},${Math.round(positions[(i * 2) + 1])}`;
+
+                result[key] = Array.from(colors.slice(i * 4, (i * 4) + 4));
+            }
+
+            return result;
+        }
+
+        it('should tessellate each patch into two triangles per cell', () =>
+        {
+            const renderer = createRenderer();
+
+            GradientFactory.createMeshGradient(renderer, renderTexture, { patches: [square, square], subdivisions: 3 });
+            GradientFactory.createMeshGradient(renderer, renderTexture, { patches: [square] });
+
+            expect(renderer.draws).to.deep.equal([
+                [DRAW_MODES.TRIANGLES, 2 * 3 * 3 * 6],
+                [DRAW_MODES.TRIANGLES, 16 * 16 * 6],
+            ]);
+            expect(renderer.boundGeometry.getBuffer('aVertexPosition').data.length).to.be.at.least(2 * 3 * 3 * 6 * 2);
+        });
+
+        it('should map the corners of patches to their colors', () =>
+        {
+            const renderer = createRenderer();
+
+            GradientFactory.createMeshGradient(renderer, renderTexture, { patches: [square], subdivisions: 2 });
+
+            const colors = vertexColors(renderer, 24);
+
+            expect(Object.keys(colors)).to.have.members([
+                '0,0', '60,0', '120,0',
+                '0,60', '60,60', '120,60',
+                '0,120', '60,120', '120,120',
+            ]);
+            expect(colors['0,0']).to.deep.equal([1, 0, 0, 1]);
+            expect(colors['120,0']).to.deep.equal([1, 1, 0, 1]);
+            expect(colors['120,120']).to.deep.equal([0, 1, 0, 1]);
+            expect(colors['0,120']).to.deep.equal([0, 0, 1, 1]);
+            expect(colors['60,0']).to.deep.equal([1, 0.5, 0, 1]);
+            expect(colors['60,60']).to.deep.equal([0.5, 0.5, 0.25, 1]);
+        });
+
+        it('should evaluate the curved edges of Coons patches', () =>
+        {
+            const renderer = createRenderer();
+            const bulging = { ...square, points: square.points.slice() };
+
+            // Bend the top edge upwards, keeping its corners
+            bulging.points[3] = -40;
+            bulging.points[5] = -40;
+
+            GradientFactory.createMeshGradient(renderer, renderTexture, { patches: [bulging], subdivisions: 2 });
+
+            const colors = vertexColors(renderer, 24);
+
+            expect(colors['0,0']).to.deep.equal([1, 0, 0, 1]);
+            expect(colors['120,0']).to.deep.equal([1, 1, 0, 1]);
+            expect(colors['60,-30']).to.deep.equal([1, 0.5, 0, 1]);
+            expect(colors['60,45']).to.deep.equal([0.5, 0.5, 0.25, 1]);
+        });
+    });
+
+    it('should use a different shader for each gradient type', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createConicGradient(renderer, renderTexture, { x: 0, y: 0, colorStops });
+
+        const conicShader = renderer.boundShader;
+
+        GradientFactory.createDiamondGradient(renderer, renderTexture, { x: 0, y: 0, rx: 1, ry: 1, colorStops });
+
+        expect(renderer.boundShader).to.not.equal(conicShader);
+    });
+
+    it('should clamp the color-stop offsets and make them non-decreasing', () =>
+    {
+        const renderer = createRenderer();
+
+        GradientFactory.createDiamondGradient(renderer, renderTexture, {
+            x: 0,
+            y: 0,
+            rx: 1,
+            ry: 1,
+            colorStops: [
+                { offset: 0.5, color: 0xff0000 },
+                { offset: 0.25, color: 0x00ff00 },
+                { offset: 2, color: 0x0000ff },
+            ],
+        });
+
+        expect(Array.from(renderer.boundShader.uniforms.uOffsets.slice(0, 3))).to.deep.equal([0.5, 0.5, 1]);
+    });
+
+    it('should fit the color stops in the fragment uniform vectors', () =>
+    {
+        // WebGL 1 only guarantees 16 vectors
+        expect(GradientFactory.getMaxColorStops(createRenderer(16))).to.equal(4);
+        expect(GradientFactory.getMaxColorStops(createRenderer(224))).to.equal(64);
+        expect(GradientFactory.getMaxColorStops(createRenderer(1024))).to.equal(256);
+    });
+
+    it('should ignore the color stops beyond the limit', () =>
+    {
+        const renderer = createRenderer(16);
+        const points = [];
+        const warn = console.warn;
+        let warnings = 0;
+
+        for (let i = 0; i < 10; i++)
+        {
+            points.push({ x: i, y: i, color: 0xffffff });
+        }
+
+        console.warn = () => { warnings++; };
+
+        try
+        {
+            GradientFactory.createFreeformGradient(renderer, renderTexture, { points });
+        }
+        finally
+        {
+            console.warn = warn;
+        }
+
+        const uniforms = renderer.boundShader.uniforms;
+
+        expect(warnings).to.equal(1);
+        expect(uniforms.uColorStopCount).to.equal(4);
+        expect(uniforms.uPositions.length).to.equal(8);
+    });
+});
@@ -0,0 +1,44 @@
+const { convertColor } = require('../');
+const expect = require('chai').expect;
+
+describe('convertColor', () =>
+{
+    it('should premultiply sRGB colors with their alpha', () =>
+    {
+        const colors = [1, 0.5, 0.25, 0.5];
+
+        convertColor(colors, 0, 'srgb');
+
+        expect(colors).to.deep.equal([0.5, 0.25, 0.125, 0.5]);
+    });
+
+    it('should linearize colors for linear-rgb', () =>
+    {
+        const colors = [0, 0.5, 0.04, 1];
+
+        convertColor(colors, 0, 'linear-rgb');
+
+        expect(colors[0]).to.equal(0);
+        expect(colors[1]).to.be.closeTo(0.214, 1e-3);
+        expect(colors[2]).to.be.closeTo(0.04 / 12.92, 1e-6);
+        expect(colors[3]).to.equal(1);
+    });
+
+    it('should convert colors into oklab', () =>
+    {
+        const white = [1, 1, 1, 1];
+        const red = [0, 0, 0, 1, 1, 0, 0, 1];
+
+        convertColor(white, 0, 'oklab');
+        convertColor(red, 4, 'oklab');
+
+        expect(white[0]).to.be.closeTo(1, 1e-4);
+        expect(white[1]).to.be.closeTo(0, 1e-4);
+        expect(white[2]).to.be.closeTo(0, 1e-4);
+
+        expect(red.slice(0, 4)).to.deep.equal([0, 0, 0, 1]);
+        expect(red[4]).to.be.closeTo(0.628, 1e-3);
+        expect(red[5]).to.be.closeTo(0.2249, 1e-3);
+        expect(red[6]).to.be.closeTo(0.1258, 1e-3);
+    });
+});
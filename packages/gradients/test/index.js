@@ -0,0 +1,3 @@
+require('./GradientFactory');
+require('./convertColor');
+require('./parseColor');
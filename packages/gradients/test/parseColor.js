@@ -0,0 +1,47 @@
+const { parseColor } = require('../');
+const expect = require('chai').expect;
+
+function parse(color)
+{
+    const out = [];
+
+    parseColor(color, out);
+
+    return out;
+}
+
+describe('parseColor', () =>
+{
+    it('should parse hexadecimal numbers as opaque colors', () =>
+    {
+        expect(parse(0xff8000)).to.deep.equal([1, 128 / 255, 0, 1]);
+    });
+
+    it('should parse hexadecimal strings in the short & long forms', () =>
+    {
+        expect(parse('#f80')).to.deep.equal([1, 136 / 255, 0, 1]);
+        expect(parse('#ff880080')).to.deep.equal([1, 136 / 255, 0, 128 / 255]);
+        expect(parse('#F808')).to.deep.equal([1, 136 / 255, 0, 136 / 255]);
+    });
+
+    it('should parse rgb() and rgba() in the legacy & space-separated syntaxes', () =>
+    {
+        expect(parse('rgb(255, 0, 51)')).to.deep.equal([1, 0, 0.2, 1]);
+        expect(parse('rgba(255, 0, 51, 0.5)')).to.deep.equal([1, 0, 0.2, 0.5]);
+        expect(parse('rgb(100% 0% 20% / 50%)')).to.deep.equal([1, 0, 0.2, 0.5]);
+    });
+
+    it('should parse transparent as transparent black', () =>
+    {
+        expect(parse(' Transparent ')).to.deep.equal([0, 0, 0, 0]);
+    });
+
+    it('should write the components at the offset', () =>
+    {
+        const out = new Float32Array(8);
+
+        parseColor('#ffffff', out, 4);
+
+        expect(Array.from(out)).to.deep.equal([0, 0, 0, 0, 1, 1, 1, 1]);
+    });
+});
@@ -1,9 +1,20 @@
 const { main } = require('@pixi-build-tools/rollup-configurator/main');
 
-module.exports = main({
-    globals: {
-        'd-path-parser': 'dPathParse',
-        libtess: 'libtess',
-        tinycolor2: 'tinycolor',
-    },
-});
\ No newline at end of file
+const globals = {
+    'd-path-parser': 'dPathParse',
+    libtess: 'libtess',
+    tinycolor2: 'tinycolor',
+};
+
+module.exports = [
+    ...main({ globals }),
+
+    // The PixiJS-free entry point, @pixi-essentials/svg/description
+    ...main({
+        globals,
+        input: 'src/description/index.ts',
+        main: 'lib/description.js',
+        module: 'lib/description.es.js',
+        bundle: 'dist/description.js',
+    }),
+];
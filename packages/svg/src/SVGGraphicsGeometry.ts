@@ -1,15 +1,18 @@
 import { Bounds } from '@pixi/display';
-import { GraphicsGeometry } from '@pixi/graphics';
-import { Matrix } from '@pixi/math';
+import { FillStyle, GraphicsGeometry, LineStyle, graphicsUtils } from '@pixi/graphics';
+import { Matrix, Point } from '@pixi/math';
+import { Texture } from '@pixi/core';
 import { PATH } from './utils/Path';
 import { buildDashedLine } from './utils/buildDashedLine';
 
 import type { GraphicsData } from '@pixi/graphics';
 import type { DashedLineStyle } from './style/DashedLineStyle';
+import type { SVGBakedGeometry } from './asset/SVGAsset';
 import type { Path } from './utils/Path';
-import type { Circle, Ellipse, Polygon, Rectangle, RoundedRectangle } from '@pixi/math';
+import type { Circle, Ellipse, IPointData, Polygon, Rectangle, RoundedRectangle } from '@pixi/math';
 
 const tmpBounds = new Bounds();
+const tmpPoint = new Point();
 
 // @pixi/graphics should export this, ugh!
 enum SHAPES {
@@ -20,9 +23,117 @@ enum SHAPES {
     RREC = 4,
 }
 
+/**
+ * Calculates the squared distance of the point (x, y) from the line segment (x0, y0) - (x1, y1).
+ *
+ * @ignore
+ */
+function segmentDistanceSquared(x: number, y: number, x0: number, y0: number, x1: number, y1: number): number
+{
+    const dx = x1 - x0;
+    const dy = y1 - y0;
+    const lengthSquared = (dx * dx) + (dy * dy);
+    const t = lengthSquared > 0
+        ? Math.max(0, Math.min(1, (((x - x0) * dx) + ((y - y0) * dy)) / lengthSquared))
+        : 0;
+    const ex = x - (x0 + (t * dx));
+    const ey = y - (y0 + (t * dy));
+
+    return (ex * ex) + (ey * ey);
+}
+
+/**
+ * Calculates the distance of the point (x, y) from the outline of the ellipse centered at the origin with radii `rx`
+ * and `ry`. The closest point on the outline is found iteratively; three iterations are accurate enough for hit
+ * testing.
+ *
+ * @ignore
+ */
+function ellipseDistance(x: number, y: number, rx: number, ry: number): number
+{
+    const px = Math.abs(x);
+    const py = Math.abs(y);
+
+    if (rx <= 0 || ry <= 0)
+    {
+        return Math.sqrt(segmentDistanceSquared(px, py, 0, 0, Math.max(rx, 0), Math.max(ry, 0)));
+    }
+
+    // The closest point is (rx * tx, ry * ty), starting at 45 degrees in the first quadrant.
+    let tx = Math.SQRT1_2;
+    let ty = Math.SQRT1_2;
+
+    for (let i = 0; i < 3; i++)
+    {
+        // The center of curvature of the ellipse at the current point
+        const ex = ((rx * rx) - (ry * ry)) * tx * tx * tx / rx;
+        const ey = ((ry * ry) - (rx * rx)) * ty * ty * ty / ry;
+
+        const r = Math.hypot((rx * tx) - ex, (ry * ty) - ey);
+        const q = Math.hypot(px - ex, py - ey) || 1;
+
+        tx = Math.min(1, Math.max(0, ((((px - ex) * r) / q) + ex) / rx));
+        ty = Math.min(1, Math.max(0, ((((py - ey) * r) / q) + ey) / ry));
+
+        const t = Math.hypot(tx, ty);
+
+        tx /= t;
+        ty /= t;
+    }
+
+    return Math.hypot(px - (rx * tx), py - (ry * ty));
+}
+
+/**
+ * Calculates whether the point (x, y) is within `distance` of the polyline through `points`.
+ *
+ * @ignore
+ */
+export function polylineContains(
+    points: ArrayLike<number>,
+    closed: boolean,
+    x: number,
+    y: number,
+    distance: number,
+): boolean
+{
+    const distanceSquared = distance * distance;
+    const length = points.length;
+
+    if (length < 2)
+    {
+        return false;
+    }
+    if (length === 2)
+    {
+        return segmentDistanceSquared(x, y, points[0], points[1], points[0], points[1]) <= distanceSquared;
+    }
+
+    for (let i = 2; i < length; i += 2)
+    {
+        if (segmentDistanceSquared(x, y, points[i - 2], points[i - 1], points[i], points[i + 1]) <= distanceSquared)
+        {
+            return true;
+        }
+    }
+
+    return closed
+        && segmentDistanceSquared(x, y, points[length - 2], points[length - 1], points[0], points[1]) <= distanceSquared;
+}
+
 /** @public */
 export class SVGGraphicsGeometry extends GraphicsGeometry
 {
+    /**
+     * Whether this geometry was restored from pre-tessellated buffers, instead of being built from its shapes.
+     */
+    public baked = false;
+
+    /**
+     * The bounds of the restored geometry.
+     */
+    protected bakedBounds: [number, number, number, number] = null;
+
     processLine(data: GraphicsData): void
     {
         if (data.shape.type === PATH)
@@ -87,8 +198,368 @@ export class SVGGraphicsGeometry extends GraphicsGeometry
         });
     }
 
+    /**
+     * Calculates whether the point, in local space, is on the geometry. Unlike the default implementation, strokes
+     * are hit as well as fills, and geometry restored from pre-tessellated buffers is hit-tested against its
+     * triangles. The fill rule of paths is honored by {@link Path.contains}.
+     *
+     * @param point - The point in the local space of the node.
+     * @override
+     */
+    containsPoint(point: IPointData): boolean
+    {
+        if (this.baked)
+        {
+            return this.trianglesContain(point.x, point.y);
+        }
+
+        const bounds = this.bounds;
+
+        // The bounds include the strokes, so points outside them are rejected before testing each shape.
+        if (point.x < bounds.minX || point.x > bounds.maxX || point.y < bounds.minY || point.y > bounds.maxY)
+        {
+            return false;
+        }
+
+        const graphicsData = this.graphicsData;
+
+        for (let i = 0, j = graphicsData.length; i < j; i++)
+        {
+            const data = graphicsData[i];
+            const shape = data.shape;
+
+            if (!shape)
+            {
+                continue;
+            }
+            if (data.matrix)
+            {
+                data.matrix.applyInverse(point, tmpPoint);
+            }
+            else
+            {
+                tmpPoint.copyFrom(point);
+            }
+
+            if (data.fillStyle.visible && shape.contains(tmpPoint.x, tmpPoint.y))
+            {
+                return true;
+            }
+            if (data.lineStyle.visible && this.strokeContains(data, tmpPoint.x, tmpPoint.y))
+            {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Calculates whether the point (x, y) is on the stroke of the shape. SVG strokes are centered on the outline,
+     * so the point must be within half the stroke width of it.
+     *
+     * @param data - The shape & its style.
+     * @param x - The x-coordinate of the point, in the space of the shape.
+     * @param y - The y-coordinate of the point, in the space of the shape.
+     */
+    protected strokeContains(data: GraphicsData, x: number, y: number): boolean
+    {
+        const shape = data.shape;
+        const halfWidth = data.lineStyle.width / 2;
+
+        switch (shape.type)
+        {
+            case PATH:
+            {
+                const contours = (shape as unknown as Path).contours;
+
+                // Closed contours already end at their first point (see SVGPathNode.closePath), so open contours
+                // like those of polylines aren't closed here.
+                for (let i = 0, j = contours.length; i < j; i++)
+                {
+                    if (polylineContains(contours[i], false, x, y, halfWidth))
+                    {
+                        return true;
+                    }
+                }
+
+                return false;
+            }
+            case SHAPES.POLY:
+            {
+                const polygon = shape as Polygon;
+
+                return polylineContains(polygon.points, polygon.closeStroke, x, y, halfWidth);
+            }
+            case SHAPES.RECT:
+            {
+                const { x: left, y: top, width, height } = shape as Rectangle;
+
+                return polylineContains([left, top, left + width, top, left + width, top + height, left, top + height],
+                    true, x, y, halfWidth);
+            }
+            case SHAPES.CIRC:
+            {
+                const circle = shape as Circle;
+
+                return Math.abs(Math.hypot(x - circle.x, y - circle.y) - circle.radius) <= halfWidth;
+            }
+            case SHAPES.ELIP:
+            {
+                const ellipse = shape as Ellipse;
+
+                return ellipseDistance(x - ellipse.x, y - ellipse.y, ellipse.width, ellipse.height) <= halfWidth;
+            }
+            case SHAPES.RREC:
+            {
+                const { x: left, y: top, width, height, radius } = shape as RoundedRectangle;
+                const halfBoxWidth = width / 2;
+                const halfBoxHeight = height / 2;
+                const cornerRadius = Math.max(0, Math.min(radius, halfBoxWidth, halfBoxHeight));
+
+                // The signed distance from the outline, which is the inner box grown by the corner radius.
+                const qx = Math.abs(x - left - halfBoxWidth) - halfBoxWidth + cornerRadius;
+                const qy = Math.abs(y - top - halfBoxHeight) - halfBoxHeight + cornerRadius;
+                const distance = Math.hypot(Math.max(qx, 0), Math.max(qy, 0)) + Math.min(Math.max(qx, qy), 0)
+                    - cornerRadius;
+
+                return Math.abs(distance) <= halfWidth;
+            }
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Calculates whether the point (x, y) is inside any triangle of the tessellated geometry.
+     *
+     * @param x - The x-coordinate of the point, in local space.
+     * @param y - The y-coordinate of the point, in local space.
+     */
+    protected trianglesContain(x: number, y: number): boolean
+    {
+        const [minX, minY, maxX, maxY] = this.bakedBounds;
+
+        if (x < minX || y < minY || x > maxX || y > maxY)
+        {
+            return false;
+        }
+
+        const points = this.points;
+        const indices = this.indices;
+
+        for (let i = 0, j = indices.length; i < j; i += 3)
+        {
+            const ax = points[indices[i] * 2];
+            const ay = points[(indices[i] * 2) + 1];
+            const bx = points[indices[i + 1] * 2];
+            const by = points[(indices[i + 1] * 2) + 1];
+            const cx = points[indices[i + 2] * 2];
+            const cy = points[(indices[i + 2] * 2) + 1];
+
+            // The signs of the edge functions agree iff the point is inside, regardless of the winding.
+            const d0 = ((bx - ax) * (y - ay)) - ((by - ay) * (x - ax));
+            const d1 = ((cx - bx) * (y - by)) - ((cy - by) * (x - bx));
+            const d2 = ((ax - cx) * (y - cy)) - ((ay - cy) * (x - cx));
+
+            if ((d0 >= 0 && d1 >= 0 && d2 >= 0) || (d0 <= 0 && d1 <= 0 && d2 <= 0))
+            {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Gets the distinct fill or line styles used by this geometry. If the geometry was restored from pre-tessellated
+     * buffers, only the styles of its batches are known.
+     *
+     * @param line - Whether to get the line styles, instead of the fill styles.
+     */
+    getStyles(line: boolean): FillStyle[]
+    {
+        const styles: FillStyle[] = [];
+        const add = (style: FillStyle): void =>
+        {
+            if (style && styles.indexOf(style) === -1)
+            {
+                styles.push(style);
+            }
+        };
+
+        if (this.baked)
+        {
+            this.batches.forEach((batch) =>
+            {
+                if ((batch.style instanceof LineStyle) === line)
+                {
+                    add(batch.style);
+                }
+            });
+        }
+        else
+        {
+            this.graphicsData.forEach((data) => add(line ? data.lineStyle : data.fillStyle));
+        }
+
+        return styles;
+    }
+
+    /**
+     * Uploads the colors & alphas of the styles again, after they were changed in place. The shapes are not
+     * tessellated again.
+     */
+    updateStyles(): void
+    {
+        if (this.batchable)
+        {
+            // Graphics repopulate their batches, with the colors of the styles, when this changes.
+            this.batchDirty++;
+        }
+        else
+        {
+            this.colors.length = 0;
+            this.textureIds.length = 0;
+            this.buildDrawCalls();
+        }
+    }
+
+    /**
+     * Tessellates the shapes of this geometry, and copies out the buffers so that they can be restored later with
+     * {@link SVGGraphicsGeometry.restore}.
+     *
+     * @param textures - The textures that may be used by the styles, e.g. the paint textures of the node. Styles
+     *  that use other textures are baked as solid colors.
+     */
+    bake(textures: Texture[]): SVGBakedGeometry
+    {
+        this.updateBatches(true);
+
+        const { minX, minY, maxX, maxY } = this.bounds;
+
+        return {
+            bounds: [minX, minY, maxX, maxY],
+            points: new Float32Array(this.points),
+            uvs: new Float32Array(this.uvs),
+            indices: this.points.length / 2 > 0xffff ? new Uint32Array(this.indices) : new Uint16Array(this.indices),
+            batches: this.batches.map((batch) =>
+            {
+                const style = batch.style;
+
+                return {
+                    line: style instanceof LineStyle,
+                    native: style instanceof LineStyle && style.native,
+                    color: style.color,
+                    alpha: style.alpha,
+                    texture: textures.indexOf(style.texture),
+                    start: batch.start,
+                    size: batch.size,
+                    attribStart: batch.attribStart,
+                    attribSize: batch.attribSize,
+                };
+            }),
+        };
+    }
+
+    /**
+     * Restores the buffers of pre-tessellated geometry, generated by {@link SVGGraphicsGeometry.bake}. The shapes
+     * are not built again; the restored geometry is rendered until this geometry is cleared.
+     *
+     * @param baked - The pre-tessellated geometry.
+     * @param textures - The textures used by the styles, in the order they were passed when baking.
+     */
+    restore(baked: SVGBakedGeometry, textures: Texture[]): void
+    {
+        this.clear();
+
+        this.points = Array.from(baked.points);
+        this.uvs = Array.from(baked.uvs);
+        this.indices = Array.from(baked.indices);
+        this.batches = baked.batches.map((data) =>
+        {
+            const style = data.line ? new LineStyle() : new FillStyle();
+            const batch = new graphicsUtils.BatchPart();
+
+            style.visible = true;
+            style.color = data.color;
+            style.alpha = data.alpha;
+            style.texture = textures[data.texture] || Texture.WHITE;
+
+            if (style instanceof LineStyle)
+            {
+                style.native = data.native;
+            }
+
+            batch.begin(style, data.start, data.attribStart);
+            batch.end(data.start + data.size, data.attribStart + data.attribSize);
+
+            return batch;
+        });
+
+        this.baked = true;
+        this.bakedBounds = baked.bounds;
+        this.boundsDirty = -1;
+        this.indicesUint16 = this.points.length / 2 > 0xffff
+            ? new Uint32Array(this.indices)
+            : new Uint16Array(this.indices);
+        this.batchable = this.isBatchable();
+
+        if (this.batchable)
+        {
+            this.packBatches();
+        }
+        else
+        {
+            this.buildDrawCalls();
+        }
+    }
+
+    /**
+     * Builds the batches of the shapes, unless this geometry was restored from pre-tessellated buffers.
+     *
+     * @override
+     */
+    updateBatches(allow32Indices?: boolean): void
+    {
+        if (this.baked)
+        {
+            return;
+        }
+
+        super.updateBatches(allow32Indices);
+    }
+
+    /**
+     * @override
+     */
+    clear(): this
+    {
+        if (this.baked)
+        {
+            this.baked = false;
+            this.bakedBounds = null;
+            this.invalidate();
+        }
+
+        return super.clear() as this;
+    }
+
     protected calculateBounds(): void
     {
+        if (this.baked)
+        {
+            const [minX, minY, maxX, maxY] = this.bakedBounds;
+
+            this._bounds.clear();
+            this._bounds.minX = minX;
+            this._bounds.minY = minY;
+            this._bounds.maxX = maxX;
+            this._bounds.maxY = maxY;
+
+            return;
+        }
+
         const bounds = this._bounds;
         const sequenceBounds = tmpBounds;
         let curMatrix = Matrix.IDENTITY;
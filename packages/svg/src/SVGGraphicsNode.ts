@@ -6,6 +6,7 @@ import { GRAPHICS_CURVES, Graphics } from '@pixi/graphics';
 import { SVGGraphicsGeometry } from './SVGGraphicsGeometry';
 import { Texture } from '@pixi/core';
 
+import type { Paint } from './paint/Paint';
 import type { PaintServer } from './paint/PaintServer';
 import type { Renderer } from '@pixi/core';
 import type { SVGSceneContext } from './SVGSceneContext';
@@ -58,6 +59,18 @@ export class SVGGraphicsNode extends Graphics
 {
     paintServers: PaintServer[];
 
+    /**
+     * The paint of the element embedded into this node, including the paint it inherits. This is set by the
+     * {@link SVGScene} so that the node can be repainted when the paint changes.
+     */
+    paint: Paint;
+
+    /**
+     * The scale at which curves are tessellated, relative to their size in local space. Curves drawn after this is
+     * set are split into proportionally more segments, so that they stay smooth when the node is scaled up by as much.
+     */
+    curveScale: number;
+
     protected context: SVGSceneContext;
 
     constructor(context: SVGSceneContext)
@@ -72,6 +85,8 @@ export class SVGGraphicsNode extends Graphics
         this._lineStyle = new DashedLineStyle();
 
         this.paintServers = [];
+        this.paint = null;
+        this.curveScale = 1;
     }
 
     public lineTextureStyle(options: ILineStyleOptions): this
@@ -117,6 +132,38 @@ export class SVGGraphicsNode extends Graphics
         return this;
     }
 
+    /**
+     * Draws a cubic bézier curve, tessellated at the {@link SVGGraphicsNode.curveScale curve scale}.
+     *
+     * @override
+     */
+    bezierCurveTo(cpX: number, cpY: number, cpX2: number, cpY2: number, toX: number, toY: number): this
+    {
+        const maxLength = GRAPHICS_CURVES.maxLength;
+
+        GRAPHICS_CURVES.maxLength = maxLength / this.curveScale;
+        super.bezierCurveTo(cpX, cpY, cpX2, cpY2, toX, toY);
+        GRAPHICS_CURVES.maxLength = maxLength;
+
+        return this;
+    }
+
+    /**
+     * Draws a quadratic bézier curve, tessellated at the {@link SVGGraphicsNode.curveScale curve scale}.
+     *
+     * @override
+     */
+    quadraticCurveTo(cpX: number, cpY: number, toX: number, toY: number): this
+    {
+        const maxLength = GRAPHICS_CURVES.maxLength;
+
+        GRAPHICS_CURVES.maxLength = maxLength / this.curveScale;
+        super.quadraticCurveTo(cpX, cpY, toX, toY);
+        GRAPHICS_CURVES.maxLength = maxLength;
+
+        return this;
+    }
+
     /**
      * Draws an elliptical arc.
      *
@@ -142,7 +189,9 @@ export class SVGGraphicsNode extends Graphics
     {
         const sweepAngle = endAngle - startAngle;
         const n = GRAPHICS_CURVES.adaptive
-            ? _segmentsCount(EllipticArcUtils.calculateArcLength(rx, ry, startAngle, endAngle - startAngle)) * 4
+            ? _segmentsCount(
+                EllipticArcUtils.calculateArcLength(rx, ry, startAngle, endAngle - startAngle) * this.curveScale,
+            ) * 4
             : 20;
         const delta = (anticlockwise ? -1 : 1) * Math.abs(sweepAngle) / (n - 1);
 
@@ -294,7 +343,9 @@ export class SVGGraphicsNode extends Graphics
         const cy = element.cy.baseVal.valueInSpecifiedUnits;
         const r = element.r.baseVal.valueInSpecifiedUnits;
 
-        this.drawCircle(cx, cy, r);
+        // Drawn as an arc, so that the circle is tessellated at the curve scale.
+        this.ellipticArc(cx, cy, r, r, 0, 2 * Math.PI);
+        this.closePath();
     }
 
     /**
@@ -322,6 +373,7 @@ export class SVGGraphicsNode extends Graphics
             0,
             2 * Math.PI,
         );
+        this.closePath();
     }
 
     /**
@@ -424,6 +476,27 @@ export class SVGGraphicsNode extends Graphics
         }
     }
 
+    /**
+     * Calculates the bounds of the geometry, including geometry restored from pre-tessellated buffers.
+     *
+     * @override
+     */
+    protected _calculateBounds(): void
+    {
+        const geometry = this.geometry as SVGGraphicsGeometry;
+
+        if (geometry.baked)
+        {
+            const { minX, minY, maxX, maxY } = geometry.bounds;
+
+            this._bounds.addFrame(this.transform, minX, minY, maxX, maxY);
+
+            return;
+        }
+
+        super._calculateBounds();
+    }
+
     /**
      * @override
      */
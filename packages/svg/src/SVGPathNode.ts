@@ -78,8 +78,9 @@ export class SVGPathNode extends SVGGraphicsNode
      * Embeds the `SVGPathElement` into this node.
      *
      * @param element - the path to draw
+     * @param fillRule - overrides the `fill-rule` of the path, e.g. with its `clip-rule` when it is a part of a clip path
      */
-    embedPath(element: SVGPathElement): this
+    embedPath(element: SVGPathElement, fillRule?: FILL_RULE): this
     {
         const d = element.getAttribute('d');
 
@@ -328,13 +329,52 @@ export class SVGPathNode extends SVGGraphicsNode
             }
         }
 
+        this.drawPath(element, fillRule);
+
+        return this;
+    }
+
+    /**
+     * Embeds the `SVGPolygonElement` into this node, as a path so that its fill rule is honored.
+     *
+     * @param element - The polygon element to draw.
+     * @param fillRule - overrides the `fill-rule` of the polygon, e.g. with its `clip-rule` in a clip path
+     * @override
+     */
+    embedPolygon(element: SVGPolygonElement, fillRule?: FILL_RULE): void
+    {
+        super.embedPolygon(element);
+        this.drawPath(element, fillRule);
+    }
+
+    /**
+     * Embeds the `SVGPolylineElement` into this node, as a path so that its fill rule is honored.
+     *
+     * @param element - The polyline element to draw.
+     * @param fillRule - overrides the `fill-rule` of the polyline, e.g. with its `clip-rule` in a clip path
+     * @override
+     */
+    embedPolyline(element: SVGPolylineElement, fillRule?: FILL_RULE): void
+    {
+        super.embedPolyline(element);
+        this.drawPath(element, fillRule);
+    }
+
+    /**
+     * Draws the path built by the embedded element's drawing commands.
+     *
+     * @param element - The element that was embedded.
+     * @param fillRule - overrides the `fill-rule` attribute of the element
+     */
+    private drawPath(element: SVGElement, fillRule?: FILL_RULE): void
+    {
         if (this.currentPath2)
         {
-            this.currentPath2.fillRule = element.getAttribute('fill-rule') as FILL_RULE || this.currentPath2.fillRule;
+            this.currentPath2.fillRule = fillRule
+                || element.getAttribute('fill-rule') as FILL_RULE
+                || this.currentPath2.fillRule;
             this.drawShape(this.currentPath2 as any);
             this.currentPath2 = null;
         }
-
-        return this;
     }
 }
@@ -0,0 +1,347 @@
+import { Buffer, Geometry, Shader, State } from '@pixi/core';
+import { Container } from '@pixi/display';
+import { DRAW_MODES } from '@pixi/constants';
+import { PaintProvider } from './paint/PaintProvider';
+import { Point } from '@pixi/math';
+import { SDFGlyphAtlas } from './text/SDFGlyphAtlas';
+import { TextMetrics, TextStyle } from '@pixi/text';
+import sdfTextVertexSrc from './text/sdf-text.vert';
+import sdfTextFragmentSrc from './text/sdf-text.frag';
+
+import type { BaseTexture, Renderer } from '@pixi/core';
+import type { IPointData, Matrix } from '@pixi/math';
+import type { SVGTextEngine } from './SVGTextEngine';
+
+const tempPoint = new Point();
+
+/**
+ * The shader that renders glyphs from their signed distance fields.
+ *
+ * @ignore
+ */
+const sdfTextShader = Shader.from(sdfTextVertexSrc, sdfTextFragmentSrc, {
+    translationMatrix: new Float32Array(9),
+    uAlpha: 1,
+    uRadius: 8,
+    uScale: 1,
+});
+
+/**
+ * @ignore
+ */
+const sdfTextState = State.for2d();
+
+/**
+ * The glyph quads that sample the same atlas slab.
+ *
+ * @ignore
+ */
+interface GlyphBatch
+{
+    baseTexture: BaseTexture;
+    geometry: Geometry;
+    vertices: Float32Array;
+    indexCount: number;
+}
+
+/**
+ * `SVGSDFTextEngine` is a {@link SVGTextEngine} that renders glyphs from signed distance fields, which are packed
+ * into an {@link SDFGlyphAtlas} at runtime. Unlike {@link SVGTextEngineImpl}, the text stays crisp at any scale,
+ * because its edges are reconstructed from the distance field for each pixel on the screen.
+ *
+ * Only the fill color of the text is supported. Sharp corners of glyphs are slightly rounded when zoomed in
+ * very far, since a single-channel distance field cannot preserve them.
+ *
+ * To render the text in all SVG scenes with this engine, set it as the default engine:
+ *
+ * ```js
+ * SVGTextNode.defaultEngine = SVGSDFTextEngine;
+ * ```
+ *
+ * @public
+ */
+export class SVGSDFTextEngine extends Container implements SVGTextEngine
+{
+    /**
+     * The atlas holding the glyphs.
+     */
+    public atlas: SDFGlyphAtlas;
+
+    protected contentList: Map<any, {
+        position: IPointData;
+        content: string;
+        style: Partial<TextStyle>;
+        matrix?: Matrix;
+    }>;
+
+    /**
+     * The glyph quads, batched by the slab of the atlas they sample.
+     */
+    protected batches: GlyphBatch[];
+
+    protected dirtyId: number;
+    protected updateId: number;
+
+    /**
+     * @param atlas - The atlas to render glyphs into.
+     */
+    constructor(atlas: SDFGlyphAtlas = SDFGlyphAtlas.shared)
+    {
+        super();
+
+        this.atlas = atlas;
+        this.contentList = new Map();
+        this.batches = [];
+
+        this.dirtyId = 0;
+        this.updateId = 0;
+    }
+
+    async clear(): Promise<void>
+    {
+        this.contentList.clear();
+        this.dirtyId++;
+    }
+
+    async put(
+        id: any,
+        position: IPointData,
+        content: string,
+        style: Partial<TextStyle>,
+        matrix?: Matrix,
+    ): Promise<IPointData>
+    {
+        this.contentList.set(id, {
+            position,
+            content,
+            style,
+            matrix,
+        });
+
+        const textMetrics = TextMetrics.measureText(content, new TextStyle(style), false);
+
+        this.dirtyId++;
+
+        return {
+            x: position.x + textMetrics.width,
+            y: position.y,
+        };
+    }
+
+    /**
+     * Generates the glyph quads of the text content.
+     */
+    updateGlyphs(): void
+    {
+        const atlas = this.atlas;
+        const quads = new Map<BaseTexture, number[]>();
+
+        this.contentList.forEach(({ position, content, style, matrix }) =>
+        {
+            /* eslint-disable-next-line no-nested-ternary */
+            const fill = typeof style.fill === 'string'
+                ? PaintProvider.parseColor(style.fill)
+                : (typeof style.fill === 'number' ? style.fill : 0);
+
+            // Paint servers are not supported.
+            if (typeof fill !== 'number')
+            {
+                return;
+            }
+
+            const red = ((fill >> 16) & 0xff) / 255;
+            const green = ((fill >> 8) & 0xff) / 255;
+            const blue = (fill & 0xff) / 255;
+            const fontScale = ((style.fontSize as number) || 26) / atlas.fontSize;
+            const letterSpacing = style.letterSpacing || 0;
+            const characters = Array.from(content);
+            const offsets = atlas.measureOffsets(characters, style);
+
+            for (let i = 0, j = characters.length; i < j; i++)
+            {
+                const glyph = atlas.getGlyph(characters[i], style);
+
+                if (!glyph.texture)
+                {
+                    continue;
+                }
+
+                const { texture } = glyph;
+                const { baseTexture, frame } = texture;
+                const x0 = position.x + ((offsets[i] + glyph.x) * fontScale) + (i * letterSpacing);
+                const y0 = position.y + (glyph.y * fontScale);
+                const x1 = x0 + (glyph.width * fontScale);
+                const y1 = y0 + (glyph.height * fontScale);
+                const u0 = frame.x / baseTexture.width;
+                const v0 = frame.y / baseTexture.height;
+                const u1 = (frame.x + frame.width) / baseTexture.width;
+                const v1 = (frame.y + frame.height) / baseTexture.height;
+
+                let data = quads.get(baseTexture);
+
+                if (!data)
+                {
+                    data = [];
+                    quads.set(baseTexture, data);
+                }
+
+                for (let k = 0; k < 4; k++)
+                {
+                    tempPoint.set(k % 2 === 0 ? x0 : x1, k < 2 ? y0 : y1);
+
+                    if (matrix)
+                    {
+                        matrix.apply(tempPoint, tempPoint);
+                    }
+
+                    data.push(
+                        tempPoint.x, tempPoint.y,
+                        k % 2 === 0 ? u0 : u1, k < 2 ? v0 : v1,
+                        red, green, blue, 1,
+                        fontScale,
+                    );
+                }
+            }
+        });
+
+        this.destroyBatches();
+
+        quads.forEach((data, baseTexture) =>
+        {
+            const quadCount = data.length / 36;
+            const vertices = new Float32Array(quadCount * 8);
+            const uvs = new Float32Array(quadCount * 8);
+            const colors = new Float32Array(quadCount * 16);
+            const fontScales = new Float32Array(quadCount * 4);
+            // Uint16 indices can only address 16384 glyphs.
+            const indices = quadCount * 4 > 0xffff ? new Uint32Array(quadCount * 6) : new Uint16Array(quadCount * 6);
+
+            for (let i = 0, j = quadCount * 4; i < j; i++)
+            {
+                const offset = i * 9;
+
+                vertices[2 * i] = data[offset];
+                vertices[(2 * i) + 1] = data[offset + 1];
+                uvs[2 * i] = data[offset + 2];
+                uvs[(2 * i) + 1] = data[offset + 3];
+                colors.set(data.slice(offset + 4, offset + 8), 4 * i);
+                fontScales[i] = data[offset + 8];
+            }
+
+            for (let i = 0; i < quadCount; i++)
+            {
+                indices.set([
+                    4 * i, (4 * i) + 1, (4 * i) + 2,
+                    (4 * i) + 1, (4 * i) + 3, (4 * i) + 2,
+                ], 6 * i);
+            }
+
+            const geometry = new Geometry()
+                .addAttribute('aVertexPosition', new Buffer(vertices, true), 2)
+                .addAttribute('aTextureCoord', new Buffer(uvs, true), 2)
+                .addAttribute('aColor', new Buffer(colors, true), 4)
+                .addAttribute('aFontScale', new Buffer(fontScales, true), 1)
+                .addIndex(new Buffer(indices, true, true));
+
+            this.batches.push({
+                baseTexture,
+                geometry,
+                vertices,
+                indexCount: indices.length,
+            });
+        });
+
+        this.updateId = this.dirtyId;
+
+        // Ensure the SVG scene updates its bounds after the text is generated.
+        this.emit('nodetransformdirty');
+    }
+
+    /**
+     * Renders the glyph quads.
+     *
+     * @override
+     */
+    protected _render(renderer: Renderer): void
+    {
+        if (this.updateId !== this.dirtyId)
+        {
+            this.updateGlyphs();
+        }
+
+        const batches = this.batches;
+
+        if (batches.length === 0)
+        {
+            return;
+        }
+
+        const { a, b, c, d } = this.worldTransform;
+        const uniforms = sdfTextShader.uniforms;
+
+        uniforms.translationMatrix = this.worldTransform.toArray(true);
+        uniforms.uAlpha = this.worldAlpha;
+        uniforms.uRadius = this.atlas.radius;
+        uniforms.uScale = Math.sqrt(Math.abs((a * d) - (b * c))) * renderer.resolution;
+
+        renderer.batch.setObjectRenderer(renderer.batch.emptyRenderer);
+        renderer.state.set(sdfTextState);
+
+        for (let i = 0, j = batches.length; i < j; i++)
+        {
+            const batch = batches[i];
+
+            uniforms.uSampler = batch.baseTexture;
+
+            renderer.shader.bind(sdfTextShader);
+            renderer.geometry.bind(batch.geometry, sdfTextShader);
+            renderer.geometry.draw(DRAW_MODES.TRIANGLES, batch.indexCount);
+        }
+    }
+
+    /**
+     * Adds the glyph quads to the bounds of this engine.
+     *
+     * @override
+     */
+    protected _calculateBounds(): void
+    {
+        if (this.updateId !== this.dirtyId)
+        {
+            this.updateGlyphs();
+        }
+
+        const batches = this.batches;
+
+        for (let i = 0, j = batches.length; i < j; i++)
+        {
+            const vertices = batches[i].vertices;
+
+            this._bounds.addVertices(this.transform, vertices, 0, vertices.length);
+        }
+    }
+
+    /**
+     * Destroys the glyph geometry. The glyphs remain in the atlas, because they are shared.
+     *
+     * @override
+     */
+    destroy(options?: boolean | { children?: boolean, texture?: boolean, baseTexture?: boolean }): void
+    {
+        this.destroyBatches();
+        super.destroy(options);
+    }
+
+    /**
+     * Destroys the geometry of the glyph batches.
+     */
+    private destroyBatches(): void
+    {
+        for (let i = 0, j = this.batches.length; i < j; i++)
+        {
+            this.batches[i].geometry.destroy();
+        }
+
+        this.batches.length = 0;
+    }
+}
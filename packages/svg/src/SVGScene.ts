@@ -1,27 +1,125 @@
 import { CanvasTextureAllocator } from '@pixi-essentials/texture-allocator';
 import { Cull } from '@pixi-essentials/cull';
+import { WRAP_MODES } from '@pixi/constants';
+import { buildSVGElement } from './description/buildSVGElement';
+import { ClipMask } from './mask/ClipMask';
 import { DisplayObject, Container } from '@pixi/display';
+import { FILL_RULE } from './utils/Path';
 import { InheritedPaintProvider } from './paint/InheritedPaintProvider';
 import { MaskServer } from './mask/MaskServer';
-import { LINE_CAP, LINE_JOIN, GraphicsData } from '@pixi/graphics';
+import { GRAPHICS_CURVES, Graphics, LINE_CAP, LINE_JOIN, GraphicsData } from '@pixi/graphics';
 import * as Loader from './loader';
-import { Matrix, Rectangle } from '@pixi/math';
+import { Matrix, Point, Rectangle } from '@pixi/math';
 import { PaintProvider } from './paint/PaintProvider';
 import { PaintServer } from './paint/PaintServer';
 import { RenderTexture, Texture } from '@pixi/core';
+import { SVGFilter } from './filter/SVGFilter';
+import { SVGGraphicsGeometry } from './SVGGraphicsGeometry';
 import { SVGGraphicsNode } from './SVGGraphicsNode';
 import { SVGImageNode } from './SVGImageNode';
 import { SVGPathNode } from './SVGPathNode';
 import { SVGTextNode } from './SVGTextNode';
 import { SVGUseNode } from './SVGUseNode';
-
+import { StyleResolver } from './style/StyleResolver';
+import { decodeSVGAsset, encodeSVGAsset, indexSVGElements } from './asset/SVGAsset';
+import { parseSVGDescription } from './description/parseSVGDescription';
+import { computeMarkerAngle, computeMarkerVertices } from './marker/computeMarkerVertices';
+import { MarkerInstances } from './marker/MarkerInstances';
+import { computeViewBoxTransform } from './utils/computeViewBoxTransform';
+import { hasCurves } from './utils/hasCurves';
+import { getIntrinsicSize, getViewportSize, parseMeasurement } from './utils/parseMeasurement';
+
+import type { MarkerVertex } from './marker/computeMarkerVertices';
+import type { SVGBakedGeometry, SVGBakedShape } from './asset/SVGAsset';
+import type { SVGSceneDescription } from './description/SVGSceneDescription';
+import type { IPointData } from '@pixi/math';
 import type { Paint } from './paint/Paint';
 import type { SVGSceneContext } from './SVGSceneContext';
 import type { Renderer } from '@pixi/core';
+import type { IDestroyOptions } from '@pixi/display';
 
 const tempMatrix = new Matrix();
 const tempRect = new Rectangle();
 
+/**
+ * The elements that are drawn as shapes into a {@link SVGGraphicsNode}, whose geometry can be pre-tessellated.
+ */
+const SHAPE_ELEMENTS = ['circle', 'ellipse', 'line', 'path', 'polygon', 'polyline', 'rect'];
+
+/**
+ * Curves are tessellated again when the scene is scaled up beyond the scale they were tessellated at, or scaled down
+ * by more than this factor. The gap keeps curves from being tessellated again & again while the scale oscillates.
+ */
+const CURVE_LOD_HYSTERESIS = 4;
+
+/**
+ * The maximum scale at which curves are tessellated, which bounds the number of segments generated per curve.
+ */
+const MAX_CURVE_SCALE = 64;
+
+/**
+ * The elements whose content is not rendered in place, but referenced by other elements with `url(#id)`. When
+ * they change, the elements referencing them are rebuilt.
+ */
+const REFERENCED_ELEMENTS = ['clippath', 'filter', 'lineargradient', 'marker', 'mask', 'pattern', 'radialgradient'];
+
+/**
+ * The properties that can reference other elements with `url(#id)`.
+ */
+const REFERENCE_PROPERTIES = [
+    'clip-path',
+    'fill',
+    'filter',
+    'marker',
+    'marker-end',
+    'marker-mid',
+    'marker-start',
+    'mask',
+    'stroke',
+];
+
+/**
+ * Compares the population keys of two nodes, which orders them in the order they are populated in. See
+ * {@link SVGScene._populationKey}.
+ *
+ * @ignore
+ */
+function comparePopulationKeys(a: number[], b: number[]): number
+{
+    for (let i = 0, j = Math.min(a.length, b.length); i < j; i++)
+    {
+        if (a[i] !== b[i])
+        {
+            return a[i] - b[i];
+        }
+    }
+
+    return a.length - b.length;
+}
+
+/**
+ * The pointer events of the scene that are re-emitted for the element under the pointer. `pointerover` &
+ * `pointerout` are used to track the element being hovered.
+ */
+const POINTER_EVENTS = ['pointerdown', 'pointermove', 'pointerout', 'pointerover', 'pointertap', 'pointerup'];
+
+/**
+ * The paint applied on the content of clip paths. Only the geometry of the content contributes to the clipping
+ * region, so it is filled opaquely & isn't stroked.
+ */
+const CLIP_PAINT: Paint = {
+    fill: 0xffffff,
+    opacity: 1,
+    stroke: 'none',
+    strokeDashArray: null,
+    strokeDashOffset: null,
+    strokeLineCap: null,
+    strokeLineJoin: null,
+    strokeMiterLimit: null,
+    strokeWidth: 0,
+    dirtyId: 0,
+};
+
 /**
  * {@link SVGScene} can be used to build an interactive viewer for scalable vector graphics images. You must specify the size
  * of the svg viewer.
@@ -58,6 +156,12 @@ export class SVGScene extends DisplayObject
      */
     protected _context: SVGSceneContext;
 
+    /**
+     * Resolves the cascaded style of elements from the stylesheets of the document, the inline styles, and the
+     * presentation attributes.
+     */
+    protected _styleResolver: StyleResolver;
+
     /**
      * The width of the rendered scene in local space.
      */
@@ -68,6 +172,12 @@ export class SVGScene extends DisplayObject
      */
     protected _height: number;
 
+    /**
+     * The transform from the user space of the root element into the local space of this scene. It maps the
+     * `viewBox` of the root element onto the width & height of this scene, honoring its `preserveAspectRatio`.
+     */
+    protected _viewBoxTransform: Matrix;
+
     /**
      * This is used to cull the SVG scene graph before rendering.
      */
@@ -85,6 +195,93 @@ export class SVGScene extends DisplayObject
      */
     private _elementToMask: Map<SVGElement, MaskServer>;
 
+    /**
+     * Maps nodes to the filters applied on them. The filter regions of these nodes are updated whenever
+     * the transforms in the scene graph change.
+     */
+    private _nodeToFilter: Map<Container, SVGFilter>;
+
+    /**
+     * Maps content elements to the nodes that were populated for them, along with the options used, so they can
+     * be rebuilt when the element changes. An element has multiple nodes if it is instantiated by `<use />`
+     * elements, or is a part of a marker's content.
+     */
+    private _elementToNodes: Map<SVGElement, Array<{
+        node: Container;
+        options: {
+            basePaint?: Paint;
+            clip?: boolean;
+            instance?: SVGUseElement;
+        };
+        key: number[];
+    }>>;
+
+    /**
+     * Maps the tracked nodes back to their elements.
+     */
+    private _nodeToElement: Map<Container, SVGElement>;
+
+    /**
+     * Observes the content for changes, if enabled by {@link SVGSceneContext.observeContent}.
+     */
+    private _observer: MutationObserver;
+
+    /**
+     * Maps the nodes of the shapes in the scene to their elements, along with their population keys.
+     */
+    protected _shapeNodes: Map<SVGGraphicsNode, { element: SVGElement; key: number[] }>;
+
+    /**
+     * The population key of the element being populated by {@link SVGScene.populateSceneRecursive}. The key of an
+     * element is that of the element it is populated in, followed by its index among the elements populated in it.
+     * Sorting nodes by their keys yields the order in which they are populated, even after some are rebuilt.
+     */
+    protected _populationKey: number[];
+
+    /**
+     * The number of elements populated in the element being populated, so far.
+     */
+    protected _populationIndex: number;
+
+    /**
+     * The pre-tessellated geometries of the shapes, by their elements. The geometries of an element are consumed in
+     * the order its shapes are populated. This is only set while the scene is being restored from an asset.
+     */
+    protected _bakedGeometries: Map<SVGElement, SVGBakedGeometry[]>;
+
+    /**
+     * The patterns whose content is being populated by {@link SVGScene.createPaintServer}.
+     */
+    protected _populatingPatterns: Set<SVGPatternElement>;
+
+    /**
+     * The elements hidden with {@link SVGScene.setVisible}. Their nodes stay hidden when rebuilt.
+     */
+    protected _hiddenElements: Set<SVGElement>;
+
+    /**
+     * The element being hovered by the pointer, as tracked by {@link SVGScene.onPointerEvent}.
+     */
+    protected _hoveredElement: SVGElement;
+
+    /**
+     * The last point hit-tested by {@link SVGScene.hitTest}, in world space. The interaction manager hit-tests the
+     * scene by {@link SVGScene.containsPoint} before dispatching a pointer event, which is hit-tested again at the
+     * same point. This is reset to `NaN` whenever the result may have changed.
+     */
+    protected _lastHitPoint: Point;
+
+    /**
+     * The element hit at {@link SVGScene._lastHitPoint}.
+     */
+    protected _lastHitElement: SVGElement;
+
+    /**
+     * The scale at which the curves in the scene are tessellated. This is updated with the world scale of the
+     * scene in {@link SVGScene.updateCurveLOD}.
+     */
+    protected _curveScale: number;
+
     /**
      * Flags whether any transform is dirty in the SVG scene graph.
      */
@@ -103,26 +300,114 @@ export class SVGScene extends DisplayObject
         this.content = content;
 
         this.initContext(context);
-        this._width = content.viewBox.baseVal.width;
-        this._height = content.viewBox.baseVal.height;
+        this._viewBoxTransform = new Matrix();
+        this.initSize();
 
+        this._styleResolver = new StyleResolver(content);
         this._cull = new Cull({ recursive: true, toggle: 'renderable' });
         this._elementToPaint = new Map();
         this._elementToMask = new Map();
+        this._nodeToFilter = new Map();
+        this._shapeNodes = new Map();
+        this._populationKey = [];
+        this._populationIndex = 0;
+        this._bakedGeometries = null;
+        this._populatingPatterns = new Set();
+        this._elementToNodes = new Map();
+        this._nodeToElement = new Map();
+        this._hiddenElements = new Set();
+        this._hoveredElement = null;
+        this._lastHitPoint = new Point(NaN, NaN);
+        this._lastHitElement = null;
+        this._curveScale = 1;
         this._transformDirty = true;
 
         this.renderServers = new Container();
 
+        for (let i = 0, j = POINTER_EVENTS.length; i < j; i++)
+        {
+            this.on(POINTER_EVENTS[i], this.onPointerEvent);
+        }
+
+        if (this._context.observeContent)
+        {
+            this._observer = new MutationObserver(this.onContentMutation);
+            this._observer.observe(content, {
+                attributes: true,
+                attributeOldValue: true,
+                characterData: true,
+                childList: true,
+                subtree: true,
+            });
+        }
+
         if (!context || !context.disableRootPopulation)
             this.populateScene();
     }
 
+    /**
+     * Initializes the size of this scene to the size of the root element. Absolute widths & heights, e.g. in
+     * millimetres, are converted into pixels; otherwise, the size of the view-box is used.
+     */
+    protected initSize(): void
+    {
+        const content = this.content;
+        const viewBox = content.viewBox.baseVal;
+        const intrinsicSize = getIntrinsicSize(content);
+        const isAbsolute = (length: string): boolean => !!length && !length.includes('%') && length !== 'auto';
+
+        this._width = isAbsolute(content.getAttribute('width')) ? intrinsicSize.width : viewBox.width;
+        this._height = isAbsolute(content.getAttribute('height')) ? intrinsicSize.height : viewBox.height;
+
+        this.updateViewBoxTransform();
+    }
+
+    /**
+     * Maps the `viewBox` of the root element onto the width & height of this scene, like the viewport of an outermost
+     * `<svg />` element: its content is scaled uniformly and aligned as specified by its `preserveAspectRatio`. If the
+     * root element has no `viewBox`, its user units are mapped one-to-one.
+     */
+    protected updateViewBoxTransform(): void
+    {
+        const content = this.content;
+        const viewBox = content.viewBox.baseVal;
+
+        if (viewBox && viewBox.width > 0 && viewBox.height > 0)
+        {
+            computeViewBoxTransform(
+                viewBox,
+                content.preserveAspectRatio.baseVal,
+                this._width,
+                this._height,
+                this._viewBoxTransform,
+            );
+        }
+        else
+        {
+            this._viewBoxTransform.identity();
+        }
+
+        this._transformDirty = true;
+    }
+
+    /**
+     * Calculates the transform from the user space of the root element into world space.
+     *
+     * @param out - The matrix to write the transform into.
+     */
+    protected calculateRootTransform(out: Matrix): Matrix
+    {
+        return out.copyFrom(this._viewBoxTransform).prepend(this.worldTransform);
+    }
+
     initContext(context?: Partial<SVGSceneContext>): void
     {
         context = context || {};
         context.atlas = context.atlas || new CanvasTextureAllocator(2048, 2048);
         context.disableHrefSVGLoading = typeof context.disableHrefSVGLoading === 'undefined'
             ? false : context.disableHrefSVGLoading;
+        context.disableCurveLOD = !!context.disableCurveLOD;
+        context.observeContent = !!context.observeContent;
 
         this._context = context as SVGSceneContext;
     }
@@ -140,8 +425,8 @@ export class SVGScene extends DisplayObject
             this.worldTransform,
             0,
             0,
-            this.content.viewBox.baseVal.width,
-            this.content.viewBox.baseVal.height,
+            this._width,
+            this._height,
         );
     }
 
@@ -180,10 +465,13 @@ export class SVGScene extends DisplayObject
     updateTransform(): void
     {
         super.updateTransform();
+        this.invalidateHitTest();
 
         this.root.alpha = this.worldAlpha;
 
-        const worldTransform = this.worldTransform;
+        this.updateCurveLOD();
+
+        const worldTransform = this.calculateRootTransform(tempMatrix);
         const rootTransform = this.root.transform.worldTransform;
 
         // Don't update transforms if they didn't change across frames. This is because the SVG scene graph is static.
@@ -200,569 +488,2127 @@ export class SVGScene extends DisplayObject
         }
 
         this.root.enableTempParent();
-        this.root.transform.setFromMatrix(this.worldTransform);
+        this.root.transform.setFromMatrix(worldTransform);
         this.root.updateTransform();
         this.root.disableTempParent(null);
 
+        // Filter regions are in world space.
+        this._nodeToFilter.forEach((filter, node) =>
+        {
+            filter.updateFilterArea(node);
+        });
+
         // Calculate bounds in the SVG scene graph. This ensures they are updated whenever the transform changes.
         this.root.calculateBounds();
 
+        // Filter regions can extend beyond the content they're applied on, e.g. with drop shadows, so they're
+        // included in the bounds to prevent the filtered nodes from being culled while their effects are visible.
+        this._nodeToFilter.forEach((_filter, node) =>
+        {
+            this.extendBounds(node, node.filterArea);
+        });
+
         // Prevent redundant recalculations.
         this._transformDirty = false;
     }
 
     /**
-     * Creates a display object that implements the corresponding `embed*` method for the given node.
+     * Extends the bounds of a node and its ancestors in the SVG scene graph to include a rectangle.
      *
-     * @param element - The element to be embedded in a display object.
+     * @param node - The node whose bounds are to be extended.
+     * @param rect - The rectangle to include, in world space.
      */
-    protected createNode(element: SVGElement): Container
+    protected extendBounds(node: DisplayObject, rect: Rectangle): void
     {
-        let renderNode = null;
-
-        switch (element.nodeName.toLowerCase())
+        for (let next = node; next; next = next.parent)
         {
-            case 'circle':
-            case 'ellipse':
-            case 'g':
-            case 'line':
-            case 'polyline':
-            case 'polygon':
-            case 'rect':
-                renderNode = new SVGGraphicsNode(this._context);
-                break;
-            case 'image':
-                renderNode = new SVGImageNode(this._context);
-                break;
-            case 'mask':
-            case 'svg':
-                renderNode = new Container();
-                break;
-            case 'path':
-                renderNode = new SVGPathNode(this._context);
-                break;
-            case 'text':
-                renderNode = new SVGTextNode();
-                break;
-            case 'use':
-                renderNode = new SVGUseNode();
-                break;
-            default:
-                renderNode = null;
-                break;
-        }
+            const bounds = next._bounds;
 
-        return renderNode;
+            bounds.minX = Math.min(bounds.minX, rect.left);
+            bounds.minY = Math.min(bounds.minY, rect.top);
+            bounds.maxX = Math.max(bounds.maxX, rect.right);
+            bounds.maxY = Math.max(bounds.maxY, rect.bottom);
+        }
     }
 
     /**
-     * Creates a `Paint` object for the given element. This should only be used when sharing the `Paint`
-     * is not desired; otherwise, use {@link SVGScene.queryPaint}.
+     * Finds the element rendered at a point, against the true geometry of the shapes. Fills are hit-tested with their
+     * fill rule, strokes within their stroke width, and clip paths are honored. The content of markers is not
+     * hit, and the content instantiated by a `<use />` element is hit as the `<use />` element itself.
      *
-     * This will return `null` if the passed element is not an instance of `SVGElement`.
+     * Elements with `pointer-events: none` are not hit, but their descendants can be.
      *
-     * @alpha
-     * @param element
+     * @param point - The point in world space, e.g. `event.data.global`.
+     * @return The topmost element at the point, or `null` if there is none.
      */
-    protected createPaint(element: SVGElement): Paint
+    hitTest(point: IPointData): SVGElement
     {
-        if (!(element instanceof SVGElement))
+        if (!this.root || !this.visible)
         {
             return null;
         }
+        if (this._lastHitPoint.x === point.x && this._lastHitPoint.y === point.y)
+        {
+            return this._lastHitElement;
+        }
 
-        return new PaintProvider(element);
+        this._lastHitElement = this.hitTestNode(this.root, point, null, null);
+        this._lastHitPoint.copyFrom(point);
+
+        return this._lastHitElement;
     }
 
     /**
-     * Creates a lazy paint texture for the paint server.
-     *
-     * @alpha
-     * @param paintServer - The paint server to be rendered.
+     * Forgets the result of the last hit-test, after the transforms, visibility, or paint of the scene change.
      */
-    protected createPaintServer(paintServer: SVGGradientElement): PaintServer
+    protected invalidateHitTest(): void
     {
-        const renderTexture = RenderTexture.create({
-            width: 128,
-            height: 128,
-        });
-
-        return new PaintServer(paintServer, renderTexture);
+        this._lastHitPoint.set(NaN, NaN);
+        this._lastHitElement = null;
     }
 
     /**
-     * Creates a lazy luminance mask for the `SVGMaskElement` or its rendering node.
+     * Whether any element is rendered at the point. This is used by the interaction manager, so that the scene is only
+     * hit on its content.
      *
-     * @param ref - The `SVGMaskElement` or its rendering node, if already generated.
+     * @param point - The point in world space.
      */
-    protected createMask(ref: SVGMaskElement | Container): MaskServer
+    containsPoint(point: IPointData): boolean
     {
-        if (ref instanceof SVGElement)
-        {
-            ref = this.populateSceneRecursive(ref, {
-                basePaint: this.queryInheritedPaint(ref),
-            });
-        }
-
-        const localBounds = ref.getLocalBounds();
-
-        ref.getBounds();
-
-        const maskTexture = RenderTexture.create({
-            width: localBounds.width,
-            height: localBounds.height,
-        });
-
-        const maskSprite = new MaskServer(maskTexture);
+        return this.hitTest(point) !== null;
+    }
 
-        // Lazily render mask when needed.
-        maskSprite.addChild(ref);
+    /**
+     * Gets the node rendering the element with the given id. If the element is instantiated multiple times by
+     * `<use />` elements, the node of the first instance is returned.
+     *
+     * @param id - The id of the element.
+     * @return The node, or `null` if the element is not rendered.
+     */
+    getNodeById(id: string): Container
+    {
+        const element = this.content.getElementById(id) as SVGElement;
+        const nodes = element && this._elementToNodes.get(element);
 
-        return maskSprite;
+        return nodes ? nodes[0].node : null;
     }
 
     /**
-     * Returns the rendering node for a mask.
+     * Gets the node rendering the first element, matching the selectors, that is rendered.
      *
-     * @alpha
-     * @param ref - The mask element whose rendering node is needed.
+     * @param selectors - The CSS selectors to match elements in {@link SVGScene.content} against.
+     * @return The node, or `null` if no matching element is rendered.
      */
-    protected queryMask(ref: SVGMaskElement): MaskServer
+    querySelector(selectors: string): Container
     {
-        let queryHit = this._elementToMask.get(ref);
+        const elements = this.content.querySelectorAll(selectors);
 
-        if (!queryHit)
+        for (let i = 0, j = elements.length; i < j; i++)
         {
-            queryHit = this.createMask(ref);
+            const nodes = this._elementToNodes.get(elements[i] as SVGElement);
 
-            this._elementToMask.set(ref, queryHit);
+            if (nodes)
+            {
+                return nodes[0].node;
+            }
         }
 
-        return queryHit;
+        return null;
     }
 
     /**
-     * Returns the cached paint of a content element. The returned paint will not account for any paint
-     * attributes inherited from ancestor elements.
+     * Gets all the nodes rendering the elements that match the selectors, in document order.
      *
-     * @alpha
-     * @param ref - A reference to the content element.
+     * @param selectors - The CSS selectors to match elements in {@link SVGScene.content} against.
      */
-    protected queryPaint(ref: SVGElement): Paint
+    querySelectorAll(selectors: string): Container[]
     {
-        let queryHit = this._elementToPaint.get(ref);
+        const elements = this.content.querySelectorAll(selectors);
+        const result: Container[] = [];
 
-        if (!queryHit)
+        for (let i = 0, j = elements.length; i < j; i++)
         {
-            queryHit = this.createPaint(ref);
-            this._elementToPaint.set(ref, queryHit);
+            const nodes = this._elementToNodes.get(elements[i] as SVGElement);
+
+            if (nodes)
+            {
+                nodes.forEach((entry) => result.push(entry.node));
+            }
         }
 
-        return queryHit;
+        return result;
     }
 
     /**
-     * Returns an (uncached) inherited paint of a content element.
+     * Changes the fill of an element at runtime, which is inherited by its descendants. Solid fills are recolored
+     * in place; the element is only rebuilt if its fill is (or was) `none` or a paint server.
      *
-     * @alpha
-     * @param ref
+     * The change is not written to the DOM, and is overridden if the element's attributes are changed later.
+     *
+     * @param ref - The element, or its id.
+     * @param fill - The color, e.g. `0xff0000` or `'red'`, `'none'`, or a reference like `'url(#gradient)'`.
      */
-    protected queryInheritedPaint(ref: SVGElement): Paint
+    setFill(ref: SVGElement | string, fill: number | string): void
     {
-        const paint = this.queryPaint(ref);
-        const parentPaint = ref.parentElement && this.queryPaint(ref.parentElement as unknown as SVGElement);
-
-        if (!parentPaint)
+        this.updatePaint(ref, (paint) =>
         {
-            return paint;
-        }
-
-        return new InheritedPaintProvider(parentPaint, paint);
+            paint.fill = typeof fill === 'string' ? PaintProvider.parseColor(fill) : fill;
+        });
     }
 
     /**
-     * Parses the internal URL reference into a selector (that can be used to find the
-     * referenced element using `this.content.querySelector`).
+     * Changes the stroke of an element at runtime, which is inherited by its descendants. Solid strokes are
+     * recolored in place; the element is only rebuilt if its stroke is (or was) hidden or a paint server.
      *
-     * @param url - The reference string, e.g. "url(#id)", "url('#id')", "#id"
+     * The change is not written to the DOM, and is overridden if the element's attributes are changed later.
+     *
+     * @param ref - The element, or its id.
+     * @param stroke - The color, e.g. `0xff0000` or `'red'`, `'none'`, or a reference like `'url(#gradient)'`.
      */
-    protected parseReference(url: string): string
+    setStroke(ref: SVGElement | string, stroke: number | string): void
     {
-        if (url.startsWith('url'))
+        this.updatePaint(ref, (paint) =>
         {
-            let contents = url.slice(4, -1);
-
-            if (contents.startsWith('\'') && contents.endsWith('\''))
-            {
-                contents = contents.slice(1, -1);
-            }
+            paint.stroke = typeof stroke === 'string' ? PaintProvider.parseColor(stroke) : stroke;
+        });
+    }
 
-            return contents;
+    /**
+     * Changes the opacity of an element at runtime, which is inherited by its descendants. This does not rebuild
+     * the element unless it is painted by a paint server.
+     *
+     * The change is not written to the DOM, and is overridden if the element's attributes are changed later.
+     *
+     * @param ref - The element, or its id.
+     * @param opacity - The opacity, between 0 and 1.
+     */
+    setOpacity(ref: SVGElement | string, opacity: number): void
+    {
+        this.updatePaint(ref, (paint) =>
+        {
+            paint.opacity = opacity;
+        });
+    }
+
+    /**
+     * Shows or hides an element at runtime. The nodes of the element are toggled, and are not rebuilt. Hidden
+     * elements aren't hit by {@link SVGScene.hitTest}.
+     *
+     * @param ref - The element, or its id.
+     * @param visible - Whether the element should be visible.
+     */
+    setVisible(ref: SVGElement | string, visible: boolean): void
+    {
+        const element = this.resolveElement(ref);
+
+        if (!element)
+        {
+            return;
         }
+        this.invalidateHitTest();
 
-        return url;
+        if (visible)
+        {
+            this._hiddenElements.delete(element);
+        }
+        else
+        {
+            this._hiddenElements.add(element);
+        }
+
+        const nodes = this._elementToNodes.get(element);
+
+        if (nodes)
+        {
+            nodes.forEach((entry) =>
+            {
+                entry.node.visible = visible;
+            });
+        }
     }
 
     /**
-     * Embeds a content `element` into the rendering `node`.
+     * Destroys this scene. The content is no longer observed, and the scene graph is destroyed along with its paint
+     * servers, filters, and masks.
      *
-     * This is **not** a stable API.
+     * @override
+     */
+    destroy(options?: IDestroyOptions | boolean): void
+    {
+        if (this._observer)
+        {
+            this._observer.disconnect();
+            this._observer = null;
+        }
+        if (this.root)
+        {
+            this._cull.remove(this.root);
+            this.destroyNode(this.root);
+            this.root = null;
+        }
+
+        this._elementToMask.forEach((maskServer) => this.destroyMaskServer(maskServer));
+        this.renderServers.destroy({ children: true });
+        this.renderServers = null;
+
+        this._elementToPaint.clear();
+        this._elementToMask.clear();
+        this._nodeToFilter.clear();
+        this._elementToNodes.clear();
+        this._nodeToElement.clear();
+        this._hiddenElements.clear();
+        this._shapeNodes.clear();
+        this._bakedGeometries = null;
+        this._hoveredElement = null;
+        this.invalidateHitTest();
+
+        super.destroy(options);
+    }
+
+    /**
+     * Resolves the element passed to the runtime style setters.
      *
-     * @alpha
-     * @param node - The node in this scene that will render the `element`.
-     * @param element - The content `element` to be rendered. This must be an element of the SVG document
-     *  fragment under `this.content`.
-     * @param options - Additional options
-     * @param {Paint} [options.basePaint] - The base paint that the element's paint should inherit from
-     * @return The base attributes of the element, like paint.
+     * @param ref - The element, or its id.
+     * @return The element, or `null` if there is no element with the id.
      */
-    protected embedIntoNode(
-        node: Container,
-        element: SVGGraphicsElement | SVGMaskElement,
-        options: {
-            basePaint?: Paint;
-        } = {},
-    ): {
-        paint: Paint;
+    protected resolveElement(ref: SVGElement | string): SVGElement
+    {
+        if (typeof ref !== 'string')
+        {
+            return ref;
+        }
+
+        const element = this.content.getElementById(ref) as SVGElement;
+
+        if (!element)
+        {
+            console.warn(`[PIXI.SVG] No element with id "${ref}" in the SVG scene`);
+        }
+
+        return element;
     }
+
+    /**
+     * Updates the paint of an element, and repaints the nodes of the element & its descendants. If any node can't
+     * be repainted in place, the element is rebuilt.
+     *
+     * @param ref - The element, or its id.
+     * @param update - Modifies the paint of the element.
+     */
+    protected updatePaint(ref: SVGElement | string, update: (paint: PaintProvider) => void): void
     {
-        const {
-            basePaint,
-        } = options;
+        const element = this.resolveElement(ref);
+        const paint = element && this.queryPaint(element) as PaintProvider;
 
-        // Paint
-        const paint = basePaint ? new InheritedPaintProvider(basePaint, this.queryPaint(element)) : this.queryPaint(element);
-        const {
-            fill,
-            opacity,
-            stroke,
-            strokeDashArray,
-            strokeDashOffset,
-            strokeLineCap,
-            strokeLineJoin,
-            strokeMiterLimit,
-            strokeWidth,
-        } = paint;
+        if (!paint)
+        {
+            return;
+        }
 
-        // Transform
-        const transform = element instanceof SVGGraphicsElement ? element.transform.baseVal.consolidate() : null;
-        const transformMatrix = transform ? transform.matrix : tempMatrix.identity();
+        update(paint);
+        paint.dirtyId++;
+        this.invalidateHitTest();
 
-        if (node instanceof SVGGraphicsNode)
+        const nodes = this._elementToNodes.get(element);
+
+        if (!nodes)
         {
-            if (fill === 'none')
+            return;
+        }
+
+        const stack: Container[] = nodes.map((entry) => entry.node);
+
+        while (stack.length > 0)
+        {
+            const next = stack.pop();
+            const nextElement = this._nodeToElement.get(next);
+
+            // The content of markers doesn't inherit the paint of the element they're placed on.
+            if (nextElement && nextElement !== element && nextElement.closest('marker') && !element.closest('marker'))
             {
-                node.beginFill(0, 0);
+                continue;
             }
-            else if (typeof fill === 'number')
+            if (!this.repaintNode(next))
             {
-                node.beginFill(fill, opacity === null ? 1 : opacity);
+                this.rebuildElement(element);
+
+                return;
             }
-            else if (!fill)
+
+            for (let i = 0, j = next.children.length; i < j; i++)
             {
-                node.beginFill(0);
+                stack.push(next.children[i] as Container);
             }
-            else
+        }
+    }
+
+    /**
+     * Recolors the fills & strokes of a node in place, after its paint was updated.
+     *
+     * @param node - The node to repaint.
+     * @return Whether the node was repainted. If not, the node must be rebuilt because it needs to be tessellated
+     *  again, or its paint servers must be recreated.
+     */
+    protected repaintNode(node: Container): boolean
+    {
+        if (node instanceof SVGTextNode)
+        {
+            return false;
+        }
+        if (!(node instanceof SVGGraphicsNode) || node instanceof SVGImageNode || !node.paint)
+        {
+            return true;
+        }
+
+        const { fill, opacity, stroke, strokeWidth } = node.paint;
+
+        if (node.paintServers.length > 0
+            || (typeof fill === 'string' && fill !== 'none')
+            || (typeof stroke === 'string' && stroke !== 'none'))
+        {
+            return false;
+        }
+
+        const geometry = node.geometry as SVGGraphicsGeometry;
+        const fillStyles = geometry.getStyles(false);
+        const lineStyles = geometry.getStyles(true);
+        const fillVisible = fill !== 'none';
+        const lineVisible = stroke !== 'none' && (strokeWidth === null ? typeof stroke === 'number' : strokeWidth > 0);
+
+        // Fills & strokes that appear or disappear change the tessellated geometry.
+        if (geometry.baked
+            ? (fillStyles.length > 0) !== fillVisible || (lineStyles.length > 0) !== lineVisible
+            : fillStyles.some((style) => style.visible !== fillVisible)
+                || lineStyles.some((style) => style.visible !== lineVisible))
+        {
+            return false;
+        }
+
+        // See embedIntoNode for how the paint is applied on the styles.
+        fillStyles.forEach((style) =>
+        {
+            style.color = typeof fill === 'number' ? fill : 0;
+            style.alpha = typeof fill === 'number' && opacity !== null ? opacity : 1;
+        });
+        lineStyles.forEach((style) =>
+        {
+            style.color = typeof stroke === 'number' ? stroke : 0;
+        });
+
+        geometry.updateStyles();
+
+        return true;
+    }
+
+    /**
+     * Hit-tests the subtree of a node, topmost first.
+     *
+     * @param node - The node to hit-test.
+     * @param point - The point in world space.
+     * @param target - The element that hits in the subtree are reported as.
+     * @param source - The element the node was populated for, whose style applies to the node.
+     * @return The element hit, or `null`.
+     */
+    protected hitTestNode(node: Container, point: IPointData, target: SVGElement, source: SVGElement): SVGElement
+    {
+        if (!node.visible)
+        {
+            return null;
+        }
+
+        const element = this._nodeToElement.get(node);
+
+        if (element)
+        {
+            // Markers only decorate the element they're placed on.
+            if (element.closest('marker'))
             {
-                const ref = this.parseReference(fill);
-                const paintElement = this.content.querySelector(ref);
+                return null;
+            }
 
-                if (paintElement && paintElement instanceof SVGGradientElement)
-                {
-                    const paintServer = this.createPaintServer(paintElement);
-                    const paintTexture = paintServer.paintTexture;
-
-                    node.paintServers.push(paintServer);
-                    node.beginTextureFill({
-                        texture: paintTexture,
-                        alpha: opacity === null ? 1 : opacity,
-                        matrix: new Matrix(),
-                    });
-                }
+            source = element;
+
+            // The content of a <use /> element is not exposed, so hits in it are reported as the <use /> element.
+            if (!(target instanceof SVGUseElement))
+            {
+                target = element;
             }
+        }
 
-            let strokeTexture: Texture;
+        if (node.mask instanceof ClipMask && !this.hitTestClip(node.mask, point))
+        {
+            return null;
+        }
 
-            if (typeof stroke === 'string' && stroke.startsWith('url'))
+        const children = node.children;
+
+        for (let i = children.length - 1; i >= 0; i--)
+        {
+            const hit = this.hitTestNode(children[i] as Container, point, target, source);
+
+            if (hit)
             {
-                const ref = this.parseReference(stroke);
-                const paintElement = this.content.querySelector(ref);
+                return hit;
+            }
+        }
 
-                if (paintElement && paintElement instanceof SVGGradientElement)
-                {
-                    const paintServer = this.createPaintServer(paintElement);
-                    const paintTexture = paintServer.paintTexture;
+        if (!source || this._styleResolver.getInheritedPropertyValue(source, 'pointer-events') === 'none')
+        {
+            return null;
+        }
+        if (node instanceof SVGGraphicsNode && node.containsPoint(point))
+        {
+            return target;
+        }
+        // Text is hit anywhere within its bounds.
+        if (node instanceof SVGTextNode && node.getBounds(true).contains(point.x, point.y))
+        {
+            return target;
+        }
 
-                    node.paintServers.push(paintServer);
-                    strokeTexture = paintTexture;
-                }
+        return null;
+    }
+
+    /**
+     * Hit-tests the clipping region of a clip mask.
+     *
+     * @param clipMask - The clip mask.
+     * @param point - The point in world space.
+     * @return Whether the point is inside the clipping region.
+     */
+    protected hitTestClip(clipMask: ClipMask, point: IPointData): boolean
+    {
+        // Clip masks are not a part of the scene graph, so their transforms are only updated when rendered.
+        clipMask.updateTransform();
+
+        const stack = clipMask.children.slice() as Container[];
+
+        while (stack.length > 0)
+        {
+            const next = stack.pop();
+
+            if (next instanceof SVGGraphicsNode && next.containsPoint(point))
+            {
+                return true;
             }
 
-            node.lineTextureStyle({
-                /* eslint-disable no-nested-ternary */
-                color: stroke === null ? 0 : (typeof stroke === 'number' ? stroke : 0xffffff),
-                cap: strokeLineCap === null ? LINE_CAP.SQUARE : strokeLineCap as unknown as LINE_CAP,
-                dashArray: strokeDashArray,
-                dashOffset: strokeDashOffset === null ? strokeDashOffset : 0,
-                join: strokeLineJoin === null ? LINE_JOIN.MITER : strokeLineJoin as unknown as LINE_JOIN,
-                matrix: new Matrix(),
-                miterLimit: strokeMiterLimit === null ? 150 : strokeMiterLimit,
-                texture: strokeTexture || Texture.WHITE,
-                width: strokeWidth === null ? (typeof stroke === 'number' ? 1 : 0) : strokeWidth,
-                /* eslint-enable no-nested-ternary */
-            });
+            stack.push(...next.children as Container[]);
+        }
+
+        return false;
+    }
+
+    /**
+     * Tessellates the curves in the scene again if its world scale has moved out of the range that the curves were
+     * tessellated for. Curves are tessellated at the next power of two above the world scale, so they are never
+     * coarser than needed; they're only made coarser again when the scale drops by {@link CURVE_LOD_HYSTERESIS}.
+     *
+     * Only the elements with curves, i.e. paths with arcs or béziers, circles, ellipses, and rounded rectangles, are
+     * rebuilt.
+     */
+    protected updateCurveLOD(): void
+    {
+        if (this._context.disableCurveLOD || !GRAPHICS_CURVES.adaptive)
+        {
+            return;
+        }
+
+        const { a, b, c, d } = this.calculateRootTransform(tempMatrix);
+        const scale = Math.max(Math.sqrt((a * a) + (b * b)), Math.sqrt((c * c) + (d * d)));
+        const curveScale = this._curveScale;
+
+        if (scale <= curveScale && scale * CURVE_LOD_HYSTERESIS >= curveScale)
+        {
+            return;
+        }
+
+        const nextCurveScale = Math.min(MAX_CURVE_SCALE, Math.max(1, Math.pow(2, Math.ceil(Math.log2(scale)))));
+
+        if (nextCurveScale === curveScale)
+        {
+            return;
+        }
+
+        this._curveScale = nextCurveScale;
+
+        const elements: SVGElement[] = [];
+
+        this._elementToNodes.forEach((_, element) =>
+        {
+            // The content of masks & patterns is rendered into textures, whose resolution doesn't change.
+            if (hasCurves(element) && !element.closest('mask, pattern'))
+            {
+                elements.push(element);
+            }
+        });
+
+        for (let i = 0, j = elements.length; i < j; i++)
+        {
+            this.rebuildElement(elements[i]);
         }
 
+        this._transformDirty = true;
+    }
+
+    /**
+     * Creates a display object that implements the corresponding `embed*` method for the given node.
+     *
+     * @param element - The element to be embedded in a display object.
+     */
+    protected createNode(element: SVGElement): Container
+    {
+        let renderNode = null;
+
         switch (element.nodeName.toLowerCase())
         {
             case 'circle':
-                (node as SVGGraphicsNode).embedCircle(element as SVGCircleElement);
-                break;
             case 'ellipse':
-                (node as SVGGraphicsNode).embedEllipse(element as SVGEllipseElement);
+            case 'g':
+            case 'line':
+            case 'rect':
+                renderNode = new SVGGraphicsNode(this._context);
                 break;
             case 'image':
-                (node as SVGImageNode).embedImage(element as SVGImageElement);
+                renderNode = new SVGImageNode(this._context);
                 break;
-            case 'line':
-                (node as SVGGraphicsNode).embedLine(element as SVGLineElement);
+            case 'mask':
+            case 'svg':
+            case 'symbol':
+                renderNode = new Container();
                 break;
             case 'path':
-                (node as SVGPathNode).embedPath(element as SVGPathElement);
-                break;
-            case 'polyline':
-                (node as SVGGraphicsNode).embedPolyline(element as SVGPolylineElement);
-                break;
             case 'polygon':
-                (node as SVGGraphicsNode).embedPolygon(element as SVGPolygonElement);
-                break;
-            case 'rect':
-                (node as SVGGraphicsNode).embedRect(element as SVGRectElement);
+            case 'polyline':
+                renderNode = new SVGPathNode(this._context);
                 break;
             case 'text':
-                (node as SVGTextNode).embedText(element as SVGTextElement);
+                renderNode = new SVGTextNode(this._styleResolver);
                 break;
-            case 'use': {
-                const useElement = element as SVGUseElement;
-                const useTargetURL = useElement.getAttribute('href') || useElement.getAttribute('xlink:href');
-                const usePaint = this.queryPaint(useElement);
+            case 'use':
+                renderNode = new SVGUseNode();
+                break;
+            default:
+                renderNode = null;
+                break;
+        }
+
+        return renderNode;
+    }
+
+    /**
+     * Creates a `Paint` object for the given element. This should only be used when sharing the `Paint`
+     * is not desired; otherwise, use {@link SVGScene.queryPaint}.
+     *
+     * This will return `null` if the passed element is not an instance of `SVGElement`.
+     *
+     * @alpha
+     * @param element
+     */
+    protected createPaint(element: SVGElement): Paint
+    {
+        if (!(element instanceof SVGElement))
+        {
+            return null;
+        }
+
+        return new PaintProvider(element, this._styleResolver);
+    }
+
+    /**
+     * Creates a lazy paint texture for the paint server. The content of a pattern is populated into
+     * its own subscene, which is rendered into a repeating tile.
+     *
+     * @alpha
+     * @param paintServer - The paint server to be rendered.
+     * @return The paint server, or `null` if it is a pattern painting its own content.
+     */
+    protected createPaintServer(paintServer: SVGGradientElement | SVGPatternElement): PaintServer
+    {
+        // The set guards against patterns whose content is painted with the pattern itself.
+        if (paintServer instanceof SVGPatternElement && this._populatingPatterns.has(paintServer))
+        {
+            console.warn('[PIXI.SVG] Patterns that reference themselves are not supported and were ignored:',
+                paintServer);
+
+            return null;
+        }
+
+        const renderTexture = RenderTexture.create({
+            width: 128,
+            height: 128,
+        });
+
+        if (paintServer instanceof SVGPatternElement)
+        {
+            const basePaint = this.queryInheritedPaint(paintServer);
+            const paintContent = new Container();
+
+            this._populatingPatterns.add(paintServer);
+
+            for (let i = 0, j = paintServer.children.length; i < j; i++)
+            {
+                const childNode = this.populateSceneRecursive(paintServer.children[i] as SVGElement, {
+                    basePaint,
+                });
+
+                if (childNode)
+                {
+                    paintContent.addChild(childNode);
+                }
+            }
+
+            this._populatingPatterns.delete(paintServer);
+            renderTexture.baseTexture.wrapMode = WRAP_MODES.REPEAT;
+
+            return new PaintServer(paintServer, renderTexture, paintContent, this._styleResolver);
+        }
+
+        return new PaintServer(paintServer, renderTexture, null, this._styleResolver);
+    }
+
+    /**
+     * Creates a filter for the `SVGFilterElement`.
+     *
+     * @alpha
+     * @param filterElement - The filter element whose primitives are to be applied.
+     */
+    protected createFilter(filterElement: SVGFilterElement): SVGFilter
+    {
+        return new SVGFilter(filterElement);
+    }
+
+    /**
+     * Creates a lazy luminance mask for the `SVGMaskElement` or its rendering node.
+     *
+     * @param ref - The `SVGMaskElement` or its rendering node, if already generated.
+     */
+    protected createMask(ref: SVGMaskElement | Container): MaskServer
+    {
+        if (ref instanceof SVGElement)
+        {
+            ref = this.populateSceneRecursive(ref, {
+                basePaint: this.queryInheritedPaint(ref),
+            });
+        }
+
+        const localBounds = ref.getLocalBounds();
+
+        ref.getBounds();
+
+        const maskTexture = RenderTexture.create({
+            width: localBounds.width,
+            height: localBounds.height,
+        });
+
+        const maskSprite = new MaskServer(maskTexture);
+
+        // Lazily render mask when needed.
+        maskSprite.addChild(ref);
+
+        return maskSprite;
+    }
+
+    /**
+     * Creates a clip mask for the `SVGClipPathElement`, in the user space of the node being clipped.
+     *
+     * @param ref - The `SVGClipPathElement` whose content forms the clipping region.
+     * @param target - The node being clipped.
+     * @param bbox - The bounding box of the target, used if the `clipPathUnits` are `objectBoundingBox`.
+     */
+    protected createClip(ref: SVGClipPathElement, target: Container, bbox: Rectangle): ClipMask
+    {
+        const clipMask = new ClipMask(target);
+        const basePaint = this.queryInheritedPaint(ref);
+
+        for (let i = 0, j = ref.children.length; i < j; i++)
+        {
+            const childNode = this.populateSceneRecursive(ref.children[i] as SVGElement, {
+                basePaint,
+                clip: true,
+            });
+
+            if (childNode)
+            {
+                clipMask.addChild(childNode);
+            }
+        }
+
+        const transform = ref.transform.baseVal.consolidate();
+        const clipTransform = new Matrix();
+
+        if (transform)
+        {
+            const { a, b, c, d, e, f } = transform.matrix;
+
+            clipTransform.set(a, b, c, d, e, f);
+        }
+        if (ref.clipPathUnits.baseVal === SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX)
+        {
+            clipTransform.prepend(new Matrix(bbox.width, 0, 0, bbox.height, bbox.x, bbox.y));
+        }
+
+        clipMask.transform.setFromMatrix(clipTransform);
+
+        return clipMask;
+    }
+
+    /**
+     * Returns the rendering node for a mask.
+     *
+     * @alpha
+     * @param ref - The mask element whose rendering node is needed.
+     */
+    protected queryMask(ref: SVGMaskElement): MaskServer
+    {
+        let queryHit = this._elementToMask.get(ref);
+
+        if (!queryHit)
+        {
+            queryHit = this.createMask(ref);
+
+            this._elementToMask.set(ref, queryHit);
+        }
+
+        return queryHit;
+    }
+
+    /**
+     * Returns the cached paint of a content element. The returned paint will not account for any paint
+     * attributes inherited from ancestor elements.
+     *
+     * @alpha
+     * @param ref - A reference to the content element.
+     */
+    protected queryPaint(ref: SVGElement): Paint
+    {
+        let queryHit = this._elementToPaint.get(ref);
+
+        if (!queryHit)
+        {
+            queryHit = this.createPaint(ref);
+            this._elementToPaint.set(ref, queryHit);
+        }
+
+        return queryHit;
+    }
+
+    /**
+     * Returns an (uncached) inherited paint of a content element.
+     *
+     * @alpha
+     * @param ref
+     */
+    protected queryInheritedPaint(ref: SVGElement): Paint
+    {
+        const paint = this.queryPaint(ref);
+        const parentPaint = ref.parentElement && this.queryPaint(ref.parentElement as unknown as SVGElement);
+
+        if (!parentPaint)
+        {
+            return paint;
+        }
+
+        return new InheritedPaintProvider(parentPaint, paint);
+    }
+
+    /**
+     * Parses the internal URL reference into a selector (that can be used to find the
+     * referenced element using `this.content.querySelector`).
+     *
+     * @param url - The reference string, e.g. "url(#id)", "url('#id')", "#id"
+     */
+    protected parseReference(url: string): string
+    {
+        if (url.startsWith('url'))
+        {
+            let contents = url.slice(4, -1).trim();
+
+            if ((contents.startsWith('\'') && contents.endsWith('\''))
+                || (contents.startsWith('"') && contents.endsWith('"')))
+            {
+                contents = contents.slice(1, -1);
+            }
+
+            return contents;
+        }
+
+        return url;
+    }
+
+    /**
+     * Queries the fill rule of a shape. The inherited `clip-rule` replaces the `fill-rule` of shapes in clip paths.
+     *
+     * @param element - The shape element.
+     * @param clip - Whether the element is a part of a clip path's content.
+     */
+    protected queryFillRule(element: SVGElement, clip: boolean): FILL_RULE
+    {
+        const fillRule = clip
+            ? this._styleResolver.getInheritedPropertyValue(element, 'clip-rule') || FILL_RULE.NONZERO
+            : this._styleResolver.getPropertyValue(element, 'fill-rule');
+
+        return fillRule as FILL_RULE;
+    }
+
+    /**
+     * Finds the `SVGClipPathElement` referenced by the `clip-path` attribute of the element. Basic shapes are
+     * not supported, and `null` is returned for them.
+     *
+     * @param element - The element being clipped.
+     */
+    protected findClipPath(element: SVGElement): SVGClipPathElement
+    {
+        const clipPathURL = this._styleResolver.getPropertyValue(element, 'clip-path');
+
+        if (!clipPathURL || !clipPathURL.startsWith('url'))
+        {
+            return null;
+        }
+
+        const clipPathElement = this.content.querySelector(this.parseReference(clipPathURL));
+
+        return clipPathElement instanceof SVGClipPathElement ? clipPathElement : null;
+    }
+
+    /**
+     * Embeds a content `element` into the rendering `node`.
+     *
+     * This is **not** a stable API.
+     *
+     * @alpha
+     * @param node - The node in this scene that will render the `element`.
+     * @param element - The content `element` to be rendered. This must be an element of the SVG document
+     *  fragment under `this.content`.
+     * @param options - Additional options
+     * @param {Paint} [options.basePaint] - The base paint that the element's paint should inherit from
+     * @param {boolean} [options.clip] - Whether the element is a part of a clip path's content
+     * @return The base attributes of the element, like paint.
+     */
+    protected embedIntoNode(
+        node: Container,
+        element: SVGGraphicsElement | SVGMaskElement | SVGSymbolElement,
+        options: {
+            basePaint?: Paint;
+            clip?: boolean;
+        } = {},
+    ): {
+        paint: Paint;
+    }
+    {
+        const {
+            basePaint,
+            clip,
+        } = options;
+
+        // Paint
+        let paint = basePaint ? new InheritedPaintProvider(basePaint, this.queryPaint(element)) : this.queryPaint(element);
+
+        if (clip)
+        {
+            paint = new InheritedPaintProvider(paint, CLIP_PAINT);
+        }
+
+        const {
+            fill,
+            opacity,
+            stroke,
+            strokeDashArray,
+            strokeDashOffset,
+            strokeLineCap,
+            strokeLineJoin,
+            strokeMiterLimit,
+            strokeWidth,
+        } = paint;
+
+        // Transform
+        const transform = element instanceof SVGGraphicsElement ? element.transform.baseVal.consolidate() : null;
+        const transformMatrix = transform ? transform.matrix : tempMatrix.identity();
+
+        if (node instanceof SVGGraphicsNode)
+        {
+            node.paint = paint;
+            node.curveScale = this._curveScale;
+
+            if (fill === 'none')
+            {
+                node.beginFill(0, 0);
+            }
+            else if (typeof fill === 'number')
+            {
+                node.beginFill(fill, opacity === null ? 1 : opacity);
+            }
+            else if (!fill)
+            {
+                node.beginFill(0);
+            }
+            else
+            {
+                const ref = this.parseReference(fill);
+                const paintElement = this.content.querySelector(ref);
+
+                if (paintElement && (paintElement instanceof SVGGradientElement
+                    || paintElement instanceof SVGPatternElement))
+                {
+                    const paintServer = this.createPaintServer(paintElement);
+
+                    if (paintServer)
+                    {
+                        node.paintServers.push(paintServer);
+                        node.beginTextureFill({
+                            texture: paintServer.paintTexture,
+                            alpha: opacity === null ? 1 : opacity,
+                            matrix: new Matrix(),
+                        });
+                    }
+                    else
+                    {
+                        node.beginFill(0, 0);
+                    }
+                }
+            }
+
+            let strokeTexture: Texture;
+            let strokeIgnored = false;
+
+            if (typeof stroke === 'string' && stroke.startsWith('url'))
+            {
+                const ref = this.parseReference(stroke);
+                const paintElement = this.content.querySelector(ref);
+
+                if (paintElement && (paintElement instanceof SVGGradientElement
+                    || paintElement instanceof SVGPatternElement))
+                {
+                    const paintServer = this.createPaintServer(paintElement);
+
+                    if (paintServer)
+                    {
+                        node.paintServers.push(paintServer);
+                        strokeTexture = paintServer.paintTexture;
+                    }
+                    else
+                    {
+                        strokeIgnored = true;
+                    }
+                }
+            }
+
+            node.lineTextureStyle({
+                /* eslint-disable no-nested-ternary */
+                color: stroke === null ? 0 : (typeof stroke === 'number' ? stroke : 0xffffff),
+                cap: strokeLineCap === null ? LINE_CAP.SQUARE : strokeLineCap as unknown as LINE_CAP,
+                dashArray: strokeDashArray,
+                dashOffset: strokeDashOffset === null ? strokeDashOffset : 0,
+                join: strokeLineJoin === null ? LINE_JOIN.MITER : strokeLineJoin as unknown as LINE_JOIN,
+                matrix: new Matrix(),
+                miterLimit: strokeMiterLimit === null ? 150 : strokeMiterLimit,
+                texture: strokeTexture || Texture.WHITE,
+                width: strokeIgnored ? 0 : (strokeWidth === null ? (typeof stroke === 'number' ? 1 : 0) : strokeWidth),
+                /* eslint-enable no-nested-ternary */
+            });
+        }
+
+        // Shapes are tracked so that their geometry can be baked into an asset, and restored from it.
+        const isShape = node instanceof SVGGraphicsNode && SHAPE_ELEMENTS.indexOf(element.nodeName.toLowerCase()) !== -1;
+        const bakedGeometries = isShape && this._bakedGeometries ? this._bakedGeometries.get(element) : null;
+        const bakedGeometry = bakedGeometries ? bakedGeometries.shift() : null;
+        const paintTextures = isShape
+            ? (node as SVGGraphicsNode).paintServers.map((paintServer) => paintServer.paintTexture)
+            : null;
+
+        if (isShape)
+        {
+            this._shapeNodes.set(node as SVGGraphicsNode, { element, key: this._populationKey });
+        }
+
+        // The baked geometry is rejected if its styles use paint servers that this shape doesn't have.
+        if (bakedGeometry && bakedGeometry.batches.every((batch) => batch.texture < paintTextures.length))
+        {
+            ((node as SVGGraphicsNode).geometry as SVGGraphicsGeometry).restore(bakedGeometry, paintTextures);
+        }
+        else
+        {
+            switch (element.nodeName.toLowerCase())
+            {
+                case 'circle':
+                    (node as SVGGraphicsNode).embedCircle(element as SVGCircleElement);
+                    break;
+                case 'ellipse':
+                    (node as SVGGraphicsNode).embedEllipse(element as SVGEllipseElement);
+                    break;
+                case 'image':
+                    (node as SVGImageNode).embedImage(element as SVGImageElement);
+                    break;
+                case 'line':
+                    (node as SVGGraphicsNode).embedLine(element as SVGLineElement);
+                    break;
+                case 'path':
+                    (node as SVGPathNode).embedPath(element as SVGPathElement, this.queryFillRule(element, clip));
+                    break;
+                case 'polyline':
+                    (node as SVGPathNode).embedPolyline(element as SVGPolylineElement, this.queryFillRule(element, clip));
+                    break;
+                case 'polygon':
+                    (node as SVGPathNode).embedPolygon(element as SVGPolygonElement, this.queryFillRule(element, clip));
+                    break;
+                case 'rect':
+                    (node as SVGGraphicsNode).embedRect(element as SVGRectElement);
+                    break;
+                case 'text':
+                    (node as SVGTextNode).embedText(element as SVGTextElement);
+                    break;
+                case 'use': {
+                    const useElement = element as SVGUseElement;
+                    const useTargetURL = useElement.getAttribute('href') || useElement.getAttribute('xlink:href');
+                    const usePaint = this.queryPaint(useElement);
+
+                    (node as SVGUseNode).embedUse(useElement);
+
+                    if (useTargetURL.startsWith('#'))
+                    {
+                        const useTarget = this.content.querySelector(useTargetURL);
+                        const contentNode = this.populateSceneRecursive(useTarget as SVGGraphicsElement, {
+                            basePaint: usePaint,
+                            clip,
+                            instance: useElement,
+                        }) as SVGGraphicsNode;
+
+                        (node as SVGUseNode).ref = contentNode;
+                        contentNode.transform.setFromMatrix(Matrix.IDENTITY);// clear transform
+                    }
+                    else if (!this._context.disableHrefSVGLoading)
+                    {
+                        (node as SVGUseNode).isRefExternal = true;
+
+                        Loader._load(useTargetURL)
+                            .then((svgDocument) => [
+                                new SVGScene(svgDocument, {
+                                    ...this._context,
+                                    disableRootPopulation: true,
+                                    observeContent: false,
+                                }),
+                                svgDocument.querySelector('#' + useTargetURL.split('#')[1])
+                            ] as [SVGScene, SVGElement])
+                            .then(([shellScene, useTarget]) =>
+                            {
+                                if (!useTarget)
+                                {
+                                    console.error(`SVGScene failed to resolve ${useTargetURL} and SVGUseNode is empty!`);
+                                }
+
+                                const contentNode = shellScene.populateSceneRecursive(useTarget as SVGGraphicsElement, {
+                                    basePaint: usePaint,
+                                    instance: useElement,
+                                }) as SVGGraphicsNode;
+        
+                                (node as SVGUseNode).ref = contentNode;
+                                contentNode.transform.setFromMatrix(Matrix.IDENTITY);// clear transform
+
+                                this._transformDirty = true;
+
+                                shellScene.on('transformdirty', () => {
+                                    this._transformDirty = true;
+                                });
+                            });
+                    }
+                }
+            }
+        }
+
+        node.transform.setFromMatrix(tempMatrix.set(
+            transformMatrix.a,
+            transformMatrix.b,
+            transformMatrix.c,
+            transformMatrix.d,
+            transformMatrix instanceof Matrix ? transformMatrix.tx : transformMatrix.e,
+            transformMatrix instanceof Matrix ? transformMatrix.ty : transformMatrix.f,
+        ));
+
+        if (element instanceof SVGMaskElement)
+        {
+            this._elementToMask.set(element, this.createMask(node));
+        }
+
+        const maskURL = this._styleResolver.getPropertyValue(element, 'mask');
+
+        if (maskURL)
+        {
+            const maskElement: SVGMaskElement = this.content.querySelector(this.parseReference(maskURL));
+
+            if (maskElement)
+            {
+                const maskServer = this.queryMask(maskElement);
+                const maskSprite = maskServer.createMask(node);
+
+                this.renderServers.addChild(maskServer);
+                node.mask = maskSprite;
+                node.addChild(maskSprite);
+            }
+        }
+
+        return {
+            paint,
+        };
+    }
+
+    /**
+     * Applies the filter referenced by the `filter` attribute of an element on its rendering node. CSS filter
+     * functions are not supported.
+     *
+     * @param node - The rendering node of the element.
+     * @param element - The element being filtered.
+     */
+    protected embedFilter(node: Container, element: SVGElement): void
+    {
+        const filterURL = this._styleResolver.getPropertyValue(element, 'filter');
+
+        if (!filterURL || !filterURL.startsWith('url'))
+        {
+            return;
+        }
+
+        const filterElement = this.content.querySelector(this.parseReference(filterURL));
+
+        if (!(filterElement instanceof SVGFilterElement))
+        {
+            return;
+        }
+
+        const filter = this.createFilter(filterElement);
+
+        filter.resolveFilterRegion(node.getLocalBounds(tempRect));
+
+        node.filters = [filter];
+        this._nodeToFilter.set(node, filter);
+    }
+
+    /**
+     * Clips the rendering node of an element to the clip path referenced by its `clip-path` attribute. If the
+     * clip path is itself clipped by another clip path, the intersection of both is taken. Since a display object
+     * can only have one mask, a container is wrapped around the node for each additional mask.
+     *
+     * @param node - The rendering node of the element.
+     * @param element - The element being clipped.
+     * @return The node, or the outermost container wrapping it.
+     */
+    protected embedClipPath(node: Container, element: SVGElement): Container
+    {
+        let clipPathElement = this.findClipPath(element);
+
+        if (!clipPathElement)
+        {
+            return node;
+        }
+
+        const bbox = node.getLocalBounds(new Rectangle());
+        const clipPathElements = new Set<SVGClipPathElement>();
+        let root = node;
+
+        // The set guards against clip paths that reference each other.
+        while (clipPathElement && !clipPathElements.has(clipPathElement))
+        {
+            const clipMask = this.createClip(clipPathElement, node, bbox);
+
+            // The clip path is applied after the filter, so it can't be masking the filtered node.
+            if (root.mask || root.filters)
+            {
+                const wrapper = new Container();
+
+                wrapper.addChild(root);
+                root = wrapper;
+            }
+
+            root.mask = clipMask;
+
+            clipPathElements.add(clipPathElement);
+            clipPathElement = this.findClipPath(clipPathElement);
+        }
+
+        return root;
+    }
+
+    /**
+     * Establishes the viewport of a nested `<svg />` or an instantiated `<symbol />` element. The content of the
+     * node is moved into a container that maps the `viewBox` onto the viewport, honoring `preserveAspectRatio`, and
+     * is clipped to the viewport unless `overflow` is visible.
+     *
+     * The node itself is left in the parent's user space, so that masks, filters, and clip paths on the element
+     * are applied as usual.
+     *
+     * @param node - The rendering node of the element.
+     * @param element - The `<svg />` or `<symbol />` element.
+     * @param instance - The `<use />` element instantiating the element, whose `width` & `height` override
+     *  those of the element.
+     * @see https://www.w3.org/TR/SVG2/coords.html#EstablishingANewSVGViewport
+     */
+    protected embedViewport(node: Container, element: SVGSVGElement | SVGSymbolElement, instance?: SVGUseElement): void
+    {
+        const parentViewport = getViewportSize(instance || element);
+        const getLength = (name: string, base: number, defaultValue: string): number =>
+        {
+            const instanceValue = instance && (name === 'width' || name === 'height') ? instance.getAttribute(name) : null;
+            const value = instanceValue && instanceValue !== 'auto' ? instanceValue : element.getAttribute(name);
+
+            return parseMeasurement(value && value !== 'auto' ? value : defaultValue, 16, { percentageBase: base });
+        };
+
+        const x = getLength('x', parentViewport.width, '0');
+        const y = getLength('y', parentViewport.height, '0');
+        const width = getLength('width', parentViewport.width, '100%');
+        const height = getLength('height', parentViewport.height, '100%');
+
+        const content = new Container();
+        const viewportTransform = new Matrix();
+
+        if (element.hasAttribute('viewBox'))
+        {
+            computeViewBoxTransform(
+                element.viewBox.baseVal,
+                element.preserveAspectRatio.baseVal,
+                width,
+                height,
+                viewportTransform,
+            );
+        }
+
+        viewportTransform.translate(x, y);
+        content.transform.setFromMatrix(viewportTransform);
+
+        while (node.children.length > 0)
+        {
+            content.addChild(node.children[0]);
+        }
+
+        node.addChild(content);
+
+        // A viewport with no area disables the rendering of its content.
+        if (width <= 0 || height <= 0)
+        {
+            content.visible = false;
+
+            return;
+        }
+
+        const overflow = this._styleResolver.getPropertyValue(element, 'overflow');
+
+        if (overflow !== 'visible' && overflow !== 'auto')
+        {
+            const clipMask = new ClipMask(node);
+
+            clipMask.addChild(new Graphics()
+                .beginFill(0xffffff)
+                .drawRect(x, y, width, height)
+                .endFill());
+
+            content.mask = clipMask;
+        }
+    }
+
+    /**
+     * Draws the markers referenced by the `marker-start`, `marker-mid`, and `marker-end` properties of a path,
+     * line, polyline, or polygon at its vertices. The markers are added as children of the node, so they are
+     * rendered on top of the shape.
+     *
+     * @param node - The rendering node of the element.
+     * @param element - The element whose markers are to be drawn.
+     * @param strokeWidth - The stroke width of the element, used to scale markers with `markerUnits="strokeWidth"`.
+     * @see https://www.w3.org/TR/SVG2/painting.html#Markers
+     */
+    protected embedMarkers(node: Container, element: SVGElement, strokeWidth: number): void
+    {
+        const markerShorthand = this._styleResolver.getPropertyValue(element, 'marker');
+        const markerVertices = new Map<SVGMarkerElement, MarkerVertex[]>();
+        let vertices: MarkerVertex[] = null;
+
+        for (const type of ['start', 'mid', 'end'] as const)
+        {
+            const markerURL = this._styleResolver.getPropertyValue(element, `marker-${type}`) || markerShorthand;
+
+            if (!markerURL || !markerURL.startsWith('url'))
+            {
+                continue;
+            }
+
+            const markerElement = this.content.querySelector(this.parseReference(markerURL));
+
+            if (!(markerElement instanceof SVGMarkerElement))
+            {
+                continue;
+            }
+
+            vertices = vertices || computeMarkerVertices(element);
+
+            for (let i = 0, j = vertices.length; i < j; i++)
+            {
+                if (vertices[i].type === type)
+                {
+                    if (!markerVertices.has(markerElement))
+                    {
+                        markerVertices.set(markerElement, []);
+                    }
+
+                    markerVertices.get(markerElement).push(vertices[i]);
+                }
+            }
+        }
+
+        // The content of each marker is built once, and instanced at all of its vertices.
+        markerVertices.forEach((instanceVertices, markerElement) =>
+        {
+            node.addChild(this.createMarker(markerElement, instanceVertices, strokeWidth));
+        });
+    }
+
+    /**
+     * Creates the instances of a marker's content placed at its vertices. The `viewBox` of the marker is mapped onto
+     * its viewport of size `markerWidth` x `markerHeight`, whose reference point is moved onto each vertex. The
+     * content is clipped to the viewport unless `overflow` is visible.
+     *
+     * @param markerElement - The marker element.
+     * @param vertices - The vertices at which the marker is placed.
+     * @param strokeWidth - The stroke width of the element referencing the marker.
+     */
+    protected createMarker(
+        markerElement: SVGMarkerElement,
+        vertices: MarkerVertex[],
+        strokeWidth: number,
+    ): MarkerInstances
+    {
+        const viewport = getViewportSize(markerElement);
+        const markerWidth = parseMeasurement(markerElement.getAttribute('markerWidth') || '3', 16, {
+            percentageBase: viewport.width,
+        });
+        const markerHeight = parseMeasurement(markerElement.getAttribute('markerHeight') || '3', 16, {
+            percentageBase: viewport.height,
+        });
+        const markerUnits = markerElement.getAttribute('markerUnits');
+        const orient = markerElement.getAttribute('orient');
+        const scale = markerUnits === 'userSpaceOnUse' ? 1 : strokeWidth;
+
+        const marker = new Container();
+        const content = new Container();
+        const viewBoxTransform = new Matrix();
+
+        if (markerElement.hasAttribute('viewBox'))
+        {
+            computeViewBoxTransform(
+                markerElement.viewBox.baseVal,
+                markerElement.preserveAspectRatio.baseVal,
+                markerWidth,
+                markerHeight,
+                viewBoxTransform,
+            );
+        }
+
+        // The reference point is in the coordinate system of the marker's content.
+        const ref = viewBoxTransform.apply({
+            x: parseMeasurement(markerElement.getAttribute('refX'), 16, { percentageBase: markerWidth }),
+            y: parseMeasurement(markerElement.getAttribute('refY'), 16, { percentageBase: markerHeight }),
+        });
+
+        content.transform.setFromMatrix(viewBoxTransform);
+
+        // Properties are inherited from the marker's ancestors, not from the element referencing it.
+        const basePaint = this.queryInheritedPaint(markerElement);
+
+        for (let i = 0, j = markerElement.children.length; i < j; i++)
+        {
+            const childNode = this.populateSceneRecursive(markerElement.children[i] as SVGElement, { basePaint });
+
+            if (childNode)
+            {
+                content.addChild(childNode);
+            }
+        }
+
+        marker.addChild(content);
+
+        const overflow = this._styleResolver.getPropertyValue(markerElement, 'overflow');
+
+        if (overflow !== 'visible' && overflow !== 'auto')
+        {
+            const clipMask = new ClipMask(marker);
+
+            clipMask.addChild(new Graphics()
+                .beginFill(0xffffff)
+                .drawRect(0, 0, markerWidth, markerHeight)
+                .endFill());
+
+            content.mask = clipMask;
+        }
+
+        const transforms = vertices.map((vertex) => new Matrix()
+            .translate(-ref.x, -ref.y)
+            .scale(scale, scale)
+            .rotate(computeMarkerAngle(vertex, orient))
+            .translate(vertex.x, vertex.y));
+
+        return new MarkerInstances(marker, transforms);
+    }
+
+    /**
+     * Recursively populates a subscene graph that embeds {@code element}. The root of the subscene is returned.
+     *
+     * @param element - The SVGElement to be embedded.
+     * @param options - Inherited attributes from the element's parent, if any.
+     * @param {Paint} [options.basePaint] - The base paint that the element's paint should inherit from
+     * @param {boolean} [options.clip] - Whether the element is a part of a clip path's content
+     * @param {SVGUseElement} [options.instance] - The `<use />` element instantiating the element, if any
+     * @return The display object that embeds the element for rendering.
+     */
+    protected populateSceneRecursive(
+        element: SVGElement,
+        options?: {
+            basePaint?: Paint;
+            clip?: boolean;
+            instance?: SVGUseElement;
+        },
+    ): Container
+    {
+        const key = this._populationKey.concat(this._populationIndex++);
+
+        // Symbols are only rendered when instantiated by a <use /> element.
+        if (element instanceof SVGSymbolElement && !(options && options.instance))
+        {
+            return null;
+        }
+
+        const node = this.createNode(element);
+
+        if (!node)
+        {
+            return null;
+        }
+
+        // The elements populated while embedding this element, e.g. its children or the content of its paint
+        // servers, are keyed under it.
+        const parentKey = this._populationKey;
+        const parentIndex = this._populationIndex;
+
+        this._populationKey = key;
+        this._populationIndex = 0;
+
+        node.on('nodetransformdirty', this.onNodeTransformDirty);
+
+        let paint: Paint;
+
+        if (element instanceof SVGGraphicsElement
+            || element instanceof SVGMaskElement
+            || element instanceof SVGSymbolElement)
+        {
+            const opts = this.embedIntoNode(node, element, options);
+
+            paint = opts.paint;
+        }
+
+        for (let i = 0, j = element.children.length; i < j; i++)
+        {
+            // eslint-disable-next-line
+            // @ts-ignore
+            const childNode = this.populateSceneRecursive(element.children[i], {
+                basePaint: paint,
+                clip: options && options.clip,
+            });
+
+            if (childNode)
+            {
+                node.addChild(childNode);
+            }
+        }
+
+        if (node instanceof SVGGraphicsNode)
+        {
+            const bbox = node.getLocalBounds(tempRect);
+            const paintServers = node.paintServers;
+
+            paintServers.forEach((paintServer) =>
+            {
+                paintServer.resolvePaintDimensions(bbox);
+            });
+
+            const geometry = node.geometry;
+            const graphicsData: GraphicsData[] = (geometry as any).graphicsData;
+
+            if (graphicsData)
+            {
+                graphicsData.forEach((data) =>
+                {
+                    const fillStyle = data.fillStyle;
+                    const lineStyle = data.lineStyle;
+                    const fillServer = fillStyle.texture
+                        && paintServers.find((server) => server.paintTexture === fillStyle.texture);
+                    const lineServer = lineStyle.texture
+                        && paintServers.find((server) => server.paintTexture === lineStyle.texture);
+
+                    // The style matrices map from local space into texture space.
+                    if (fillServer)
+                    {
+                        fillStyle.matrix.copyFrom(fillServer.paintTransform).invert();
+                    }
+                    if (lineServer)
+                    {
+                        lineStyle.matrix.copyFrom(lineServer.paintTransform).invert();
+                    }
+                });
+
+                geometry.updateBatches();
+            }
+        }
+
+        // Markers are not a part of the geometry of clip paths.
+        if (node instanceof SVGGraphicsNode && !(options && options.clip))
+        {
+            const nodeName = element.nodeName.toLowerCase();
+
+            if (nodeName === 'path' || nodeName === 'line' || nodeName === 'polyline' || nodeName === 'polygon')
+            {
+                this.embedMarkers(node, element, paint.strokeWidth === null ? 1 : paint.strokeWidth);
+            }
+        }
+
+        if (element instanceof SVGMaskElement)
+        {
+            this._populationKey = parentKey;
+            this._populationIndex = parentIndex;
+
+            // Mask elements are *not* a part of the scene graph.
+            return null;
+        }
+
+        // The root element's viewport is established by the size of this scene.
+        if ((element instanceof SVGSVGElement && element !== this.content) || element instanceof SVGSymbolElement)
+        {
+            this.embedViewport(node, element, options && options.instance);
+        }
+
+        let root = node;
+
+        // Clip paths can't be nested in the content of other clip paths, because the stencil mask of a
+        // clip path is rendered in one pass. Filters don't apply to clip paths either.
+        if (element instanceof SVGGraphicsElement && options && options.clip)
+        {
+            if (this.findClipPath(element))
+            {
+                console.warn('[PIXI.SVG] clip-path on the content of a clip path is not supported and was ignored:',
+                    element);
+            }
+        }
+        else if (element instanceof SVGGraphicsElement)
+        {
+            this.embedFilter(node, element);
+
+            root = this.embedClipPath(node, element);
+        }
+
+        let nodes = this._elementToNodes.get(element);
+
+        if (!nodes)
+        {
+            nodes = [];
+            this._elementToNodes.set(element, nodes);
+        }
+
+        nodes.push({ node: root, options: { ...options }, key });
+        this._nodeToElement.set(root, element);
+
+        if (this._hiddenElements.has(element))
+        {
+            root.visible = false;
+        }
+
+        this._populationKey = parentKey;
+        this._populationIndex = parentIndex;
+
+        return root;
+    }
+
+    /**
+     * Populates the entire SVG scene. This should only be called once after the {@link SVGScene.content} has been set.
+     */
+    protected populateScene(): void
+    {
+        if (this.root)
+        {
+            this._cull.remove(this.root);
+            this.destroyNode(this.root);
+        }
+
+        this._shapeNodes.clear();
+        this.invalidateHitTest();
+        this._populationKey = [];
+        this._populationIndex = 0;
+
+        const root = this.populateSceneRecursive(this.content);
+
+        this.root = root;
+        this._cull.add(this.root);
+    }
+
+    /**
+     * Removes a node from the scene graph and destroys it. The elements populated into its subtree are no longer
+     * tracked, and the paint servers & filters of its nodes are destroyed too.
+     *
+     * @param node - The node to be destroyed.
+     */
+    protected destroyNode(node: Container): void
+    {
+        const clipMasks: ClipMask[] = [];
+        const paintServers: PaintServer[] = [];
+        const filters: SVGFilter[] = [];
+        const stack: Container[] = [node];
+
+        while (stack.length > 0)
+        {
+            const next = stack.pop();
+            const element = this._nodeToElement.get(next);
+
+            if (element)
+            {
+                const nodes = this._elementToNodes.get(element);
+                const index = nodes.findIndex((entry) => entry.node === next);
+
+                nodes.splice(index, 1);
+
+                if (nodes.length === 0)
+                {
+                    this._elementToNodes.delete(element);
+                }
+
+                this._nodeToElement.delete(next);
+            }
+
+            if (this._nodeToFilter.has(next))
+            {
+                filters.push(this._nodeToFilter.get(next));
+                this._nodeToFilter.delete(next);
+            }
+
+            // Clip masks are not a part of the scene graph, so they are not destroyed with their targets.
+            if (next.mask instanceof ClipMask)
+            {
+                clipMasks.push(next.mask);
+                stack.push(next.mask);
+            }
+            // The content of markers is not a part of the scene graph either.
+            if (next instanceof MarkerInstances)
+            {
+                stack.push(next.content);
+            }
+            if (next instanceof SVGGraphicsNode)
+            {
+                this._shapeNodes.delete(next);
+                next.paintServers.forEach((paintServer) =>
+                {
+                    paintServers.push(paintServer);
+
+                    if (paintServer.paintContent)
+                    {
+                        stack.push(paintServer.paintContent);
+                    }
+                });
+            }
+
+            for (let i = 0, j = next.children.length; i < j; i++)
+            {
+                stack.push(next.children[i] as Container);
+            }
+        }
+
+        if (node.parent)
+        {
+            node.parent.removeChild(node);
+        }
+
+        node.destroy({ children: true });
+
+        for (let i = 0, j = clipMasks.length; i < j; i++)
+        {
+            clipMasks[i].destroy({ children: true });
+        }
+        for (let i = 0, j = paintServers.length; i < j; i++)
+        {
+            paintServers[i].destroy();
+        }
+        for (let i = 0, j = filters.length; i < j; i++)
+        {
+            filters[i].destroy();
+        }
+    }
+
+    /**
+     * Removes a mask server from the render servers, and destroys it along with its content and texture.
+     *
+     * @param maskServer - The mask server to be destroyed.
+     */
+    protected destroyMaskServer(maskServer: MaskServer): void
+    {
+        const maskTexture = maskServer.texture;
+
+        this.destroyNode(maskServer);
+        maskTexture.destroy(true);
+    }
+
+    /**
+     * Rebuilds all the nodes populated for an element in place.
+     *
+     * @param element - The element whose nodes are to be rebuilt.
+     */
+    protected rebuildElement(element: SVGElement): void
+    {
+        const nodes = this._elementToNodes.get(element);
 
-                (node as SVGUseNode).embedUse(useElement);
+        if (!nodes)
+        {
+            return;
+        }
 
-                if (useTargetURL.startsWith('#'))
-                {
-                    const useTarget = this.content.querySelector(useTargetURL);
-                    const contentNode = this.populateSceneRecursive(useTarget as SVGGraphicsElement, {
-                        basePaint: usePaint,
-                    }) as SVGGraphicsNode;
+        // Copied, because the nodes are untracked as they are destroyed.
+        const entries = nodes.slice();
 
-                    (node as SVGUseNode).ref = contentNode;
-                    contentNode.transform.setFromMatrix(Matrix.IDENTITY);// clear transform
-                }
-                else if (!this._context.disableHrefSVGLoading)
-                {
-                    (node as SVGUseNode).isRefExternal = true;
-
-                    Loader._load(useTargetURL)
-                        .then((svgDocument) => [
-                            new SVGScene(svgDocument, {
-                                ...this._context,
-                                disableRootPopulation: true,
-                            }),
-                            svgDocument.querySelector('#' + useTargetURL.split('#')[1])
-                        ] as [SVGScene, SVGElement])
-                        .then(([shellScene, useTarget]) =>
-                        {
-                            if (!useTarget)
-                            {
-                                console.error(`SVGScene failed to resolve ${useTargetURL} and SVGUseNode is empty!`);
-                            }
+        this.invalidateHitTest();
 
-                            const contentNode = shellScene.populateSceneRecursive(useTarget as SVGGraphicsElement, {
-                                basePaint: usePaint,
-                            }) as SVGGraphicsNode;
-        
-                            (node as SVGUseNode).ref = contentNode;
-                            contentNode.transform.setFromMatrix(Matrix.IDENTITY);// clear transform
+        for (let i = 0, j = entries.length; i < j; i++)
+        {
+            const { node, options, key } = entries[i];
 
-                            this._transformDirty = true;
+            if (node === this.root)
+            {
+                this.populateScene();
+                continue;
+            }
 
-                            shellScene.on('transformdirty', () => {
-                                this._transformDirty = true;
-                            });
-                        });
-                }
+            const parent = node.parent;
+            const index = parent ? parent.getChildIndex(node) : -1;
+            const useNode = parent instanceof SVGUseNode && parent.ref === node ? parent : null;
+
+            this.destroyNode(node);
+
+            // The element is populated with the key it was first populated with, so that its nodes keep their
+            // place in the order of population.
+            const populationKey = this._populationKey;
+            const populationIndex = this._populationIndex;
+
+            this._populationKey = key.slice(0, -1);
+            this._populationIndex = key[key.length - 1];
+
+            const newNode = this.populateSceneRecursive(element, options);
+
+            this._populationKey = populationKey;
+            this._populationIndex = populationIndex;
+
+            if (!newNode)
+            {
+                continue;
+            }
+            if (useNode)
+            {
+                useNode.ref = newNode as SVGGraphicsNode;
+                newNode.transform.setFromMatrix(Matrix.IDENTITY);
+            }
+            else if (parent)
+            {
+                parent.addChildAt(newNode, index);
             }
         }
+    }
 
-        node.transform.setFromMatrix(tempMatrix.set(
-            transformMatrix.a,
-            transformMatrix.b,
-            transformMatrix.c,
-            transformMatrix.d,
-            transformMatrix instanceof Matrix ? transformMatrix.tx : transformMatrix.e,
-            transformMatrix instanceof Matrix ? transformMatrix.ty : transformMatrix.f,
-        ));
-
-        if (element instanceof SVGMaskElement)
+    /**
+     * Finds the elements to be rebuilt after an element has changed. This is the nearest ancestor with populated
+     * nodes, or, if the element is a part of a clip path, filter, marker, mask, or paint server, the elements
+     * referencing it.
+     *
+     * @param element - The element that has changed.
+     * @param targets - The set to which the elements to be rebuilt are added.
+     * @param visited - The referenced elements already searched, to guard against cyclic references.
+     */
+    protected findRebuildTargets(element: Element, targets: Set<SVGElement>, visited = new Set<Element>()): void
+    {
+        // Removed elements are destroyed with their parent's nodes.
+        if (!this.content.contains(element))
         {
-            this._elementToMask.set(element, this.createMask(node));
+            return;
         }
 
-        const maskURL = element.getAttribute('mask');
+        let referencedElement: Element = null;
 
-        if (maskURL)
+        for (let ancestor = element; ancestor && ancestor !== this.content; ancestor = ancestor.parentElement)
         {
-            const maskElement: SVGMaskElement = this.content.querySelector(this.parseReference(maskURL));
+            if (REFERENCED_ELEMENTS.indexOf(ancestor.nodeName.toLowerCase()) !== -1)
+            {
+                referencedElement = ancestor;
+            }
+        }
 
-            if (maskElement)
+        if (referencedElement)
+        {
+            if (visited.has(referencedElement))
             {
-                const maskServer = this.queryMask(maskElement);
-                const maskSprite = maskServer.createMask(node);
+                return;
+            }
 
-                this.renderServers.addChild(maskServer);
-                node.mask = maskSprite;
-                node.addChild(maskSprite);
+            visited.add(referencedElement);
+
+            const maskServer = this._elementToMask.get(referencedElement as SVGElement);
+
+            if (maskServer)
+            {
+                this._elementToMask.delete(referencedElement as SVGElement);
+                this.destroyMaskServer(maskServer);
             }
+
+            if (referencedElement.id)
+            {
+                this.findReferencingTargets(referencedElement.id, targets, visited);
+            }
+
+            return;
         }
 
-        return {
-            paint,
-        };
+        // Elements in <defs /> are only rendered by reference.
+        for (let ancestor = element; ancestor; ancestor = ancestor.parentElement)
+        {
+            if (ancestor.nodeName.toLowerCase() === 'defs')
+            {
+                return;
+            }
+            if (this._elementToNodes.has(ancestor as SVGElement))
+            {
+                targets.add(ancestor as SVGElement);
+
+                return;
+            }
+        }
     }
 
     /**
-     * Recursively populates a subscene graph that embeds {@code element}. The root of the subscene is returned.
+     * Finds the elements to be rebuilt because they reference the element with the given id, which has changed,
+     * or was added, removed, or renamed.
      *
-     * @param element - The SVGElement to be embedded.
-     * @param options - Inherited attributes from the element's parent, if any.
-     * @return The display object that embeds the element for rendering.
+     * @param id - The id of the referenced element.
+     * @param targets - The set to add the elements to be rebuilt to.
+     * @param visited - The referenced elements already visited, which guards against circular references.
      */
-    protected populateSceneRecursive(
-        element: SVGElement,
-        options?: {
-            basePaint?: Paint;
-        },
-    ): Container
+    protected findReferencingTargets(id: string, targets: Set<SVGElement>, visited = new Set<Element>()): void
     {
-        const node = this.createNode(element);
+        const elements = this.content.querySelectorAll('*');
 
-        if (!node)
+        for (let i = 0, j = elements.length; i < j; i++)
         {
-            return null;
+            if (this.isReferencing(elements[i], id))
+            {
+                this.findRebuildTargets(elements[i], targets, visited);
+            }
         }
+    }
 
-        node.on('nodetransformdirty', this.onNodeTransformDirty);
+    /**
+     * Checks whether an element references the element with the given id, e.g. with `fill="url(#id)"` or
+     * `href="#id"`.
+     *
+     * @param element - The element that may be referencing.
+     * @param id - The id of the referenced element.
+     */
+    protected isReferencing(element: Element, id: string): boolean
+    {
+        const selector = `#${id}`;
 
-        let paint: Paint;
+        if (element.getAttribute('href') === selector || element.getAttribute('xlink:href') === selector)
+        {
+            return true;
+        }
 
-        if (element instanceof SVGGraphicsElement || element instanceof SVGMaskElement)
+        for (let i = 0, j = REFERENCE_PROPERTIES.length; i < j; i++)
         {
-            const opts = this.embedIntoNode(node, element, options);
+            const value = this._styleResolver.getPropertyValue(element, REFERENCE_PROPERTIES[i]);
 
-            paint = opts.paint;
+            if (value && value.startsWith('url') && this.parseReference(value) === selector)
+            {
+                return true;
+            }
         }
 
-        for (let i = 0, j = element.children.length; i < j; i++)
+        return false;
+    }
+
+    /**
+     * Handles the mutations of the content observed by {@link SVGScene._observer}. The caches of the changed
+     * elements are invalidated, and their nodes are rebuilt. If a stylesheet changes, the whole scene is rebuilt.
+     */
+    private onContentMutation = (mutations: MutationRecord[]): void =>
+    {
+        const changedElements = new Set<Element>();
+        const changedIds = new Set<string>();
+        let styleSheetDirty = false;
+
+        const invalidate = (element: Element, deep: boolean): void =>
         {
-            // eslint-disable-next-line
-            // @ts-ignore
-            const childNode = this.populateSceneRecursive(element.children[i], {
-                basePaint: paint,
-            });
+            this._styleResolver.invalidate(element);
+            this._elementToPaint.delete(element as SVGElement);
 
-            if (childNode)
+            if (deep)
             {
-                node.addChild(childNode);
+                const descendants = element.querySelectorAll('*');
+
+                for (let i = 0, j = descendants.length; i < j; i++)
+                {
+                    invalidate(descendants[i], false);
+                }
             }
-        }
+        };
 
-        if (node instanceof SVGGraphicsNode)
+        // The elements referencing added, removed, or renamed elements are rebuilt, as their references resolve
+        // differently now.
+        const collectIds = (element: Element): void =>
         {
-            const bbox = node.getLocalBounds(tempRect);
-            const paintServers = node.paintServers;
-            const { x, y, width: bwidth, height: bheight } = bbox;
+            const descendants = element.querySelectorAll('[id]');
 
-            node.paintServers.forEach((paintServer) =>
+            if (element.id)
             {
-                paintServer.resolvePaintDimensions(bbox);
-            });
+                changedIds.add(element.id);
+            }
+            for (let i = 0, j = descendants.length; i < j; i++)
+            {
+                changedIds.add(descendants[i].id);
+            }
+        };
 
-            const geometry = node.geometry;
-            const graphicsData: GraphicsData[] = (geometry as any).graphicsData;
+        for (let i = 0, j = mutations.length; i < j; i++)
+        {
+            const mutation = mutations[i];
+            const target = mutation.target instanceof Element ? mutation.target : mutation.target.parentElement;
 
-            if (graphicsData)
+            if (!target)
             {
-                graphicsData.forEach((data) =>
-                {
-                    const fillStyle = data.fillStyle;
-                    const lineStyle = data.lineStyle;
+                continue;
+            }
+            if (target.closest('style'))
+            {
+                styleSheetDirty = true;
+                continue;
+            }
 
-                    if (fillStyle.texture && paintServers.find((server) => server.paintTexture === fillStyle.texture))
-                    {
-                        const width = fillStyle.texture.width;
-                        const height = fillStyle.texture.height;
+            if (mutation.type === 'attributes')
+            {
+                // Selectors matching the class or id of an element can apply to its descendants too.
+                invalidate(target, mutation.attributeName === 'class' || mutation.attributeName === 'id');
 
-                        data.fillStyle.matrix
-                            .invert()
-                            .scale(bwidth / width, bheight / height)
-                            .invert();
+                if (mutation.attributeName === 'id')
+                {
+                    if (mutation.oldValue)
+                    {
+                        changedIds.add(mutation.oldValue);
                     }
-                    if (fillStyle.matrix)
+                    if (target.id)
                     {
-                        fillStyle.matrix
-                            .invert()
-                            .translate(x, y)
-                            .invert();
+                        changedIds.add(target.id);
                     }
+                }
 
-                    if (lineStyle.texture && paintServers.find((server) => server.paintTexture === lineStyle.texture))
-                    {
-                        const width = lineStyle.texture.width;
-                        const height = lineStyle.texture.height;
+                if (target === this.content)
+                {
+                    this.initSize();
+                }
+            }
+            else if (mutation.type === 'childList')
+            {
+                const addedNodes = mutation.addedNodes;
+                const removedNodes = mutation.removedNodes;
 
-                        data.lineStyle.matrix
-                            .invert()
-                            .scale(bwidth / width, bheight / height)
-                            .invert();
+                for (let k = 0, l = addedNodes.length; k < l; k++)
+                {
+                    if (addedNodes[k] instanceof Element)
+                    {
+                        invalidate(addedNodes[k] as Element, true);
+                        collectIds(addedNodes[k] as Element);
                     }
-                    if (lineStyle.matrix)
+                }
+                for (let k = 0, l = removedNodes.length; k < l; k++)
+                {
+                    if (removedNodes[k] instanceof Element)
                     {
-                        lineStyle.matrix
-                            .invert()
-                            .translate(x, y)
-                            .invert();
+                        collectIds(removedNodes[k] as Element);
                     }
-                });
-
-                geometry.updateBatches();
+                    if (removedNodes[k].nodeName === 'style')
+                    {
+                        styleSheetDirty = true;
+                    }
+                }
+                for (let k = 0, l = addedNodes.length; k < l; k++)
+                {
+                    if (addedNodes[k].nodeName === 'style')
+                    {
+                        styleSheetDirty = true;
+                    }
+                }
             }
+
+            changedElements.add(target);
         }
 
-        if (element instanceof SVGMaskElement)
+        if (styleSheetDirty)
         {
-            // Mask elements are *not* a part of the scene graph.
-            return null;
+            this._styleResolver = new StyleResolver(this.content);
+            this._elementToPaint.clear();
+            this._elementToMask.forEach((maskServer) => this.destroyMaskServer(maskServer));
+            this._elementToMask.clear();
+            this.populateScene();
         }
+        else
+        {
+            const targets = new Set<SVGElement>();
+            const visited = new Set<Element>();
 
-        return node;
-    }
+            changedElements.forEach((element) => this.findRebuildTargets(element, targets, visited));
+            changedIds.forEach((id) => this.findReferencingTargets(id, targets, visited));
+
+            // Rebuilding an element rebuilds its descendants too.
+            targets.forEach((element) =>
+            {
+                for (let ancestor = element.parentElement; ancestor; ancestor = ancestor.parentElement)
+                {
+                    if (targets.has(ancestor as unknown as SVGElement))
+                    {
+                        return;
+                    }
+                }
+
+                this.rebuildElement(element);
+            });
+        }
+
+        this.onNodeTransformDirty();
+    };
 
     /**
-     * Populates the entire SVG scene. This should only be called once after the {@link SVGScene.content} has been set.
+     * Handles the pointer events of this scene, and re-emits them for the element under the pointer, prefixed by
+     * "element", e.g. `elementpointertap`. The listeners are passed the element and the original event. The elements
+     * entered & left by the pointer are notified by `elementpointerover` & `elementpointerout`.
+     *
+     * These are only emitted while the scene is `interactive`.
      */
-    protected populateScene(): void
+    private onPointerEvent = (event: { type: string, data: { global: IPointData } }): void =>
     {
-        if (this.root)
+        const element = event.type === 'pointerout' ? null : this.hitTest(event.data.global);
+
+        if (element !== this._hoveredElement)
         {
-            this._cull.remove(this.root);
-        }
+            if (this._hoveredElement)
+            {
+                this.emit('elementpointerout', this._hoveredElement, event);
+            }
 
-        const root = this.populateSceneRecursive(this.content);
+            this._hoveredElement = element;
 
-        this.root = root;
-        this._cull.add(this.root);
-    }
+            if (element)
+            {
+                this.emit('elementpointerover', element, event);
+            }
+        }
+
+        if (element && event.type !== 'pointerover')
+        {
+            this.emit(`element${event.type}`, element, event);
+        }
+    };
 
     /**
      * Handles `nodetransformdirty` events fired by nodes. It will set {@link SVGScene._transformDirty} to true.
@@ -776,8 +2622,9 @@ export class SVGScene extends DisplayObject
     };
 
     /**
-     * The width at which the SVG scene is being rendered. By default, this is the viewbox width specified by
-     * the root element.
+     * The width at which the SVG scene is being rendered. By default, this is the width specified by the root
+     * element if it is absolute, e.g. `210mm`; otherwise, it is the viewbox width. The viewbox is scaled to fit
+     * the scene's size as specified by the `preserveAspectRatio` of the root element, i.e. uniformly by default.
      */
     get width(): number
     {
@@ -786,12 +2633,13 @@ export class SVGScene extends DisplayObject
     set width(value: number)
     {
         this._width = value;
-        this.scale.x = this._width / this.content.viewBox.baseVal.width;
+        this.updateViewBoxTransform();
     }
 
     /**
-     * The height at which the SVG scene is being rendered. By default, this is the viewbox height specified by
-     * the root element.
+     * The height at which the SVG scene is being rendered. By default, this is the height specified by the root
+     * element if it is absolute, e.g. `297mm`; otherwise, it is the viewbox height. The viewbox is scaled to fit
+     * the scene's size as specified by the `preserveAspectRatio` of the root element, i.e. uniformly by default.
      */
     get height(): number
     {
@@ -800,7 +2648,7 @@ export class SVGScene extends DisplayObject
     set height(value: number)
     {
         this._height = value;
-        this.scale.y = this._height / this.content.viewBox.baseVal.height;
+        this.updateViewBoxTransform();
     }
 
     /**
@@ -815,4 +2663,125 @@ export class SVGScene extends DisplayObject
     static async from(url: string, context?: SVGSceneContext): Promise<SVGScene> {
         return new SVGScene(await Loader._load(url), context);
     }
+
+    /**
+     * Serializes this scene into a binary asset, which holds the description of the SVG document along with the
+     * tessellated geometry of its shapes. Use {@link SVGScene.fromAsset} to restore the scene without parsing the
+     * path data & tessellating the shapes again. The geometry of each shape is matched to its element by the element's
+     * id, or its position in the document.
+     *
+     * Text and images are not pre-rendered; they are loaded when the scene is restored.
+     */
+    toAsset(): ArrayBuffer
+    {
+        const description = parseSVGDescription(new XMLSerializer().serializeToString(this.content));
+        const elementIndices = indexSVGElements(this.content);
+        const shapeNodes = Array.from(this._shapeNodes.keys());
+
+        // The shapes are listed in the order they'd be populated in, which differs from the order they were
+        // populated in if any was rebuilt.
+        shapeNodes.sort((a, b) => comparePopulationKeys(this._shapeNodes.get(a).key, this._shapeNodes.get(b).key));
+
+        const shapes: SVGBakedShape[] = shapeNodes.map((node) =>
+        {
+            const { element } = this._shapeNodes.get(node);
+
+            return {
+                element: elementIndices.get(element),
+                name: element.nodeName,
+                id: element.id,
+                geometry: (node.geometry as SVGGraphicsGeometry).bake(
+                    node.paintServers.map((paintServer) => paintServer.paintTexture),
+                ),
+            };
+        });
+
+        return encodeSVGAsset({ description, curveScale: this._curveScale, shapes });
+    }
+
+    /**
+     * Create a {@link SVGScene} from a binary asset generated by {@link SVGScene.toAsset}. The shapes are restored
+     * from their tessellated geometry, so the path data is not parsed again. The curves are tessellated again only if
+     * the scene is scaled out of the range of the curve scale they were tessellated at.
+     *
+     * @param buffer - The binary asset.
+     * @param context - This can be used to configure the scene.
+     */
+    static fromAsset(buffer: ArrayBuffer, context?: Partial<SVGSceneContext>): SVGScene
+    {
+        const { description, curveScale, shapes } = decodeSVGAsset(buffer);
+        const scene = new SVGScene(buildSVGElement(description), {
+            ...context,
+            disableRootPopulation: true,
+        });
+
+        // The curves of the shapes were tessellated at this scale, so they're only rebuilt once the scene is scaled
+        // out of its range.
+        scene._curveScale = curveScale;
+
+        if (!context || !context.disableRootPopulation)
+        {
+            scene._bakedGeometries = scene.matchBakedShapes(shapes);
+            scene.populateScene();
+            scene._bakedGeometries = null;
+        }
+
+        return scene;
+    }
+
+    /**
+     * Matches the baked shapes of an asset to the elements of this scene, by their ids or indices. Shapes whose
+     * elements are missing or have a different name are rejected, and are built from scratch instead.
+     *
+     * @param shapes - The baked shapes of the asset.
+     * @returns The baked geometries of each element, in the order its shapes are populated.
+     */
+    protected matchBakedShapes(shapes: SVGBakedShape[]): Map<SVGElement, SVGBakedGeometry[]>
+    {
+        const elements: Element[] = [];
+        const bakedGeometries = new Map<SVGElement, SVGBakedGeometry[]>();
+        let mismatches = 0;
+
+        indexSVGElements(this.content).forEach((index, element) =>
+        {
+            elements[index] = element;
+        });
+
+        for (let i = 0, j = shapes.length; i < j; i++)
+        {
+            const { element: index, name, id, geometry } = shapes[i];
+            const element = (id ? this.content.getElementById(id) : elements[index]) as SVGElement;
+
+            if (!element || element.nodeName !== name)
+            {
+                mismatches++;
+                continue;
+            }
+            if (!bakedGeometries.has(element))
+            {
+                bakedGeometries.set(element, []);
+            }
+
+            bakedGeometries.get(element).push(geometry);
+        }
+
+        if (mismatches > 0)
+        {
+            console.warn(`[PIXI.SVG] ${mismatches} baked shapes didn't match the elements of the asset and were rebuilt.`);
+        }
+
+        return bakedGeometries;
+    }
+
+    /**
+     * Create a {@link SVGScene} from a description of the SVG document, which may have been generated ahead of time by
+     * {@link parseSVGDescription} in a web worker or at build time.
+     *
+     * @param description - The description of the SVG document.
+     * @param context - This can be used to configure the scene.
+     */
+    static fromDescription(description: SVGSceneDescription, context?: Partial<SVGSceneContext>): SVGScene
+    {
+        return new SVGScene(buildSVGElement(description), context);
+    }
 }
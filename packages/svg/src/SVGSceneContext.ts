@@ -13,6 +13,18 @@ export interface SVGSceneContext
     /** Disable loading SVGs referenced from "href", "xlink:href" attributes of &lt;use /&gt; elements. */
     disableHrefSVGLoading: boolean;
 
+    /**
+     * Disable tessellating curves again when the scene is scaled up, e.g. when zooming in. Otherwise, arcs &
+     * béziers are tessellated finer as the scale of the scene grows, so they don't look faceted.
+     */
+    disableCurveLOD: boolean;
+
     /** @ignore */
     disableRootPopulation: boolean;
+
+    /**
+     * Observe the SVG document for changes, and rebuild the nodes of the elements whose attributes, children, or
+     * text change. The scene is synchronized asynchronously, after the mutations are delivered.
+     */
+    observeContent: boolean;
 }
@@ -24,11 +24,15 @@ export interface SVGTextEngine
      * Puts the text {@code content} into the local space of the engine at {@code position}. {@code matrix} can
      * be used to transform the glyphs, although it is as optional feature for implementations.
      *
+     * The text is laid out by {@link layoutText} beforehand, so the engine is only expected to draw a single line of
+     * glyphs.
+     *
      * @param id - A locally unique ID that can be used to modify the added block of text later.
-     * @param position - The position of the text in the engine's local space.
+     * @param position - The origin of the text's alphabetic baseline. If a matrix is passed, this is in the space
+     *  transformed by the matrix; otherwise, it is in the engine's local space.
      * @param content - The text to add.
      * @param style - The text styling applied.
-     * @param matrix
+     * @param matrix - The transform from the space of the text into the engine's local space.
      */
     put(id: any, position: IPointData, content: string, style: Partial<TextStyle>, matrix?: Matrix): Promise<IPointData>;
 }
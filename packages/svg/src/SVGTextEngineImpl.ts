@@ -1,3 +1,4 @@
+import { Point } from '@pixi/math';
 import { Sprite } from '@pixi/sprite';
 import { Texture } from '@pixi/core';
 import { TextMetrics, TextStyle } from '@pixi/text';
@@ -6,6 +7,8 @@ import type { IPointData, Matrix } from '@pixi/math';
 import type { Renderer } from '@pixi/core';
 import type { SVGTextEngine } from './SVGTextEngine';
 
+const tempPoint = new Point();
+
 /**
  * `SVGTextEngineImpl` is the default implementation for {@link SVGTextEngine}. It is inspired by {@link PIXI.Text} that
  * is provided by @pixi/text. It uses a &lt;canvas /&gt; to draw and cache the text. This may cause blurring issues when
@@ -75,17 +78,43 @@ export class SVGTextEngineImpl extends Sprite implements SVGTextEngine
 
     updateText(): void
     {
-        let w = 0;
-        let h = 0;
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
 
-        this.contentList.forEach(({ position, content, style }) =>
+        // Calculate the bounds of all the text, whose positions are at the alphabetic baseline.
+        this.contentList.forEach(({ position, content, style, matrix }) =>
         {
             const textMetrics = TextMetrics.measureText(content, new TextStyle(style), false, this.canvas);
+            const { ascent, descent } = textMetrics.fontProperties;
 
-            w = Math.max(w, position.x + textMetrics.width);
-            h = Math.max(h, position.y + textMetrics.height + textMetrics.fontProperties.descent);
+            for (let i = 0; i < 4; i++)
+            {
+                tempPoint.set(
+                    position.x + (i % 2 === 0 ? 0 : textMetrics.width),
+                    position.y + (i < 2 ? -ascent : descent),
+                );
+
+                if (matrix)
+                {
+                    matrix.apply(tempPoint, tempPoint);
+                }
+
+                minX = Math.min(minX, tempPoint.x);
+                minY = Math.min(minY, tempPoint.y);
+                maxX = Math.max(maxX, tempPoint.x);
+                maxY = Math.max(maxY, tempPoint.y);
+            }
         });
 
+        if (minX > maxX)
+        {
+            minX = minY = maxX = maxY = 0;
+        }
+
+        const w = Math.ceil(maxX - minX);
+        const h = Math.ceil(maxY - minY);
         const resolution = window.devicePixelRatio || 1;
 
         this.canvas.width = w * resolution;
@@ -93,35 +122,46 @@ export class SVGTextEngineImpl extends Sprite implements SVGTextEngine
         this.texture.baseTexture.setRealSize(w, h, resolution);
         this.texture.update();
 
-        this.context.clearRect(0, 0, w * resolution, h * resolution);
         this.context.setTransform(1, 0, 0, 1, 0, 0);
-        this.context.scale(resolution, resolution);
-
-        let i = 0;
+        this.context.clearRect(0, 0, w * resolution, h * resolution);
+        this.context.textBaseline = 'alphabetic';
 
-        for (const [_, { position, content, style }] of this.contentList)
+        for (const [_, { position, content, style, matrix }] of this.contentList)
         {
-            const textMetrics = TextMetrics.measureText(content, new TextStyle(style), false, this.canvas);
             const textStyle = new TextStyle(style);
 
+            this.context.setTransform(resolution, 0, 0, resolution, -minX * resolution, -minY * resolution);
+
+            if (matrix)
+            {
+                this.context.transform(matrix.a, matrix.b, matrix.c, matrix.d, matrix.tx, matrix.ty);
+            }
+
             this.context.fillStyle = typeof textStyle.fill === 'string' ? textStyle.fill : 'black';
             this.context.font = textStyle.toFontString();
 
-            this.context.fillText(content, position.x, position.y + textMetrics.height);
-
-            if (i === 0)
+            if (!textStyle.letterSpacing)
             {
-                this.y -= textMetrics.height;
+                this.context.fillText(content, position.x, position.y);
+                continue;
             }
 
-            i++;
+            // Canvas doesn't support letter spacing, so each character is drawn separately.
+            let x = position.x;
+
+            for (const char of Array.from(content))
+            {
+                this.context.fillText(char, x, position.y);
+                x += this.context.measureText(char).width + textStyle.letterSpacing;
+            }
         }
 
+        this.position.set(minX, minY);
         this.updateId = this.dirtyId;
 
         // Ensure the SVG scene updates its bounds after the text is rendered.
         this.emit('nodetransformdirty');
-     }
+    }
 
     render(renderer: Renderer): void
     {
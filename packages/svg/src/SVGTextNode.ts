@@ -1,11 +1,11 @@
 import { Container } from '@pixi/display';
 import { SVGTextEngineImpl } from './SVGTextEngineImpl';
-import { parseMeasurement } from './utils/parseMeasurement';
+import { layoutText } from './text/layoutText';
 
 import type { DisplayObject } from '@pixi/display';
-import type { IPointData } from '@pixi/math';
 import type { SVGTextEngine } from './SVGTextEngine';
-import type { TextStyle, TextStyleFontWeight } from '@pixi/text';
+import type { StyleResolver } from './style/StyleResolver';
+import type { TextStyle } from '@pixi/text';
 
 /**
  * Draws SVG &lt;text /&gt; elements.
@@ -28,15 +28,19 @@ export class SVGTextNode extends Container
     protected engine: SVGTextEngine & DisplayObject;
 
     /**
-     * The current text position, where the next glyph will be placed.
+     * Resolves the cascaded text style of the embedded elements. If `null`, only their presentation attributes
+     * are used.
      */
-    protected currentTextPosition: IPointData;
+    protected styleResolver: StyleResolver;
 
-    constructor()
+    /**
+     * @param styleResolver - Resolves the cascaded style of the text elements.
+     */
+    constructor(styleResolver: StyleResolver = null)
     {
         super();
 
-        this.currentTextPosition = { x: 0, y: 0 };
+        this.styleResolver = styleResolver;
         this.engine = new (SVGTextNode.defaultEngine)();
         this.addChild(this.engine);
     
@@ -48,81 +52,27 @@ export class SVGTextNode extends Container
     }
 
     /**
-     * Embeds a `SVGTextElement` in this node.
+     * Embeds a `SVGTextElement` in this node. Its content is laid out using {@link layoutText}, and each glyph run
+     * is put into the text engine.
      *
      * @param {SVGTextElement} element - The `SVGTextElement` to embed.
+     * @param style - The base style of the text.
      */
     async embedText(element: SVGTextElement | SVGTSpanElement, style: Partial<TextStyle> = {}): Promise<void>
     {
         const engine = this.engine;
+        const runs = layoutText(element, style, this.styleResolver);
 
-        if (element instanceof SVGTextElement)
-        {
-            await engine.clear();
-
-            this.currentTextPosition.x = element.x.baseVal.length > 0
-                ? element.x.baseVal.getItem(0).value
-                : 0;
-            this.currentTextPosition.y = element.y.baseVal.length > 0
-                ? element.y.baseVal.getItem(0).value
-                : 0;
-        }
-
-        const fill = element.getAttribute('fill');
-        const fontFamily = element.getAttribute('font-family');
-        const fontSize = parseFloat(element.getAttribute('font-size'));
-        const fontWeight = element.getAttribute('font-weight');
-        const letterSpacing = parseMeasurement(element.getAttribute('letter-spacing'), fontSize);
+        await engine.clear();
 
-        style.fill = fill || style.fill || 'black';
-        style.fontFamily = fontFamily || !style.fontFamily ? `${fontFamily || 'serif'}, serif` : style.fontFamily;
-        style.fontSize = !isNaN(fontSize) ? fontSize : style.fontSize;
-        style.fontWeight = (fontWeight as TextStyleFontWeight) || style.fontWeight || 'normal';
-        style.letterSpacing = !isNaN(letterSpacing) ? letterSpacing : (style.letterSpacing || 0);
-        style.wordWrap = true;
-        style.wordWrapWidth = 400;
-
-        const childNodes = element.childNodes;
-
-        for (let i = 0, j = childNodes.length; i < j; i++)
+        for (let i = 0, j = runs.length; i < j; i++)
         {
-            const childNode = childNodes.item(i);
-
-            let textContent: string;
-            let textStyle: Partial<TextStyle>;
+            const run = runs[i];
 
-            /* eslint-disable-next-line no-undef */
-            if (childNode instanceof globalThis.Text)
-            {
-                textContent = childNode.data;
-                textStyle = style;
+            await engine.put(i, run.position, run.content, run.style, run.matrix);
 
-                this.currentTextPosition = await engine.put(
-                    childNode,
-                    {
-                        x: this.currentTextPosition.x,
-                        y: this.currentTextPosition.y,
-                    },
-                    textContent,
-                    textStyle,
-                );
-
-                // Ensure transforms are updated as new text phrases are loaded.
-                this.emit('nodetransformdirty');
-            }
-            else if (childNode instanceof SVGTSpanElement)
-            {
-                if (childNode.x.baseVal.length > 0)
-                {
-                    this.currentTextPosition.x = childNode.x.baseVal.getItem(0).value;
-                }
-                if (childNode.y.baseVal.length > 0)
-                {
-                    this.currentTextPosition.y = childNode.y.baseVal.getItem(0).value;
-                }
-
-                await this.embedText(childNode, { ...style });
-            }
+            // Ensure transforms are updated as new text phrases are loaded.
+            this.emit('nodetransformdirty');
         }
     }
 }
@@ -28,10 +28,8 @@ export class SVGUseNode extends Container
         const x = element.x.baseVal.valueInSpecifiedUnits;
         const y = element.y.baseVal.valueInSpecifiedUnits;
 
-        // TODO: width,height only have an efffect if the reference element is <svg> or <symbol>.
-        // const width = element.width.baseVal.valueInSpecifiedUnits;
-        // const height = element.height.baseVal.valueInSpecifiedUnits;
-
+        // The width & height only have an effect if the referenced element is a <svg> or <symbol>, and are
+        // applied when its viewport is established (see SVGScene.embedViewport).
         this.position.set(x, y);
     }
 
@@ -0,0 +1,472 @@
+import { isRenderedElementName } from '../description/parseSVGDescription';
+
+import type { SVGSceneDescription } from '../description/SVGSceneDescription';
+
+/**
+ * The magic number at the start of an encoded asset, "PXSA" in little-endian order.
+ *
+ * @ignore
+ */
+const MAGIC = 0x41535850;
+
+/**
+ * The version of the binary format.
+ *
+ * @ignore
+ */
+const VERSION = 1;
+
+/**
+ * Whether typed arrays are little-endian on this platform, so they can be copied into the buffer as is.
+ *
+ * @ignore
+ */
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * A batch of triangles in a {@link SVGBakedGeometry} that are drawn with the same style.
+ *
+ * @public
+ */
+export interface SVGBakedBatch
+{
+    /** Whether the batch strokes the shape, instead of filling it. */
+    line: boolean;
+
+    /** Whether the stroke is drawn with native lines. */
+    native: boolean;
+
+    /** The color of the style. */
+    color: number;
+
+    /** The alpha of the style. */
+    alpha: number;
+
+    /** The index of the node's paint texture used by the style, or -1 if the style is a solid color. */
+    texture: number;
+
+    /** The offset of the batch into the indices. */
+    start: number;
+
+    /** The number of indices in the batch. */
+    size: number;
+
+    /** The offset of the batch into the vertices. */
+    attribStart: number;
+
+    /** The number of vertices in the batch. */
+    attribSize: number;
+}
+
+/**
+ * The tessellated geometry of a shape, which can be restored without building the shape again.
+ *
+ * @public
+ */
+export interface SVGBakedGeometry
+{
+    /** The bounds of the geometry, as `[minX, minY, maxX, maxY]`. */
+    bounds: [number, number, number, number];
+
+    /** The positions of the vertices. */
+    points: Float32Array;
+
+    /** The texture coordinates of the vertices. */
+    uvs: Float32Array;
+
+    /** The indices of the triangles. */
+    indices: Uint16Array | Uint32Array;
+
+    /** The batches of triangles, by style. */
+    batches: SVGBakedBatch[];
+}
+
+/**
+ * The tessellated geometry of a shape, along with the element it was built for.
+ *
+ * @public
+ */
+export interface SVGBakedShape
+{
+    /**
+     * The index of the element in the document, in the order of a depth-first traversal of the description. The
+     * root element is at index 0.
+     */
+    element: number;
+
+    /** The name of the element, which must match for the geometry to be restored. */
+    name: string;
+
+    /** The id of the element, or an empty string. If set, the element is found by its id instead of its index. */
+    id: string;
+
+    /** The tessellated geometry of the shape. */
+    geometry: SVGBakedGeometry;
+}
+
+/**
+ * A SVG document along with the tessellated geometry of its shapes. Shapes that are populated more than once, e.g.
+ * by `<use />` elements, are listed in the order they are populated into a {@link SVGScene}.
+ *
+ * @public
+ */
+export interface SVGAsset
+{
+    /** The description of the SVG document. */
+    description: SVGSceneDescription;
+
+    /**
+     * The scale at which the curves of the shapes were tessellated. A restored scene starts at this curve scale, so
+     * that its shapes are only tessellated again once it is scaled out of the range of this curve scale.
+     */
+    curveScale: number;
+
+    /** The tessellated shapes. */
+    shapes: SVGBakedShape[];
+}
+
+/**
+ * Indexes the elements of a document in the order of a depth-first traversal of its description, i.e. skipping the
+ * elements that {@link parseSVGDescription} drops. These are the indices used by {@link SVGBakedShape.element}, so
+ * the shapes of an asset can be matched to the elements of its document.
+ *
+ * @public
+ * @param root - The root element of the document.
+ */
+export function indexSVGElements(root: Element): Map<Element, number>
+{
+    const indices = new Map<Element, number>();
+    const stack: Element[] = [root];
+
+    while (stack.length > 0)
+    {
+        const element = stack.pop();
+        const children = element.children;
+
+        indices.set(element, indices.size);
+
+        for (let i = children.length - 1; i >= 0; i--)
+        {
+            if (isRenderedElementName(children[i].nodeName))
+            {
+                stack.push(children[i]);
+            }
+        }
+    }
+
+    return indices;
+}
+
+/**
+ * Writes 32-bit words into a growing buffer.
+ *
+ * @ignore
+ */
+class BinaryWriter
+{
+    public buffer: ArrayBuffer;
+    public view: DataView;
+    public offset: number;
+
+    constructor()
+    {
+        this.buffer = new ArrayBuffer(1024);
+        this.view = new DataView(this.buffer);
+        this.offset = 0;
+    }
+
+    reserve(byteLength: number): void
+    {
+        if (this.offset + byteLength <= this.buffer.byteLength)
+        {
+            return;
+        }
+
+        const buffer = new ArrayBuffer(Math.max(this.buffer.byteLength * 2, this.offset + byteLength));
+
+        new Uint8Array(buffer).set(new Uint8Array(this.buffer, 0, this.offset));
+        this.buffer = buffer;
+        this.view = new DataView(buffer);
+    }
+
+    uint32(value: number): void
+    {
+        this.reserve(4);
+        this.view.setUint32(this.offset, value, true);
+        this.offset += 4;
+    }
+
+    int32(value: number): void
+    {
+        this.reserve(4);
+        this.view.setInt32(this.offset, value, true);
+        this.offset += 4;
+    }
+
+    float32(value: number): void
+    {
+        this.reserve(4);
+        this.view.setFloat32(this.offset, value, true);
+        this.offset += 4;
+    }
+
+    /**
+     * Writes the byte length of the UTF-8 encoded string, followed by its bytes.
+     */
+    string(value: string): void
+    {
+        const bytes = new TextEncoder().encode(value);
+
+        this.uint32(bytes.byteLength);
+        this.bytes(bytes);
+    }
+
+    /**
+     * Writes the bytes of the array, padded to a multiple of 4 bytes.
+     */
+    bytes(array: ArrayBufferView): void
+    {
+        const byteLength = (array.byteLength + 3) & ~3;
+
+        this.reserve(byteLength);
+        new Uint8Array(this.buffer, this.offset, array.byteLength)
+            .set(new Uint8Array(array.buffer, array.byteOffset, array.byteLength));
+        this.offset += byteLength;
+    }
+
+    /**
+     * Writes the elements of a typed array in little-endian order.
+     */
+    array(array: Float32Array | Uint16Array | Uint32Array): void
+    {
+        if (LITTLE_ENDIAN)
+        {
+            this.bytes(array);
+
+            return;
+        }
+
+        const byteLength = (array.byteLength + 3) & ~3;
+
+        this.reserve(byteLength);
+
+        const view = this.view;
+        const offset = this.offset;
+
+        if (array instanceof Float32Array)
+        {
+            for (let i = 0, j = array.length; i < j; i++)
+            {
+                view.setFloat32(offset + (4 * i), array[i], true);
+            }
+        }
+        else if (array instanceof Uint32Array)
+        {
+            for (let i = 0, j = array.length; i < j; i++)
+            {
+                view.setUint32(offset + (4 * i), array[i], true);
+            }
+        }
+        else
+        {
+            for (let i = 0, j = array.length; i < j; i++)
+            {
+                view.setUint16(offset + (2 * i), array[i], true);
+            }
+        }
+
+        this.offset += byteLength;
+    }
+}
+
+/**
+ * Encodes a {@link SVGAsset} into a compact binary file. Use {@link decodeSVGAsset} to load it back.
+ *
+ * The file holds the JSON description of the document and its curve scale, followed by the element, vertex & index
+ * buffers of each shape.
+ *
+ * @public
+ * @param asset - The asset to encode.
+ */
+export function encodeSVGAsset(asset: SVGAsset): ArrayBuffer
+{
+    const writer = new BinaryWriter();
+    const shapes = asset.shapes;
+
+    writer.uint32(MAGIC);
+    writer.uint32(VERSION);
+    writer.string(JSON.stringify(asset.description));
+    writer.float32(asset.curveScale);
+    writer.uint32(shapes.length);
+
+    for (let i = 0, j = shapes.length; i < j; i++)
+    {
+        const { element, name, id, geometry } = shapes[i];
+        const { bounds, points, uvs, indices, batches } = geometry;
+
+        writer.uint32(element);
+        writer.string(name);
+        writer.string(id);
+
+        for (let k = 0; k < 4; k++)
+        {
+            writer.float32(bounds[k]);
+        }
+
+        writer.uint32(points.length);
+        writer.array(points);
+        writer.array(uvs);
+        writer.uint32(indices.length);
+        writer.uint32(indices.BYTES_PER_ELEMENT);
+        writer.array(indices);
+        writer.uint32(batches.length);
+
+        for (let k = 0, l = batches.length; k < l; k++)
+        {
+            const batch = batches[k];
+
+            writer.uint32((batch.line ? 1 : 0) | (batch.native ? 2 : 0));
+            writer.uint32(batch.color);
+            writer.float32(batch.alpha);
+            writer.int32(batch.texture);
+            writer.uint32(batch.start);
+            writer.uint32(batch.size);
+            writer.uint32(batch.attribStart);
+            writer.uint32(batch.attribSize);
+        }
+    }
+
+    return writer.buffer.slice(0, writer.offset);
+}
+
+/**
+ * Decodes a {@link SVGAsset} encoded by {@link encodeSVGAsset}.
+ *
+ * @public
+ * @param buffer - The encoded asset.
+ * @throws If the buffer is not an encoded asset, or its version is not supported.
+ */
+export function decodeSVGAsset(buffer: ArrayBuffer): SVGAsset
+{
+    const view = new DataView(buffer);
+    let offset = 0;
+
+    const uint32 = (): number =>
+    {
+        const value = view.getUint32(offset, true);
+
+        offset += 4;
+
+        return value;
+    };
+    const int32 = (): number =>
+    {
+        const value = view.getInt32(offset, true);
+
+        offset += 4;
+
+        return value;
+    };
+    const float32 = (): number =>
+    {
+        const value = view.getFloat32(offset, true);
+
+        offset += 4;
+
+        return value;
+    };
+    const string = (): string =>
+    {
+        const byteLength = uint32();
+        const value = new TextDecoder().decode(new Uint8Array(buffer, offset, byteLength));
+
+        offset += (byteLength + 3) & ~3;
+
+        return value;
+    };
+    const array = <T extends Float32Array | Uint16Array | Uint32Array>(
+        ArrayType: { new(length: number): T, new(buffer: ArrayBuffer): T, BYTES_PER_ELEMENT: number },
+        length: number,
+    ): T =>
+    {
+        const byteLength = length * ArrayType.BYTES_PER_ELEMENT;
+        let result: T;
+
+        if (LITTLE_ENDIAN)
+        {
+            result = new ArrayType(buffer.slice(offset, offset + byteLength));
+        }
+        else
+        {
+            result = new ArrayType(length);
+
+            for (let i = 0; i < length; i++)
+            {
+                const byteOffset = offset + (i * ArrayType.BYTES_PER_ELEMENT);
+
+                /* eslint-disable no-nested-ternary */
+                result[i] = ArrayType.BYTES_PER_ELEMENT === 2
+                    ? view.getUint16(byteOffset, true)
+                    : (result instanceof Float32Array
+                        ? view.getFloat32(byteOffset, true)
+                        : view.getUint32(byteOffset, true));
+                /* eslint-enable no-nested-ternary */
+            }
+        }
+
+        offset += (byteLength + 3) & ~3;
+
+        return result;
+    };
+
+    if (buffer.byteLength < 8 || uint32() !== MAGIC)
+    {
+        throw new Error('[PIXI.SVG] The buffer is not a SVG asset');
+    }
+
+    const version = uint32();
+
+    if (version !== VERSION)
+    {
+        throw new Error(`[PIXI.SVG] Unsupported version of the SVG asset: ${version}`);
+    }
+
+    const description = JSON.parse(string());
+    const curveScale = float32();
+    const shapes: SVGBakedShape[] = new Array(uint32());
+
+    for (let i = 0; i < shapes.length; i++)
+    {
+        const element = uint32();
+        const name = string();
+        const id = string();
+        const bounds: [number, number, number, number] = [float32(), float32(), float32(), float32()];
+        const pointCount = uint32();
+        const points = array(Float32Array, pointCount);
+        const uvs = array(Float32Array, pointCount);
+        const indexCount = uint32();
+        const indices = uint32() === 4 ? array(Uint32Array, indexCount) : array(Uint16Array, indexCount);
+        const batches: SVGBakedBatch[] = new Array(uint32());
+
+        for (let k = 0; k < batches.length; k++)
+        {
+            const flags = uint32();
+
+            batches[k] = {
+                line: (flags & 1) !== 0,
+                native: (flags & 2) !== 0,
+                color: uint32(),
+                alpha: float32(),
+                texture: int32(),
+                start: uint32(),
+                size: uint32(),
+                attribStart: uint32(),
+                attribSize: uint32(),
+            };
+        }
+
+        shapes[i] = { element, name, id, geometry: { bounds, points, uvs, indices, batches } };
+    }
+
+    return { description, curveScale, shapes };
+}
@@ -0,0 +1,33 @@
+/**
+ * An element of a {@link SVGSceneDescription}. It only holds plain data, so that it can be serialized into JSON or
+ * posted across workers.
+ *
+ * @public
+ */
+export interface SVGElementDescription
+{
+    /** The qualified name of the element, e.g. `linearGradient`. */
+    name: string;
+
+    /** The attributes of the element, keyed by their qualified names, e.g. `xlink:href`. */
+    attributes: Record<string, string>;
+
+    /** The child elements & text of the element, in document order. */
+    children: Array<SVGElementDescription | string>;
+}
+
+/**
+ * A serializable description of a SVG document, from which a {@link SVGScene} can be built using
+ * {@link SVGScene.fromDescription}. It is generated by {@link parseSVGDescription}, which doesn't need a DOM and
+ * can be run in a web worker or in Node.js.
+ *
+ * @public
+ */
+export interface SVGSceneDescription
+{
+    /** The version of the description format. */
+    version: 1;
+
+    /** The root `<svg />` element. */
+    root: SVGElementDescription;
+}
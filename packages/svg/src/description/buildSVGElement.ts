@@ -0,0 +1,75 @@
+import type { SVGElementDescription, SVGSceneDescription } from './SVGSceneDescription';
+
+/**
+ * The namespaces of the attribute prefixes used in SVG documents.
+ *
+ * @ignore
+ */
+const NAMESPACES: Record<string, string> = {
+    svg: 'http://www.w3.org/2000/svg',
+    xlink: 'http://www.w3.org/1999/xlink',
+    xml: 'http://www.w3.org/XML/1998/namespace',
+    xmlns: 'http://www.w3.org/2000/xmlns/',
+};
+
+/**
+ * Creates the DOM element for an element description, along with its descendants.
+ *
+ * @ignore
+ */
+function buildElement(description: SVGElementDescription, ownerDocument: Document): SVGElement
+{
+    const element = ownerDocument.createElementNS(NAMESPACES.svg, description.name) as SVGElement;
+    const attributes = description.attributes;
+
+    for (const name in attributes)
+    {
+        const prefix = name.indexOf(':') !== -1 ? name.slice(0, name.indexOf(':')) : null;
+
+        if (name === 'xmlns')
+        {
+            continue;
+        }
+        else if (prefix && prefix in NAMESPACES)
+        {
+            element.setAttributeNS(NAMESPACES[prefix], name, attributes[name]);
+        }
+        else
+        {
+            element.setAttribute(name, attributes[name]);
+        }
+    }
+
+    const children = description.children;
+
+    for (let i = 0, j = children.length; i < j; i++)
+    {
+        const child = children[i];
+
+        element.appendChild(typeof child === 'string'
+            ? ownerDocument.createTextNode(child)
+            : buildElement(child, ownerDocument));
+    }
+
+    return element;
+}
+
+/**
+ * Creates the `SVGSVGElement` for a {@link SVGSceneDescription}, so that it can be rendered by a {@link SVGScene}.
+ *
+ * @public
+ * @param description - The description of the SVG document.
+ * @param ownerDocument - The document used to create the elements.
+ */
+export function buildSVGElement(
+    description: SVGSceneDescription,
+    ownerDocument: Document = document,
+): SVGSVGElement
+{
+    if (description.version !== 1)
+    {
+        throw new Error(`[PIXI.SVG] Unsupported version of the SVG scene description: ${description.version}`);
+    }
+
+    return buildElement(description.root, ownerDocument) as SVGSVGElement;
+}
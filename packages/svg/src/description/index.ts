@@ -0,0 +1,3 @@
+export * from './loadSVGDescription';
+export * from './parseSVGDescription';
+export * from './SVGSceneDescription';
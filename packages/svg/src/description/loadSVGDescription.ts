@@ -0,0 +1,25 @@
+import { parseSVGDescription } from './parseSVGDescription';
+
+import type { SVGSceneDescription } from './SVGSceneDescription';
+
+/**
+ * Load a SVG document and parse it into a {@link SVGSceneDescription}. Unlike {@link SVGScene.from}, this doesn't use
+ * the DOM, so it can be used in web workers. The document is fetched with the global `fetch`; where that isn't
+ * available, read the document yourself and pass its text to {@link parseSVGDescription}.
+ *
+ * @public
+ * @param href - The URL of the SVG document.
+ * @param baseURI - The URL relative to which `href` is resolved. This defaults to the base URI of the document, if
+ *  there is one.
+ * @returns The description of the SVG document.
+ */
+export async function loadSVGDescription(
+    href: string,
+    baseURI: string = typeof document !== 'undefined' ? document.baseURI : undefined,
+): Promise<SVGSceneDescription>
+{
+    const url = baseURI ? new URL(href, baseURI) : new URL(href);
+    const text = await fetch(url.toString()).then((res) => res.text());
+
+    return parseSVGDescription(text);
+}
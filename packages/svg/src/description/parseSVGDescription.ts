@@ -0,0 +1,311 @@
+import type { SVGElementDescription, SVGSceneDescription } from './SVGSceneDescription';
+
+/**
+ * The entities predefined by XML.
+ *
+ * @ignore
+ */
+const XML_ENTITIES: Record<string, string> = {
+    amp: '&',
+    apos: '\'',
+    gt: '>',
+    lt: '<',
+    quot: '"',
+};
+
+/**
+ * Elements that don't contribute to the rendering of a SVG document, which are dropped from the description.
+ *
+ * @ignore
+ */
+const NON_RENDERING_ELEMENTS = ['desc', 'metadata', 'script', 'title'];
+
+/**
+ * Elements whose text content is used. Text in other elements is dropped from the description.
+ *
+ * @ignore
+ */
+const TEXT_ELEMENTS = ['style', 'text', 'textPath', 'tspan'];
+
+/**
+ * Matches an attribute at the current position of a tag.
+ *
+ * @ignore
+ */
+const ATTRIBUTE_REGEX = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+
+/**
+ * Matches the name of an element at the start of a tag.
+ *
+ * @ignore
+ */
+const NAME_REGEX = /[^\s/>]+/y;
+
+/**
+ * Matches the entity declarations in the internal subset of a document type declaration.
+ *
+ * @ignore
+ */
+const ENTITY_DECLARATION_REGEX = /<!ENTITY\s+([^\s%]+)\s+(?:"([^"]*)"|'([^']*)')\s*>/g;
+
+/**
+ * Replaces the entity and character references in text.
+ *
+ * @ignore
+ */
+function decodeEntities(text: string, entities: Record<string, string>): string
+{
+    if (text.indexOf('&') === -1)
+    {
+        return text;
+    }
+
+    return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[^\s&;]+);/gi, (reference: string, name: string): string =>
+    {
+        if (name[0] === '#')
+        {
+            const codePoint = name[1] === 'x' || name[1] === 'X'
+                ? parseInt(name.slice(2), 16)
+                : parseInt(name.slice(1), 10);
+
+            return codePoint >= 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+        }
+
+        return name in entities ? entities[name] : reference;
+    });
+}
+
+/**
+ * Whether elements with the name are kept in descriptions. Elements that aren't rendered, like `<metadata />`, and
+ * elements of foreign namespaces, e.g. `sodipodi:namedview`, are dropped.
+ *
+ * @ignore
+ * @param name - The name of the element.
+ */
+export function isRenderedElementName(name: string): boolean
+{
+    return NON_RENDERING_ELEMENTS.indexOf(name) === -1 && name.indexOf(':') === -1;
+}
+
+/**
+ * Removes the elements & text that don't contribute to the rendering of the description, in place.
+ *
+ * @ignore
+ */
+function compact(element: SVGElementDescription, preserveText: boolean): void
+{
+    const children = element.children;
+    let length = 0;
+
+    for (let i = 0, j = children.length; i < j; i++)
+    {
+        const child = children[i];
+
+        if (typeof child === 'string')
+        {
+            if (!preserveText)
+            {
+                continue;
+            }
+        }
+        else
+        {
+            if (!isRenderedElementName(child.name))
+            {
+                continue;
+            }
+
+            compact(child, preserveText || TEXT_ELEMENTS.indexOf(child.name) !== -1);
+        }
+
+        children[length++] = child;
+    }
+
+    children.length = length;
+}
+
+/**
+ * Parses the markup of a SVG document into a {@link SVGSceneDescription}, without using the DOM. Comments,
+ * processing instructions, and elements that aren't rendered, like `<metadata />`, are dropped. Entities declared
+ * in the document type declaration are expanded.
+ *
+ * @public
+ * @param text - The markup of the SVG document.
+ * @return The description of the document.
+ * @throws If the markup is not well-formed, or its root element isn't a `<svg />` element.
+ */
+export function parseSVGDescription(text: string): SVGSceneDescription
+{
+    const entities = { ...XML_ENTITIES };
+    const document: SVGElementDescription = { name: '#document', attributes: {}, children: [] };
+    const stack = [document];
+    let i = 0;
+
+    const appendText = (content: string): void =>
+    {
+        const children = stack[stack.length - 1].children;
+        const last = children.length - 1;
+
+        if (last >= 0 && typeof children[last] === 'string')
+        {
+            children[last] += content;
+        }
+        else
+        {
+            children.push(content);
+        }
+    };
+
+    const skipPast = (terminator: string): void =>
+    {
+        const end = text.indexOf(terminator, i);
+
+        if (end === -1)
+        {
+            throw new Error(`[PIXI.SVG] Expected "${terminator}" in the SVG markup`);
+        }
+
+        i = end + terminator.length;
+    };
+
+    while (i < text.length)
+    {
+        const tagStart = text.indexOf('<', i);
+
+        if (tagStart === -1)
+        {
+            appendText(decodeEntities(text.slice(i), entities));
+            break;
+        }
+        if (tagStart > i)
+        {
+            appendText(decodeEntities(text.slice(i, tagStart), entities));
+        }
+
+        i = tagStart;
+
+        if (text.startsWith('<!--', i))
+        {
+            skipPast('-->');
+        }
+        else if (text.startsWith('<![CDATA[', i))
+        {
+            const contentStart = i + 9;
+
+            skipPast(']]>');
+            appendText(text.slice(contentStart, i - 3));
+        }
+        else if (text.startsWith('<?', i))
+        {
+            skipPast('?>');
+        }
+        else if (text.startsWith('<!', i))
+        {
+            // The document type declaration may have an internal subset, which declares entities.
+            const subsetStart = text.indexOf('[', i);
+            const declarationEnd = text.indexOf('>', i);
+
+            if (subsetStart !== -1 && subsetStart < declarationEnd)
+            {
+                i = subsetStart;
+                skipPast(']');
+
+                const subset = text.slice(subsetStart + 1, i - 1);
+                let match: RegExpExecArray;
+
+                ENTITY_DECLARATION_REGEX.lastIndex = 0;
+
+                while ((match = ENTITY_DECLARATION_REGEX.exec(subset)))
+                {
+                    entities[match[1]] = match[2] !== undefined ? match[2] : match[3];
+                }
+            }
+
+            skipPast('>');
+        }
+        else if (text.startsWith('</', i))
+        {
+            const nameStart = i + 2;
+
+            skipPast('>');
+
+            const name = text.slice(nameStart, i - 1).trim();
+            const element = stack.pop();
+
+            if (stack.length === 0 || element.name !== name)
+            {
+                throw new Error(`[PIXI.SVG] Unexpected closing tag </${name}> in the SVG markup`);
+            }
+        }
+        else
+        {
+            NAME_REGEX.lastIndex = i + 1;
+
+            const nameMatch = NAME_REGEX.exec(text);
+
+            if (!nameMatch)
+            {
+                throw new Error(`[PIXI.SVG] Invalid tag at offset ${i} in the SVG markup`);
+            }
+
+            const element: SVGElementDescription = { name: nameMatch[0], attributes: {}, children: [] };
+
+            i = NAME_REGEX.lastIndex;
+
+            for (;;)
+            {
+                while (i < text.length && (/\s/).test(text[i]))
+                {
+                    i++;
+                }
+
+                if (text.startsWith('/>', i))
+                {
+                    i += 2;
+                    stack[stack.length - 1].children.push(element);
+                    break;
+                }
+                if (text[i] === '>')
+                {
+                    i += 1;
+                    stack[stack.length - 1].children.push(element);
+                    stack.push(element);
+                    break;
+                }
+
+                ATTRIBUTE_REGEX.lastIndex = i;
+
+                const attributeMatch = ATTRIBUTE_REGEX.exec(text);
+
+                if (!attributeMatch)
+                {
+                    throw new Error(`[PIXI.SVG] Invalid attribute in <${element.name}> in the SVG markup`);
+                }
+
+                const value = attributeMatch[2] !== undefined ? attributeMatch[2] : attributeMatch[3];
+
+                element.attributes[attributeMatch[1]] = decodeEntities(value, entities);
+                i = ATTRIBUTE_REGEX.lastIndex;
+            }
+        }
+    }
+
+    if (stack.length > 1)
+    {
+        throw new Error(`[PIXI.SVG] Unclosed element <${stack[stack.length - 1].name}> in the SVG markup`);
+    }
+
+    const root = document.children.find((child) => typeof child !== 'string') as SVGElementDescription;
+
+    if (!root || root.name !== 'svg')
+    {
+        throw new Error('[PIXI.SVG] The root element of the SVG markup must be <svg>');
+    }
+
+    compact(root, false);
+
+    return {
+        version: 1,
+        root,
+    };
+}
@@ -0,0 +1,80 @@
+import { Filter } from '@pixi/core';
+import { FilterPrimitive } from './FilterPrimitive';
+import blendSrc from './blend.frag';
+
+import type { CLEAR_MODES } from '@pixi/constants';
+import type { FilterSystem, RenderTexture } from '@pixi/core';
+import type { FilterPrimitiveContext } from './FilterPrimitive';
+
+/**
+ * Maps the supported blend modes to the constants used in the shader. Other modes are treated as `normal`.
+ *
+ * @ignore
+ */
+const BLEND_MODES: Record<string, number> = {
+    normal: 0,
+    multiply: 1,
+    screen: 2,
+    darken: 3,
+    lighten: 4,
+};
+
+/**
+ * Renders `<feBlend />`, which blends its `in` input on top of its `in2` input.
+ *
+ * @public
+ */
+export class BlendPrimitive extends FilterPrimitive
+{
+    /**
+     * The blend mode, i.e. `normal`, `multiply`, `screen`, `darken`, or `lighten`.
+     */
+    public mode: string;
+
+    /**
+     * The filter used to blend the inputs.
+     */
+    protected blendFilter: Filter;
+
+    /**
+     * @param element - The `<feBlend />` element.
+     */
+    constructor(element: SVGFEBlendElement)
+    {
+        super(element, [element.getAttribute('in') || '', element.getAttribute('in2') || '']);
+
+        this.mode = element.getAttribute('mode') || 'normal';
+        this.blendFilter = new Filter(undefined, blendSrc, {
+            uBackdrop: null,
+            uMode: BLEND_MODES[this.mode] || 0,
+        });
+    }
+
+    /**
+     * @override
+     */
+    apply(
+        filterManager: FilterSystem,
+        inputs: RenderTexture[],
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        _context: FilterPrimitiveContext,
+    ): void
+    {
+        this.blendFilter.uniforms.uBackdrop = inputs[1];
+
+        filterManager.applyFilter(this.blendFilter, inputs[0], output, clearMode);
+
+        this.blendFilter.uniforms.uBackdrop = null;
+    }
+
+    /**
+     * @override
+     */
+    destroy(): void
+    {
+        this.blendFilter.destroy();
+        this.blendFilter = null;
+    }
+}
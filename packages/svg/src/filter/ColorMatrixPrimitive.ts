@@ -0,0 +1,130 @@
+import { ColorMatrixFilter } from '@pixi/filter-color-matrix';
+import { FilterPrimitive } from './FilterPrimitive';
+
+import type { CLEAR_MODES } from '@pixi/constants';
+import type { ColorMatrix } from '@pixi/filter-color-matrix';
+import type { FilterSystem, RenderTexture } from '@pixi/core';
+import type { FilterPrimitiveContext } from './FilterPrimitive';
+
+/**
+ * The identity color matrix.
+ *
+ * @ignore
+ */
+const IDENTITY: ColorMatrix = [
+    1, 0, 0, 0, 0,
+    0, 1, 0, 0, 0,
+    0, 0, 1, 0, 0,
+    0, 0, 0, 1, 0,
+];
+
+/**
+ * Calculates the color matrix of `<feColorMatrix />`.
+ *
+ * @ignore
+ * @param element - The `<feColorMatrix />` element.
+ * @see https://www.w3.org/TR/filter-effects-1/#feColorMatrixElement
+ */
+function createColorMatrix(element: SVGFEColorMatrixElement): ColorMatrix
+{
+    const valueList = element.values.baseVal;
+    const values: number[] = [];
+
+    for (let i = 0, j = valueList.numberOfItems; i < j; i++)
+    {
+        values.push(valueList.getItem(i).value);
+    }
+
+    switch (element.type.baseVal)
+    {
+        case SVGFEColorMatrixElement.SVG_FECOLORMATRIX_TYPE_SATURATE: {
+            const s = values.length > 0 ? values[0] : 1;
+
+            return [
+                0.213 + (0.787 * s), 0.715 - (0.715 * s), 0.072 - (0.072 * s), 0, 0,
+                0.213 - (0.213 * s), 0.715 + (0.285 * s), 0.072 - (0.072 * s), 0, 0,
+                0.213 - (0.213 * s), 0.715 - (0.715 * s), 0.072 + (0.928 * s), 0, 0,
+                0, 0, 0, 1, 0,
+            ];
+        }
+        case SVGFEColorMatrixElement.SVG_FECOLORMATRIX_TYPE_HUEROTATE: {
+            const angle = (values.length > 0 ? values[0] : 0) * Math.PI / 180;
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+
+            return [
+                0.213 + (cos * 0.787) - (sin * 0.213),
+                0.715 - (cos * 0.715) - (sin * 0.715),
+                0.072 - (cos * 0.072) + (sin * 0.928),
+                0, 0,
+                0.213 - (cos * 0.213) + (sin * 0.143),
+                0.715 + (cos * 0.285) + (sin * 0.140),
+                0.072 - (cos * 0.072) - (sin * 0.283),
+                0, 0,
+                0.213 - (cos * 0.213) - (sin * 0.787),
+                0.715 - (cos * 0.715) + (sin * 0.715),
+                0.072 + (cos * 0.928) + (sin * 0.072),
+                0, 0,
+                0, 0, 0, 1, 0,
+            ];
+        }
+        case SVGFEColorMatrixElement.SVG_FECOLORMATRIX_TYPE_LUMINANCETOALPHA:
+            return [
+                0, 0, 0, 0, 0,
+                0, 0, 0, 0, 0,
+                0, 0, 0, 0, 0,
+                0.2125, 0.7154, 0.0721, 0, 0,
+            ];
+        default:
+            // An invalid matrix is treated as the identity.
+            return values.length === 20 ? values as ColorMatrix : IDENTITY.slice() as ColorMatrix;
+    }
+}
+
+/**
+ * Renders `<feColorMatrix />` using a {@link ColorMatrixFilter}. The offsets of the matrix are in the range [0, 1].
+ *
+ * @public
+ */
+export class ColorMatrixPrimitive extends FilterPrimitive
+{
+    /**
+     * The filter used to transform the colors of the input.
+     */
+    protected colorMatrixFilter: ColorMatrixFilter;
+
+    /**
+     * @param element - The `<feColorMatrix />` element.
+     */
+    constructor(element: SVGFEColorMatrixElement)
+    {
+        super(element);
+
+        this.colorMatrixFilter = new ColorMatrixFilter();
+        this.colorMatrixFilter.matrix = createColorMatrix(element);
+    }
+
+    /**
+     * @override
+     */
+    apply(
+        filterManager: FilterSystem,
+        inputs: RenderTexture[],
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        _context: FilterPrimitiveContext,
+    ): void
+    {
+        filterManager.applyFilter(this.colorMatrixFilter, inputs[0], output, clearMode);
+    }
+
+    /**
+     * @override
+     */
+    destroy(): void
+    {
+        this.colorMatrixFilter.destroy();
+        this.colorMatrixFilter = null;
+    }
+}
@@ -0,0 +1,102 @@
+import { Filter } from '@pixi/core';
+
+import type { CLEAR_MODES } from '@pixi/constants';
+import type { FilterSystem, RenderTexture } from '@pixi/core';
+import type { Matrix } from '@pixi/math';
+
+/**
+ * Copies its input into the output.
+ *
+ * @ignore
+ */
+const copyFilter = new Filter();
+
+/**
+ * The state of a {@link SVGFilter} that is shared with its primitives while it is applied.
+ *
+ * @public
+ */
+export interface FilterPrimitiveContext
+{
+    /**
+     * Transforms vectors in the primitive units of the filter into pixels of the filter's textures. This is used to
+     * resolve lengths like the standard deviation of a blur.
+     */
+    primitiveTransform: Matrix;
+}
+
+/**
+ * A `FilterPrimitive` renders the effect of a filter primitive element, e.g. `<feOffset />`. Its inputs are
+ * the results of other primitives, or the source graphic.
+ *
+ * This base class is used for primitives that aren't supported, and passes through its (first) input. Primitive
+ * subregions, i.e. the `x`, `y`, `width`, and `height` attributes, are not supported and a warning is logged if they
+ * are specified.
+ *
+ * @public
+ */
+export class FilterPrimitive
+{
+    /**
+     * The filter primitive element.
+     */
+    public element: SVGElement;
+
+    /**
+     * The names of the inputs of this primitive, i.e. the `in` & `in2` attributes. An empty name refers to the
+     * result of the previous primitive.
+     */
+    public inputs: string[];
+
+    /**
+     * The name of the result of this primitive, which can be referenced by the following primitives.
+     */
+    public result: string;
+
+    /**
+     * @param element - The filter primitive element.
+     * @param inputs - The names of the inputs, which default to the `in` attribute.
+     */
+    constructor(element: SVGElement, inputs: string[] = [element.getAttribute('in') || ''])
+    {
+        this.element = element;
+        this.inputs = inputs;
+        this.result = element.getAttribute('result') || '';
+
+        // The results of primitives always cover the entire filter region.
+        if (element.hasAttribute('x') || element.hasAttribute('y')
+            || element.hasAttribute('width') || element.hasAttribute('height'))
+        {
+            console.warn('[PIXI.SVG] Filter primitive subregions are not supported and were ignored:', element);
+        }
+    }
+
+    /**
+     * Renders the result of this primitive into the output.
+     *
+     * @param filterManager - The filter system being used to apply the filter.
+     * @param inputs - The textures holding the inputs, in the same order as {@link FilterPrimitive.inputs}.
+     * @param output - The texture into which the result is rendered.
+     * @param clearMode - Whether the output should be cleared or blended into.
+     * @param context - The state of the filter.
+     */
+    apply(
+        filterManager: FilterSystem,
+        inputs: RenderTexture[],
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        _context: FilterPrimitiveContext,
+    ): void
+    {
+        filterManager.applyFilter(copyFilter, inputs[0], output, clearMode);
+    }
+
+    /**
+     * Releases the resources held by this primitive. The pass-through primitive holds none.
+     */
+    destroy(): void
+    {
+        // Nothing to release.
+    }
+}
@@ -0,0 +1,133 @@
+import { CLEAR_MODES } from '@pixi/constants';
+import { Filter } from '@pixi/core';
+import { FilterPrimitive } from './FilterPrimitive';
+import gaussianBlurSrc from './gaussian-blur.frag';
+
+import type { FilterSystem, RenderTexture } from '@pixi/core';
+import type { FilterPrimitiveContext } from './FilterPrimitive';
+
+/**
+ * The number of taps on each side of the blur kernel. This must match the shader.
+ *
+ * @ignore
+ */
+const MAX_RADIUS = 32;
+
+/**
+ * Renders `<feGaussianBlur />` with a separable kernel. Large blurs are approximated by spacing out the taps
+ * of the kernel.
+ *
+ * @public
+ */
+export class GaussianBlurPrimitive extends FilterPrimitive
+{
+    /**
+     * The standard deviation of the blur along the x-axis, in primitive units.
+     */
+    public stdDeviationX: number;
+
+    /**
+     * The standard deviation of the blur along the y-axis, in primitive units.
+     */
+    public stdDeviationY: number;
+
+    /**
+     * The filter used to render each blur pass.
+     */
+    protected blurFilter: Filter;
+
+    /**
+     * @param element - The `<feGaussianBlur />` element.
+     */
+    constructor(element: SVGFEGaussianBlurElement)
+    {
+        super(element);
+
+        this.stdDeviationX = element.stdDeviationX.baseVal;
+        this.stdDeviationY = element.stdDeviationY.baseVal;
+        this.blurFilter = new Filter(undefined, gaussianBlurSrc, {
+            uDelta: new Float32Array(2),
+            uSigma: 1,
+        });
+    }
+
+    /**
+     * @override
+     */
+    apply(
+        filterManager: FilterSystem,
+        inputs: RenderTexture[],
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        context: FilterPrimitiveContext,
+    ): void
+    {
+        const { a, b, c, d } = context.primitiveTransform;
+
+        // The standard deviations in pixels
+        const sigmaX = this.stdDeviationX * Math.sqrt((a * a) + (b * b));
+        const sigmaY = this.stdDeviationY * Math.sqrt((c * c) + (d * d));
+
+        if (sigmaX > 0 && sigmaY > 0)
+        {
+            const pass = filterManager.getFilterTexture(inputs[0]);
+
+            this.blur(filterManager, inputs[0], pass, CLEAR_MODES.CLEAR, sigmaX, true);
+            this.blur(filterManager, pass, output, clearMode, sigmaY, false);
+
+            filterManager.returnFilterTexture(pass);
+        }
+        else if (sigmaX > 0)
+        {
+            this.blur(filterManager, inputs[0], output, clearMode, sigmaX, true);
+        }
+        else if (sigmaY > 0)
+        {
+            this.blur(filterManager, inputs[0], output, clearMode, sigmaY, false);
+        }
+        else
+        {
+            // A standard deviation of zero disables the blur.
+            super.apply(filterManager, inputs, output, clearMode, context);
+        }
+    }
+
+    /**
+     * Renders one pass of the blur.
+     *
+     * @param filterManager - The filter system.
+     * @param input - The texture to blur.
+     * @param output - The texture to render into.
+     * @param clearMode - Whether the output should be cleared or blended into.
+     * @param sigma - The standard deviation of the blur, in pixels.
+     * @param horizontal - Whether the blur is along the x-axis.
+     */
+    protected blur(
+        filterManager: FilterSystem,
+        input: RenderTexture,
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        sigma: number,
+        horizontal: boolean,
+    ): void
+    {
+        // The kernel should extend to three standard deviations.
+        const spacing = Math.max(1, 3 * sigma / MAX_RADIUS);
+        const uniforms = this.blurFilter.uniforms;
+
+        uniforms.uDelta[0] = horizontal ? spacing : 0;
+        uniforms.uDelta[1] = horizontal ? 0 : spacing;
+        uniforms.uSigma = sigma / spacing;
+
+        filterManager.applyFilter(this.blurFilter, input, output, clearMode);
+    }
+
+    /**
+     * @override
+     */
+    destroy(): void
+    {
+        this.blurFilter.destroy();
+        this.blurFilter = null;
+    }
+}
@@ -0,0 +1,59 @@
+import { CLEAR_MODES } from '@pixi/constants';
+import { FilterPrimitive } from './FilterPrimitive';
+
+import type { FilterSystem, RenderTexture } from '@pixi/core';
+import type { FilterPrimitiveContext } from './FilterPrimitive';
+
+/**
+ * Renders `<feMerge />`, which composites the inputs of its `<feMergeNode />` children on top of each other.
+ *
+ * @public
+ */
+export class MergePrimitive extends FilterPrimitive
+{
+    /**
+     * @param element - The `<feMerge />` element.
+     */
+    constructor(element: SVGFEMergeElement)
+    {
+        const inputs: string[] = [];
+
+        for (let i = 0, j = element.children.length; i < j; i++)
+        {
+            const child = element.children[i];
+
+            if (child instanceof SVGFEMergeNodeElement)
+            {
+                inputs.push(child.getAttribute('in') || '');
+            }
+        }
+
+        super(element, inputs);
+    }
+
+    /**
+     * @override
+     */
+    apply(
+        filterManager: FilterSystem,
+        inputs: RenderTexture[],
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        context: FilterPrimitiveContext,
+    ): void
+    {
+        if (inputs.length === 0)
+        {
+            // The result of an empty merge is transparent.
+            filterManager.bindAndClear(output, clearMode);
+
+            return;
+        }
+
+        for (let i = 0, j = inputs.length; i < j; i++)
+        {
+            // The first input clears the output, and the rest are blended on top of it.
+            super.apply(filterManager, [inputs[i]], output, i === 0 ? clearMode : CLEAR_MODES.BLEND, context);
+        }
+    }
+}
@@ -0,0 +1,74 @@
+import { Filter } from '@pixi/core';
+import { FilterPrimitive } from './FilterPrimitive';
+import offsetSrc from './offset.frag';
+
+import type { CLEAR_MODES } from '@pixi/constants';
+import type { FilterSystem, RenderTexture } from '@pixi/core';
+import type { FilterPrimitiveContext } from './FilterPrimitive';
+
+/**
+ * Renders `<feOffset />` by translating its input.
+ *
+ * @public
+ */
+export class OffsetPrimitive extends FilterPrimitive
+{
+    /**
+     * The translation along the x-axis, in primitive units.
+     */
+    public dx: number;
+
+    /**
+     * The translation along the y-axis, in primitive units.
+     */
+    public dy: number;
+
+    /**
+     * The filter used to render the translated input.
+     */
+    protected offsetFilter: Filter;
+
+    /**
+     * @param element - The `<feOffset />` element.
+     */
+    constructor(element: SVGFEOffsetElement)
+    {
+        super(element);
+
+        this.dx = element.dx.baseVal;
+        this.dy = element.dy.baseVal;
+        this.offsetFilter = new Filter(undefined, offsetSrc, {
+            uOffset: new Float32Array(2),
+        });
+    }
+
+    /**
+     * @override
+     */
+    apply(
+        filterManager: FilterSystem,
+        inputs: RenderTexture[],
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        context: FilterPrimitiveContext,
+    ): void
+    {
+        const { a, b, c, d } = context.primitiveTransform;
+        const { dx, dy } = this;
+        const uOffset = this.offsetFilter.uniforms.uOffset;
+
+        uOffset[0] = (a * dx) + (c * dy);
+        uOffset[1] = (b * dx) + (d * dy);
+
+        filterManager.applyFilter(this.offsetFilter, inputs[0], output, clearMode);
+    }
+
+    /**
+     * @override
+     */
+    destroy(): void
+    {
+        this.offsetFilter.destroy();
+        this.offsetFilter = null;
+    }
+}
@@ -0,0 +1,309 @@
+import { BlendPrimitive } from './BlendPrimitive';
+import { CLEAR_MODES } from '@pixi/constants';
+import { ColorMatrixFilter } from '@pixi/filter-color-matrix';
+import { ColorMatrixPrimitive } from './ColorMatrixPrimitive';
+import { Filter } from '@pixi/core';
+import { FilterPrimitive } from './FilterPrimitive';
+import { GaussianBlurPrimitive } from './GaussianBlurPrimitive';
+import { Matrix, Point, Rectangle } from '@pixi/math';
+import { MergePrimitive } from './MergePrimitive';
+import { OffsetPrimitive } from './OffsetPrimitive';
+import { resolveUnitLength } from '../utils/resolveUnitLength';
+
+import type { DisplayObject } from '@pixi/display';
+import type { FilterState, FilterSystem, RenderTexture } from '@pixi/core';
+import type { FilterPrimitiveContext } from './FilterPrimitive';
+
+const tempPoint = new Point();
+
+/**
+ * Extracts the alpha channel of the source graphic, i.e. the `SourceAlpha` input.
+ *
+ * @ignore
+ */
+const sourceAlphaFilter = new ColorMatrixFilter();
+
+sourceAlphaFilter.matrix = [
+    0, 0, 0, 0, 0,
+    0, 0, 0, 0, 0,
+    0, 0, 0, 0, 0,
+    0, 0, 0, 1, 0,
+];
+
+/**
+ * Creates the {@link FilterPrimitive} for a child of a `<filter />` element.
+ *
+ * @ignore
+ * @param element - The child element.
+ * @return The primitive, or `null` if the element is not a filter primitive.
+ */
+function createFilterPrimitive(element: Element): FilterPrimitive
+{
+    switch (element.nodeName.toLowerCase())
+    {
+        case 'feblend':
+            return new BlendPrimitive(element as SVGFEBlendElement);
+        case 'fecolormatrix':
+            return new ColorMatrixPrimitive(element as SVGFEColorMatrixElement);
+        case 'fegaussianblur':
+            return new GaussianBlurPrimitive(element as SVGFEGaussianBlurElement);
+        case 'femerge':
+            return new MergePrimitive(element as SVGFEMergeElement);
+        case 'feoffset':
+            return new OffsetPrimitive(element as SVGFEOffsetElement);
+        default:
+            if (element.nodeName.toLowerCase().startsWith('fe'))
+            {
+                console.warn('[PIXI.SVG] Filter primitive not supported:', element.nodeName);
+
+                return new FilterPrimitive(element as SVGElement);
+            }
+
+            return null;
+    }
+}
+
+/**
+ * A `SVGFilter` renders the effect of a `<filter />` element by chaining its primitives, in document order. The
+ * `in`, `in2`, and `result` attributes of the primitives are used to route their results; `SourceGraphic` and
+ * `SourceAlpha` are supported as the standard inputs.
+ *
+ * Supported primitives include `<feGaussianBlur />`, `<feOffset />`, `<feColorMatrix />`, `<feBlend />`, and
+ * `<feMerge />`. The other primitives pass through their input. Primitive subregions are ignored (with a warning),
+ * and colors are always interpolated in the sRGB color space.
+ *
+ * The filter region is calculated in {@link SVGFilter.resolveFilterRegion} and must be applied to the target's
+ * `filterArea` whenever its transform changes, using {@link SVGFilter.updateFilterArea}.
+ *
+ * @public
+ */
+export class SVGFilter extends Filter
+{
+    /**
+     * The `<filter />` element.
+     */
+    public filterElement: SVGFilterElement;
+
+    /**
+     * The primitives of the filter, in the order they are applied.
+     */
+    public primitives: FilterPrimitive[];
+
+    /**
+     * The filter region, in the local space of the element the filter is applied on.
+     */
+    public filterRegion: Rectangle;
+
+    /**
+     * The transform from primitive units into the local space of the element the filter is applied on.
+     */
+    protected primitiveUnitTransform: Matrix;
+
+    /**
+     * The state shared with the primitives while the filter is applied.
+     */
+    protected context: FilterPrimitiveContext;
+
+    /**
+     * The named results of the primitives, while the filter is applied.
+     */
+    private results: Map<string, RenderTexture>;
+
+    /**
+     * @param filterElement - The `<filter />` element.
+     */
+    constructor(filterElement: SVGFilterElement)
+    {
+        super();
+
+        this.filterElement = filterElement;
+        this.primitives = [];
+        this.filterRegion = new Rectangle();
+        this.primitiveUnitTransform = new Matrix();
+        this.context = {
+            primitiveTransform: new Matrix(),
+        };
+        this.results = new Map();
+
+        for (let i = 0, j = filterElement.children.length; i < j; i++)
+        {
+            const primitive = createFilterPrimitive(filterElement.children[i]);
+
+            if (primitive)
+            {
+                this.primitives.push(primitive);
+            }
+        }
+    }
+
+    /**
+     * Calculates the filter region & primitive units, given the bounding box of the element the filter is
+     * applied on.
+     *
+     * @param bbox - The bounding box of the element applying the filter.
+     */
+    public resolveFilterRegion(bbox: Rectangle): void
+    {
+        const filterElement = this.filterElement;
+        const filterRegion = this.filterRegion;
+        const bboxUnits = filterElement.filterUnits.baseVal !== SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE;
+
+        filterRegion.x = resolveUnitLength(filterElement.x, bboxUnits, bbox.width) + (bboxUnits ? bbox.x : 0);
+        filterRegion.y = resolveUnitLength(filterElement.y, bboxUnits, bbox.height) + (bboxUnits ? bbox.y : 0);
+        filterRegion.width = resolveUnitLength(filterElement.width, bboxUnits, bbox.width);
+        filterRegion.height = resolveUnitLength(filterElement.height, bboxUnits, bbox.height);
+
+        if (filterElement.primitiveUnits.baseVal === SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX)
+        {
+            this.primitiveUnitTransform.set(bbox.width, 0, 0, bbox.height, bbox.x, bbox.y);
+        }
+        else
+        {
+            this.primitiveUnitTransform.identity();
+        }
+    }
+
+    /**
+     * Sets the `filterArea` of the target to the filter region, in world space.
+     *
+     * @param target - The display object the filter is applied on.
+     */
+    public updateFilterArea(target: DisplayObject): void
+    {
+        const { x, y, width, height } = this.filterRegion;
+        const worldTransform = target.worldTransform;
+        const filterArea = target.filterArea || new Rectangle();
+
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+
+        for (let i = 0; i < 4; i++)
+        {
+            worldTransform.apply(tempPoint.set(
+                i % 2 === 0 ? x : x + width,
+                i < 2 ? y : y + height,
+            ), tempPoint);
+
+            minX = Math.min(minX, tempPoint.x);
+            minY = Math.min(minY, tempPoint.y);
+            maxX = Math.max(maxX, tempPoint.x);
+            maxY = Math.max(maxY, tempPoint.y);
+        }
+
+        filterArea.x = minX;
+        filterArea.y = minY;
+        filterArea.width = maxX - minX;
+        filterArea.height = maxY - minY;
+
+        target.filterArea = filterArea;
+    }
+
+    /**
+     * Applies the primitives of the filter. The last primitive renders into the output.
+     *
+     * @override
+     */
+    apply(
+        filterManager: FilterSystem,
+        input: RenderTexture,
+        output: RenderTexture,
+        clearMode: CLEAR_MODES,
+        currentState: FilterState,
+    ): void
+    {
+        const primitives = this.primitives;
+        const results = this.results;
+        const context = this.context;
+        const resolution = input.baseTexture.resolution;
+
+        // An empty filter disables the rendering of the element.
+        if (primitives.length === 0)
+        {
+            filterManager.bindAndClear(output, clearMode);
+
+            return;
+        }
+
+        // Primitive units -> local space -> world space -> pixels
+        context.primitiveTransform
+            .copyFrom(this.primitiveUnitTransform)
+            .prepend((currentState.target as DisplayObject).worldTransform)
+            .scale(resolution, resolution);
+
+        const filterTextures: RenderTexture[] = [];
+        let previousResult = input;
+        let sourceAlpha: RenderTexture = null;
+
+        const resolveInput = (name: string): RenderTexture =>
+        {
+            switch (name)
+            {
+                case 'SourceGraphic':
+                    return input;
+                case 'SourceAlpha':
+                    if (!sourceAlpha)
+                    {
+                        sourceAlpha = filterManager.getFilterTexture(input);
+                        filterManager.applyFilter(sourceAlphaFilter, input, sourceAlpha, CLEAR_MODES.CLEAR);
+                        filterTextures.push(sourceAlpha);
+                    }
+
+                    return sourceAlpha;
+                default:
+                    // Unknown references fall back to the previous result.
+                    return results.get(name) || previousResult;
+            }
+        };
+
+        for (let i = 0, j = primitives.length; i < j; i++)
+        {
+            const primitive = primitives[i];
+            const inputs = primitive.inputs.map(resolveInput);
+
+            if (i === j - 1)
+            {
+                primitive.apply(filterManager, inputs, output, clearMode, context);
+                break;
+            }
+
+            const result = filterManager.getFilterTexture(input);
+
+            primitive.apply(filterManager, inputs, result, CLEAR_MODES.CLEAR, context);
+            filterTextures.push(result);
+
+            if (primitive.result)
+            {
+                results.set(primitive.result, result);
+            }
+
+            previousResult = result;
+        }
+
+        for (let i = 0, j = filterTextures.length; i < j; i++)
+        {
+            filterManager.returnFilterTexture(filterTextures[i]);
+        }
+
+        results.clear();
+    }
+
+    /**
+     * Destroys the primitives of this filter along with it.
+     *
+     * @override
+     */
+    destroy(): void
+    {
+        super.destroy();
+
+        for (let i = 0, j = this.primitives.length; i < j; i++)
+        {
+            this.primitives[i].destroy();
+        }
+
+        this.primitives.length = 0;
+        this.results.clear();
+    }
+}
@@ -0,0 +1,42 @@
+varying vec2 vTextureCoord;
+
+// The "in" input, which is blended on top of the "in2" input
+uniform sampler2D uSampler;
+uniform sampler2D uBackdrop;
+uniform int uMode;
+
+#define BLEND_MODE_NORMAL 0
+#define BLEND_MODE_MULTIPLY 1
+#define BLEND_MODE_SCREEN 2
+#define BLEND_MODE_DARKEN 3
+#define BLEND_MODE_LIGHTEN 4
+
+void main(void)
+{
+    // The colors are premultiplied.
+    vec4 a = texture2D(uSampler, vTextureCoord);
+    vec4 b = texture2D(uBackdrop, vTextureCoord);
+
+    vec3 aOverB = (1.0 - a.a) * b.rgb + a.rgb;
+    vec3 bOverA = (1.0 - b.a) * a.rgb + b.rgb;
+    vec3 color = aOverB;
+
+    if (uMode == BLEND_MODE_MULTIPLY)
+    {
+        color = (1.0 - a.a) * b.rgb + (1.0 - b.a) * a.rgb + a.rgb * b.rgb;
+    }
+    else if (uMode == BLEND_MODE_SCREEN)
+    {
+        color = a.rgb + b.rgb - a.rgb * b.rgb;
+    }
+    else if (uMode == BLEND_MODE_DARKEN)
+    {
+        color = min(aOverB, bOverA);
+    }
+    else if (uMode == BLEND_MODE_LIGHTEN)
+    {
+        color = max(aOverB, bOverA);
+    }
+
+    gl_FragColor = vec4(color, 1.0 - (1.0 - a.a) * (1.0 - b.a));
+}
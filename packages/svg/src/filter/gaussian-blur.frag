@@ -0,0 +1,42 @@
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSampler;
+uniform vec4 inputPixel;
+uniform vec4 inputClamp;
+
+// The distance between adjacent taps, in pixels
+uniform vec2 uDelta;
+
+// The standard deviation of the kernel, in taps
+uniform float uSigma;
+
+const int MAX_RADIUS = 32;
+
+// Pixels outside of the filter region are transparent black.
+vec4 sampleInput(vec2 coord)
+{
+    if (any(lessThan(coord, inputClamp.xy)) || any(greaterThan(coord, inputClamp.zw)))
+    {
+        return vec4(0.0);
+    }
+
+    return texture2D(uSampler, coord);
+}
+
+void main(void)
+{
+    vec4 color = vec4(0.0);
+    float weightSum = 0.0;
+    float variance = uSigma * uSigma;
+
+    for (int i = -MAX_RADIUS; i <= MAX_RADIUS; i++)
+    {
+        float x = float(i);
+        float weight = exp(-0.5 * x * x / variance);
+
+        color += weight * sampleInput(vTextureCoord + x * uDelta * inputPixel.zw);
+        weightSum += weight;
+    }
+
+    gl_FragColor = color / weightSum;
+}
@@ -0,0 +1,22 @@
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSampler;
+uniform vec4 inputPixel;
+uniform vec4 inputClamp;
+
+// The offset of the input, in pixels
+uniform vec2 uOffset;
+
+void main(void)
+{
+    vec2 coord = vTextureCoord - uOffset * inputPixel.zw;
+
+    // Pixels outside of the filter region are transparent black.
+    if (any(lessThan(coord, inputClamp.xy)) || any(greaterThan(coord, inputClamp.zw)))
+    {
+        gl_FragColor = vec4(0.0);
+        return;
+    }
+
+    gl_FragColor = texture2D(uSampler, coord);
+}
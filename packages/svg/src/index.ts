@@ -1,22 +1,50 @@
 export { getLoaderCache } from './loader';
 
+export * from './asset/SVGAsset';
+
+export * from './description/buildSVGElement';
+export * from './description/loadSVGDescription';
+export * from './description/parseSVGDescription';
+export * from './description/SVGSceneDescription';
+
+export * from './filter/BlendPrimitive';
+export * from './filter/ColorMatrixPrimitive';
+export * from './filter/FilterPrimitive';
+export * from './filter/GaussianBlurPrimitive';
+export * from './filter/MergePrimitive';
+export * from './filter/OffsetPrimitive';
+export * from './filter/SVGFilter';
+
+export * from './marker/computeMarkerVertices';
+export * from './marker/MarkerInstances';
+
 export * from './paint/InheritedPaintProvider';
 export * from './paint/Paint';
 export * from './paint/PaintProvider';
 export * from './paint/PaintServer';
 
+export * from './style/parseStyleSheet';
+export * from './style/StyleResolver';
+
+export * from './text/computeSignedDistanceField';
+export * from './text/layoutText';
+export * from './text/SDFGlyphAtlas';
+
+export * from './utils/computeViewBoxTransform';
 export * from './utils/Path';
 
-export * from './SVGGraphicsGeometry';
+export { SVGGraphicsGeometry } from './SVGGraphicsGeometry';
 export * from './SVGGraphicsNode';
 export * from './SVGImageNode';
 export * from './SVGPathNode';
 export * from './SVGScene';
 export * from './SVGSceneContext';
+export * from './SVGSDFTextEngine';
 export * from './SVGUseNode';
 export * from './SVGTextEngine';
 export * from './SVGTextEngineImpl';
 export * from './SVGTextNode';
 export * from './SVGUseNode';
 
+export * from './mask/ClipMask';
 export * from './mask/MaskServer';
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { Container } from '@pixi/display';
+
+import type { Matrix } from '@pixi/math';
+import type { Renderer } from '@pixi/core';
+
+/**
+ * A `MarkerInstances` node renders the content of a marker at each vertex it is placed on. The content is built
+ * only once, and is rendered with the transform of each instance in turn.
+ *
+ * The content is not a child of this node, so that it isn't culled by the bounds of a single instance. Instead, the
+ * bounds of this node include every instance.
+ *
+ * @public
+ */
+export class MarkerInstances extends Container
+{
+    /**
+     * The viewport of the marker, which holds its content. Its transform is set to that of each instance before
+     * the instance is rendered.
+     */
+    public readonly content: Container;
+
+    /**
+     * The transforms of the instances, from the viewport of the marker into the local space of this node.
+     */
+    public readonly transforms: Matrix[];
+
+    /**
+     * @param content - The viewport of the marker.
+     * @param transforms - The transforms of the instances.
+     */
+    constructor(content: Container, transforms: Matrix[])
+    {
+        super();
+
+        this.content = content;
+        this.transforms = transforms;
+    }
+
+    /**
+     * Renders the content of the marker at each instance.
+     *
+     * @override
+     */
+    render(renderer: Renderer): void
+    {
+        if (!this.visible || this.worldAlpha <= 0 || !this.renderable)
+        {
+            return;
+        }
+
+        for (let i = 0, j = this.transforms.length; i < j; i++)
+        {
+            this.updateInstanceTransform(i);
+            this.content.render(renderer);
+        }
+    }
+
+    /**
+     * Calculates the bounds of all the instances.
+     *
+     * @override
+     */
+    calculateBounds(): void
+    {
+        const content = this.content;
+
+        this._bounds.clear();
+
+        for (let i = 0, j = this.transforms.length; i < j; i++)
+        {
+            this.updateInstanceTransform(i);
+            content.calculateBounds();
+            this._bounds.addBounds(content._bounds);
+        }
+
+        this._bounds.updateID = this._boundsID;
+    }
+
+    /**
+     * Destroys the content of the marker along with this node.
+     *
+     * @override
+     */
+    destroy(options?: boolean | { children?: boolean, texture?: boolean, baseTexture?: boolean }): void
+    {
+        super.destroy(options);
+        this.content.destroy(options);
+    }
+
+    /**
+     * Positions the content of the marker at an instance, and updates its transforms.
+     *
+     * @param index - The index of the instance.
+     */
+    protected updateInstanceTransform(index: number): void
+    {
+        const content = this.content;
+        const children = content.children;
+
+        content.transform.setFromMatrix(this.transforms[index]);
+        content.transform.updateTransform(this.transform);
+        content.worldAlpha = content.alpha * this.worldAlpha;
+
+        for (let i = 0, j = children.length; i < j; i++)
+        {
+            const child = children[i];
+
+            if (child.visible)
+            {
+                child.updateTransform();
+            }
+        }
+    }
+}
@@ -0,0 +1,506 @@
+import dPathParser from 'd-path-parser';
+
+/**
+ * A vertex of a path at which a marker is placed.
+ *
+ * @public
+ */
+export interface MarkerVertex
+{
+    /** The x-coordinate of the vertex. */
+    x: number;
+
+    /** The y-coordinate of the vertex. */
+    y: number;
+
+    /** The direction of the path going into the vertex, in radians. */
+    inAngle: number;
+
+    /** The direction of the path coming out of the vertex, in radians. */
+    outAngle: number;
+
+    /** Whether `marker-start`, `marker-mid`, or `marker-end` is drawn at the vertex. */
+    type: 'start' | 'mid' | 'end';
+}
+
+/**
+ * A vertex whose directions are not known yet.
+ *
+ * @ignore
+ */
+interface PendingVertex
+{
+    x: number;
+    y: number;
+    inAngle: number | null;
+    outAngle: number | null;
+}
+
+/**
+ * The direction of a vector, or `null` if it has no length.
+ *
+ * @ignore
+ */
+function angleOf(dx: number, dy: number): number | null
+{
+    return dx === 0 && dy === 0 ? null : Math.atan2(dy, dx);
+}
+
+/**
+ * Collects the vertices of a path along with the directions of the segments that meet at them.
+ *
+ * @ignore
+ * @see https://www.w3.org/TR/SVG2/painting.html#PathDirectionality
+ */
+class MarkerVertexBuilder
+{
+    public vertices: PendingVertex[] = [];
+
+    /** The index of the vertex starting the current subpath. */
+    private subpathStart = -1;
+
+    moveTo(x: number, y: number): void
+    {
+        this.subpathStart = this.vertices.length;
+        this.vertices.push({ x, y, inAngle: null, outAngle: null });
+    }
+
+    /**
+     * Adds a segment from the last vertex.
+     *
+     * @param x - The x-coordinate of the end point.
+     * @param y - The y-coordinate of the end point.
+     * @param startAngle - The direction of the segment at its start point.
+     * @param endAngle - The direction of the segment at its end point.
+     */
+    segmentTo(x: number, y: number, startAngle: number | null, endAngle: number | null): void
+    {
+        if (this.subpathStart === -1)
+        {
+            this.moveTo(0, 0);
+        }
+
+        const last = this.vertices[this.vertices.length - 1];
+
+        last.outAngle = startAngle;
+        this.vertices.push({ x, y, inAngle: endAngle, outAngle: null });
+    }
+
+    lineTo(x: number, y: number): void
+    {
+        const last = this.vertices[this.vertices.length - 1] || { x: 0, y: 0 };
+        const angle = angleOf(x - last.x, y - last.y);
+
+        this.segmentTo(x, y, angle, angle);
+    }
+
+    /**
+     * Closes the current subpath. The closing segment goes into the start vertex, and the first segment of the
+     * subpath comes out of the closing vertex.
+     */
+    closePath(): void
+    {
+        if (this.subpathStart === -1)
+        {
+            return;
+        }
+
+        const first = this.vertices[this.subpathStart];
+
+        this.lineTo(first.x, first.y);
+
+        const last = this.vertices[this.vertices.length - 1];
+
+        first.inAngle = last.inAngle;
+        last.outAngle = first.outAngle;
+
+        // Segments after the closepath start a new subpath at the same point.
+        this.subpathStart = this.vertices.length - 1;
+    }
+
+    /**
+     * Resolves the unknown directions and classifies the vertices. A direction that is not known, e.g. at the ends
+     * of an open path or of a zero-length segment, is taken from the other side of the vertex.
+     */
+    build(): MarkerVertex[]
+    {
+        const vertices = this.vertices;
+
+        /* eslint-disable no-nested-ternary */
+        return vertices.map(({ x, y, inAngle, outAngle }, i) => ({
+            x,
+            y,
+            inAngle: inAngle !== null ? inAngle : (outAngle !== null ? outAngle : 0),
+            outAngle: outAngle !== null ? outAngle : (inAngle !== null ? inAngle : 0),
+            type: i === 0 ? 'start' : (i === vertices.length - 1 ? 'end' : 'mid'),
+        }));
+        /* eslint-enable no-nested-ternary */
+    }
+}
+
+/**
+ * Calculates the directions of an elliptical arc at its end points, from its center parameterization.
+ *
+ * @ignore
+ * @see https://www.w3.org/TR/SVG2/implnote.html#ArcConversionEndpointToCenter
+ */
+function getArcAngles(
+    x0: number,
+    y0: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x1: number,
+    y1: number,
+): [number | null, number | null]
+{
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+
+    if (rx === 0 || ry === 0 || (x0 === x1 && y0 === y1))
+    {
+        const angle = angleOf(x1 - x0, y1 - y0);
+
+        return [angle, angle];
+    }
+
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const xp = (cos * (x0 - x1) / 2) + (sin * (y0 - y1) / 2);
+    const yp = (-sin * (x0 - x1) / 2) + (cos * (y0 - y1) / 2);
+    const lambda = ((xp * xp) / (rx * rx)) + ((yp * yp) / (ry * ry));
+
+    // Ensure the radii are large enough to connect the end points.
+    if (lambda > 1)
+    {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const rx2 = rx * rx;
+    const ry2 = ry * ry;
+    const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0,
+        ((rx2 * ry2) - (rx2 * yp * yp) - (ry2 * xp * xp)) / ((rx2 * yp * yp) + (ry2 * xp * xp))));
+    const cxp = coef * rx * yp / ry;
+    const cyp = -coef * ry * xp / rx;
+    const theta0 = Math.atan2((yp - cyp) / ry, (xp - cxp) / rx);
+    const theta1 = Math.atan2((-yp - cyp) / ry, (-xp - cxp) / rx);
+    const direction = sweep ? 1 : -1;
+    const tangentAngle = (theta: number): number =>
+    {
+        const tx = -rx * Math.sin(theta) * direction;
+        const ty = ry * Math.cos(theta) * direction;
+
+        return angleOf((cos * tx) - (sin * ty), (sin * tx) + (cos * ty));
+    };
+
+    return [tangentAngle(theta0), tangentAngle(theta1)];
+}
+
+/**
+ * Returns the first direction that is known.
+ *
+ * @ignore
+ */
+function firstAngle(...angles: Array<number | null>): number | null
+{
+    for (let i = 0, j = angles.length; i < j; i++)
+    {
+        if (angles[i] !== null)
+        {
+            return angles[i];
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Adds the segments of the path data into the builder, in absolute coordinates.
+ *
+ * @ignore
+ */
+function buildPathVertices(builder: MarkerVertexBuilder, d: string): void
+{
+    const commands = dPathParser(d.trim());
+
+    // Current point
+    let x = 0;
+    let y = 0;
+
+    // The last control point of the previous command, used to reflect the control points of s/S & t/T
+    let lastCubicX = 0;
+    let lastCubicY = 0;
+    let lastQuadX = 0;
+    let lastQuadY = 0;
+    let lastCode = '';
+
+    for (let i = 0, j = commands.length; i < j; i++)
+    {
+        const command = commands[i];
+        const code: string = command.code;
+        const upperCode = code.toUpperCase();
+        const ox = command.relative ? x : 0;
+        const oy = command.relative ? y : 0;
+
+        switch (upperCode)
+        {
+            case 'M':
+                builder.moveTo(x = ox + command.end.x, y = oy + command.end.y);
+                break;
+            case 'L':
+                builder.lineTo(x = ox + command.end.x, y = oy + command.end.y);
+                break;
+            case 'H':
+                builder.lineTo(x = (command.relative ? x : 0) + command.value, y);
+                break;
+            case 'V':
+                builder.lineTo(x, y = (command.relative ? y : 0) + command.value);
+                break;
+            case 'Z': {
+                builder.closePath();
+
+                const last = builder.vertices[builder.vertices.length - 1];
+
+                if (last)
+                {
+                    x = last.x;
+                    y = last.y;
+                }
+                break;
+            }
+            case 'C':
+            case 'S': {
+                let cp1x: number;
+                let cp1y: number;
+
+                if (upperCode === 'C')
+                {
+                    cp1x = ox + command.cp1.x;
+                    cp1y = oy + command.cp1.y;
+                }
+                else if (lastCode === 'C' || lastCode === 'S')
+                {
+                    cp1x = (2 * x) - lastCubicX;
+                    cp1y = (2 * y) - lastCubicY;
+                }
+                else
+                {
+                    cp1x = x;
+                    cp1y = y;
+                }
+
+                const cp2 = upperCode === 'C' ? command.cp2 : command.cp;
+                const cp2x = ox + cp2.x;
+                const cp2y = oy + cp2.y;
+                const endX = ox + command.end.x;
+                const endY = oy + command.end.y;
+
+                builder.segmentTo(
+                    endX,
+                    endY,
+                    firstAngle(
+                        angleOf(cp1x - x, cp1y - y),
+                        angleOf(cp2x - x, cp2y - y),
+                        angleOf(endX - x, endY - y),
+                    ),
+                    firstAngle(
+                        angleOf(endX - cp2x, endY - cp2y),
+                        angleOf(endX - cp1x, endY - cp1y),
+                        angleOf(endX - x, endY - y),
+                    ),
+                );
+
+                lastCubicX = cp2x;
+                lastCubicY = cp2y;
+                x = endX;
+                y = endY;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                let cpx: number;
+                let cpy: number;
+
+                if (upperCode === 'Q')
+                {
+                    cpx = ox + command.cp.x;
+                    cpy = oy + command.cp.y;
+                }
+                else if (lastCode === 'Q' || lastCode === 'T')
+                {
+                    cpx = (2 * x) - lastQuadX;
+                    cpy = (2 * y) - lastQuadY;
+                }
+                else
+                {
+                    cpx = x;
+                    cpy = y;
+                }
+
+                const endX = ox + command.end.x;
+                const endY = oy + command.end.y;
+
+                builder.segmentTo(
+                    endX,
+                    endY,
+                    firstAngle(angleOf(cpx - x, cpy - y), angleOf(endX - x, endY - y)),
+                    firstAngle(angleOf(endX - cpx, endY - cpy), angleOf(endX - x, endY - y)),
+                );
+
+                lastQuadX = cpx;
+                lastQuadY = cpy;
+                x = endX;
+                y = endY;
+                break;
+            }
+            case 'A': {
+                const endX = ox + command.end.x;
+                const endY = oy + command.end.y;
+                const [startAngle, endAngle] = getArcAngles(
+                    x,
+                    y,
+                    command.radii.x,
+                    command.radii.y,
+                    (command.rotation || 0) * Math.PI / 180,
+                    !!command.large,
+                    !!command.clockwise,
+                    endX,
+                    endY,
+                );
+
+                builder.segmentTo(endX, endY, startAngle, endAngle);
+                x = endX;
+                y = endY;
+                break;
+            }
+            default:
+                break;
+        }
+
+        lastCode = upperCode;
+    }
+}
+
+/**
+ * Parses the `points` attribute of a polyline or polygon.
+ *
+ * @ignore
+ */
+function parsePoints(points: string | null): number[]
+{
+    return (points || '')
+        .trim()
+        .split(/[\s,]+/)
+        .map((p) => parseFloat(p))
+        .filter((p) => !isNaN(p));
+}
+
+/**
+ * Calculates the vertices at which markers are placed on a path, line, polyline, or polygon element. The first
+ * vertex gets the `marker-start`, the last vertex gets the `marker-end`, and every other vertex gets the
+ * `marker-mid`.
+ *
+ * @public
+ * @param element - The element whose markers are to be placed.
+ * @return The marker vertices, in the user space of the element.
+ */
+export function computeMarkerVertices(element: SVGElement): MarkerVertex[]
+{
+    const builder = new MarkerVertexBuilder();
+
+    switch (element.nodeName.toLowerCase())
+    {
+        case 'path':
+            buildPathVertices(builder, element.getAttribute('d') || '');
+            break;
+        case 'line': {
+            const line = element as SVGLineElement;
+
+            builder.moveTo(line.x1.baseVal.value, line.y1.baseVal.value);
+            builder.lineTo(line.x2.baseVal.value, line.y2.baseVal.value);
+            break;
+        }
+        case 'polyline':
+        case 'polygon': {
+            const points = parsePoints(element.getAttribute('points'));
+
+            if (points.length < 2)
+            {
+                break;
+            }
+
+            builder.moveTo(points[0], points[1]);
+
+            for (let i = 2; i + 1 < points.length; i += 2)
+            {
+                builder.lineTo(points[i], points[i + 1]);
+            }
+
+            if (element.nodeName.toLowerCase() === 'polygon')
+            {
+                builder.closePath();
+            }
+            break;
+        }
+        default:
+            break;
+    }
+
+    return builder.build();
+}
+
+/**
+ * Calculates the angle by which the marker at a vertex is rotated.
+ *
+ * @public
+ * @param vertex - The marker vertex.
+ * @param orient - The `orient` attribute of the marker: `auto`, `auto-start-reverse`, or an angle, e.g. `45deg`.
+ * @return The rotation, in radians.
+ * @see https://www.w3.org/TR/SVG2/painting.html#OrientAttribute
+ */
+export function computeMarkerAngle(vertex: MarkerVertex, orient: string | null): number
+{
+    if (orient === 'auto' || orient === 'auto-start-reverse')
+    {
+        const { inAngle, outAngle } = vertex;
+        let delta = outAngle - inAngle;
+
+        // Bisect the smaller angle between the two directions.
+        while (delta > Math.PI)
+        {
+            delta -= 2 * Math.PI;
+        }
+        while (delta <= -Math.PI)
+        {
+            delta += 2 * Math.PI;
+        }
+
+        const angle = inAngle + (delta / 2);
+
+        return orient === 'auto-start-reverse' && vertex.type === 'start' ? angle + Math.PI : angle;
+    }
+
+    const match = orient ? (/^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*(deg|grad|rad|turn)?\s*$/i).exec(orient) : null;
+
+    if (!match)
+    {
+        return 0;
+    }
+
+    const value = parseFloat(match[1]);
+
+    switch (match[2] ? match[2].toLowerCase() : 'deg')
+    {
+        case 'grad':
+            return value * Math.PI / 200;
+        case 'rad':
+            return value;
+        case 'turn':
+            return value * 2 * Math.PI;
+        default:
+            return value * Math.PI / 180;
+    }
+}
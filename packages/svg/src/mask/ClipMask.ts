@@ -0,0 +1,79 @@
+import { Container } from '@pixi/display';
+
+import type { DisplayObject } from '@pixi/display';
+import type { Renderer } from '@pixi/core';
+
+/**
+ * A `ClipMask` holds the rendering nodes for the content of a `SVGClipPathElement`, and is used as the stencil
+ * mask of the node being clipped. The geometry of its content forms the clipping region.
+ *
+ * A clip mask is not a part of the scene graph, so that it is never rendered (or culled) as regular content. Instead,
+ * it is positioned in the user space of its target, whose transform is used as its parent's transform.
+ *
+ * @public
+ * @ignore
+ */
+export class ClipMask extends Container
+{
+    /**
+     * The display-object whose user space the clip path is in.
+     */
+    public target: DisplayObject;
+
+    /**
+     * @param target - The display-object whose user space the clip path is in.
+     */
+    constructor(target: DisplayObject)
+    {
+        super();
+
+        this.target = target;
+    }
+
+    /**
+     * Updates the transforms of this clip mask relative to its target.
+     *
+     * @override
+     */
+    updateTransform(): void
+    {
+        this._boundsID++;
+        this.transform.updateTransform(this.target.transform);
+        this.worldAlpha = this.alpha;
+
+        const children = this.children;
+
+        for (let i = 0, j = children.length; i < j; i++)
+        {
+            const child = children[i];
+
+            if (child.visible)
+            {
+                child.updateTransform();
+            }
+        }
+    }
+
+    /**
+     * Updates the transforms of this clip mask before calculating its bounds, because it is not
+     * updated with the scene graph.
+     *
+     * @override
+     */
+    calculateBounds(): void
+    {
+        this.updateTransform();
+        super.calculateBounds();
+    }
+
+    /**
+     * Renders the clip mask into the stencil buffer. This is only invoked by the renderer's mask system.
+     *
+     * @override
+     */
+    render(renderer: Renderer): void
+    {
+        this.updateTransform();
+        super.render(renderer);
+    }
+}
@@ -1,7 +1,15 @@
 import { LINE_CAP, LINE_JOIN } from '@pixi/graphics';
 import color from 'tinycolor2';
+import {
+    getPercentageBase,
+    getRootViewportSize,
+    getViewportSize,
+    parseMeasurement,
+} from '../utils/parseMeasurement';
 
+import type { MeasurementOptions } from '../utils/parseMeasurement';
 import type { Paint } from './Paint';
+import type { StyleResolver } from '../style/StyleResolver';
 
 /**
  * Provides the `Paint` for an `SVGElement`. It will also respond to changes in the attributes of the element
@@ -27,34 +35,57 @@ export class PaintProvider implements Paint
 
     /**
      * @param element - The element whose paint is to be provided.
+     * @param styleResolver - Resolves the cascaded style of the element. If not provided, only the presentation
+     *  attributes of the element are used.
      */
-    constructor(element: SVGElement)
+    constructor(element: SVGElement, styleResolver: StyleResolver = null)
     {
         this.element = element;
 
-        const fill = element.getAttribute('fill');
-        const opacity = element.getAttribute('opacity');
-        const stroke = element.getAttribute('stroke');
-        const strokeDashArray = element.getAttribute('stroke-dasharray');
-        const strokeDashOffset = element.getAttribute('stroke-dashoffset');
-        const strokeLineCap = element.getAttribute('stroke-linecap');
-        const strokeLineJoin = element.getAttribute('stroke-linejoin');
-        const strokeMiterLimit = element.getAttribute('stroke-miterlimit');
-        const strokeWidth = element.getAttribute('stroke-width');
+        const getStyle = (property: string): string => (styleResolver
+            ? styleResolver.getPropertyValue(element, property)
+            : element.getAttribute(property));
+
+        const fill = getStyle('fill');
+        const opacity = getStyle('opacity');
+        const stroke = getStyle('stroke');
+        const strokeDashArray = getStyle('stroke-dasharray');
+        const strokeDashOffset = getStyle('stroke-dashoffset');
+        const strokeLineCap = getStyle('stroke-linecap');
+        const strokeLineJoin = getStyle('stroke-linejoin');
+        const strokeMiterLimit = getStyle('stroke-miterlimit');
+        const strokeWidth = getStyle('stroke-width');
+
+        let lengthOptions: MeasurementOptions = null;
+
+        // Stroke lengths are relative to the diagonal of the viewport.
+        const parseLength = (length: string): number =>
+        {
+            if (!lengthOptions && (/[a-z%]/i).test(length))
+            {
+                lengthOptions = {
+                    percentageBase: getPercentageBase(getViewportSize(element), 'diagonal'),
+                    rootViewport: getRootViewportSize(element),
+                };
+            }
+
+            return parseMeasurement(length, 16, lengthOptions || {});
+        };
 
         /* eslint-disable-next-line no-nested-ternary */
         this.fill = fill !== null ? (fill === 'none' ? 'none' : PaintProvider.parseColor(fill)) : null;
         this.opacity = opacity && parseFloat(opacity);
-        this.stroke = stroke && PaintProvider.parseColor(element.getAttribute('stroke'));
+        this.stroke = stroke && PaintProvider.parseColor(stroke);
         this.strokeDashArray = strokeDashArray
             && strokeDashArray
-                ?.split(/[, ]+/g)
-                .map((num) => parseFloat(num.trim()));
-        this.strokeDashOffset = strokeDashOffset && parseFloat(strokeDashOffset);
+                ?.trim()
+                .split(/[, ]+/g)
+                .map((num) => parseLength(num.trim()));
+        this.strokeDashOffset = strokeDashOffset && parseLength(strokeDashOffset);
         this.strokeLineCap = strokeLineCap as unknown as LINE_CAP;
         this.strokeLineJoin = strokeLineJoin as unknown as LINE_JOIN;
         this.strokeMiterLimit = strokeMiterLimit && parseFloat(strokeMiterLimit);
-        this.strokeWidth = strokeWidth && parseFloat(strokeWidth);
+        this.strokeWidth = strokeWidth && parseLength(strokeWidth);
     }
 
     /**
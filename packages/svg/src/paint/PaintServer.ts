@@ -1,9 +1,27 @@
 import { GradientFactory } from '@pixi-essentials/gradients';
-import { PaintProvider } from './PaintProvider';
+import { Matrix, Rectangle } from '@pixi/math';
+import color from 'tinycolor2';
+import { computeViewBoxTransform } from '../utils/computeViewBoxTransform';
+import { resolveUnitLength } from '../utils/resolveUnitLength';
 
+import type { Container } from '@pixi/display';
 import type { Renderer, RenderTexture } from '@pixi/core';
-import type { ColorStop } from '@pixi-essentials/gradients';
-import type { Rectangle } from '@pixi/math';
+import type { ColorInterpolation, ColorStop, SpreadMethod } from '@pixi-essentials/gradients';
+import type { StyleResolver } from '../style/StyleResolver';
+
+const tempMatrix = new Matrix();
+const tempSourceFrame = new Rectangle();
+const tempDestinationFrame = new Rectangle();
+
+/**
+ * The number of texels per unit length of a pattern tile in its texture.
+ */
+const PATTERN_RESOLUTION = 2;
+
+/**
+ * The maximum width & height of a pattern's texture.
+ */
+const MAX_PATTERN_SIZE = 2048;
 
 /**
  * Converts the linear gradient's x1, x2, y1, y2 attributes into percentage units.
@@ -18,6 +36,82 @@ function convertLinearGradientAxis(linearGradient: SVGLinearGradientElement): vo
     linearGradient.y2.baseVal.convertToSpecifiedUnits(SVGLength.SVG_LENGTHTYPE_PERCENTAGE);
 }
 
+/**
+ * Converts the gradient's `spreadMethod` attribute into a {@link SpreadMethod}.
+ *
+ * @param gradient - The gradient element.
+ */
+function convertSpreadMethod(gradient: SVGGradientElement): SpreadMethod
+{
+    switch (gradient.spreadMethod.baseVal)
+    {
+        case SVGGradientElement.SVG_SPREADMETHOD_REFLECT:
+            return 'reflect';
+        case SVGGradientElement.SVG_SPREADMETHOD_REPEAT:
+            return 'repeat';
+        default:
+            return 'pad';
+    }
+}
+
+/**
+ * Converts the gradient's `color-interpolation` property into a {@link ColorInterpolation}. The property is inherited,
+ * so it can be set on an ancestor of the gradient too.
+ *
+ * @param gradient - The gradient element.
+ * @param styleResolver - The style resolver of the document, if any.
+ */
+function convertColorInterpolation(gradient: SVGGradientElement, styleResolver: StyleResolver): ColorInterpolation
+{
+    let colorInterpolation: string = null;
+
+    if (styleResolver)
+    {
+        colorInterpolation = styleResolver.getInheritedPropertyValue(gradient, 'color-interpolation');
+    }
+    else
+    {
+        for (let element: Element = gradient; element && colorInterpolation === null; element = element.parentElement)
+        {
+            colorInterpolation = element.getAttribute('color-interpolation');
+        }
+    }
+
+    return colorInterpolation === 'linearRGB' ? 'linear-rgb' : 'srgb';
+}
+
+/**
+ * Converts the `stop-color` and `stop-opacity` of a gradient stop into a color for {@link GradientFactory}. The alpha
+ * of the stop color itself, e.g. of `transparent` or `rgba()` colors, is multiplied with the stop opacity.
+ *
+ * @param stopColor - The value of `stop-color`, which defaults to black.
+ * @param stopOpacity - The value of `stop-opacity`, which defaults to 1.
+ */
+function convertStopColor(stopColor: string | null, stopOpacity: string | null): number | string
+{
+    const parsedColor = color(stopColor || 'black');
+    const { r, g, b } = parsedColor.toRgb();
+    const opacity = parsedColor.getAlpha() * (stopOpacity !== null ? parseFloat(stopOpacity) : 1);
+
+    return opacity < 1 ? `rgba(${r}, ${g}, ${b}, ${Math.max(0, opacity)})` : (r << 16) + (g << 8) + b;
+}
+
+/**
+ * Calculates the smallest power-of-two texture dimension that fits a pattern tile's dimension. Power-of-two textures
+ * are required to repeat the tile in WebGL 1.
+ *
+ * @param length - The width or height of the pattern tile.
+ */
+function calculatePatternTextureSize(length: number): number
+{
+    if (!(length > 0))
+    {
+        return 1;
+    }
+
+    return Math.min(MAX_PATTERN_SIZE, Math.pow(2, Math.ceil(Math.log2(length * PATTERN_RESOLUTION))));
+}
+
 /**
  * [Paint Servers]{@link https://svgwg.org/svg-next/pservers.html} are implemented as textures. This class is a lazy
  * wrapper around paint textures, which can only be generated using the `renderer` drawing to the screen.
@@ -30,20 +124,53 @@ export class PaintServer
     public paintTexture: RenderTexture;
     public paintContexts: { [id: number]: number };
 
+    /**
+     * The rendering nodes of a pattern's content. This is rendered into a single tile of the paint texture.
+     */
+    public paintContent: Container;
+
+    /**
+     * The transform from the paint texture's space into the user space of the element applying the paint. This is
+     * calculated in {@link PaintServer.resolvePaintDimensions}.
+     */
+    public paintTransform: Matrix;
+
     public dirtyId: number;
 
+    /**
+     * The style resolver used to resolve the properties of gradients & their stops. If this is `null`, only the
+     * presentation attributes are used.
+     */
+    public styleResolver: StyleResolver;
+
+    /**
+     * The transform from the pattern content's space into the paint texture's space.
+     */
+    private contentTransform: Matrix;
+
     /**
      * Creates a `PaintServer` wrapper.
      *
      * @param paintServer
      * @param paintTexture
+     * @param paintContent - The rendering nodes of the pattern's content, if the paint server is a pattern.
+     * @param styleResolver - The style resolver of the document.
      */
-    constructor(paintServer: SVGGradientElement | SVGPatternElement, paintTexture: RenderTexture)
+    constructor(
+        paintServer: SVGGradientElement | SVGPatternElement,
+        paintTexture: RenderTexture,
+        paintContent: Container = null,
+        styleResolver: StyleResolver = null,
+    )
     {
         this.paintServer = paintServer;
         this.paintTexture = paintTexture;
+        this.paintContent = paintContent;
         this.paintContexts = {};
+        this.paintTransform = new Matrix();
         this.dirtyId = 0;
+        this.styleResolver = styleResolver;
+        this.contentTransform = new Matrix();
     }
 
     /**
@@ -66,14 +193,80 @@ export class PaintServer
 
     /**
      * Calculates the optimal texture dimensions for the paint texture, given the bounding box of the
-     * object applying it. The paint texture is resized accordingly.
+     * object applying it. The paint texture is resized accordingly, and {@link PaintServer.paintTransform} is
+     * updated to map it onto the object.
      *
      * If the paint texture is sized smaller than the bounding box, then it is expected that it will
-     * be scaled up to fit it.
+     * be scaled up to fit it. Patterns are sized to a single tile, which is repeated over the object.
      *
      * @param bbox - The bounding box of the object applying the paint texture.
      */
     public resolvePaintDimensions(bbox: Rectangle): void
+    {
+        if (this.paintServer instanceof SVGPatternElement)
+        {
+            this.resolvePatternDimensions(bbox);
+
+            return;
+        }
+
+        this.resolveGradientDimensions(bbox);
+
+        // Gradients are stretched over the bounding box.
+        this.paintTransform.set(
+            bbox.width / this.paintTexture.width,
+            0,
+            0,
+            bbox.height / this.paintTexture.height,
+            bbox.x,
+            bbox.y,
+        );
+    }
+
+    /**
+     * Renders the paint texture using the renderer immediately.
+     *
+     * @param renderer - The renderer to use for rendering to the paint texture.
+     */
+    public updatePaint(renderer: Renderer): void
+    {
+        if (this.paintServer instanceof SVGLinearGradientElement)
+        {
+            this.linearGradient(renderer);
+        }
+        else if (this.paintServer instanceof SVGRadialGradientElement)
+        {
+            this.radialGradient(renderer);
+        }
+        else if (this.paintServer instanceof SVGPatternElement)
+        {
+            this.pattern(renderer);
+        }
+    }
+
+    /**
+     * Destroys the paint texture and the rendering nodes of the pattern's content, if any.
+     */
+    public destroy(): void
+    {
+        this.paintTexture.destroy(true);
+        this.paintTexture = null;
+
+        if (this.paintContent)
+        {
+            this.paintContent.destroy({ children: true });
+            this.paintContent = null;
+        }
+
+        this.paintContexts = {};
+    }
+
+    /**
+     * Resizes the paint texture for `this.paintServer` as a `SVGGradientElement`.
+     *
+     * @param bbox - The bounding box of the object applying the paint texture.
+     */
+    private resolveGradientDimensions(bbox: Rectangle): void
     {
         const bwidth = Math.ceil(bbox.width);
         const bheight = Math.ceil(bbox.height);
@@ -127,19 +320,73 @@ export class PaintServer
     }
 
     /**
-     * Renders the paint texture using the renderer immediately.
+     * Resizes the paint texture to fit a tile of `this.paintServer` as a `SVGPatternElement`, and calculates
+     * how its content is mapped into the tile & how the tile is mapped onto the object.
      *
-     * @param renderer - The renderer to use for rendering to the paint texture.
+     * @param bbox - The bounding box of the object applying the paint texture.
      */
-    public updatePaint(renderer: Renderer): void
+    private resolvePatternDimensions(bbox: Rectangle): void
     {
-        if (this.paintServer instanceof SVGLinearGradientElement)
+        const pattern = this.paintServer as SVGPatternElement;
+        const paintTexture = this.paintTexture;
+        const contentTransform = this.contentTransform;
+        const paintTransform = this.paintTransform;
+
+        const tileBBoxUnits = pattern.patternUnits.baseVal !== SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE;
+        const contentBBoxUnits = pattern.patternContentUnits.baseVal === SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX;
+
+        const tileX = resolveUnitLength(pattern.x, tileBBoxUnits, bbox.width) + (tileBBoxUnits ? bbox.x : 0);
+        const tileY = resolveUnitLength(pattern.y, tileBBoxUnits, bbox.height) + (tileBBoxUnits ? bbox.y : 0);
+        const tileWidth = resolveUnitLength(pattern.width, tileBBoxUnits, bbox.width);
+        const tileHeight = resolveUnitLength(pattern.height, tileBBoxUnits, bbox.height);
+
+        const width = calculatePatternTextureSize(tileWidth);
+        const height = calculatePatternTextureSize(tileHeight);
+
+        paintTexture.resize(width, height, true);
+
+        // A tile with no area disables rendering of the paint, so the texture is left empty.
+        if (!(tileWidth > 0 && tileHeight > 0))
         {
-            this.linearGradient(renderer);
+            contentTransform.set(0, 0, 0, 0, 0, 0);
+            paintTransform.set(1, 0, 0, 1, tileX, tileY);
+
+            return;
         }
-        else if (this.paintServer instanceof SVGRadialGradientElement)
+
+        const viewBox = pattern.viewBox.baseVal;
+
+        // The content's coordinate system has its origin at the top-left corner of the tile.
+        if (viewBox && viewBox.width > 0 && viewBox.height > 0)
         {
-            this.radialGradient(renderer);
+            computeViewBoxTransform(
+                viewBox,
+                pattern.preserveAspectRatio.baseVal,
+                tileWidth,
+                tileHeight,
+                contentTransform,
+            );
+        }
+        else if (contentBBoxUnits)
+        {
+            contentTransform.set(bbox.width, 0, 0, bbox.height, 0, 0);
+        }
+        else
+        {
+            contentTransform.identity();
+        }
+
+        contentTransform.scale(width / tileWidth, height / tileHeight);
+
+        paintTransform.set(tileWidth / width, 0, 0, tileHeight / height, tileX, tileY);
+
+        const patternTransform = pattern.patternTransform.baseVal.consolidate();
+
+        if (patternTransform)
+        {
+            const { a, b, c, d, e, f } = patternTransform.matrix;
+
+            paintTransform.prepend(tempMatrix.set(a, b, c, d, e, f));
         }
     }
 
@@ -164,6 +411,8 @@ export class PaintServer
                 x1: linearGradient.x2.baseVal.valueInSpecifiedUnits * paintTexture.width / 100,
                 y1: linearGradient.y2.baseVal.valueInSpecifiedUnits * paintTexture.height / 100,
                 colorStops: this.createColorStops(linearGradient.children),
+                spreadMethod: convertSpreadMethod(linearGradient),
+                colorInterpolation: convertColorInterpolation(linearGradient, this.styleResolver),
             },
         );
     }
@@ -194,10 +443,47 @@ export class PaintServer
                 y1: radialGradient.cy.baseVal.valueInSpecifiedUnits * paintTexture.width / 100,
                 r1: radialGradient.r.baseVal.valueInSpecifiedUnits * paintTexture.width / 100,
                 colorStops: this.createColorStops(radialGradient.children),
+                spreadMethod: convertSpreadMethod(radialGradient),
+                colorInterpolation: convertColorInterpolation(radialGradient, this.styleResolver),
             },
         );
     }
 
+    /**
+     * Renders a tile of `this.paintServer` as a `SVGPatternElement`.
+     *
+     * @param renderer - The renderer being used to render the paint texture.
+     */
+    private pattern(renderer: Renderer): RenderTexture
+    {
+        const paintTexture = this.paintTexture;
+        const paintContent = this.paintContent;
+
+        renderer.batch.flush();
+
+        const renderTarget = renderer.renderTexture.current;
+        const sourceFrame = tempSourceFrame.copyFrom(renderer.renderTexture.sourceFrame);
+        const destinationFrame = tempDestinationFrame.copyFrom(renderer.renderTexture.destinationFrame);
+
+        renderer.renderTexture.bind(paintTexture);
+        renderer.renderTexture.clear();
+
+        if (paintContent)
+        {
+            paintContent.transform.setFromMatrix(this.contentTransform);
+            paintContent.enableTempParent();
+            paintContent.updateTransform();
+            paintContent.render(renderer);
+            paintContent.disableTempParent(null);
+
+            renderer.batch.flush();
+        }
+
+        renderer.renderTexture.bind(renderTarget, sourceFrame, destinationFrame);
+
+        return paintTexture;
+    }
+
     /**
      * Extracts the color-stops from the children of a `SVGGradientElement`.
      *
@@ -207,6 +493,7 @@ export class PaintServer
     private createColorStops(stopElements: HTMLCollection): ColorStop[]
     {
         const colorStops: ColorStop[] = [];
+        const styleResolver = this.styleResolver;
 
         for (let i = 0, j = stopElements.length; i < j; i++)
         {
@@ -214,7 +501,11 @@ export class PaintServer
 
             colorStops.push({
                 offset: stopElement.offset.baseVal,
-                color: PaintProvider.parseColor(stopElement.getAttribute('stop-color')) as number,
+                color: styleResolver
+                    ? convertStopColor(
+                        styleResolver.getPropertyValue(stopElement, 'stop-color'),
+                        styleResolver.getPropertyValue(stopElement, 'stop-opacity'))
+                    : convertStopColor(stopElement.getAttribute('stop-color'), stopElement.getAttribute('stop-opacity')),
             });
         }
 
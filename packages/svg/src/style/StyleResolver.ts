@@ -0,0 +1,186 @@
+import { parseStyleDeclarations, parseStyleSheet } from './parseStyleSheet';
+
+import type { StyleDeclaration, StyleRule } from './parseStyleSheet';
+
+/**
+ * The `StyleResolver` computes the cascaded value of CSS properties for the elements of a SVG document. It
+ * collects the rules in the `<style />` elements of the document, and applies them with the inline `style`
+ * attribute and the presentation attributes of each element.
+ *
+ * The cascade follows the order of precedence, from lowest to highest:
+ *
+ * 1. presentation attributes, e.g. `fill="red"`
+ * 2. stylesheet rules, by specificity and then source order
+ * 3. the inline `style` attribute
+ * 4. `!important` stylesheet rules
+ * 5. `!important` declarations in the inline `style` attribute
+ *
+ * Media queries and other at-rules are ignored. Values are not inherited; that is left to the callers, e.g.
+ * {@link InheritedPaintProvider}.
+ *
+ * @public
+ * @see https://www.w3.org/TR/css-cascade-4/#cascade-sort
+ */
+export class StyleResolver
+{
+    /**
+     * The rules of the stylesheets, sorted by ascending precedence.
+     */
+    public rules: StyleRule[];
+
+    /**
+     * The cascaded values of each element that has been resolved.
+     */
+    private cache: WeakMap<Element, Map<string, string>>;
+
+    /**
+     * @param content - The SVG document whose `<style />` elements are to be used.
+     */
+    constructor(content: Element)
+    {
+        this.rules = [];
+        this.cache = new WeakMap();
+
+        const styleElements = content.querySelectorAll('style');
+
+        // The rules are numbered in source order across all stylesheets, including the ones dropped below.
+        let order = 0;
+
+        for (let i = 0, j = styleElements.length; i < j; i++)
+        {
+            const type = styleElements[i].getAttribute('type');
+
+            if (type && type !== 'text/css')
+            {
+                continue;
+            }
+
+            const rules = parseStyleSheet(styleElements[i].textContent || '', order);
+
+            order += rules.length;
+
+            for (let k = 0, l = rules.length; k < l; k++)
+            {
+                const rule = rules[k];
+
+                // Drop selectors the DOM does not support, so they don't throw when matched.
+                try
+                {
+                    content.matches(rule.selector);
+                }
+                catch (e)
+                {
+                    console.warn('[PIXI.SVG] Selector not supported:', rule.selector);
+                    continue;
+                }
+
+                this.rules.push(rule);
+            }
+        }
+
+        this.rules.sort((a, b) => (a.specificity - b.specificity) || (a.order - b.order));
+    }
+
+    /**
+     * Resolves the cascaded value of a property on the element.
+     *
+     * @param element - The element whose property is to be resolved.
+     * @param property - The name of the property, e.g. `stroke-width`.
+     * @return The value of the property, or `null` if it is not specified.
+     */
+    public getPropertyValue(element: Element, property: string): string | null
+    {
+        let values = this.cache.get(element);
+
+        if (!values)
+        {
+            values = this.computeStyle(element);
+            this.cache.set(element, values);
+        }
+
+        return values.has(property) ? values.get(property) : element.getAttribute(property);
+    }
+
+    /**
+     * Resolves the value of an inherited property, by looking up the element and then its ancestors.
+     *
+     * @param element - The element whose property is to be resolved.
+     * @param property - The name of the property, e.g. `clip-rule`.
+     * @return The value of the property, or `null` if neither the element nor any ancestor specifies it.
+     */
+    public getInheritedPropertyValue(element: Element, property: string): string | null
+    {
+        for (let node = element; node; node = node.parentElement)
+        {
+            const value = this.getPropertyValue(node, property);
+
+            if (value !== null && value !== 'inherit')
+            {
+                return value;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Invalidates the cascaded values of the element, e.g. after its `class` or `style` attribute has changed.
+     *
+     * @param element - The element to invalidate.
+     */
+    public invalidate(element: Element): void
+    {
+        this.cache.delete(element);
+    }
+
+    /**
+     * Computes the values of the properties declared by the stylesheets and the inline style of an element.
+     * Presentation attributes are not included.
+     *
+     * @param element - The element whose style is to be computed.
+     */
+    protected computeStyle(element: Element): Map<string, string>
+    {
+        const values = new Map<string, string>();
+        const rules = this.rules;
+        const matchedRules: StyleRule[] = [];
+
+        for (let i = 0, j = rules.length; i < j; i++)
+        {
+            if (element.matches(rules[i].selector))
+            {
+                matchedRules.push(rules[i]);
+            }
+        }
+
+        const inlineDeclarations = parseStyleDeclarations(element.getAttribute('style'));
+        const apply = (declarations: StyleDeclaration[], importance: boolean): void =>
+        {
+            for (let i = 0, j = declarations.length; i < j; i++)
+            {
+                const { property, value, important } = declarations[i];
+
+                if (important === importance)
+                {
+                    values.set(property, value);
+                }
+            }
+        };
+
+        for (let i = 0, j = matchedRules.length; i < j; i++)
+        {
+            apply(matchedRules[i].declarations, false);
+        }
+
+        apply(inlineDeclarations, false);
+
+        for (let i = 0, j = matchedRules.length; i < j; i++)
+        {
+            apply(matchedRules[i].declarations, true);
+        }
+
+        apply(inlineDeclarations, true);
+
+        return values;
+    }
+}
@@ -0,0 +1,294 @@
+/**
+ * A property declared in a CSS rule or an inline style.
+ *
+ * @public
+ */
+export interface StyleDeclaration
+{
+    /** The name of the property, in lowercase. */
+    property: string;
+
+    /** The value of the property, without the `!important` annotation. */
+    value: string;
+
+    /** Whether the declaration is marked `!important`. */
+    important: boolean;
+}
+
+/**
+ * A CSS rule with a single selector. Rules with a selector list are split into one rule per selector, so that
+ * each has its own specificity.
+ *
+ * @public
+ */
+export interface StyleRule
+{
+    /** The selector of the rule. */
+    selector: string;
+
+    /** The specificity of the selector, packed into one number that can be compared. */
+    specificity: number;
+
+    /** The position of the rule in the stylesheets, used to break ties between equal specificities. */
+    order: number;
+
+    /** The declarations of the rule. */
+    declarations: StyleDeclaration[];
+}
+
+/**
+ * Splits the text at the delimiter, ignoring delimiters in strings and parentheses, e.g. in `url("a;b")`.
+ *
+ * @ignore
+ * @param text - The text to split.
+ * @param delimiter - The delimiting character.
+ */
+function splitTopLevel(text: string, delimiter: string): string[]
+{
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string = null;
+    let start = 0;
+
+    for (let i = 0, j = text.length; i < j; i++)
+    {
+        const char = text[i];
+
+        if (quote)
+        {
+            if (char === quote && text[i - 1] !== '\\')
+            {
+                quote = null;
+            }
+        }
+        else if (char === '"' || char === '\'')
+        {
+            quote = char;
+        }
+        else if (char === '(')
+        {
+            depth++;
+        }
+        else if (char === ')')
+        {
+            depth = Math.max(0, depth - 1);
+        }
+        else if (char === delimiter && depth === 0)
+        {
+            parts.push(text.slice(start, i));
+            start = i + 1;
+        }
+    }
+
+    parts.push(text.slice(start));
+
+    return parts;
+}
+
+/**
+ * Finds the index of the brace that closes the block opened at `openIndex`.
+ *
+ * @ignore
+ * @param text - The stylesheet.
+ * @param openIndex - The index of the opening brace.
+ * @return The index of the closing brace, or the length of the text if the block is not closed.
+ */
+function findBlockEnd(text: string, openIndex: number): number
+{
+    let depth = 0;
+
+    for (let i = openIndex, j = text.length; i < j; i++)
+    {
+        if (text[i] === '{')
+        {
+            depth++;
+        }
+        else if (text[i] === '}' && --depth === 0)
+        {
+            return i;
+        }
+    }
+
+    return text.length;
+}
+
+/**
+ * Calculates the specificity of a selector. The id, class, and type components are packed into one number, with
+ * each component allotted 8 bits.
+ *
+ * This is an approximation for complex selectors: the arguments of `:not()`, `:is()`, and `:has()` are all counted,
+ * instead of only the most specific one.
+ *
+ * @public
+ * @param selector - A single selector, i.e. not a selector list.
+ * @see https://www.w3.org/TR/selectors-4/#specificity-rules
+ */
+export function calculateSpecificity(selector: string): number
+{
+    let ids = 0;
+    let classes = 0;
+    let types = 0;
+
+    const rest = selector
+        // Attribute selectors
+        .replace(/\[[^\]]*\]/g, () =>
+        {
+            classes++;
+
+            return ' ';
+        })
+        // Pseudo-elements
+        .replace(/::[\w-]+(\([^)]*\))?/g, () =>
+        {
+            types++;
+
+            return ' ';
+        })
+        // :where() has no specificity, and only the arguments of :not(), :is(), and :has() count.
+        .replace(/:where\([^)]*\)/g, ' ')
+        .replace(/:(not|is|has)\(/g, ' (')
+        // Pseudo-classes
+        .replace(/:[\w-]+(\([^)]*\))?/g, () =>
+        {
+            classes++;
+
+            return ' ';
+        })
+        .replace(/#[\w-]+/g, () =>
+        {
+            ids++;
+
+            return ' ';
+        })
+        .replace(/\.[\w-]+/g, () =>
+        {
+            classes++;
+
+            return ' ';
+        });
+
+    // The remaining identifiers are type selectors.
+    types += (rest.match(/[a-zA-Z][\w-]*/g) || []).length;
+
+    return (Math.min(ids, 255) << 16) | (Math.min(classes, 255) << 8) | Math.min(types, 255);
+}
+
+/**
+ * Parses CSS declarations, e.g. the contents of a `style` attribute.
+ *
+ * @public
+ * @param text - The declarations, separated by semicolons.
+ */
+export function parseStyleDeclarations(text: string): StyleDeclaration[]
+{
+    const declarations: StyleDeclaration[] = [];
+
+    if (!text)
+    {
+        return declarations;
+    }
+
+    const parts = splitTopLevel(text, ';');
+
+    for (let i = 0, j = parts.length; i < j; i++)
+    {
+        const part = parts[i];
+        const colonIndex = part.indexOf(':');
+
+        if (colonIndex === -1)
+        {
+            continue;
+        }
+
+        const property = part.slice(0, colonIndex).trim().toLowerCase();
+        let value = part.slice(colonIndex + 1).trim();
+        const importantMatch = (/!\s*important$/i).exec(value);
+
+        if (importantMatch)
+        {
+            value = value.slice(0, importantMatch.index).trim();
+        }
+        if (!property || !value)
+        {
+            continue;
+        }
+
+        declarations.push({
+            property,
+            value,
+            important: !!importantMatch,
+        });
+    }
+
+    return declarations;
+}
+
+/**
+ * Parses the style rules of a stylesheet, e.g. the contents of a `<style />` element. At-rules, like `@media` or
+ * `@font-face`, are skipped.
+ *
+ * @public
+ * @param text - The stylesheet.
+ * @param orderOffset - The order of the first rule, used when multiple stylesheets are parsed.
+ */
+export function parseStyleSheet(text: string, orderOffset = 0): StyleRule[]
+{
+    const rules: StyleRule[] = [];
+    const css = text
+        .replace(/\/\*[\s\S]*?\*\//g, '')
+        .replace(/<!\[CDATA\[|\]\]>/g, '');
+
+    let index = 0;
+
+    while (index < css.length)
+    {
+        const openIndex = css.indexOf('{', index);
+
+        if (openIndex === -1)
+        {
+            break;
+        }
+
+        const prelude = css.slice(index, openIndex).trim();
+
+        // At-rules without a block, e.g. @import, end with a semicolon before the next block. Semicolons in
+        // strings, e.g. in url("a;b.css"), don't end them.
+        if (prelude.startsWith('@'))
+        {
+            const statements = splitTopLevel(css.slice(index, openIndex), ';');
+
+            if (statements.length > 1)
+            {
+                index += statements[0].length + 1;
+                continue;
+            }
+        }
+
+        const closeIndex = findBlockEnd(css, openIndex);
+
+        if (!prelude.startsWith('@'))
+        {
+            const declarations = parseStyleDeclarations(css.slice(openIndex + 1, closeIndex));
+            const selectors = splitTopLevel(prelude, ',');
+
+            for (let i = 0, j = selectors.length; i < j; i++)
+            {
+                const selector = selectors[i].trim();
+
+                if (selector)
+                {
+                    rules.push({
+                        selector,
+                        specificity: calculateSpecificity(selector),
+                        order: orderOffset + rules.length,
+                        declarations,
+                    });
+                }
+            }
+        }
+
+        index = closeIndex + 1;
+    }
+
+    return rules;
+}
@@ -0,0 +1,231 @@
+import { CanvasTextureAllocator } from '@pixi-essentials/texture-allocator';
+import { computeSignedDistanceField } from './computeSignedDistanceField';
+import { TextStyle } from '@pixi/text';
+
+import type { BaseImageResource, Texture } from '@pixi/core';
+
+/**
+ * A glyph whose signed distance field is rendered into an {@link SDFGlyphAtlas}. The metrics are in pixels at the
+ * font size of the atlas.
+ *
+ * @public
+ */
+export interface SDFGlyph
+{
+    /** The texture holding the distance field, or `null` for glyphs that don't draw anything, e.g. spaces. */
+    texture: Texture;
+
+    /** The horizontal offset of the texture from the glyph's origin on the baseline. */
+    x: number;
+
+    /** The vertical offset of the texture from the glyph's origin on the baseline. */
+    y: number;
+
+    /** The width of the texture. */
+    width: number;
+
+    /** The height of the texture. */
+    height: number;
+}
+
+/**
+ * The `SDFGlyphAtlas` renders the signed distance fields of glyphs on demand, and packs them into canvas-backed
+ * textures using a {@link CanvasTextureAllocator}. A distance field can be scaled without blurring, so each glyph
+ * is rendered only once, at the font size of the atlas.
+ *
+ * The distance is stored in the alpha channel: 0.5 lies on the outline of the glyph, and the distance changes by
+ * 0.5 over {@link SDFGlyphAtlas.radius} pixels.
+ *
+ * @public
+ */
+export class SDFGlyphAtlas
+{
+    /**
+     * The atlas shared by the text engines, by default.
+     */
+    static shared = new SDFGlyphAtlas();
+
+    /**
+     * The allocator packing the distance fields.
+     */
+    public readonly allocator: CanvasTextureAllocator;
+
+    /**
+     * The font size at which glyphs are rendered.
+     */
+    public readonly fontSize: number;
+
+    /**
+     * The distance, in pixels, over which the distance field spreads out of the glyph outline.
+     */
+    public readonly radius: number;
+
+    /**
+     * The canvas into which glyphs are rasterized before their distance field is computed.
+     */
+    protected canvas: HTMLCanvasElement;
+
+    /**
+     * The Canvas 2D context for `this.canvas`.
+     */
+    protected context: CanvasRenderingContext2D;
+
+    /**
+     * The glyphs rendered into this atlas, keyed by their font and character.
+     */
+    private glyphs: Map<string, SDFGlyph>;
+
+    /**
+     * @param allocator - The allocator used to pack the distance fields.
+     * @param fontSize - The font size at which glyphs are rendered.
+     * @param radius - The spread of the distance field, in pixels.
+     */
+    constructor(allocator = new CanvasTextureAllocator(1024, 1024), fontSize = 48, radius = 8)
+    {
+        this.allocator = allocator;
+        this.fontSize = fontSize;
+        this.radius = radius;
+        this.glyphs = new Map();
+    }
+
+    /**
+     * Generates the font string for the text style, at the font size of this atlas.
+     *
+     * @param style - The text style.
+     */
+    getFont(style: Partial<TextStyle>): string
+    {
+        return new TextStyle({ ...style, fontSize: this.fontSize }).toFontString();
+    }
+
+    /**
+     * Measures the offset of each character from the start of the text, at the font size of this atlas. Kerning is
+     * taken into account, but letter spacing is not.
+     *
+     * @param characters - The characters of the text.
+     * @param style - The style of the text.
+     */
+    measureOffsets(characters: string[], style: Partial<TextStyle>): number[]
+    {
+        const context = this.getContext();
+        const offsets = new Array(characters.length);
+        let prefix = '';
+
+        context.font = this.getFont(style);
+
+        for (let i = 0, j = characters.length; i < j; i++)
+        {
+            offsets[i] = prefix ? context.measureText(prefix).width : 0;
+            prefix += characters[i];
+        }
+
+        return offsets;
+    }
+
+    /**
+     * Finds the glyph for a character, rendering its distance field into this atlas if needed.
+     *
+     * @param char - The character.
+     * @param style - The style of the text, whose font size is ignored.
+     */
+    getGlyph(char: string, style: Partial<TextStyle>): SDFGlyph
+    {
+        const font = this.getFont(style);
+        const key = `${font}\u0000${char}`;
+        let glyph = this.glyphs.get(key);
+
+        if (!glyph)
+        {
+            glyph = this.renderGlyph(char, font);
+            this.glyphs.set(key, glyph);
+        }
+
+        return glyph;
+    }
+
+    /**
+     * Rasterizes the glyph, computes its distance field, and packs it into a texture.
+     *
+     * @param char - The character.
+     * @param font - The font string, at the font size of this atlas.
+     */
+    protected renderGlyph(char: string, font: string): SDFGlyph
+    {
+        const context = this.getContext();
+        const radius = this.radius;
+
+        context.font = font;
+
+        const metrics = context.measureText(char);
+        const left = Math.ceil(metrics.actualBoundingBoxLeft || 0);
+        const right = Math.ceil(metrics.actualBoundingBoxRight || metrics.width);
+        const top = Math.ceil(metrics.actualBoundingBoxAscent || this.fontSize);
+        const bottom = Math.ceil(metrics.actualBoundingBoxDescent || 0);
+        const glyphWidth = left + right;
+        const glyphHeight = top + bottom;
+
+        if (glyphWidth <= 0 || glyphHeight <= 0)
+        {
+            return { texture: null, x: 0, y: 0, width: 0, height: 0 };
+        }
+
+        const width = glyphWidth + (2 * radius);
+        const height = glyphHeight + (2 * radius);
+        const texture = this.allocator.allocate(width, height);
+
+        if (!texture)
+        {
+            console.warn('[PIXI.SVG] The glyph is too large for the SDF atlas:', char);
+
+            return { texture: null, x: 0, y: 0, width: 0, height: 0 };
+        }
+
+        const canvas = this.canvas;
+
+        if (canvas.width < width || canvas.height < height)
+        {
+            canvas.width = Math.max(canvas.width, width);
+            canvas.height = Math.max(canvas.height, height);
+            context.font = font;
+        }
+
+        context.clearRect(0, 0, width, height);
+        context.fillStyle = 'black';
+        context.textBaseline = 'alphabetic';
+        context.fillText(char, radius + left, radius + top);
+
+        const coverage = context.getImageData(0, 0, width, height).data;
+        const field = context.createImageData(width, height);
+
+        computeSignedDistanceField(coverage, width, height, radius, field.data);
+
+        const slab = (texture.baseTexture.resource as BaseImageResource).source as HTMLCanvasElement;
+
+        slab.getContext('2d').putImageData(field, texture.frame.x, texture.frame.y);
+        texture.baseTexture.update();
+
+        return {
+            texture,
+            x: -left - radius,
+            y: -top - radius,
+            width,
+            height,
+        };
+    }
+
+    /**
+     * Lazily creates the canvas used to rasterize glyphs.
+     */
+    private getContext(): CanvasRenderingContext2D
+    {
+        if (!this.context)
+        {
+            this.canvas = document.createElement('canvas');
+            this.canvas.width = this.fontSize * 2;
+            this.canvas.height = this.fontSize * 2;
+            this.context = this.canvas.getContext('2d');
+        }
+
+        return this.context;
+    }
+}
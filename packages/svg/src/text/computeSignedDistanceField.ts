@@ -0,0 +1,134 @@
+/**
+ * Used instead of infinity in distance transforms, so that no NaNs are produced.
+ *
+ * @ignore
+ */
+const INF = 1e20;
+
+/**
+ * Computes the squared 1D distance transform of a row or column of the grid, in place.
+ *
+ * @ignore
+ * @see http://cs.brown.edu/people/pfelzens/papers/dt-final.pdf
+ */
+function edt1d(
+    grid: Float64Array,
+    offset: number,
+    stride: number,
+    length: number,
+    f: Float64Array,
+    v: Uint16Array,
+    z: Float64Array,
+): void
+{
+    for (let q = 0; q < length; q++)
+    {
+        f[q] = grid[offset + (q * stride)];
+    }
+
+    v[0] = 0;
+    z[0] = -INF;
+    z[1] = INF;
+
+    for (let q = 1, k = 0; q < length; q++)
+    {
+        let s: number;
+
+        do
+        {
+            const r = v[k];
+
+            s = (f[q] - f[r] + (q * q) - (r * r)) / (q - r) / 2;
+        }
+        while (s <= z[k] && --k > -1);
+
+        k++;
+        v[k] = q;
+        z[k] = s;
+        z[k + 1] = INF;
+    }
+
+    for (let q = 0, k = 0; q < length; q++)
+    {
+        while (z[k + 1] < q)
+        {
+            k++;
+        }
+
+        const r = v[k];
+
+        grid[offset + (q * stride)] = f[r] + ((q - r) * (q - r));
+    }
+}
+
+/**
+ * Computes the squared 2D distance transform of the grid, in place.
+ *
+ * @ignore
+ */
+function edt(grid: Float64Array, width: number, height: number): void
+{
+    const length = Math.max(width, height);
+    const f = new Float64Array(length);
+    const v = new Uint16Array(length);
+    const z = new Float64Array(length + 1);
+
+    for (let x = 0; x < width; x++)
+    {
+        edt1d(grid, x, width, height, f, v, z);
+    }
+    for (let y = 0; y < height; y++)
+    {
+        edt1d(grid, y * width, 1, width, f, v, z);
+    }
+}
+
+/**
+ * Computes the signed distance field of a glyph from its rasterized coverage. The distance is stored in the alpha
+ * channel of the field: 0.5 lies on the outline, and the distance changes by 0.5 over `radius` pixels. The color
+ * channels are white.
+ *
+ * @ignore
+ * @param coverage - The RGBA pixels of the rasterized glyph, whose alpha channel is its coverage.
+ * @param width - The width of the pixel grid.
+ * @param height - The height of the pixel grid.
+ * @param radius - The distance, in pixels, over which the field spreads out of the outline.
+ * @param out - The RGBA pixels to write the field into.
+ */
+export function computeSignedDistanceField(
+    coverage: Uint8ClampedArray,
+    width: number,
+    height: number,
+    radius: number,
+    out = new Uint8ClampedArray(width * height * 4),
+): Uint8ClampedArray
+{
+    const outer = new Float64Array(width * height);
+    const inner = new Float64Array(width * height);
+
+    // The coverage of edge pixels approximates their subpixel distance to the outline.
+    for (let i = 0, j = width * height; i < j; i++)
+    {
+        const a = coverage[(4 * i) + 3] / 255;
+
+        /* eslint-disable no-nested-ternary */
+        outer[i] = a === 1 ? 0 : (a === 0 ? INF : Math.pow(Math.max(0, 0.5 - a), 2));
+        inner[i] = a === 1 ? INF : (a === 0 ? 0 : Math.pow(Math.max(0, a - 0.5), 2));
+        /* eslint-enable no-nested-ternary */
+    }
+
+    edt(outer, width, height);
+    edt(inner, width, height);
+
+    for (let i = 0, j = width * height; i < j; i++)
+    {
+        const distance = Math.sqrt(outer[i]) - Math.sqrt(inner[i]);
+
+        out[4 * i] = 255;
+        out[(4 * i) + 1] = 255;
+        out[(4 * i) + 2] = 255;
+        out[(4 * i) + 3] = Math.round(255 * (0.5 - (distance / (2 * radius))));
+    }
+
+    return out;
+}
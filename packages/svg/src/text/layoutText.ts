@@ -0,0 +1,571 @@
+import { Matrix } from '@pixi/math';
+import { TextMetrics, TextStyle } from '@pixi/text';
+import { getRootViewportSize, parseMeasurement } from '../utils/parseMeasurement';
+
+import type { IPointData } from '@pixi/math';
+import type { StyleResolver } from '../style/StyleResolver';
+import type { TextStyleFontStyle, TextStyleFontWeight } from '@pixi/text';
+
+/**
+ * The computed style of a text content element, which is inherited by its descendants.
+ *
+ * @public
+ */
+export interface TextLayoutStyle
+{
+    /** The style of the glyphs, passed to the text engine. */
+    textStyle: Partial<TextStyle>;
+
+    /** The alignment of each text chunk relative to its start position. */
+    textAnchor: 'start' | 'middle' | 'end';
+
+    /** The baseline that is aligned with the position of the glyphs, e.g. `alphabetic` or `middle`. */
+    dominantBaseline: string;
+
+    /** Whether white space is preserved, i.e. `xml:space="preserve"`. */
+    preserveSpaces: boolean;
+}
+
+/**
+ * A run of glyphs laid out by {@link layoutText}, which can be put into a {@link SVGTextEngine} as is.
+ *
+ * @public
+ */
+export interface TextRun
+{
+    /** The text content of the run. */
+    content: string;
+
+    /**
+     * The position of the run's alphabetic baseline origin. If a {@link TextRun.matrix} is provided, this is in the
+     * space of the matrix.
+     */
+    position: IPointData;
+
+    /** The style of the glyphs. */
+    style: Partial<TextStyle>;
+
+    /** The transform applied on the run, for rotated glyphs and glyphs on a text path. */
+    matrix?: Matrix;
+}
+
+/**
+ * An addressable character in a text element, after white space processing.
+ *
+ * @ignore
+ */
+interface TextCharacter
+{
+    char: string;
+    style: TextLayoutStyle;
+    textPath: SVGTextPathElement;
+    x: number;
+    y: number;
+    dx: number;
+    dy: number;
+    rotate: number;
+}
+
+/**
+ * A glyph run before it is positioned.
+ *
+ * @ignore
+ */
+interface PendingRun
+{
+    content: string;
+    style: TextLayoutStyle;
+    textPath: SVGTextPathElement;
+    x: number;
+    y: number;
+    dx: number;
+    dy: number;
+    rotate: number;
+    advance: number;
+    chunkStart: boolean;
+
+    // The computed start position of the run, along the text path for runs on a path.
+    px?: number;
+    py?: number;
+}
+
+/**
+ * Computes the style of a text content element.
+ *
+ * @ignore
+ * @param element - The text content element.
+ * @param parentStyle - The style of its parent.
+ * @param styleResolver - Resolves the cascaded style of the element.
+ */
+function resolveTextLayoutStyle(
+    element: Element,
+    parentStyle: TextLayoutStyle,
+    styleResolver: StyleResolver,
+): TextLayoutStyle
+{
+    const getStyle = (property: string): string => (styleResolver
+        ? styleResolver.getPropertyValue(element, property)
+        : element.getAttribute(property));
+
+    const parentTextStyle = parentStyle.textStyle;
+    const fill = getStyle('fill');
+    const fontFamily = getStyle('font-family');
+    const parentFontSize = (parentStyle.textStyle.fontSize as number) || 16;
+    const fontSizeValue = getStyle('font-size');
+    const fontSize = fontSizeValue
+        ? parseMeasurement(fontSizeValue, parentFontSize, {
+            percentageBase: parentFontSize,
+            rootViewport: getRootViewportSize(element),
+        })
+        : NaN;
+    const fontStyle = getStyle('font-style');
+    const fontWeight = getStyle('font-weight');
+    const letterSpacing = getStyle('letter-spacing');
+    const textAnchor = getStyle('text-anchor');
+    const dominantBaseline = getStyle('dominant-baseline');
+    const xmlSpace = element.getAttribute('xml:space');
+
+    const textStyle: Partial<TextStyle> = { ...parentTextStyle };
+
+    textStyle.fill = fill || parentTextStyle.fill || 'black';
+    textStyle.fontFamily = fontFamily || !parentTextStyle.fontFamily
+        ? `${fontFamily || 'serif'}, serif`
+        : parentTextStyle.fontFamily;
+    textStyle.fontSize = !isNaN(fontSize) ? fontSize : parentTextStyle.fontSize;
+    textStyle.fontStyle = (fontStyle as TextStyleFontStyle) || parentTextStyle.fontStyle || 'normal';
+    textStyle.fontWeight = (fontWeight as TextStyleFontWeight) || parentTextStyle.fontWeight || 'normal';
+    textStyle.letterSpacing = letterSpacing && letterSpacing !== 'normal'
+        ? parseMeasurement(letterSpacing, textStyle.fontSize as number)
+        : (parentTextStyle.letterSpacing || 0);
+
+    return {
+        textStyle,
+        textAnchor: textAnchor === 'middle' || textAnchor === 'end' || textAnchor === 'start'
+            ? textAnchor
+            : parentStyle.textAnchor,
+        dominantBaseline: dominantBaseline || parentStyle.dominantBaseline,
+        preserveSpaces: xmlSpace ? xmlSpace === 'preserve' : parentStyle.preserveSpaces,
+    };
+}
+
+/**
+ * Calculates the offset along the y-axis that aligns the dominant baseline of the glyphs with their position,
+ * instead of the alphabetic baseline.
+ *
+ * @ignore
+ * @param style - The style of the glyphs.
+ */
+function computeBaselineShift(style: TextLayoutStyle): number
+{
+    if (!style.dominantBaseline || style.dominantBaseline === 'auto' || style.dominantBaseline === 'alphabetic')
+    {
+        return 0;
+    }
+
+    const { ascent, descent } = TextMetrics.measureFont(new TextStyle(style.textStyle).toFontString());
+
+    switch (style.dominantBaseline)
+    {
+        case 'middle':
+        case 'central':
+            return (ascent - descent) / 2;
+        case 'mathematical':
+            return ascent / 2;
+        case 'hanging':
+            return ascent * 0.8;
+        case 'text-before-edge':
+        case 'text-top':
+            return ascent;
+        case 'text-after-edge':
+        case 'text-bottom':
+        case 'ideographic':
+            return -descent;
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Finds the path referenced by a `<textPath />` element.
+ *
+ * @ignore
+ * @param textPath - The text path element.
+ */
+function findTextPathGeometry(textPath: SVGTextPathElement): SVGGeometryElement
+{
+    const href = textPath.getAttribute('href') || textPath.getAttribute('xlink:href');
+
+    if (!href || !href.startsWith('#'))
+    {
+        return null;
+    }
+
+    let root: Element = textPath;
+
+    while (root.parentElement)
+    {
+        root = root.parentElement;
+    }
+
+    const path = root.querySelector(href);
+
+    return path instanceof SVGGeometryElement ? path : null;
+}
+
+/**
+ * Collects the addressable characters of a text content element, collapsing white space unless it is preserved.
+ *
+ * @ignore
+ */
+function collectCharacters(
+    element: Element,
+    parentStyle: TextLayoutStyle,
+    textPath: SVGTextPathElement,
+    styleResolver: StyleResolver,
+    characters: TextCharacter[],
+    ranges: Array<{ element: Element, start: number, end: number }>,
+): void
+{
+    const style = resolveTextLayoutStyle(element, parentStyle, styleResolver);
+    const range = { element, start: characters.length, end: characters.length };
+
+    // Ranges are recorded in pre-order, so that descendants override the positions assigned by ancestors.
+    ranges.push(range);
+
+    if (element instanceof SVGTextPathElement && !textPath)
+    {
+        textPath = element;
+    }
+
+    const childNodes = element.childNodes;
+
+    for (let i = 0, j = childNodes.length; i < j; i++)
+    {
+        const childNode = childNodes.item(i);
+
+        /* eslint-disable-next-line no-undef */
+        if (childNode instanceof globalThis.Text)
+        {
+            const chars = Array.from(childNode.data);
+
+            for (let k = 0, l = chars.length; k < l; k++)
+            {
+                let char = chars[k];
+
+                if ((/\s/).test(char))
+                {
+                    char = ' ';
+
+                    if (!style.preserveSpaces)
+                    {
+                        const previous = characters[characters.length - 1];
+
+                        // Leading spaces and consecutive spaces are collapsed.
+                        if (!previous || previous.char === ' ')
+                        {
+                            continue;
+                        }
+                    }
+                }
+
+                characters.push({
+                    char,
+                    style,
+                    textPath,
+                    x: null,
+                    y: null,
+                    dx: 0,
+                    dy: 0,
+                    rotate: null,
+                });
+            }
+        }
+        else if (childNode instanceof SVGTSpanElement
+            || childNode instanceof SVGTextPathElement
+            || childNode instanceof SVGAElement)
+        {
+            collectCharacters(childNode, style, textPath, styleResolver, characters, ranges);
+        }
+    }
+
+    range.end = characters.length;
+}
+
+/**
+ * Assigns the values of the `x`, `y`, `dx`, `dy`, and `rotate` lists of each element to its characters. The
+ * absolute positions of characters on a text path are ignored, because they're positioned along the path.
+ *
+ * @ignore
+ */
+function assignCharacterPositions(
+    characters: TextCharacter[],
+    ranges: Array<{ element: Element, start: number, end: number }>,
+): void
+{
+    for (let i = 0, j = ranges.length; i < j; i++)
+    {
+        const { element, start } = ranges[i];
+        const end = Math.min(ranges[i].end, characters.length);
+
+        if (!(element instanceof SVGTextPositioningElement))
+        {
+            continue;
+        }
+
+        const { x, y, dx, dy, rotate } = element;
+
+        for (let k = 0; k < end - start; k++)
+        {
+            const character = characters[start + k];
+
+            if (k < x.baseVal.length && !character.textPath)
+            {
+                character.x = x.baseVal.getItem(k).value;
+            }
+            if (k < y.baseVal.length && !character.textPath)
+            {
+                character.y = y.baseVal.getItem(k).value;
+            }
+            if (k < dx.baseVal.length)
+            {
+                character.dx = dx.baseVal.getItem(k).value;
+            }
+            if (k < dy.baseVal.length)
+            {
+                character.dy = dy.baseVal.getItem(k).value;
+            }
+
+            // The last rotation applies to the remaining characters.
+            if (rotate.baseVal.length > 0)
+            {
+                character.rotate = rotate.baseVal.getItem(Math.min(k, rotate.baseVal.length - 1)).value;
+            }
+        }
+    }
+}
+
+/**
+ * Lays out the content of a `<text />` element into glyph runs, which can be put into a text engine. This handles
+ * nested `<tspan />` & `<textPath />` elements, the `x`, `y`, `dx`, `dy`, and `rotate` lists, `text-anchor`,
+ * `dominant-baseline`, `letter-spacing`, and white space processing.
+ *
+ * Characters are grouped into a run until their style changes or they are positioned explicitly. Rotated
+ * characters and characters on a text path are laid out individually.
+ *
+ * @public
+ * @param element - The text element. A `<tspan />` can be passed to lay it out independently.
+ * @param baseStyle - The base style of the text, which is inherited by the element.
+ * @param styleResolver - Resolves the cascaded style of the text content elements.
+ * @return The laid out runs, in document order.
+ * @see https://www.w3.org/TR/SVG2/text.html#TextLayoutAlgorithm
+ */
+export function layoutText(
+    element: SVGTextContentElement,
+    baseStyle: Partial<TextStyle> = {},
+    styleResolver: StyleResolver = null,
+): TextRun[]
+{
+    const characters: TextCharacter[] = [];
+    const ranges: Array<{ element: Element, start: number, end: number }> = [];
+
+    collectCharacters(
+        element,
+        { textStyle: baseStyle, textAnchor: 'start', dominantBaseline: 'auto', preserveSpaces: false },
+        null,
+        styleResolver,
+        characters,
+        ranges,
+    );
+
+    // Trailing spaces are collapsed too.
+    while (characters.length > 0
+        && characters[characters.length - 1].char === ' '
+        && !characters[characters.length - 1].style.preserveSpaces)
+    {
+        characters.pop();
+    }
+
+    assignCharacterPositions(characters, ranges);
+
+    // Group the characters into runs.
+    const pendingRuns: PendingRun[] = [];
+    let lastRun: PendingRun = null;
+
+    for (let i = 0, j = characters.length; i < j; i++)
+    {
+        const character = characters[i];
+        const isPositioned = character.x !== null || character.y !== null || character.dx !== 0 || character.dy !== 0;
+        const isIsolated = !!character.textPath || !!character.rotate;
+
+        if (lastRun
+            && !isPositioned
+            && !isIsolated
+            && lastRun.rotate === null
+            && !lastRun.textPath
+            && lastRun.style === character.style)
+        {
+            lastRun.content += character.char;
+            continue;
+        }
+
+        lastRun = {
+            content: character.char,
+            style: character.style,
+            textPath: character.textPath,
+            x: character.x,
+            y: character.y,
+            dx: character.dx,
+            dy: character.dy,
+            rotate: character.rotate || null,
+            advance: 0,
+            chunkStart: i === 0
+                || character.x !== null
+                || character.y !== null
+                || character.textPath !== characters[i - 1].textPath,
+        };
+
+        pendingRuns.push(lastRun);
+    }
+
+    // Position the runs, and then align each text chunk by its anchor.
+    let currentX = 0;
+    let currentY = 0;
+    let chunkStartIndex = 0;
+
+    const alignChunk = (endIndex: number): void =>
+    {
+        if (endIndex <= chunkStartIndex)
+        {
+            return;
+        }
+
+        const first = pendingRuns[chunkStartIndex];
+        const last = pendingRuns[endIndex - 1];
+        const chunkWidth = last.px + last.advance - (last.style.textStyle.letterSpacing || 0) - first.px;
+        let shift = 0;
+
+        if (first.style.textAnchor === 'middle')
+        {
+            shift = -chunkWidth / 2;
+        }
+        else if (first.style.textAnchor === 'end')
+        {
+            shift = -chunkWidth;
+        }
+
+        for (let i = chunkStartIndex; i < endIndex; i++)
+        {
+            pendingRuns[i].px += shift;
+        }
+    };
+
+    for (let i = 0, j = pendingRuns.length; i < j; i++)
+    {
+        const run = pendingRuns[i];
+
+        if (run.chunkStart)
+        {
+            alignChunk(i);
+            chunkStartIndex = i;
+
+            // The position along a text path starts at its start offset.
+            if (run.textPath && (i === 0 || run.textPath !== pendingRuns[i - 1].textPath))
+            {
+                currentX = 0;
+                currentY = 0;
+            }
+        }
+
+        currentX = (run.x !== null ? run.x : currentX) + run.dx;
+        currentY = (run.y !== null ? run.y : currentY) + run.dy;
+
+        const textStyle = run.style.textStyle;
+
+        run.advance = TextMetrics.measureText(run.content, new TextStyle(textStyle), false).width
+            + (textStyle.letterSpacing || 0);
+        run.px = currentX;
+        run.py = currentY;
+
+        currentX += run.advance;
+    }
+
+    alignChunk(pendingRuns.length);
+
+    // Map the runs onto their text paths, and emit them.
+    const runs: TextRun[] = [];
+
+    for (let i = 0, j = pendingRuns.length; i < j; i++)
+    {
+        const run = pendingRuns[i];
+        const baselineShift = computeBaselineShift(run.style);
+
+        if (run.textPath)
+        {
+            const path = findTextPathGeometry(run.textPath);
+
+            if (!path)
+            {
+                continue;
+            }
+
+            const totalLength = path.getTotalLength();
+            const startOffset = run.textPath.startOffset.baseVal;
+            const offset = startOffset.unitType === SVGLength.SVG_LENGTHTYPE_PERCENTAGE
+                ? startOffset.valueInSpecifiedUnits / 100 * totalLength
+                : startOffset.value;
+
+            // The midpoint of each glyph is placed on the path, and glyphs beyond its ends are not rendered.
+            const midpoint = offset + run.px + (run.advance / 2);
+
+            if (midpoint < 0 || midpoint > totalLength)
+            {
+                continue;
+            }
+
+            const transform = path.transform.baseVal.consolidate();
+            const pathMatrix = transform ? transform.matrix : null;
+            const point = path.getPointAtLength(midpoint);
+            const before = path.getPointAtLength(Math.max(0, midpoint - 0.5));
+            const after = path.getPointAtLength(Math.min(totalLength, midpoint + 0.5));
+            const matrix = new Matrix()
+                .rotate(Math.atan2(after.y - before.y, after.x - before.x))
+                .translate(point.x, point.y);
+
+            // The transform of the path maps its geometry into the user space of the text.
+            if (pathMatrix)
+            {
+                matrix.prepend(new Matrix(
+                    pathMatrix.a, pathMatrix.b, pathMatrix.c, pathMatrix.d, pathMatrix.e, pathMatrix.f,
+                ));
+            }
+
+            runs.push({
+                content: run.content,
+                position: { x: -run.advance / 2, y: run.py + baselineShift },
+                style: run.style.textStyle,
+                matrix,
+            });
+        }
+        else if (run.rotate)
+        {
+            runs.push({
+                content: run.content,
+                position: { x: 0, y: baselineShift },
+                style: run.style.textStyle,
+                matrix: new Matrix()
+                    .rotate(run.rotate * Math.PI / 180)
+                    .translate(run.px, run.py),
+            });
+        }
+        else
+        {
+            runs.push({
+                content: run.content,
+                position: { x: run.px, y: run.py + baselineShift },
+                style: run.style.textStyle,
+            });
+        }
+    }
+
+    return runs;
+}
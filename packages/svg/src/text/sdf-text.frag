@@ -0,0 +1,20 @@
+varying vec2 vTextureCoord;
+varying vec4 vColor;
+varying float vFontScale;
+
+uniform sampler2D uSampler;
+uniform float uAlpha;
+uniform float uRadius;
+uniform float uScale;
+
+void main(void)
+{
+    float distance = texture2D(uSampler, vTextureCoord).a;
+
+    // The change in distance over about a pixel on the screen, which sets the width of the anti-aliased edge.
+    float edgeWidth = 0.7 / (2.0 * uRadius * max(uScale * vFontScale, 0.0001));
+    float coverage = smoothstep(0.5 - edgeWidth, 0.5 + edgeWidth, distance);
+    float alpha = vColor.a * coverage * uAlpha;
+
+    gl_FragColor = vec4(vColor.rgb * alpha, alpha);
+}
@@ -0,0 +1,20 @@
+attribute vec2 aVertexPosition;
+attribute vec2 aTextureCoord;
+attribute vec4 aColor;
+attribute float aFontScale;
+
+uniform mat3 projectionMatrix;
+uniform mat3 translationMatrix;
+
+varying vec2 vTextureCoord;
+varying vec4 vColor;
+varying float vFontScale;
+
+void main(void)
+{
+    gl_Position = vec4((projectionMatrix * translationMatrix * vec3(aVertexPosition, 1.0)).xy, 0.0, 1.0);
+
+    vTextureCoord = aTextureCoord;
+    vColor = aColor;
+    vFontScale = aFontScale;
+}
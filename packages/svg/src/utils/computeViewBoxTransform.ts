@@ -0,0 +1,51 @@
+import { Matrix } from '@pixi/math';
+
+/**
+ * Calculates the transform that maps a `viewBox` onto a viewport of the given size at the origin, honoring
+ * `preserveAspectRatio`.
+ *
+ * @ignore
+ * @param viewBox - The rectangle in user space that should fit in the viewport.
+ * @param preserveAspectRatio - How the view-box is aligned in the viewport. If `null`, it is centered & scaled
+ *  to fit (i.e. `xMidYMid meet`).
+ * @param width - The width of the viewport.
+ * @param height - The height of the viewport.
+ * @param out - The matrix to write the transform into.
+ * @see https://svgwg.org/svg2-draft/coords.html#ComputingAViewportsTransform
+ */
+export function computeViewBoxTransform(
+    viewBox: { x: number, y: number, width: number, height: number },
+    preserveAspectRatio: SVGPreserveAspectRatio | null,
+    width: number,
+    height: number,
+    out = new Matrix(),
+): Matrix
+{
+    const align = preserveAspectRatio ? preserveAspectRatio.align : SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_XMIDYMID;
+    const slice = preserveAspectRatio
+        ? preserveAspectRatio.meetOrSlice === SVGPreserveAspectRatio.SVG_MEETORSLICE_SLICE
+        : false;
+
+    let scaleX = viewBox.width > 0 ? width / viewBox.width : 0;
+    let scaleY = viewBox.height > 0 ? height / viewBox.height : 0;
+
+    if (align !== SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_NONE)
+    {
+        scaleX = scaleY = slice ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    }
+
+    let translateX = -viewBox.x * scaleX;
+    let translateY = -viewBox.y * scaleY;
+
+    if (align !== SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_NONE)
+    {
+        // The alignments go xMinYMin, xMidYMin, xMaxYMin, xMinYMid, ..., xMaxYMax
+        const alignX = (align - SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_XMINYMIN) % 3;
+        const alignY = Math.floor((align - SVGPreserveAspectRatio.SVG_PRESERVEASPECTRATIO_XMINYMIN) / 3);
+
+        translateX += alignX * (width - (viewBox.width * scaleX)) / 2;
+        translateY += alignY * (height - (viewBox.height * scaleY)) / 2;
+    }
+
+    return out.set(scaleX, 0, 0, scaleY, translateX, translateY);
+}
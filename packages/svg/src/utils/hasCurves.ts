@@ -0,0 +1,22 @@
+/**
+ * Whether the element is drawn with curves, which are tessellated at the curve scale of its node. These elements are
+ * rebuilt when the curve scale of the scene changes.
+ *
+ * @ignore
+ * @param element - The element.
+ */
+export function hasCurves(element: Element): boolean
+{
+    switch (element.nodeName.toLowerCase())
+    {
+        case 'circle':
+        case 'ellipse':
+            return true;
+        case 'path':
+            return (/[aAcCqQsStT]/).test(element.getAttribute('d') || '');
+        case 'rect':
+            return parseFloat(element.getAttribute('rx')) > 0 || parseFloat(element.getAttribute('ry')) > 0;
+        default:
+            return false;
+    }
+}
@@ -1,21 +1,209 @@
 /**
- * Parses font measurements, e.g. '14px', '.5em'
+ * The number of pixels in each absolute unit.
+ *
  * @ignore
+ * @see https://www.w3.org/TR/css-values-3/#absolute-lengths
  */
-export function parseMeasurement(mes: string, fontSize = 16): number
+const ABSOLUTE_UNITS: Record<string, number> = {
+    px: 1,
+    in: 96,
+    cm: 96 / 2.54,
+    mm: 96 / 25.4,
+    q: 96 / 101.6,
+    pt: 96 / 72,
+    pc: 16,
+};
+
+/**
+ * The size of a viewport, in user units.
+ *
+ * @ignore
+ */
+export interface ViewportSize
+{
+    width: number;
+    height: number;
+}
+
+/**
+ * Options used to resolve relative lengths in {@link parseMeasurement}.
+ *
+ * @ignore
+ */
+export interface MeasurementOptions
+{
+    /**
+     * The length a percentage is relative to. Use {@link getPercentageBase} for lengths relative to the viewport.
+     * If not provided, percentages are returned as is.
+     */
+    percentageBase?: number;
+
+    /**
+     * The font size of the root element, used to resolve `rem`.
+     */
+    rootFontSize?: number;
+
+    /**
+     * The size of the outermost viewport, used to resolve `vw`, `vh`, `vmin`, and `vmax`.
+     */
+    rootViewport?: ViewportSize;
+}
+
+/**
+ * Parses font measurements & lengths into pixels (user units), e.g. '14px', '.5em', '2mm', '50%'
+ *
+ * @ignore
+ * @param mes - The measurement.
+ * @param fontSize - The font size, used to resolve `em` & `ex`.
+ * @param options - Options used to resolve other relative units.
+ */
+export function parseMeasurement(mes: string, fontSize = 16, options: MeasurementOptions = {}): number
 {
     if (!mes)
     {
         return 0;
     }
 
-    // TODO: Handle non-px/em units
+    const match = (/^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-z]+|%)?\s*$/i).exec(mes);
+
+    if (!match)
+    {
+        return parseFloat(mes);
+    }
+
+    const value = parseFloat(match[1]);
+    const unit = match[2] ? match[2].toLowerCase() : 'px';
+
+    if (unit in ABSOLUTE_UNITS)
+    {
+        return value * ABSOLUTE_UNITS[unit];
+    }
+
+    const { percentageBase, rootFontSize = 16, rootViewport } = options;
+
+    switch (unit)
+    {
+        case '%':
+            return percentageBase !== undefined ? value * percentageBase / 100 : value;
+        case 'em':
+            return value * fontSize;
+        case 'ex':
+            // The x-height is approximated as half of the font size.
+            return value * fontSize / 2;
+        case 'rem':
+            return value * rootFontSize;
+        case 'vw':
+            return rootViewport ? value * rootViewport.width / 100 : value;
+        case 'vh':
+            return rootViewport ? value * rootViewport.height / 100 : value;
+        case 'vmin':
+            return rootViewport ? value * Math.min(rootViewport.width, rootViewport.height) / 100 : value;
+        case 'vmax':
+            return rootViewport ? value * Math.max(rootViewport.width, rootViewport.height) / 100 : value;
+        default:
+            return value;
+    }
+}
+
+/**
+ * Calculates the length that percentages are relative to in a viewport. Horizontal lengths are relative to the
+ * width, vertical lengths to the height, and other lengths (like `stroke-width`) to the normalized diagonal.
+ *
+ * @ignore
+ * @param viewport - The size of the viewport.
+ * @param direction - The direction in which the length is measured.
+ * @see https://www.w3.org/TR/SVG2/coords.html#Units
+ */
+export function getPercentageBase(viewport: ViewportSize, direction: 'width' | 'height' | 'diagonal'): number
+{
+    switch (direction)
+    {
+        case 'width':
+            return viewport.width;
+        case 'height':
+            return viewport.height;
+        default:
+            return Math.sqrt(((viewport.width * viewport.width) + (viewport.height * viewport.height)) / 2);
+    }
+}
+
+/**
+ * Calculates the size of the viewport established by a `<svg />` element. This is the size of its `viewBox`, if it
+ * has one; otherwise, it is its `width` and `height`, which default to the size of the parent viewport.
+ *
+ * @ignore
+ * @param svg - The `<svg />` element.
+ */
+export function getViewportSizeOf(svg: Element): ViewportSize
+{
+    const viewBox = svg.getAttribute('viewBox');
+
+    if (viewBox)
+    {
+        const [, , width, height] = viewBox.trim().split(/[\s,]+/).map((num) => parseFloat(num));
+
+        if (width > 0 && height > 0)
+        {
+            return { width, height };
+        }
+    }
+
+    return getIntrinsicSize(svg);
+}
+
+/**
+ * Calculates the size of a `<svg />` element in its parent's user space, from its `width` and `height`. When
+ * those are not absolute, the size of the parent viewport is used; if there is no parent, the outermost viewport
+ * defaults to 300x150, like other replaced elements.
+ *
+ * @ignore
+ * @param svg - The `<svg />` element.
+ */
+export function getIntrinsicSize(svg: Element): ViewportSize
+{
+    const parentSVG = svg.parentElement ? svg.parentElement.closest('svg') : null;
+    const parentViewport = parentSVG ? getViewportSizeOf(parentSVG) : { width: 300, height: 150 };
+    const width = svg.getAttribute('width');
+    const height = svg.getAttribute('height');
+
+    return {
+        width: width && width !== 'auto'
+            ? parseMeasurement(width, 16, { percentageBase: parentViewport.width })
+            : parentViewport.width,
+        height: height && height !== 'auto'
+            ? parseMeasurement(height, 16, { percentageBase: parentViewport.height })
+            : parentViewport.height,
+    };
+}
+
+/**
+ * Calculates the size of the nearest viewport of an element, i.e. the viewport established by its closest ancestor
+ * `<svg />` element.
+ *
+ * @ignore
+ * @param element - The element.
+ */
+export function getViewportSize(element: Element): ViewportSize
+{
+    const svg = element.parentElement ? element.parentElement.closest('svg') : null;
+
+    return svg ? getViewportSizeOf(svg) : { width: 300, height: 150 };
+}
+
+/**
+ * Calculates the size of the outermost viewport of an element, which `vw` & `vh` units are relative to.
+ *
+ * @ignore
+ * @param element - The element.
+ */
+export function getRootViewportSize(element: Element): ViewportSize
+{
+    let root: Element = null;
 
-    // Handle em
-    if (mes.includes('em'))
+    for (let svg = element.closest('svg'); svg; svg = svg.parentElement ? svg.parentElement.closest('svg') : null)
     {
-        return parseFloat(mes) * fontSize;
+        root = svg;
     }
 
-    return parseFloat(mes);
+    return root ? getIntrinsicSize(root) : { width: 300, height: 150 };
 }
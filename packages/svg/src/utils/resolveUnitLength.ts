@@ -0,0 +1,25 @@
+/**
+ * Resolves a length of a paint server or a filter, e.g. the `x` of a pattern's tile, which may be relative to
+ * the bounding box of the element it is applied on.
+ *
+ * @ignore
+ * @param length - The length attribute.
+ * @param bboxUnits - Whether the length is in `objectBoundingBox` units.
+ * @param bboxLength - The corresponding dimension of the bounding box.
+ */
+export function resolveUnitLength(length: SVGAnimatedLength, bboxUnits: boolean, bboxLength: number): number
+{
+    const baseVal = length.baseVal;
+
+    if (!bboxUnits)
+    {
+        return baseVal.value;
+    }
+
+    // Fractions & percentages of the bounding box
+    const fraction = baseVal.unitType === SVGLength.SVG_LENGTHTYPE_PERCENTAGE
+        ? baseVal.valueInSpecifiedUnits / 100
+        : baseVal.valueInSpecifiedUnits;
+
+    return fraction * bboxLength;
+}
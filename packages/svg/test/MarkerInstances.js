@@ -0,0 +1,60 @@
+const { MarkerInstances } = require('../');
+const { Container } = require('@pixi/display');
+const { Graphics } = require('@pixi/graphics');
+const { Matrix } = require('@pixi/math');
+
+describe('MarkerInstances', () =>
+{
+    it('should render the content once for each instance', () =>
+    {
+        const positions = [];
+        const probe = new Container();
+        const content = new Container();
+
+        probe.render = function render()
+        {
+            positions.push([this.worldTransform.tx, this.worldTransform.ty]);
+        };
+        content.addChild(probe);
+
+        const parent = new Container();
+        const instances = parent.addChild(new MarkerInstances(content, [
+            new Matrix().translate(10, 20),
+            new Matrix().rotate(Math.PI / 2).translate(30, 40),
+        ]));
+
+        instances.updateTransform();
+        instances.render({});
+
+        expect(positions).to.deep.equal([[10, 20], [30, 40]]);
+        expect(instances.children.length).to.equal(0);
+    });
+
+    it('should include every instance in its bounds', () =>
+    {
+        const content = new Container();
+
+        content.addChild(new Graphics().beginFill(0).drawRect(0, 0, 10, 10).endFill());
+
+        const instances = new MarkerInstances(content, [
+            new Matrix(),
+            new Matrix().scale(2, 2).translate(100, 50),
+        ]);
+        const bounds = instances.getBounds();
+
+        expect(bounds.x).to.equal(0);
+        expect(bounds.y).to.equal(0);
+        expect(bounds.width).to.equal(120);
+        expect(bounds.height).to.equal(70);
+    });
+
+    it('should destroy its content', () =>
+    {
+        const content = new Container();
+        const instances = new MarkerInstances(content, [new Matrix()]);
+
+        instances.destroy({ children: true });
+
+        expect(content._destroyed).to.equal(true);
+    });
+});
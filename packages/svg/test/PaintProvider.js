@@ -0,0 +1,78 @@
+const { PaintProvider } = require('../');
+
+describe('PaintProvider', () =>
+{
+    function parseSVG(markup)
+    {
+        return new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+    }
+
+    function strokeWidth(width, viewport = 'viewBox="0 0 300 400"')
+    {
+        const svg = parseSVG(`<svg xmlns="http://www.w3.org/2000/svg" ${viewport}><rect stroke-width="${width}" /></svg>`);
+
+        return new PaintProvider(svg.querySelector('rect')).strokeWidth;
+    }
+
+    it('should parse unitless lengths and pixels', () =>
+    {
+        expect(strokeWidth('12')).to.equal(12);
+        expect(strokeWidth(' 12.5px ')).to.equal(12.5);
+        expect(strokeWidth('.5')).to.equal(0.5);
+        expect(strokeWidth('1e2')).to.equal(100);
+    });
+
+    it('should convert absolute units into pixels', () =>
+    {
+        expect(strokeWidth('1in')).to.equal(96);
+        expect(strokeWidth('2.54cm')).to.be.closeTo(96, 1e-9);
+        expect(strokeWidth('25.4mm')).to.be.closeTo(96, 1e-9);
+        expect(strokeWidth('101.6Q')).to.be.closeTo(96, 1e-9);
+        expect(strokeWidth('72pt')).to.be.closeTo(96, 1e-9);
+        expect(strokeWidth('6pc')).to.equal(96);
+    });
+
+    it('should resolve font-relative units', () =>
+    {
+        expect(strokeWidth('2em')).to.equal(32);
+        expect(strokeWidth('2ex')).to.equal(16);
+        expect(strokeWidth('2rem')).to.equal(32);
+    });
+
+    it('should resolve percentages against the diagonal of the viewport', () =>
+    {
+        expect(strokeWidth('10%')).to.be.closeTo(50 / Math.SQRT2, 1e-9);
+    });
+
+    it('should resolve viewport units against the root viewport', () =>
+    {
+        const viewport = 'width="200" height="100" viewBox="0 0 20 10"';
+
+        expect(strokeWidth('10vw', viewport)).to.equal(20);
+        expect(strokeWidth('10vh', viewport)).to.equal(10);
+        expect(strokeWidth('10vmin', viewport)).to.equal(10);
+        expect(strokeWidth('10vmax', viewport)).to.equal(20);
+    });
+
+    it('should resolve lengths in nested viewports', () =>
+    {
+        const svg = parseSVG(`
+            <svg xmlns="http://www.w3.org/2000/svg" width="20mm" height="10mm" viewBox="0 0 200 100">
+                <svg width="50%" height="40"><rect stroke-width="10%" stroke-dasharray="10vw, 1in" /></svg>
+            </svg>
+        `);
+        const paint = new PaintProvider(svg.querySelector('rect'));
+
+        expect(paint.strokeWidth).to.be.closeTo(Math.sqrt(((100 * 100) + (40 * 40)) / 2) / 10, 1e-9);
+        expect(paint.strokeDashArray[0]).to.be.closeTo(2 * 96 / 25.4, 1e-9);
+        expect(paint.strokeDashArray[1]).to.equal(96);
+    });
+
+    it('should default the size of the outermost viewport to 300x150', () =>
+    {
+        const viewport = 'width="auto"';
+
+        expect(strokeWidth('10vw', viewport)).to.equal(30);
+        expect(strokeWidth('10vh', viewport)).to.equal(15);
+    });
+});
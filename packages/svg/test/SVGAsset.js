@@ -0,0 +1,81 @@
+const { decodeSVGAsset, encodeSVGAsset, indexSVGElements, parseSVGDescription } = require('../');
+
+describe('SVGAsset', () =>
+{
+    it('should round-trip the description, curve scale and shapes', () =>
+    {
+        const asset = {
+            description: {
+                version: 1,
+                root: { name: 'svg', attributes: { viewBox: '0 0 10 10' }, children: [] },
+            },
+            curveScale: 4,
+            shapes: [{
+                element: 1,
+                name: 'path',
+                id: 'triangle',
+                geometry: {
+                    bounds: [0, 0, 10, 10],
+                    points: new Float32Array([0, 0, 10, 0, 10, 10]),
+                    uvs: new Float32Array([0, 0, 1, 0, 1, 1]),
+                    indices: new Uint16Array([0, 1, 2]),
+                    batches: [{
+                        line: false,
+                        native: false,
+                        color: 0xff0000,
+                        alpha: 0.5,
+                        texture: -1,
+                        start: 0,
+                        size: 3,
+                        attribStart: 0,
+                        attribSize: 3,
+                    }],
+                },
+            }],
+        };
+
+        const decoded = decodeSVGAsset(encodeSVGAsset(asset));
+        const shape = decoded.shapes[0];
+        const geometry = shape.geometry;
+
+        expect(decoded.description).to.deep.equal(asset.description);
+        expect(decoded.curveScale).to.equal(4);
+        expect(shape.element).to.equal(1);
+        expect(shape.name).to.equal('path');
+        expect(shape.id).to.equal('triangle');
+        expect(geometry.bounds).to.deep.equal([0, 0, 10, 10]);
+        expect(Array.from(geometry.points)).to.deep.equal([0, 0, 10, 0, 10, 10]);
+        expect(Array.from(geometry.uvs)).to.deep.equal([0, 0, 1, 0, 1, 1]);
+        expect(geometry.indices).to.be.instanceOf(Uint16Array);
+        expect(Array.from(geometry.indices)).to.deep.equal([0, 1, 2]);
+        expect(geometry.batches).to.deep.equal(asset.shapes[0].geometry.batches);
+    });
+
+    it('should index elements in the order of the description', () =>
+    {
+        const markup = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:sodipodi="http://sodipodi.sourceforge.net">
+            <sodipodi:namedview><rect /></sodipodi:namedview>
+            <g><metadata><rect /></metadata><rect id="a" /></g>
+            <circle id="b" />
+        </svg>`;
+        const content = new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement;
+        const indices = indexSVGElements(content);
+        const description = parseSVGDescription(markup);
+
+        expect(indices.size).to.equal(4);
+        expect(indices.get(content)).to.equal(0);
+        expect(indices.get(content.querySelector('g'))).to.equal(1);
+        expect(indices.get(content.querySelector('#a'))).to.equal(2);
+        expect(indices.get(content.querySelector('#b'))).to.equal(3);
+
+        const [g, circle] = description.root.children;
+
+        expect(g.children[0].attributes.id).to.equal('a');
+        expect(circle.attributes.id).to.equal('b');
+    });
+
+    it('should throw on buffers that are not assets', () =>
+    {
+        expect(() => decodeSVGAsset(new ArrayBuffer(16))).to.throw();
+    });
+});
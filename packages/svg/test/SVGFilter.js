@@ -0,0 +1,131 @@
+const { FilterPrimitive, SVGFilter } = require('../');
+const { Matrix, Rectangle } = require('@pixi/math');
+
+describe('SVGFilter', () =>
+{
+    function length(value, unitType = SVGLength.SVG_LENGTHTYPE_NUMBER)
+    {
+        return { baseVal: { value, valueInSpecifiedUnits: value, unitType } };
+    }
+
+    function filterElement(filterUnits, primitiveUnits, x, y, width, height)
+    {
+        return {
+            filterUnits: { baseVal: filterUnits },
+            primitiveUnits: { baseVal: primitiveUnits },
+            x,
+            y,
+            width,
+            height,
+            children: [],
+        };
+    }
+
+    it('should resolve the filter region in objectBoundingBox units', () =>
+    {
+        const filter = new SVGFilter(filterElement(
+            SVGUnitTypes.SVG_UNIT_TYPE_OBJECTBOUNDINGBOX,
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            length(-10, SVGLength.SVG_LENGTHTYPE_PERCENTAGE),
+            length(-10, SVGLength.SVG_LENGTHTYPE_PERCENTAGE),
+            length(120, SVGLength.SVG_LENGTHTYPE_PERCENTAGE),
+            length(1.2),
+        ));
+
+        filter.resolveFilterRegion(new Rectangle(10, 20, 100, 50));
+
+        expect(filter.filterRegion.x).to.be.closeTo(0, 1e-6);
+        expect(filter.filterRegion.y).to.be.closeTo(15, 1e-6);
+        expect(filter.filterRegion.width).to.be.closeTo(120, 1e-6);
+        expect(filter.filterRegion.height).to.be.closeTo(60, 1e-6);
+    });
+
+    it('should resolve the filter region in userSpaceOnUse units', () =>
+    {
+        const filter = new SVGFilter(filterElement(
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            length(-5),
+            length(5),
+            length(200),
+            length(100),
+        ));
+
+        filter.resolveFilterRegion(new Rectangle(10, 20, 100, 50));
+
+        expect(filter.filterRegion.x).to.equal(-5);
+        expect(filter.filterRegion.y).to.equal(5);
+        expect(filter.filterRegion.width).to.equal(200);
+        expect(filter.filterRegion.height).to.equal(100);
+    });
+
+    it('should set the filter area to the filter region in world space', () =>
+    {
+        const filter = new SVGFilter(filterElement(
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            length(-5),
+            length(5),
+            length(20),
+            length(10),
+        ));
+        const target = { worldTransform: new Matrix(0, 2, -2, 0, 100, 100), filterArea: null };
+
+        filter.resolveFilterRegion(new Rectangle(0, 0, 10, 10));
+        filter.updateFilterArea(target);
+
+        expect(target.filterArea.x).to.equal(70);
+        expect(target.filterArea.y).to.equal(90);
+        expect(target.filterArea.width).to.equal(20);
+        expect(target.filterArea.height).to.equal(40);
+    });
+
+    it('should warn about primitive subregions', () =>
+    {
+        const warn = console.warn;
+        const warnings = [];
+        const primitiveElement = (attributes) => ({
+            getAttribute: (name) => (name in attributes ? attributes[name] : null),
+            hasAttribute: (name) => name in attributes,
+        });
+
+        console.warn = (...args) => warnings.push(args);
+
+        try
+        {
+            const primitive = new FilterPrimitive(primitiveElement({ in: 'SourceGraphic', result: 'copy' }));
+
+            expect(primitive.inputs).to.deep.equal(['SourceGraphic']);
+            expect(primitive.result).to.equal('copy');
+            expect(warnings.length).to.equal(0);
+
+            const subregionPrimitive = new FilterPrimitive(primitiveElement({ width: '50%' }));
+
+            expect(subregionPrimitive.inputs).to.deep.equal(['']);
+            expect(warnings.length).to.equal(1);
+        }
+        finally
+        {
+            console.warn = warn;
+        }
+    });
+
+    it('should destroy its primitives', () =>
+    {
+        const filter = new SVGFilter(filterElement(
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            SVGUnitTypes.SVG_UNIT_TYPE_USERSPACEONUSE,
+            length(0),
+            length(0),
+            length(10),
+            length(10),
+        ));
+        const destroyed = [];
+
+        filter.primitives.push({ destroy: () => destroyed.push(0) }, { destroy: () => destroyed.push(1) });
+        filter.destroy();
+
+        expect(destroyed).to.deep.equal([0, 1]);
+        expect(filter.primitives.length).to.equal(0);
+    });
+});
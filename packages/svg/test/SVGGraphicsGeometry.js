@@ -0,0 +1,113 @@
+const { SVGGraphicsNode } = require('../');
+
+describe('SVGGraphicsGeometry', () =>
+{
+    function strokedNode(draw)
+    {
+        const node = new SVGGraphicsNode({});
+
+        node.lineStyle({ width: 2, color: 0 });
+        draw(node);
+
+        return node;
+    }
+
+    describe('containsPoint', () =>
+    {
+        it('should hit fills and strokes of rectangles', () =>
+        {
+            const filled = new SVGGraphicsNode({});
+            const stroked = strokedNode((node) => node.drawRect(0, 0, 10, 10));
+
+            filled.beginFill(0).drawRect(0, 0, 10, 10).endFill();
+
+            expect(filled.geometry.containsPoint({ x: 5, y: 5 })).to.equal(true);
+            expect(stroked.geometry.containsPoint({ x: 5, y: 5 })).to.equal(false);
+            expect(stroked.geometry.containsPoint({ x: 10.5, y: 5 })).to.equal(true);
+            expect(stroked.geometry.containsPoint({ x: 5, y: -0.5 })).to.equal(true);
+        });
+
+        it('should hit points within the stroke of polylines', () =>
+        {
+            const node = strokedNode((node) => node.moveTo(0, 0).lineTo(10, 0).lineTo(10, 10).endFill());
+
+            expect(node.geometry.containsPoint({ x: 5, y: 1 })).to.equal(true);
+            expect(node.geometry.containsPoint({ x: 11, y: 5 })).to.equal(true);
+            expect(node.geometry.containsPoint({ x: 5, y: 1.5 })).to.equal(false);
+        });
+
+        it('should only hit the closing segment of closed polylines', () =>
+        {
+            const open = strokedNode((node) => node.moveTo(0, 0).lineTo(10, 0).lineTo(10, 10).endFill());
+            const closed = strokedNode((node) => node.moveTo(0, 0).lineTo(10, 0).lineTo(10, 10).closePath()
+                .endFill());
+
+            expect(open.geometry.containsPoint({ x: 5, y: 5.5 })).to.equal(false);
+            expect(closed.geometry.containsPoint({ x: 5, y: 5.5 })).to.equal(true);
+        });
+
+        it('should hit the strokes of circles and ellipses', () =>
+        {
+            const circle = strokedNode((node) => node.drawCircle(0, 0, 10));
+            const ellipse = strokedNode((node) => node.drawEllipse(0, 0, 20, 5));
+
+            expect(circle.geometry.containsPoint({ x: 0, y: 10.5 })).to.equal(true);
+            expect(circle.geometry.containsPoint({ x: 0, y: 0 })).to.equal(false);
+            expect(ellipse.geometry.containsPoint({ x: 20.5, y: 0 })).to.equal(true);
+            expect(ellipse.geometry.containsPoint({ x: 0, y: -5.5 })).to.equal(true);
+            expect(ellipse.geometry.containsPoint({ x: 0, y: 0 })).to.equal(false);
+            expect(ellipse.geometry.containsPoint({ x: 14.14, y: 3.54 })).to.equal(true);
+            expect(ellipse.geometry.containsPoint({ x: 14.14, y: 5.5 })).to.equal(false);
+        });
+
+        it('should hit the strokes of rounded rectangles around their corners', () =>
+        {
+            const node = strokedNode((node) => node.drawRoundedRect(0, 0, 20, 20, 5));
+
+            expect(node.geometry.containsPoint({ x: 10, y: 0 })).to.equal(true);
+            expect(node.geometry.containsPoint({ x: 5 - (5 * Math.SQRT1_2), y: 5 - (5 * Math.SQRT1_2) })).to.equal(true);
+            expect(node.geometry.containsPoint({ x: 0, y: 0 })).to.equal(false);
+            expect(node.geometry.containsPoint({ x: 10, y: 10 })).to.equal(false);
+        });
+
+        it('should reject points outside the bounds before testing the shapes', () =>
+        {
+            const node = strokedNode((node) => node.drawRect(0, 0, 10, 10));
+            let tested = 0;
+
+            node.geometry.strokeContains = () =>
+            {
+                tested++;
+
+                return true;
+            };
+
+            expect(node.geometry.containsPoint({ x: 12, y: 5 })).to.equal(false);
+            expect(node.geometry.containsPoint({ x: -100, y: -100 })).to.equal(false);
+            expect(tested).to.equal(0);
+            expect(node.geometry.containsPoint({ x: 5, y: 5 })).to.equal(true);
+            expect(tested).to.equal(1);
+        });
+    });
+
+    describe('trianglesContain', () =>
+    {
+        it('should hit the triangles of restored geometry', () =>
+        {
+            const node = new SVGGraphicsNode({});
+
+            node.geometry.restore({
+                bounds: [0, 0, 10, 10],
+                points: new Float32Array([0, 0, 10, 0, 10, 10, 0, 10]),
+                uvs: new Float32Array(8),
+                indices: new Uint16Array([0, 1, 2]),
+                batches: [],
+            }, []);
+
+            expect(node.geometry.containsPoint({ x: 8, y: 2 })).to.equal(true);
+            expect(node.geometry.containsPoint({ x: 10, y: 10 })).to.equal(true);
+            expect(node.geometry.containsPoint({ x: 2, y: 8 })).to.equal(false);
+            expect(node.geometry.containsPoint({ x: 20, y: 5 })).to.equal(false);
+        });
+    });
+});
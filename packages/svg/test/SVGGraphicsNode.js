@@ -0,0 +1,63 @@
+const { SVGGraphicsNode } = require('../');
+
+describe('SVGGraphicsNode', () =>
+{
+    function length(value)
+    {
+        return { baseVal: { valueInSpecifiedUnits: value, convertToSpecifiedUnits() { /* noop */ } } };
+    }
+
+    function strokedNode()
+    {
+        const node = new SVGGraphicsNode({});
+
+        node.lineStyle({ width: 2, color: 0 });
+
+        return node;
+    }
+
+    it('should close the strokes of circles', () =>
+    {
+        const node = strokedNode();
+
+        node.embedCircle({ cx: length(10), cy: length(10), r: length(5) });
+        node.endFill();
+
+        const shape = node.geometry.graphicsData[0].shape;
+
+        expect(node.geometry.graphicsData.length).to.equal(1);
+        expect(shape.closeStroke).to.equal(true);
+        expect(node.geometry.containsPoint({ x: 15, y: 10 })).to.equal(true);
+        expect(node.geometry.containsPoint({ x: 10, y: 10 })).to.equal(false);
+    });
+
+    it('should close the strokes of ellipses', () =>
+    {
+        const node = strokedNode();
+
+        node.embedEllipse({ cx: length(20), cy: length(10), rx: length(20), ry: length(10) });
+        node.endFill();
+
+        const shape = node.geometry.graphicsData[0].shape;
+
+        expect(node.geometry.graphicsData.length).to.equal(1);
+        expect(shape.closeStroke).to.equal(true);
+        expect(node.geometry.containsPoint({ x: 40, y: 10 })).to.equal(true);
+    });
+
+    it('should tessellate circles at the curve scale', () =>
+    {
+        const coarse = new SVGGraphicsNode({});
+        const fine = new SVGGraphicsNode({});
+        const circle = { cx: length(0), cy: length(0), r: length(50) };
+
+        fine.curveScale = 8;
+        coarse.embedCircle(circle);
+        fine.embedCircle(circle);
+        coarse.endFill();
+        fine.endFill();
+
+        expect(fine.geometry.graphicsData[0].shape.points.length)
+            .to.be.above(coarse.geometry.graphicsData[0].shape.points.length);
+    });
+});
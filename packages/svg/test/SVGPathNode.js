@@ -0,0 +1,48 @@
+const { FILL_RULE, SVGPathNode } = require('../');
+
+describe('SVGPathNode', () =>
+{
+    // A pentagram, whose center is wound twice.
+    const pentagram = { getAttribute: (name) => (name === 'points' ? '50,0 79,90 2,35 98,35 21,90' : null) };
+
+    it('should honor the fill rule of polygons', () =>
+    {
+        const nonzero = new SVGPathNode({});
+        const evenodd = new SVGPathNode({});
+
+        nonzero.beginFill(0);
+        nonzero.embedPolygon(pentagram, FILL_RULE.NONZERO);
+        evenodd.beginFill(0);
+        evenodd.embedPolygon(pentagram, FILL_RULE.EVENODD);
+
+        expect(nonzero.geometry.graphicsData[0].shape.fillRule).to.equal(FILL_RULE.NONZERO);
+        expect(evenodd.geometry.graphicsData[0].shape.fillRule).to.equal(FILL_RULE.EVENODD);
+        expect(nonzero.geometry.containsPoint({ x: 50, y: 50 })).to.equal(true);
+        expect(evenodd.geometry.containsPoint({ x: 50, y: 50 })).to.equal(false);
+        expect(evenodd.geometry.containsPoint({ x: 50, y: 20 })).to.equal(true);
+    });
+
+    it('should honor the fill rule of polylines', () =>
+    {
+        const node = new SVGPathNode({});
+
+        node.beginFill(0);
+        node.embedPolyline(pentagram, FILL_RULE.EVENODD);
+
+        expect(node.geometry.graphicsData[0].shape.fillRule).to.equal(FILL_RULE.EVENODD);
+        expect(node.geometry.containsPoint({ x: 50, y: 50 })).to.equal(false);
+        expect(node.geometry.containsPoint({ x: 50, y: 20 })).to.equal(true);
+    });
+
+    it('should not stroke the closing segment of polylines', () =>
+    {
+        const polyline = { getAttribute: (name) => (name === 'points' ? '0,0 100,0 100,100' : null) };
+        const node = new SVGPathNode({});
+
+        node.lineStyle({ width: 2, color: 0 });
+        node.embedPolyline(polyline);
+
+        expect(node.geometry.containsPoint({ x: 100, y: 50 })).to.equal(true);
+        expect(node.geometry.containsPoint({ x: 50, y: 50 })).to.equal(false);
+    });
+});
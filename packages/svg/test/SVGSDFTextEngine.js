@@ -0,0 +1,67 @@
+const { SVGSDFTextEngine } = require('../');
+const { Matrix } = require('@pixi/math');
+
+describe('SVGSDFTextEngine', () =>
+{
+    // An atlas with glyphs 48px apart, whose 32px distance fields extend 8px out of their origin.
+    function createAtlas()
+    {
+        const texture = {
+            baseTexture: { width: 64, height: 64 },
+            frame: { x: 16, y: 0, width: 16, height: 32 },
+        };
+
+        return {
+            fontSize: 48,
+            radius: 8,
+            measureOffsets: (characters) => characters.map((_, i) => i * 48),
+            getGlyph: (char) => ({ texture: char === ' ' ? null : texture, x: -8, y: -40, width: 16, height: 32 }),
+        };
+    }
+
+    it('should generate a quad for each glyph, scaled to the font size', async () =>
+    {
+        const engine = new SVGSDFTextEngine(createAtlas());
+
+        await engine.put(0, { x: 10, y: 100 }, 'A B', { fill: '#ff0000', fontSize: 24, letterSpacing: 2 });
+        engine.updateGlyphs();
+
+        expect(engine.batches.length).to.equal(1);
+        expect(engine.batches[0].indexCount).to.equal(12);
+        expect(Array.from(engine.batches[0].vertices)).to.deep.equal([
+            6, 80, 14, 80, 6, 96, 14, 96,
+            // The space is skipped, but its advance and letter spacing are not.
+            58, 80, 66, 80, 58, 96, 66, 96,
+        ]);
+
+        const uvs = engine.batches[0].geometry.getBuffer('aTextureCoord').data;
+        const colors = engine.batches[0].geometry.getBuffer('aColor').data;
+
+        expect(Array.from(uvs.slice(0, 8))).to.deep.equal([0.25, 0, 0.5, 0, 0.25, 0.5, 0.5, 0.5]);
+        expect(Array.from(colors.slice(0, 4))).to.deep.equal([1, 0, 0, 1]);
+    });
+
+    it('should transform the quads by the matrix of the text', async () =>
+    {
+        const engine = new SVGSDFTextEngine(createAtlas());
+
+        await engine.put(0, { x: 0, y: 0 }, 'A', { fontSize: 48 }, new Matrix().translate(100, 50));
+        engine.updateGlyphs();
+
+        expect(Array.from(engine.batches[0].vertices)).to.deep.equal([
+            92, 10, 108, 10, 92, 42, 108, 42,
+        ]);
+    });
+
+    it('should remove the quads of cleared text', async () =>
+    {
+        const engine = new SVGSDFTextEngine(createAtlas());
+
+        await engine.put(0, { x: 0, y: 0 }, 'A', { fontSize: 48 });
+        engine.updateGlyphs();
+        await engine.clear();
+        engine.updateGlyphs();
+
+        expect(engine.batches.length).to.equal(0);
+    });
+});
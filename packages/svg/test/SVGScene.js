@@ -0,0 +1,724 @@
+const { SVGScene, decodeSVGAsset, encodeSVGAsset } = require('../');
+const { Matrix } = require('@pixi/math');
+
+describe('SVGScene', () =>
+{
+    function parse(attributes, markup = '<rect width="10" height="10" />')
+    {
+        return new DOMParser().parseFromString(
+            `<svg xmlns="http://www.w3.org/2000/svg" ${attributes}>${markup}</svg>`,
+            'image/svg+xml',
+        ).documentElement;
+    }
+
+    function createScene(attributes)
+    {
+        return new SVGScene(parse(attributes));
+    }
+
+    function rootTransform(scene)
+    {
+        const { a, b, c, d, tx, ty } = scene.calculateRootTransform(new Matrix());
+
+        return [a, b, c, d, tx, ty];
+    }
+
+    function updateTransform(scene)
+    {
+        const parent = scene.enableTempParent();
+
+        scene.updateTransform();
+        scene.disableTempParent(parent);
+    }
+
+    it('should center the viewBox and scale it uniformly by default', () =>
+    {
+        const scene = createScene('width="200" height="100" viewBox="0 0 50 50"');
+
+        expect(scene.width).to.equal(200);
+        expect(scene.height).to.equal(100);
+        expect(rootTransform(scene)).to.deep.equal([2, 0, 0, 2, 50, 0]);
+    });
+
+    it('should honor the preserveAspectRatio of the root element', () =>
+    {
+        const slice = createScene('width="200" height="100" viewBox="10 0 50 50" preserveAspectRatio="xMinYMin slice"');
+        const none = createScene('width="200" height="100" viewBox="0 0 50 50" preserveAspectRatio="none"');
+
+        expect(rootTransform(slice)).to.deep.equal([4, 0, 0, 4, -40, 0]);
+        expect(rootTransform(none)).to.deep.equal([4, 0, 0, 2, 0, 0]);
+    });
+
+    it('should fit the viewBox again when it is resized', () =>
+    {
+        const scene = createScene('width="200" height="100" viewBox="0 0 50 50"');
+
+        scene.width = 100;
+
+        expect(rootTransform(scene)).to.deep.equal([2, 0, 0, 2, 0, 0]);
+
+        scene.height = 300;
+
+        expect(rootTransform(scene)).to.deep.equal([2, 0, 0, 2, 0, 100]);
+    });
+
+    it('should default to the size of the viewBox', () =>
+    {
+        const scene = createScene('viewBox="0 0 50 40"');
+
+        expect(scene.width).to.equal(50);
+        expect(scene.height).to.equal(40);
+        expect(rootTransform(scene)).to.deep.equal([1, 0, 0, 1, 0, 0]);
+    });
+
+    it('should convert absolute sizes into pixels', () =>
+    {
+        const scene = createScene('width="1in" height="0.5in" viewBox="0 0 2 1"');
+
+        expect(scene.width).to.equal(96);
+        expect(scene.height).to.equal(48);
+        expect(rootTransform(scene)).to.deep.equal([48, 0, 0, 48, 0, 0]);
+    });
+
+    it('should destroy the paint servers & filters of its nodes', () =>
+    {
+        const scene = new SVGScene(parse('viewBox="0 0 10 10"', `
+            <linearGradient id="gradient"><stop offset="0" stop-color="red" /></linearGradient>
+            <filter id="blur"><feGaussianBlur stdDeviation="2" /></filter>
+            <rect id="rect" width="10" height="10" fill="url(#gradient)" filter="url(#blur)" />
+        `));
+        const node = scene.getNodeById('rect');
+        const paintTexture = node.paintServers[0].paintTexture.baseTexture;
+        const filter = node.filters[0];
+
+        scene.destroy();
+
+        expect(node._destroyed).to.equal(true);
+        expect(paintTexture.destroyed).to.equal(true);
+        expect(filter.primitives.length).to.equal(0);
+        expect(scene.root).to.equal(null);
+        expect(scene.getNodeById('rect')).to.equal(null);
+    });
+
+    it('should stop observing its content when destroyed', () =>
+    {
+        const scene = new SVGScene(parse('viewBox="0 0 10 10"'), { observeContent: true });
+        let disconnected = false;
+
+        scene._observer.disconnect = () =>
+        {
+            disconnected = true;
+        };
+        scene.destroy();
+
+        expect(disconnected).to.equal(true);
+    });
+
+    describe('mutations', () =>
+    {
+        const SVG_NS = 'http://www.w3.org/2000/svg';
+
+        // Waits for the mutations to be delivered to the scene
+        function flush()
+        {
+            return new Promise((resolve) => setTimeout(resolve));
+        }
+
+        function createGradient(id)
+        {
+            const gradient = document.createElementNS(SVG_NS, 'linearGradient');
+            const stop = document.createElementNS(SVG_NS, 'stop');
+
+            gradient.id = id;
+            stop.setAttribute('stop-color', 'red');
+            gradient.appendChild(stop);
+
+            return gradient;
+        }
+
+        it('should rebuild the elements referencing an added paint server', async () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', `
+                <defs></defs>
+                <rect id="r" width="10" height="10" fill="url(#gradient)" />
+            `), { observeContent: true });
+            const node = scene.getNodeById('r');
+
+            expect(node.paintServers.length).to.equal(0);
+
+            scene.content.querySelector('defs').appendChild(createGradient('gradient'));
+            await flush();
+
+            expect(scene.getNodeById('r')).to.not.equal(node);
+            expect(scene.getNodeById('r').paintServers.length).to.equal(1);
+        });
+
+        it('should rebuild the elements referencing a removed paint server', async () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', `
+                <defs><linearGradient id="gradient"><stop stop-color="red" /></linearGradient></defs>
+                <rect id="r" width="10" height="10" fill="url(#gradient)" />
+            `), { observeContent: true });
+
+            expect(scene.getNodeById('r').paintServers.length).to.equal(1);
+
+            scene.content.getElementById('gradient').remove();
+            await flush();
+
+            expect(scene.getNodeById('r').paintServers.length).to.equal(0);
+        });
+
+        it('should rebuild the elements referencing an added or removed clip path', async () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', `
+                <defs></defs>
+                <rect id="r" width="10" height="10" clip-path="url(#clip)" />
+            `), { observeContent: true });
+            const clipPath = document.createElementNS(SVG_NS, 'clipPath');
+            const clipRect = document.createElementNS(SVG_NS, 'rect');
+
+            clipPath.id = 'clip';
+            clipRect.setAttribute('width', '5');
+            clipRect.setAttribute('height', '5');
+            clipPath.appendChild(clipRect);
+
+            expect(scene.getNodeById('r').mask).to.equal(null);
+
+            scene.content.querySelector('defs').appendChild(clipPath);
+            await flush();
+
+            expect(scene.getNodeById('r').mask).to.not.equal(null);
+
+            clipPath.remove();
+            await flush();
+
+            expect(scene.getNodeById('r').mask).to.equal(null);
+        });
+
+        it('should rebuild the elements referencing the old & new ids of a renamed element', async () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', `
+                <defs><linearGradient id="a"><stop stop-color="red" /></linearGradient></defs>
+                <rect id="r" width="10" height="10" fill="url(#b)" />
+                <rect id="s" width="10" height="10" fill="url(#a)" />
+            `), { observeContent: true });
+            const gradient = scene.content.getElementById('a');
+
+            expect(scene.getNodeById('r').paintServers.length).to.equal(0);
+            expect(scene.getNodeById('s').paintServers.length).to.equal(1);
+
+            gradient.id = 'b';
+            await flush();
+
+            expect(scene.getNodeById('r').paintServers.length).to.equal(1);
+            expect(scene.getNodeById('s').paintServers.length).to.equal(0);
+        });
+    });
+
+    it('should ignore patterns that reference themselves', () =>
+    {
+        const markup = `
+            <pattern id="a" width="10" height="10" patternUnits="userSpaceOnUse">
+                <rect id="a-content" width="5" height="5" fill="url(#a)" />
+            </pattern>
+            <pattern id="b" width="10" height="10" patternUnits="userSpaceOnUse">
+                <rect id="b-content" width="5" height="5" fill="url(#c)" />
+            </pattern>
+            <pattern id="c" width="10" height="10" patternUnits="userSpaceOnUse">
+                <rect id="c-content" width="5" height="5" stroke="url(#b)" />
+            </pattern>
+            <rect id="r" width="10" height="10" fill="url(#a)" />
+            <rect id="s" width="10" height="10" fill="url(#b)" />
+        `;
+        const warn = console.warn;
+        const warnings = [];
+        let scene;
+
+        console.warn = (...args) => warnings.push(args);
+
+        try
+        {
+            scene = new SVGScene(parse('viewBox="0 0 10 10"', markup));
+        }
+        finally
+        {
+            console.warn = warn;
+        }
+
+        expect(warnings.length).to.equal(2);
+        expect(scene.getNodeById('r').paintServers.length).to.equal(1);
+        expect(scene.getNodeById('s').paintServers.length).to.equal(1);
+        expect(scene.getNodeById('a-content').paintServers.length).to.equal(0);
+        expect(scene.getNodeById('b-content').paintServers.length).to.equal(1);
+        expect(scene.getNodeById('c-content').paintServers.length).to.equal(0);
+        expect(scene.getNodeById('c-content').geometry.getStyles(true).every((style) => !style.visible)).to.equal(true);
+    });
+
+    it('should hit-test each point once until the scene changes', () =>
+    {
+        const scene = createScene('viewBox="0 0 10 10"');
+        const hitTestNode = scene.hitTestNode;
+        let traversals = 0;
+
+        scene.hitTestNode = function countedHitTestNode(...args)
+        {
+            if (args[0] === this.root)
+            {
+                traversals++;
+            }
+
+            return hitTestNode.apply(this, args);
+        };
+        updateTransform(scene);
+
+        const rect = scene.content.querySelector('rect');
+
+        expect(scene.hitTest({ x: 5, y: 5 })).to.equal(rect);
+        expect(scene.containsPoint({ x: 5, y: 5 })).to.equal(true);
+        expect(traversals).to.equal(1);
+
+        scene.setVisible(rect, false);
+
+        expect(scene.hitTest({ x: 5, y: 5 })).to.equal(null);
+        expect(traversals).to.equal(2);
+
+        updateTransform(scene);
+        scene.hitTest({ x: 5, y: 5 });
+
+        expect(traversals).to.equal(3);
+    });
+
+    describe('runtime styles', () =>
+    {
+        function styleColors(node, line)
+        {
+            return node.geometry.getStyles(line).map((style) => style.color);
+        }
+
+        it('should recolor solid fills & strokes in place', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"',
+                '<rect id="r" width="10" height="10" fill="red" stroke="blue" stroke-width="2" />'));
+            const node = scene.getNodeById('r');
+
+            scene.setFill('r', 0x00ff00);
+            scene.setStroke('r', 'yellow');
+
+            expect(scene.getNodeById('r')).to.equal(node);
+            expect(styleColors(node, false)).to.deep.equal([0x00ff00]);
+            expect(styleColors(node, true)).to.deep.equal([0xffff00]);
+        });
+
+        it('should apply the opacity to solid fills in place', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', '<rect id="r" width="10" height="10" fill="red" />'));
+            const node = scene.getNodeById('r');
+
+            scene.setOpacity('r', 0.5);
+
+            expect(scene.getNodeById('r')).to.equal(node);
+            expect(node.geometry.getStyles(false)[0].alpha).to.equal(0.5);
+        });
+
+        it('should repaint the descendants of an element', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"',
+                '<g id="g" fill="red"><rect id="a" width="5" height="5" /><rect id="b" fill="blue" /></g>'));
+            const a = scene.getNodeById('a');
+
+            scene.setFill('g', 0x00ff00);
+
+            expect(scene.getNodeById('a')).to.equal(a);
+            expect(styleColors(a, false)).to.deep.equal([0x00ff00]);
+        });
+
+        it('should rebuild elements whose fill appears or disappears', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', '<rect id="r" width="10" height="10" />'));
+            const node = scene.getNodeById('r');
+
+            scene.setFill('r', 'none');
+
+            const hidden = scene.getNodeById('r');
+
+            expect(hidden).to.not.equal(node);
+            expect(hidden.geometry.getStyles(false).every((style) => !style.visible)).to.equal(true);
+
+            scene.setFill('r', 0xff0000);
+
+            expect(scene.getNodeById('r')).to.not.equal(hidden);
+            expect(styleColors(scene.getNodeById('r'), false)).to.deep.equal([0xff0000]);
+        });
+
+        it('should rebuild elements painted by paint servers', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', `
+                <linearGradient id="gradient"><stop offset="0" stop-color="red" /></linearGradient>
+                <rect id="r" width="10" height="10" fill="url(#gradient)" />
+            `));
+            const node = scene.getNodeById('r');
+
+            expect(node.paintServers.length).to.equal(1);
+
+            scene.setFill('r', 0x0000ff);
+
+            const recolored = scene.getNodeById('r');
+
+            expect(recolored).to.not.equal(node);
+            expect(recolored.paintServers.length).to.equal(0);
+            expect(styleColors(recolored, false)).to.deep.equal([0x0000ff]);
+
+            scene.setFill('r', 'url(#gradient)');
+
+            expect(scene.getNodeById('r')).to.not.equal(recolored);
+            expect(scene.getNodeById('r').paintServers.length).to.equal(1);
+        });
+
+        it('should warn about elements that do not exist', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"'));
+            const warn = console.warn;
+            const warnings = [];
+
+            console.warn = (...args) => warnings.push(args);
+
+            try
+            {
+                scene.setFill('missing', 0xff0000);
+                scene.setVisible('missing', false);
+            }
+            finally
+            {
+                console.warn = warn;
+            }
+
+            expect(warnings.length).to.equal(2);
+        });
+
+        it('should keep hidden elements hidden when they are rebuilt', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 10 10"', '<rect id="r" width="10" height="10" />'));
+            const element = scene.content.getElementById('r');
+
+            scene.setVisible('r', false);
+            scene.rebuildElement(element);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('r').visible).to.equal(false);
+            expect(scene.hitTest({ x: 5, y: 5 })).to.equal(null);
+
+            scene.setVisible(element, true);
+            scene.rebuildElement(element);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('r').visible).to.equal(true);
+            expect(scene.hitTest({ x: 5, y: 5 })).to.equal(element);
+        });
+
+        it('should hide every instance of an element', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"',
+                '<rect id="r" width="10" height="10" /><use href="#r" x="20" />'));
+
+            scene.setVisible('r', false);
+
+            expect(scene.querySelectorAll('#r').map((node) => node.visible)).to.deep.equal([false, false]);
+        });
+    });
+
+    describe('lookup', () =>
+    {
+        const markup = `
+            <defs><rect id="d" width="10" height="10" /></defs>
+            <rect id="r" width="10" height="10" />
+            <use id="u" href="#r" x="20" />
+            <use id="v" href="#d" y="20" />
+        `;
+
+        function isDescendant(node, ancestor)
+        {
+            for (let parent = node.parent; parent; parent = parent.parent)
+            {
+                if (parent === ancestor)
+                {
+                    return true;
+                }
+            }
+
+            return false;
+        }
+
+        it('should get the first instance of an element used by <use /> elements', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 40"', markup));
+            const nodes = scene.querySelectorAll('#r');
+
+            expect(nodes.length).to.equal(2);
+            expect(scene.getNodeById('r')).to.equal(nodes[0]);
+            expect(isDescendant(nodes[0], scene.getNodeById('u'))).to.equal(false);
+            expect(isDescendant(nodes[1], scene.getNodeById('u'))).to.equal(true);
+        });
+
+        it('should get the instance of an element only rendered by a <use /> element', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 40"', markup));
+            const node = scene.getNodeById('d');
+
+            expect(node).to.not.equal(null);
+            expect(isDescendant(node, scene.getNodeById('v'))).to.equal(true);
+            expect(scene.querySelectorAll('#d')).to.deep.equal([node]);
+        });
+
+        it('should report hits in the content of <use /> elements as the <use /> element', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 40"', markup));
+
+            updateTransform(scene);
+
+            expect(scene.hitTest({ x: 5, y: 5 })).to.equal(scene.content.getElementById('r'));
+            expect(scene.hitTest({ x: 25, y: 5 })).to.equal(scene.content.getElementById('u'));
+            expect(scene.hitTest({ x: 5, y: 25 })).to.equal(scene.content.getElementById('v'));
+        });
+
+        it('should not get elements that are not rendered', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 40"', markup));
+
+            expect(scene.getNodeById('missing')).to.equal(null);
+            expect(scene.querySelector('linearGradient, #missing')).to.equal(null);
+            expect(scene.querySelectorAll('defs')).to.deep.equal([]);
+        });
+    });
+
+    describe('curve LOD', () =>
+    {
+        const markup = `
+            <circle id="c" cx="5" cy="5" r="5" />
+            <path id="p" d="M 10 0 L 20 0 L 20 10 Z" />
+            <path id="q" d="M 20 0 Q 25 10 30 0" />
+        `;
+
+        function pointCount(node)
+        {
+            return node.geometry.graphicsData[0].shape.points.length;
+        }
+
+        it('should tessellate curves again when scaled beyond their curve scale', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+
+            updateTransform(scene);
+
+            const circle = scene.getNodeById('c');
+            const polygon = scene.getNodeById('p');
+            const curve = scene.getNodeById('q');
+
+            expect(circle.curveScale).to.equal(1);
+
+            scene.scale.set(3);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('c')).to.not.equal(circle);
+            expect(scene.getNodeById('c').curveScale).to.equal(4);
+            expect(pointCount(scene.getNodeById('c'))).to.be.above(pointCount(circle));
+            expect(scene.getNodeById('q')).to.not.equal(curve);
+            expect(scene.getNodeById('p')).to.equal(polygon);
+        });
+
+        it('should only tessellate the elements with curves again', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 40"', `
+                <ellipse id="e" cx="5" cy="5" rx="5" ry="2" />
+                <path id="a" d="M 0 0 A 5 5 0 0 1 10 0" />
+                <path id="b" d="M 0 0 c 0 5 10 5 10 0" />
+                <path id="t" d="M 0 0 Q 5 5 10 0 T 20 0" />
+                <path id="z" d="M 0 0 L 10 0 H 20 V 10 z" />
+                <rect id="rx" width="10" height="10" rx="2" />
+                <rect id="ry" width="10" height="10" ry="2" />
+                <rect id="r0" width="10" height="10" rx="0" />
+                <rect id="r" width="10" height="10" />
+                <line id="l" x2="10" y2="10" stroke="black" />
+                <polygon id="p" points="0,0 10,0 10,10" />
+            `));
+
+            updateTransform(scene);
+
+            const ids = ['e', 'a', 'b', 't', 'z', 'rx', 'ry', 'r0', 'r', 'l', 'p'];
+            const nodes = ids.map((id) => scene.getNodeById(id));
+
+            scene.scale.set(3);
+            updateTransform(scene);
+
+            const rebuilt = ids.filter((id, i) => scene.getNodeById(id) !== nodes[i]);
+
+            expect(rebuilt).to.deep.equal(['e', 'a', 'b', 't', 'rx', 'ry']);
+        });
+
+        it('should only tessellate curves again once the scale drops by the hysteresis', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+
+            scene.scale.set(3);
+            updateTransform(scene);
+
+            const circle = scene.getNodeById('c');
+
+            scene.scale.set(1);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('c')).to.equal(circle);
+
+            scene.scale.set(0.9);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('c')).to.not.equal(circle);
+            expect(scene.getNodeById('c').curveScale).to.equal(1);
+        });
+
+        it('should not tessellate curves beyond the maximum curve scale', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+
+            scene.scale.set(1000);
+            updateTransform(scene);
+
+            const circle = scene.getNodeById('c');
+
+            expect(circle.curveScale).to.equal(64);
+
+            scene.scale.set(2000);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('c')).to.equal(circle);
+        });
+
+        it('should not tessellate curves again when disabled', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup), { disableCurveLOD: true });
+            const circle = scene.getNodeById('c');
+
+            scene.scale.set(3);
+            updateTransform(scene);
+
+            expect(scene.getNodeById('c')).to.equal(circle);
+        });
+
+        it('should restore the curve scale of an asset', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+
+            scene.scale.set(3);
+            updateTransform(scene);
+
+            const restored = SVGScene.fromAsset(scene.toAsset());
+            const circle = restored.getNodeById('c');
+
+            expect(circle.geometry.baked).to.equal(true);
+            expect(circle.curveScale).to.equal(4);
+
+            restored.scale.set(3);
+            updateTransform(restored);
+
+            expect(restored.getNodeById('c')).to.equal(circle);
+
+            restored.scale.set(0.5);
+            updateTransform(restored);
+
+            expect(restored.getNodeById('c').geometry.baked).to.equal(false);
+        });
+    });
+
+    describe('assets', () =>
+    {
+        const markup = `
+            <path id="p" d="M 0 0 L 10 0 L 10 10 Z" fill="red" />
+            <rect id="r" width="5" height="5" fill="blue" />
+            <use id="u" href="#p" x="20" />
+        `;
+
+        it('should restore the shapes of an asset', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+            const asset = decodeSVGAsset(scene.toAsset());
+
+            expect(asset.shapes.map((shape) => [shape.element, shape.name, shape.id])).to.deep.equal([
+                [1, 'path', 'p'],
+                [2, 'rect', 'r'],
+                [1, 'path', 'p'],
+            ]);
+
+            const restored = SVGScene.fromAsset(encodeSVGAsset(asset));
+            const path = restored.getNodeById('p');
+            const rect = restored.getNodeById('r');
+
+            expect(path.geometry.baked).to.equal(true);
+            expect(rect.geometry.baked).to.equal(true);
+            expect(Array.from(path.geometry.points)).to.deep.equal(Array.from(asset.shapes[0].geometry.points));
+            expect(Array.from(rect.geometry.points)).to.deep.equal(Array.from(asset.shapes[1].geometry.points));
+        });
+
+        it('should not rebuild the scene to generate an asset', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+
+            scene.rebuildElement(scene.content.getElementById('r'));
+
+            const root = scene.root;
+            const rect = scene.getNodeById('r');
+            const asset = decodeSVGAsset(scene.toAsset());
+
+            expect(scene.root).to.equal(root);
+            expect(scene.getNodeById('r')).to.equal(rect);
+            expect(asset.shapes.map((shape) => shape.id)).to.deep.equal(['p', 'r', 'p']);
+            expect(SVGScene.fromAsset(encodeSVGAsset(asset)).getNodeById('r').geometry.baked).to.equal(true);
+        });
+
+        it('should list the shapes in the order they are populated in after a rebuild', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', `
+                <use id="u" href="#p" x="20" fill="blue" />
+                <g fill="red"><path id="p" d="M 0 0 L 10 0 L 10 10 Z" /></g>
+            `));
+
+            scene.rebuildElement(scene.content.getElementById('u'));
+
+            const asset = decodeSVGAsset(scene.toAsset());
+            const fillColors = (geometry) => geometry.batches.filter((batch) => !batch.line).map((batch) => batch.color);
+
+            expect(fillColors(asset.shapes[0].geometry)).to.deep.equal([0x0000ff]);
+            expect(fillColors(asset.shapes[1].geometry)).to.deep.equal([0xff0000]);
+
+            const restored = SVGScene.fromAsset(encodeSVGAsset(asset));
+            const [instance, path] = restored.querySelectorAll('#p');
+
+            expect(instance.geometry.baked).to.equal(true);
+            expect(path.geometry.baked).to.equal(true);
+            expect(instance.geometry.getStyles(false).map((style) => style.color)).to.deep.equal([0x0000ff]);
+            expect(path.geometry.getStyles(false).map((style) => style.color)).to.deep.equal([0xff0000]);
+        });
+
+        it('should rebuild shapes that do not match their elements', () =>
+        {
+            const scene = new SVGScene(parse('viewBox="0 0 40 10"', markup));
+            const asset = decodeSVGAsset(scene.toAsset());
+            const warn = console.warn;
+            const warnings = [];
+
+            asset.shapes[1].name = 'circle';
+            console.warn = (...args) => warnings.push(args);
+
+            try
+            {
+                const restored = SVGScene.fromAsset(encodeSVGAsset(asset));
+
+                expect(restored.getNodeById('p').geometry.baked).to.equal(true);
+                expect(restored.getNodeById('r').geometry.baked).to.equal(false);
+                expect(warnings.length).to.equal(1);
+            }
+            finally
+            {
+                console.warn = warn;
+            }
+        });
+    });
+});
@@ -0,0 +1,103 @@
+const { computeMarkerAngle, computeMarkerVertices } = require('../');
+
+describe('computeMarkerVertices', () =>
+{
+    function element(nodeName, attributes)
+    {
+        return { nodeName, getAttribute: (name) => (name in attributes ? attributes[name] : null) };
+    }
+
+    function round(vertices)
+    {
+        return vertices.map(({ x, y, inAngle, outAngle, type }) => ({
+            x,
+            y,
+            inAngle: Math.round(inAngle * 180 / Math.PI),
+            outAngle: Math.round(outAngle * 180 / Math.PI),
+            type,
+        }));
+    }
+
+    it('should place markers at the vertices of a polyline', () =>
+    {
+        const vertices = computeMarkerVertices(element('polyline', { points: '0,0 10,0 10,10' }));
+
+        expect(round(vertices)).to.deep.equal([
+            { x: 0, y: 0, inAngle: 0, outAngle: 0, type: 'start' },
+            { x: 10, y: 0, inAngle: 0, outAngle: 90, type: 'mid' },
+            { x: 10, y: 10, inAngle: 90, outAngle: 90, type: 'end' },
+        ]);
+    });
+
+    it('should close polygons at their start vertex', () =>
+    {
+        const vertices = computeMarkerVertices(element('polygon', { points: '0,0 10,0 10,10' }));
+
+        expect(round(vertices)).to.deep.equal([
+            { x: 0, y: 0, inAngle: -135, outAngle: 0, type: 'start' },
+            { x: 10, y: 0, inAngle: 0, outAngle: 90, type: 'mid' },
+            { x: 10, y: 10, inAngle: 90, outAngle: -135, type: 'mid' },
+            { x: 0, y: 0, inAngle: -135, outAngle: 0, type: 'end' },
+        ]);
+    });
+
+    it('should follow relative commands and the tangents of curves in paths', () =>
+    {
+        const vertices = computeMarkerVertices(element('path', { d: 'M 0 0 l 10 0 C 20 0 20 10 20 20' }));
+
+        expect(round(vertices)).to.deep.equal([
+            { x: 0, y: 0, inAngle: 0, outAngle: 0, type: 'start' },
+            { x: 10, y: 0, inAngle: 0, outAngle: 0, type: 'mid' },
+            { x: 20, y: 20, inAngle: 90, outAngle: 90, type: 'end' },
+        ]);
+    });
+
+    it('should place markers at both ends of a line', () =>
+    {
+        const length = (value) => ({ baseVal: { value } });
+        const line = { nodeName: 'line', x1: length(0), y1: length(0), x2: length(0), y2: length(5) };
+
+        expect(round(computeMarkerVertices(line))).to.deep.equal([
+            { x: 0, y: 0, inAngle: 90, outAngle: 90, type: 'start' },
+            { x: 0, y: 5, inAngle: 90, outAngle: 90, type: 'end' },
+        ]);
+    });
+
+    it('should not place markers on elements without vertices', () =>
+    {
+        expect(computeMarkerVertices(element('polyline', { points: '' }))).to.deep.equal([]);
+        expect(computeMarkerVertices(element('rect', {}))).to.deep.equal([]);
+    });
+});
+
+describe('computeMarkerAngle', () =>
+{
+    const vertex = (inAngle, outAngle, type = 'mid') => ({ x: 0, y: 0, inAngle, outAngle, type });
+
+    it('should bisect the directions at the vertex with orient="auto"', () =>
+    {
+        expect(computeMarkerAngle(vertex(0, Math.PI / 2), 'auto')).to.be.closeTo(Math.PI / 4, 1e-9);
+
+        // The smaller angle between the directions is bisected.
+        expect(computeMarkerAngle(vertex(3 * Math.PI / 4, -3 * Math.PI / 4), 'auto')).to.be.closeTo(Math.PI, 1e-9);
+    });
+
+    it('should reverse the start marker with orient="auto-start-reverse"', () =>
+    {
+        expect(computeMarkerAngle(vertex(0, 0, 'start'), 'auto-start-reverse')).to.be.closeTo(Math.PI, 1e-9);
+        expect(computeMarkerAngle(vertex(0, 0, 'end'), 'auto-start-reverse')).to.be.closeTo(0, 1e-9);
+    });
+
+    it('should parse fixed angles', () =>
+    {
+        const start = vertex(1, 1, 'start');
+
+        expect(computeMarkerAngle(start, '90')).to.be.closeTo(Math.PI / 2, 1e-9);
+        expect(computeMarkerAngle(start, '90deg')).to.be.closeTo(Math.PI / 2, 1e-9);
+        expect(computeMarkerAngle(start, '100grad')).to.be.closeTo(Math.PI / 2, 1e-9);
+        expect(computeMarkerAngle(start, '0.25turn')).to.be.closeTo(Math.PI / 2, 1e-9);
+        expect(computeMarkerAngle(start, '1rad')).to.equal(1);
+        expect(computeMarkerAngle(start, null)).to.equal(0);
+        expect(computeMarkerAngle(start, 'invalid')).to.equal(0);
+    });
+});
@@ -0,0 +1,65 @@
+const { computeSignedDistanceField } = require('../');
+
+describe('computeSignedDistanceField', () =>
+{
+    // Rasterizes a square, whose pixels in [min, max) are covered, into a size x size grid.
+    function rasterizeSquare(size, min, max)
+    {
+        const coverage = new Uint8ClampedArray(size * size * 4);
+
+        for (let y = min; y < max; y++)
+        {
+            for (let x = min; x < max; x++)
+            {
+                coverage[(4 * ((y * size) + x)) + 3] = 255;
+            }
+        }
+
+        return coverage;
+    }
+
+    it('should encode the signed distance to the outline in the alpha channel', () =>
+    {
+        const field = computeSignedDistanceField(rasterizeSquare(20, 5, 15), 20, 20, 4);
+        const alpha = (x, y) => field[(4 * ((y * 20) + x)) + 3];
+
+        // Inside, one pixel away from the nearest uncovered pixel
+        expect(alpha(5, 10)).to.equal(Math.round(255 * (0.5 + (1 / 8))));
+        // Outside, one pixel away from the nearest covered pixel
+        expect(alpha(4, 10)).to.equal(Math.round(255 * (0.5 - (1 / 8))));
+        // Beyond the radius
+        expect(alpha(10, 10)).to.equal(255);
+        expect(alpha(0, 0)).to.equal(0);
+    });
+
+    it('should increase monotonically towards the inside of the glyph', () =>
+    {
+        const field = computeSignedDistanceField(rasterizeSquare(20, 5, 15), 20, 20, 8);
+
+        for (let x = 1; x <= 10; x++)
+        {
+            expect(field[(4 * ((10 * 20) + x)) + 3]).to.be.at.least(field[(4 * ((10 * 20) + x - 1)) + 3]);
+        }
+    });
+
+    it('should place partially covered pixels on the outline', () =>
+    {
+        const coverage = new Uint8ClampedArray(3 * 3 * 4);
+
+        coverage[(4 * 4) + 3] = 128;
+
+        const field = computeSignedDistanceField(coverage, 3, 3, 4);
+
+        expect(field[(4 * 4) + 3]).to.equal(128);
+        expect(field[3]).to.be.lessThan(128);
+    });
+
+    it('should write white pixels into the output', () =>
+    {
+        const out = new Uint8ClampedArray(2 * 2 * 4);
+        const field = computeSignedDistanceField(new Uint8ClampedArray(2 * 2 * 4), 2, 2, 4, out);
+
+        expect(field).to.equal(out);
+        expect(Array.from(out.slice(0, 3))).to.deep.equal([255, 255, 255]);
+    });
+});
@@ -0,0 +1,50 @@
+const { computeViewBoxTransform } = require('../');
+
+function preserveAspectRatio(align, meetOrSlice = SVGPreserveAspectRatio.SVG_MEETORSLICE_MEET)
+{
+    return { align: SVGPreserveAspectRatio[`SVG_PRESERVEASPECTRATIO_${align}`], meetOrSlice };
+}
+
+function expectTransform(matrix, a, d, tx, ty)
+{
+    expect(matrix.a).to.be.closeTo(a, 1e-9);
+    expect(matrix.b).to.equal(0);
+    expect(matrix.c).to.equal(0);
+    expect(matrix.d).to.be.closeTo(d, 1e-9);
+    expect(matrix.tx).to.be.closeTo(tx, 1e-9);
+    expect(matrix.ty).to.be.closeTo(ty, 1e-9);
+}
+
+describe('computeViewBoxTransform', () =>
+{
+    const viewBox = { x: 0, y: 0, width: 100, height: 50 };
+
+    it('should scale the view-box uniformly to fit the viewport', () =>
+    {
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMIDYMID'), 400, 400), 4, 4, 0, 100);
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMIDYMID'), 100, 200), 1, 1, 0, 75);
+    });
+
+    it('should scale the view-box uniformly to cover the viewport when slicing', () =>
+    {
+        const slice = SVGPreserveAspectRatio.SVG_MEETORSLICE_SLICE;
+
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMIDYMID', slice), 400, 400),
+            8, 8, -200, 0);
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMINYMIN', slice), 400, 400),
+            8, 8, 0, 0);
+    });
+
+    it('should align the view-box in the viewport', () =>
+    {
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMINYMIN'), 400, 400), 4, 4, 0, 0);
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMAXYMAX'), 400, 400), 4, 4, 0, 200);
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMAXYMID'), 400, 100), 2, 2, 200, 0);
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('XMIDYMIN'), 400, 100), 2, 2, 100, 0);
+    });
+
+    it('should stretch the view-box non-uniformly if the aspect ratio is not preserved', () =>
+    {
+        expectTransform(computeViewBoxTransform(viewBox, preserveAspectRatio('NONE'), 400, 400), 4, 8, 0, 0);
+    });
+});
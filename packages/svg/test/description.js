@@ -0,0 +1,33 @@
+const fs = require('fs');
+const vm = require('vm');
+
+describe('@pixi-essentials/svg/description', () =>
+{
+    it('should run in Node.js without PixiJS or a DOM', () =>
+    {
+        const module = { exports: {} };
+        const required = [];
+
+        // A fresh context has none of the browser's globals.
+        vm.runInNewContext(fs.readFileSync(require.resolve('../description'), 'utf8'), {
+            module,
+            exports: module.exports,
+            require: (id) =>
+            {
+                required.push(id);
+
+                return {};
+            },
+        });
+
+        const { parseSVGDescription } = module.exports;
+        const description = parseSVGDescription(
+            '<svg xmlns="http://www.w3.org/2000/svg"><rect width="10" height="10" /></svg>',
+        );
+
+        expect(required).to.deep.equal([]);
+        expect(description.root.name).to.equal('svg');
+        expect(description.root.children[0].attributes.width).to.equal('10');
+        expect(typeof module.exports.loadSVGDescription).to.equal('function');
+    });
+});
@@ -1 +1,17 @@
-require('./Path');
\ No newline at end of file
+require('./computeMarkerVertices');
+require('./computeSignedDistanceField');
+require('./computeViewBoxTransform');
+require('./description');
+require('./layoutText');
+require('./MarkerInstances');
+require('./PaintProvider');
+require('./Path');
+require('./parseStyleSheet');
+require('./parseSVGDescription');
+require('./SVGAsset');
+require('./SVGFilter');
+require('./SVGGraphicsGeometry');
+require('./SVGGraphicsNode');
+require('./SVGPathNode');
+require('./SVGScene');
+require('./SVGSDFTextEngine');
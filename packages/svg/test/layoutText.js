@@ -0,0 +1,69 @@
+const { layoutText } = require('../');
+
+describe('layoutText', () =>
+{
+    let container;
+
+    // The text is rendered in the document, so that the geometry of text paths can be measured.
+    function createText(markup)
+    {
+        container = document.createElement('div');
+        container.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="1000" height="100">
+            <path id="line" d="M0,0 L1000,0" />
+            ${markup}
+        </svg>`;
+        document.body.appendChild(container);
+
+        return container.querySelector('text');
+    }
+
+    afterEach(() =>
+    {
+        if (container)
+        {
+            document.body.removeChild(container);
+            container = null;
+        }
+    });
+
+    it('should position characters at their absolute positions', () =>
+    {
+        const runs = layoutText(createText('<text x="10 50" y="20">AB</text>'));
+
+        expect(runs.length).to.equal(2);
+        expect(runs[0].content).to.equal('A');
+        expect(runs[0].position).to.deep.equal({ x: 10, y: 20 });
+        expect(runs[1].content).to.equal('B');
+        expect(runs[1].position).to.deep.equal({ x: 50, y: 20 });
+    });
+
+    it('should ignore the absolute positions of characters on a text path', () =>
+    {
+        const runs = layoutText(createText(`
+            <text x="300" y="40"><textPath href="#line">AB<tspan x="500" y="60">C</tspan></textPath></text>
+        `));
+
+        expect(runs.map((run) => run.content)).to.deep.equal(['A', 'B', 'C']);
+
+        // Glyphs on a text path are centered on the point along the path.
+        expect(runs[0].matrix.tx).to.be.lessThan(50);
+        expect(runs[1].matrix.tx).to.be.greaterThan(runs[0].matrix.tx);
+        expect(runs[2].matrix.tx).to.be.greaterThan(runs[1].matrix.tx);
+        expect(runs[2].matrix.tx).to.be.lessThan(100);
+
+        for (let i = 0; i < runs.length; i++)
+        {
+            expect(runs[i].position.y).to.equal(0);
+        }
+    });
+
+    it('should shift characters on a text path by their relative positions', () =>
+    {
+        const runs = layoutText(createText(`
+            <text><textPath href="#line">AB<tspan dx="100" dy="5">C</tspan></textPath></text>
+        `));
+
+        expect(runs[2].matrix.tx - runs[1].matrix.tx).to.be.greaterThan(100);
+        expect(runs[2].position.y).to.equal(5);
+    });
+});
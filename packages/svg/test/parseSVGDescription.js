@@ -0,0 +1,62 @@
+const { parseSVGDescription } = require('../');
+
+describe('parseSVGDescription', () =>
+{
+    it('should parse elements, attributes, and text', () =>
+    {
+        const description = parseSVGDescription(`<?xml version="1.0"?>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+                <!-- A comment -->
+                <rect x="10" y='20' width="30" height="40" fill="red"/>
+                <text x="0" y="50">Hello &amp; <tspan>world</tspan></text>
+            </svg>`);
+
+        expect(description.version).to.equal(1);
+        expect(description.root.name).to.equal('svg');
+        expect(description.root.attributes.viewBox).to.equal('0 0 100 100');
+        expect(description.root.children.length).to.equal(2);
+
+        const [rect, text] = description.root.children;
+
+        expect(rect).to.deep.equal({
+            name: 'rect',
+            attributes: { x: '10', y: '20', width: '30', height: '40', fill: 'red' },
+            children: [],
+        });
+        expect(text.children[0]).to.equal('Hello & ');
+        expect(text.children[1].name).to.equal('tspan');
+        expect(text.children[1].children).to.deep.equal(['world']);
+    });
+
+    it('should expand entities declared in the document type declaration', () =>
+    {
+        const description = parseSVGDescription(`<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" [
+                <!ENTITY ns_svg "http://www.w3.org/2000/svg">
+            ]>
+            <svg xmlns="&ns_svg;"><g fill="&#x23;ff0000"/></svg>`);
+
+        expect(description.root.attributes.xmlns).to.equal('http://www.w3.org/2000/svg');
+        expect(description.root.children[0].attributes.fill).to.equal('#ff0000');
+    });
+
+    it('should drop elements that are not rendered', () =>
+    {
+        const description = parseSVGDescription(`<svg>
+                <title>Title</title>
+                <metadata><rdf:RDF/></metadata>
+                <sodipodi:namedview/>
+                <style><![CDATA[rect { fill: blue; }]]></style>
+            </svg>`);
+
+        expect(description.root.children.length).to.equal(1);
+        expect(description.root.children[0].name).to.equal('style');
+        expect(description.root.children[0].children).to.deep.equal(['rect { fill: blue; }']);
+    });
+
+    it('should throw on malformed markup', () =>
+    {
+        expect(() => parseSVGDescription('<svg><g></svg>')).to.throw();
+        expect(() => parseSVGDescription('<svg>')).to.throw();
+        expect(() => parseSVGDescription('<html></html>')).to.throw();
+    });
+});
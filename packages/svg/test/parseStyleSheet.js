@@ -0,0 +1,130 @@
+const { calculateSpecificity, parseStyleDeclarations, parseStyleSheet, StyleResolver } = require('../');
+
+describe('parseStyleSheet', () =>
+{
+    it('should split selector lists into rules with their own specificity', () =>
+    {
+        const rules = parseStyleSheet('rect, #a.b { fill: red }');
+
+        expect(rules.map((rule) => rule.selector)).to.deep.equal(['rect', '#a.b']);
+        expect(rules.map((rule) => rule.specificity)).to.deep.equal([
+            calculateSpecificity('rect'),
+            calculateSpecificity('#a.b'),
+        ]);
+        expect(rules[0].declarations).to.deep.equal([{ property: 'fill', value: 'red', important: false }]);
+    });
+
+    it('should number the rules in source order, starting at the offset', () =>
+    {
+        const rules = parseStyleSheet('a, b { fill: red } c { fill: blue }', 5);
+
+        expect(rules.map((rule) => rule.order)).to.deep.equal([5, 6, 7]);
+    });
+
+    it('should skip at-rules, comments, and CDATA markers', () =>
+    {
+        const rules = parseStyleSheet(`<![CDATA[
+            @import url("a;b.css");
+            /* .commented { fill: red } */
+            @media (min-width: 100px) { .wide { fill: red } }
+            .narrow { fill: blue }
+        ]]>`);
+
+        expect(rules.length).to.equal(1);
+        expect(rules[0].selector).to.equal('.narrow');
+        expect(rules[0].order).to.equal(0);
+    });
+});
+
+describe('calculateSpecificity', () =>
+{
+    it('should count ids, classes, and types', () =>
+    {
+        expect(calculateSpecificity('rect')).to.equal(0x000001);
+        expect(calculateSpecificity('.a')).to.equal(0x000100);
+        expect(calculateSpecificity('#a')).to.equal(0x010000);
+        expect(calculateSpecificity('g > rect#a.b.c')).to.equal(0x010202);
+    });
+
+    it('should count attributes, pseudo-classes, and pseudo-elements', () =>
+    {
+        expect(calculateSpecificity('rect[fill]')).to.equal(0x000101);
+        expect(calculateSpecificity('rect:first-child')).to.equal(0x000101);
+        expect(calculateSpecificity('text::first-line')).to.equal(0x000002);
+    });
+
+    it('should count the arguments of :not() but not those of :where()', () =>
+    {
+        expect(calculateSpecificity('rect:not(.a)')).to.equal(0x000101);
+        expect(calculateSpecificity('rect:where(.a, #b)')).to.equal(0x000001);
+    });
+
+    it('should order the specificities of selectors', () =>
+    {
+        expect(calculateSpecificity('#a')).to.be.greaterThan(calculateSpecificity('.a.b.c.d.e.f.g.h.i.j.k'));
+        expect(calculateSpecificity('.a')).to.be.greaterThan(calculateSpecificity('svg g rect'));
+    });
+});
+
+describe('parseStyleDeclarations', () =>
+{
+    it('should parse declarations with lowercase properties', () =>
+    {
+        expect(parseStyleDeclarations('FILL: red; stroke-width:2')).to.deep.equal([
+            { property: 'fill', value: 'red', important: false },
+            { property: 'stroke-width', value: '2', important: false },
+        ]);
+    });
+
+    it('should parse !important annotations', () =>
+    {
+        expect(parseStyleDeclarations('fill: red ! important')).to.deep.equal([
+            { property: 'fill', value: 'red', important: true },
+        ]);
+    });
+
+    it('should not split at semicolons in strings or parentheses', () =>
+    {
+        expect(parseStyleDeclarations('fill: url("#a;b"); font-family: "x;y"')).to.deep.equal([
+            { property: 'fill', value: 'url("#a;b")', important: false },
+            { property: 'font-family', value: '"x;y"', important: false },
+        ]);
+    });
+
+    it('should skip empty and malformed declarations', () =>
+    {
+        expect(parseStyleDeclarations('')).to.deep.equal([]);
+        expect(parseStyleDeclarations(';fill;: red;stroke: ;opacity: 0.5;')).to.deep.equal([
+            { property: 'opacity', value: '0.5', important: false },
+        ]);
+    });
+});
+
+describe('StyleResolver', () =>
+{
+    it('should order the rules of later stylesheets after unsupported rules are dropped', () =>
+    {
+        const content = new DOMParser().parseFromString(`
+            <svg xmlns="http://www.w3.org/2000/svg">
+                <style>rect:unsupported-a { fill: red } rect:unsupported-b { fill: red } rect { fill: green }</style>
+                <style>rect { fill: blue }</style>
+                <rect width="10" height="10" />
+            </svg>
+        `, 'image/svg+xml').documentElement;
+        const warn = console.warn;
+
+        console.warn = () => null;
+
+        try
+        {
+            const styleResolver = new StyleResolver(content);
+
+            expect(styleResolver.rules.length).to.equal(2);
+            expect(styleResolver.getPropertyValue(content.querySelector('rect'), 'fill')).to.equal('blue');
+        }
+        finally
+        {
+            console.warn = warn;
+        }
+    });
+});